@@ -28,7 +28,7 @@ import {
     updateUserProfile,
     UserProfile
 } from '../services/firestoreHelpers';
-import { formatDate } from '../utils/dateUtils'; // Assume you have this utility
+import { getCurrentDate, getActiveTimeZone } from '../utils/dateUtils';
 
 interface FoodItem {
     id: string;
@@ -139,7 +139,7 @@ export default function CalorieTracker() {
             }
 
             setLoading(true);
-            const today = formatDate(new Date());
+            const today = getCurrentDate();
             const intakeRef = collection(db, 'calorieIntake');
             const q = query(
                 intakeRef,
@@ -223,12 +223,13 @@ export default function CalorieTracker() {
             const userId = auth.currentUser?.uid;
             if (!userId) throw new Error('User not logged in');
 
-            const today = formatDate(new Date());
+            const today = getCurrentDate();
             const multiplier = portionNum / 100;
 
             const intakeItem = {
                 userId,
                 date: today,
+                timeZone: getActiveTimeZone(),
                 name: selectedFood.name,
                 portion: portionNum,
                 calories: selectedFood.calories * multiplier,
@@ -16,8 +16,10 @@ import { useFocusEffect } from '@react-navigation/native';
 import { GoalType, GoalTimeFrame } from '../models/FitnessGoalModels'; 
 import GoalsTrackingService from '../services/GoalsTrackingService';
 import RecommendationsService from '../services/RecommendationsService';
+import { getTotalSteps } from '../services/stepLedgerService';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { formatDate } from '../utils/dateUtils';
+import { useStepTracking } from '../hooks/useStepTracking';
 
 export default function MainMenu({ navigation }: { navigation: any }) {
   const [loading, setLoading] = useState(true);
@@ -26,6 +28,7 @@ export default function MainMenu({ navigation }: { navigation: any }) {
   const [todayCalories, setTodayCalories] = useState(0);
   const [recommendations, setRecommendations] = useState<any[]>([]);
   const [userRank, setUserRank] = useState<number | null>(null);
+  const tracking = useStepTracking();
   
   const username = auth.currentUser?.displayName || 'User';
 
@@ -42,6 +45,16 @@ export default function MainMenu({ navigation }: { navigation: any }) {
     }, [])
   );
 
+  // Saved steps move from the live count into the ledger, so reload today's total after each save
+  useEffect(() => {
+    if (!tracking.lastSavedAt || !auth.currentUser) return;
+
+    const today = formatDate(new Date());
+    getTotalSteps(auth.currentUser.uid, today, today)
+      .then(setTodaySteps)
+      .catch(error => console.error('Error refreshing today\'s steps:', error));
+  }, [tracking.lastSavedAt]);
+
   const loadUserData = async () => {
     try {
       setLoading(true);
@@ -91,33 +104,10 @@ export default function MainMenu({ navigation }: { navigation: any }) {
       // Get steps directly from stepHistory collection instead of relying on goals
       let steps = 0;
       
-      // Query step history for today's steps
-      const stepHistoryRef = collection(db, 'stepHistory');
-      const stepQuery = query(
-        stepHistoryRef,
-        where('userId', '==', auth.currentUser?.uid),
-        where('date', '==', today)
-      );
-      
-      const stepSnapshot = await getDocs(stepQuery);
-      
-      // MODIFIED: Check if we have any entries
-      if (!stepSnapshot.empty) {
-        // MODIFIED: Use only the most recent entry instead of summing multiple entries
-        // Sort documents by timestamp to get the most recent
-        const sortedDocs = stepSnapshot.docs.sort((a, b) => {
-          const timestampA = a.data().timestamp?.toMillis() || 0;
-          const timestampB = b.data().timestamp?.toMillis() || 0;
-          return timestampB - timestampA; // Sort in descending order (newest first)
-        });
-        
-        // Use the most recent document
-        const latestDoc = sortedDocs[0];
-        steps = latestDoc.data().steps || 0;
-        
-        console.log(`Found ${steps} steps directly from step history for today (${today})`);
-      } else {
-        console.log('No steps found in history for today');
+      // Today's total from the step ledger, the same figure goals are synced against
+      if (auth.currentUser) {
+        steps = await getTotalSteps(auth.currentUser.uid, today, today);
+        console.log(`Found ${steps} steps in step history for today (${today})`);
       }
       
       // Still check goals as a backup if no steps found in history
@@ -169,7 +159,7 @@ export default function MainMenu({ navigation }: { navigation: any }) {
           <View style={styles.quickStats}>
             <View style={styles.statItem}>
               <Ionicons name="footsteps-outline" size={24} color="#fff" />
-              <Text style={styles.statValue}>{todaySteps.toLocaleString()}</Text>
+              <Text style={styles.statValue}>{(todaySteps + tracking.unsavedSteps).toLocaleString()}</Text>
               <Text style={styles.statLabel}>Steps</Text>
             </View>
             <View style={styles.statItem}>
@@ -219,7 +209,13 @@ export default function MainMenu({ navigation }: { navigation: any }) {
           </View>
           <View style={styles.menuContent}>
             <Text style={styles.menuText}>Step Tracker</Text>
-            <Text style={styles.description}>Track your daily steps and activity</Text>
+            <Text style={styles.description}>
+              {tracking.status === 'running'
+                ? `Counting now: ${tracking.steps.toLocaleString()} steps this session`
+                : tracking.status === 'paused'
+                  ? 'Paused - tap to resume counting'
+                  : 'Track your daily steps and activity'}
+            </Text>
           </View>
           <Ionicons name="chevron-forward" size={24} color="#ccc" />
         </TouchableOpacity>
@@ -237,6 +233,20 @@ export default function MainMenu({ navigation }: { navigation: any }) {
           </View>
           <Ionicons name="chevron-forward" size={24} color="#ccc" />
         </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={styles.menuItem} 
+          onPress={() => navigation.navigate('sleep-tracker')}
+        >
+          <View style={[styles.menuIcon, { backgroundColor: '#e8eaf6' }]}>
+            <Ionicons name="moon-outline" size={28} color="#3F51B5" />
+          </View>
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Sleep Tracker</Text>
+            <Text style={styles.description}>Log your nights and see how well you recover</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={24} color="#ccc" />
+        </TouchableOpacity>
       </View>
       
       {/* Community Section - NEW */}
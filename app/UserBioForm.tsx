@@ -12,6 +12,7 @@ import {
 import { Picker } from '@react-native-picker/picker';
 import { auth, db } from './firebaseConfig';
 import { updateUserProfile } from '../services/firestoreHelpers';
+import { logWeighIn } from '../services/weightTrackingService';
 
 export default function UserBioForm({ navigation }: { navigation: any }) {
   // Form state
@@ -95,6 +96,9 @@ export default function UserBioForm({ navigation }: { navigation: any }) {
         createdAt: new Date(),
       });
 
+      // Start the weigh-in log with the weight entered here
+      await logWeighIn(weightKg);
+
       Alert.alert(
         'Success',
         'Your profile has been created!',
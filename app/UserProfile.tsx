@@ -15,7 +15,21 @@ import { LineChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
 import { auth, db } from './firebaseConfig';
 import { updateUserProfile } from '../services/firestoreHelpers';
-import { formatDate, formatReadableDate } from '../utils/dateUtils';
+import { setCachedHeight } from '../services/healthDataService';
+import { logWeighIn } from '../services/weightTrackingService';
+import { useStepTracking } from '../hooks/useStepTracking';
+import {
+    DEFAULT_WORKOUT_TIME,
+    WORKOUT_TIME_LABELS,
+    WorkoutTimePreference
+} from '../services/workoutWindowPlanner';
+import {
+    formatDate,
+    formatReadableDate,
+    setWeekStartPreference,
+    DEFAULT_WEEK_START,
+    WeekStartDay
+} from '../utils/dateUtils';
 import {
     collection,
     query,
@@ -38,9 +52,17 @@ interface UserData {
     dailyCalorieGoal: number;
     totalSteps: number;
     totalCalories: number;
+    weekStart?: WeekStartDay;
+    preferredWorkoutTime?: WorkoutTimePreference;
     joinDate?: Date;
 }
 
+const WEEK_START_LABELS: { [key in WeekStartDay]: string } = {
+    monday: 'Monday',
+    sunday: 'Sunday',
+    saturday: 'Saturday',
+};
+
 interface HistoryItem {
     date: string;
     readableDate: string;
@@ -56,6 +78,7 @@ export default function UserProfile({ navigation }: { navigation: any }) {
     const [editFormData, setEditFormData] = useState<Partial<UserData>>({});
     const [stepsHistory, setStepsHistory] = useState<HistoryItem[]>([]);
     const [caloriesHistory, setCaloriesHistory] = useState<HistoryItem[]>([]);
+    const tracking = useStepTracking();
 
     useEffect(() => {
         loadUserProfile();
@@ -84,6 +107,8 @@ export default function UserProfile({ navigation }: { navigation: any }) {
                     age: data.age,
                     gender: data.gender,
                     fitnessGoal: data.fitnessGoal,
+                    weekStart: data.weekStart || DEFAULT_WEEK_START,
+                    preferredWorkoutTime: data.preferredWorkoutTime || DEFAULT_WORKOUT_TIME,
                 });
             } else {
                 // Fallback to basic user data
@@ -254,6 +279,13 @@ export default function UserProfile({ navigation }: { navigation: any }) {
                 dailyCalorieGoal,
                 updatedAt: new Date(),
             });
+            setWeekStartPreference(editFormData.weekStart);
+            setCachedHeight(auth.currentUser.uid, editFormData.height);
+
+            // A changed weight counts as today's weigh-in
+            if (editFormData.weight !== userData?.weight) {
+                await logWeighIn(editFormData.weight!);
+            }
 
             // Update local state
             setUserData(prev => {
@@ -357,10 +389,26 @@ export default function UserProfile({ navigation }: { navigation: any }) {
                             <Text style={styles.infoLabel}>Daily Calorie Goal:</Text>
                             <Text style={styles.infoValue}>{userData?.dailyCalorieGoal || 0} kcal</Text>
                         </View>
+                        <View style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>Week Starts On:</Text>
+                            <Text style={styles.infoValue}>{WEEK_START_LABELS[userData?.weekStart || DEFAULT_WEEK_START]}</Text>
+                        </View>
+                        <View style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>Preferred Workout Time:</Text>
+                            <Text style={styles.infoValue}>{WORKOUT_TIME_LABELS[userData?.preferredWorkoutTime || DEFAULT_WORKOUT_TIME]}</Text>
+                        </View>
                         <View style={styles.infoRow}>
                             <Text style={styles.infoLabel}>Total Steps:</Text>
                             <Text style={styles.infoValue}>{userData?.totalSteps || 0}</Text>
                         </View>
+                        {tracking.status !== 'stopped' && (
+                            <View style={styles.infoRow}>
+                                <Text style={styles.infoLabel}>
+                                    {tracking.status === 'paused' ? 'Tracking Paused:' : 'Tracking Now:'}
+                                </Text>
+                                <Text style={styles.infoValue}>{tracking.steps} steps this session</Text>
+                            </View>
+                        )}
                         <View style={styles.infoRow}>
                             <Text style={styles.infoLabel}>Total Calories Tracked:</Text>
                             <Text style={styles.infoValue}>{userData?.totalCalories || 0} kcal</Text>
@@ -569,6 +617,40 @@ export default function UserProfile({ navigation }: { navigation: any }) {
                             </View>
                         </View>
 
+                        <View style={styles.formGroup}>
+                            <Text style={styles.label}>Week Starts On</Text>
+                            <View style={styles.pickerContainer}>
+                                <Picker
+                                    selectedValue={editFormData.weekStart || DEFAULT_WEEK_START}
+                                    onValueChange={(itemValue) =>
+                                        setEditFormData({ ...editFormData, weekStart: itemValue as WeekStartDay })
+                                    }
+                                    style={styles.picker}
+                                >
+                                    <Picker.Item label="Monday" value="monday" />
+                                    <Picker.Item label="Sunday" value="sunday" />
+                                    <Picker.Item label="Saturday" value="saturday" />
+                                </Picker>
+                            </View>
+                        </View>
+
+                        <View style={styles.formGroup}>
+                            <Text style={styles.label}>Preferred Workout Time</Text>
+                            <View style={styles.pickerContainer}>
+                                <Picker
+                                    selectedValue={editFormData.preferredWorkoutTime || DEFAULT_WORKOUT_TIME}
+                                    onValueChange={(itemValue) =>
+                                        setEditFormData({ ...editFormData, preferredWorkoutTime: itemValue as WorkoutTimePreference })
+                                    }
+                                    style={styles.picker}
+                                >
+                                    {(Object.keys(WORKOUT_TIME_LABELS) as WorkoutTimePreference[]).map(time => (
+                                        <Picker.Item key={time} label={WORKOUT_TIME_LABELS[time]} value={time} />
+                                    ))}
+                                </Picker>
+                            </View>
+                        </View>
+
                         <View style={styles.modalButtons}>
                             <TouchableOpacity
                                 style={[styles.modalButton, styles.cancelButton]}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { SafeAreaView, StyleSheet, View, Text, ActivityIndicator } from "react-native";
+import { SafeAreaView, StyleSheet, View, Text, ActivityIndicator, AppState } from "react-native";
 import { createStackNavigator } from "@react-navigation/stack";
 import * as tf from '@tensorflow/tfjs';
 import { RootStackParamList } from "../types/navigation";
@@ -11,14 +11,25 @@ import Signup from "./signup";
 import UserBioForm from "./UserBioForm";
 import UserProfile from "./UserProfile";
 import StepCounter from "./step-counter";
+import StepCalibration from "./step-calibration";
 import Leaderboard from "./leaderboard";
 import MainMenu from "./MainMenu";
 import CalorieTracker from "./CalorieTracker";
+import SleepTrackerScreen from "../screens/SleepTrackerScreen";
 import PersonalizedGoalsScreen from "../screens/PersonalizedGoalsScreen";
 import GoalDetailScreen from "../screens/GoalDetailScreen";
+import CustomGoalScreen from "../screens/CustomGoalScreen";
 import FitnessAnalyticsScreen from "../screens/FitnessAnalyticsScreen";
+import TrophyCaseScreen from "../screens/TrophyCaseScreen";
+import AchievementCelebration from "../components/AchievementCelebration";
 import CoachScreen from "../screens/CoachScreen";
 import { preloadAnimations } from "@/utils/AnimationPreloader";
+import { STEP_LEDGER_VERSION } from "../services/stepLedgerService";
+import { rebuildStepTotalsHoldingSync } from "../services/healthDataService";
+import { migrateDailySummaries } from "../services/analyticsService";
+import { syncUserDatePreferences } from "../services/firestoreHelpers";
+import stepTrackingService from "../services/stepTrackingService";
+import goalLifecycleService from "../services/goalLifecycleService";
 
 // Import community screens
 import CommunityLeaderboards from "../screens/community/CommunityLeaderboards";
@@ -72,6 +83,7 @@ export default function AuthLayout() {
           totalCalories: 0,
           totalDistance: 0,
           totalActiveMinutes: 0,
+          achievementsBackfilled: true,
           createdAt: new Date()
         });
       } else if (!userDoc.data().displayName) {
@@ -81,17 +93,70 @@ export default function AuthLayout() {
         });
       }
     };
+
+    // Move day totals written before the step ledger into it, and rebuild the
+    // derived totals whenever the ledger gains a new one
+    const migrateStepLedger = async () => {
+      if (!auth.currentUser) return;
+
+      const userDoc = await getDoc(doc(db, 'users', auth.currentUser.uid));
+      if (!userDoc.exists()) return;
+
+      const data = userDoc.data();
+      const ledgerVersion = data.stepLedgerVersion || (data.stepLedgerMigrated ? 1 : 0);
+      if (ledgerVersion < STEP_LEDGER_VERSION) {
+        try {
+          await rebuildStepTotalsHoldingSync(auth.currentUser.uid);
+        } catch (error) {
+          console.error('Failed to migrate step history to the ledger', error);
+        }
+      }
+
+      // Daily summaries are built from the ledger totals, so they come after it
+      try {
+        await migrateDailySummaries(auth.currentUser.uid, data.dailySummaryVersion);
+      } catch (error) {
+        console.error('Failed to build daily summaries', error);
+      }
+    };
   
     // Set up a listener for auth state changes
     const unsubscribe = auth.onAuthStateChanged(async (user) => {
       if (user) {
+        // Day keys must use the user's time zone and week start before anything is read or written
+        await syncUserDatePreferences(user.uid);
+
         // User is signed in, call migration function
         await migrateUserDisplayNames();
+        await migrateStepLedger();
+
+        // Close goals that ended while the app was closed and start the new period's
+        goalLifecycleService.start().catch(error => {
+          console.error('Failed to update goal lifecycle', error);
+        });
+      } else {
+        // Steps belong to the account that counted them
+        stepTrackingService.stop();
+        goalLifecycleService.stop();
       }
     });
     
-    // Clean up the listener when component unmounts
-    return () => unsubscribe();
+    // Pick up time zone changes (e.g. after a flight) when the app comes back,
+    // and roll goals over if the day changed while it was in the background
+    const appStateSubscription = AppState.addEventListener('change', async (state) => {
+      if (state === 'active' && auth.currentUser) {
+        await syncUserDatePreferences(auth.currentUser.uid);
+        goalLifecycleService.runIfDue().catch(error => {
+          console.error('Failed to update goal lifecycle', error);
+        });
+      }
+    });
+    
+    // Clean up the listeners when component unmounts
+    return () => {
+      unsubscribe();
+      appStateSubscription.remove();
+    };
   }, []);
 
   // Show loading indicator while TensorFlow initializes
@@ -119,13 +184,17 @@ export default function AuthLayout() {
           <Stack.Screen name="main-menu" component={MainMenu} />
           <Stack.Screen name="user-profile" component={UserProfile} />
           <Stack.Screen name="step-counter" component={StepCounter} />
+          <Stack.Screen name="step-calibration" component={StepCalibration} />
           <Stack.Screen name="calorie-tracker" component={CalorieTracker} />
+          <Stack.Screen name="sleep-tracker" component={SleepTrackerScreen} />
           <Stack.Screen name="leaderboard" component={Leaderboard} />
           
           {/* New personalized goals screens */}
           <Stack.Screen name="personalized-goals" component={PersonalizedGoalsScreen} />
           <Stack.Screen name="goal-detail" component={GoalDetailScreen} />
+          <Stack.Screen name="custom-goal" component={CustomGoalScreen} />
           <Stack.Screen name="fitness-analytics" component={FitnessAnalyticsScreen} />
+          <Stack.Screen name="trophy-case" component={TrophyCaseScreen} />
           
           {/* AI Coach screen */}
           <Stack.Screen name="coach" component={CoachScreen} />
@@ -140,6 +209,7 @@ export default function AuthLayout() {
           <Stack.Screen name="challenges" component={ChallengesScreen} />
           <Stack.Screen name="activity-feed" component={CommunityActivityFeed} />
         </Stack.Navigator>
+        <AchievementCelebration />
       </View>
     </SafeAreaView>
   );
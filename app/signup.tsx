@@ -58,7 +58,9 @@ export default function Signup({ navigation }: { navigation: any }) {
           totalSteps: 0,
           totalCalories: 0,
           totalDistance: 0,
-          totalActiveMinutes: 0
+          totalActiveMinutes: 0,
+          // Nothing earned yet, so the first achievements are celebrated
+          achievementsBackfilled: true
         });
       }
       
@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Button, ActivityIndicator, TextInput, Alert } from 'react-native';
+import modelService from '../services/modelService';
+import sensorService from '../services/sensorService';
+import {
+  MIN_CALIBRATION_STEPS,
+  fitStepCalibration,
+  saveStepCalibration,
+  getStepCalibration,
+  clearStepCalibration,
+  calibrationToDetectorConfig
+} from '../services/stepCalibrationService';
+
+const DEFAULT_TARGET_STEPS = 50;
+
+const PLACEMENTS = [
+  { value: 'pocket', label: 'Pocket' },
+  { value: 'hand', label: 'Hand' },
+  { value: 'bag', label: 'Bag' }
+];
+
+// Walk a known number of steps so the detector can be tuned to this user and phone
+const StepCalibration = ({ navigation }) => {
+  const [phase, setPhase] = useState('setup'); // setup | walking | fitting | result
+  const [isModelReady, setIsModelReady] = useState(modelService.isModelReady);
+  const [targetSteps, setTargetSteps] = useState(String(DEFAULT_TARGET_STEPS));
+  const [placement, setPlacement] = useState('pocket');
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [fit, setFit] = useState(null);
+  const [currentCalibration, setCurrentCalibration] = useState(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timerRef = useRef(null);
+
+  useEffect(() => {
+    const init = async () => {
+      if (!modelService.isModelReady) {
+        const loaded = await modelService.loadModel();
+        setIsModelReady(loaded);
+        if (!loaded) {
+          Alert.alert('Error', 'Step detection model failed to load');
+        }
+      }
+
+      setCurrentCalibration(await getStepCalibration());
+    };
+
+    init();
+
+    return () => {
+      stopWalk();
+    };
+  }, []);
+
+  const stopWalk = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    sensorService.setWindowCompleteCallback(null);
+    sensorService.stop();
+    return sensorService.stopRecording();
+  };
+
+  const startWalk = async () => {
+    const steps = parseInt(targetSteps, 10);
+    if (isNaN(steps) || steps < MIN_CALIBRATION_STEPS) {
+      Alert.alert('Invalid step count', `Walk at least ${MIN_CALIBRATION_STEPS} steps to calibrate`);
+      return;
+    }
+
+    setFit(null);
+    setElapsedSeconds(0);
+    sensorService.setWindowCompleteCallback(null);
+    sensorService.startRecording({ label: 'calibration walk', placement, actualSteps: steps });
+    await sensorService.start();
+
+    timerRef.current = setInterval(() => setElapsedSeconds(seconds => seconds + 1), 1000);
+    setPhase('walking');
+  };
+
+  const finishWalk = async () => {
+    const recording = stopWalk();
+    if (!recording) {
+      setPhase('setup');
+      return;
+    }
+
+    setPhase('fitting');
+
+    try {
+      const result = await fitStepCalibration(
+        recording,
+        windowData => modelService.runModel(windowData),
+        recording.actualSteps
+      );
+      setFit(result);
+      setPhase('result');
+    } catch (error) {
+      console.error('Calibration failed:', error);
+      Alert.alert('Calibration failed', error.message);
+      setPhase('setup');
+    }
+  };
+
+  const cancelWalk = () => {
+    stopWalk();
+    setPhase('setup');
+  };
+
+  const saveCalibration = async () => {
+    try {
+      setIsSaving(true);
+      const calibration = await saveStepCalibration(fit, placement);
+      modelService.configure(calibrationToDetectorConfig(calibration));
+      setCurrentCalibration(calibration);
+      Alert.alert('Calibration saved', 'The step counter will now use your calibration on this device.');
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Could not save the calibration');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetCalibration = async () => {
+    try {
+      await clearStepCalibration();
+      setCurrentCalibration(null);
+      Alert.alert('Calibration removed', 'The step counter is back to its default settings.');
+    } catch (error) {
+      Alert.alert('Error', 'Could not remove the calibration');
+    }
+  };
+
+  const accuracy = (detected, actual) => Math.max(0, 100 - Math.round(Math.abs(detected - actual) / actual * 100));
+
+  if (!isModelReady) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#0000ff" />
+        <Text style={styles.loadingText}>Loading step detection model...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Calibrate Step Counter</Text>
+
+      {phase === 'setup' && (
+        <>
+          <Text style={styles.instructions}>
+            Carry your phone the way you normally do, press Start, then walk at your usual pace
+            while counting your steps. Press Done once you have walked the number of steps below.
+          </Text>
+
+          <Text style={styles.label}>Steps to walk</Text>
+          <TextInput
+            style={styles.input}
+            value={targetSteps}
+            onChangeText={setTargetSteps}
+            keyboardType="number-pad"
+          />
+
+          <Text style={styles.label}>Phone position</Text>
+          <View style={styles.placementRow}>
+            {PLACEMENTS.map(option => (
+              <Button
+                key={option.value}
+                title={option.label}
+                onPress={() => setPlacement(option.value)}
+                color={placement === option.value ? '#2196f3' : '#9e9e9e'}
+              />
+            ))}
+          </View>
+
+          <View style={styles.buttonContainer}>
+            <Button title="Start" onPress={startWalk} color="#4caf50" />
+          </View>
+
+          {currentCalibration && (
+            <View style={styles.currentContainer}>
+              <Text style={styles.currentText}>
+                Calibrated on {new Date(currentCalibration.calibratedAt).toLocaleDateString()}
+                {currentCalibration.placement ? ` (${currentCalibration.placement})` : ''}
+              </Text>
+              <Button title="Reset to Defaults" onPress={resetCalibration} color="#ff6347" />
+            </View>
+          )}
+        </>
+      )}
+
+      {phase === 'walking' && (
+        <>
+          <Text style={styles.bigValue}>{elapsedSeconds}s</Text>
+          <Text style={styles.instructions}>
+            Walk {targetSteps} steps, then press Done.
+          </Text>
+          <View style={styles.buttonContainer}>
+            <Button title="Done" onPress={finishWalk} color="#4caf50" />
+            <Button title="Cancel" onPress={cancelWalk} color="#ff6347" />
+          </View>
+        </>
+      )}
+
+      {phase === 'fitting' && (
+        <>
+          <ActivityIndicator size="large" color="#0000ff" />
+          <Text style={styles.loadingText}>Tuning the detector to your walk...</Text>
+        </>
+      )}
+
+      {phase === 'result' && fit && (
+        <>
+          <View style={styles.resultRow}>
+            <Text style={styles.resultLabel}>Steps walked</Text>
+            <Text style={styles.resultValue}>{fit.actualSteps}</Text>
+          </View>
+          <View style={styles.resultRow}>
+            <Text style={styles.resultLabel}>Default detector</Text>
+            <Text style={styles.resultValue}>
+              {fit.defaultSteps} ({accuracy(fit.defaultSteps, fit.actualSteps)}%)
+            </Text>
+          </View>
+          <View style={styles.resultRow}>
+            <Text style={styles.resultLabel}>Calibrated detector</Text>
+            <Text style={styles.resultValue}>
+              {fit.detectedSteps} ({accuracy(fit.detectedSteps, fit.actualSteps)}%)
+            </Text>
+          </View>
+
+          <View style={styles.buttonContainer}>
+            <Button title="Save" onPress={saveCalibration} color="#4caf50" disabled={isSaving} />
+            <Button title="Try Again" onPress={() => setPhase('setup')} color="#2196f3" disabled={isSaving} />
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  instructions: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    color: '#333',
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  input: {
+    width: 120,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+    fontSize: 18,
+    textAlign: 'center',
+    backgroundColor: '#fff',
+  },
+  placementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    width: '100%',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    width: '100%',
+    marginVertical: 20,
+  },
+  bigValue: {
+    fontSize: 60,
+    fontWeight: 'bold',
+    color: '#2196f3',
+    marginBottom: 10,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  resultLabel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  resultValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  currentContainer: {
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  currentText: {
+    fontSize: 14,
+    color: '#4caf50',
+    marginBottom: 10,
+  },
+});
+
+export default StepCalibration;
@@ -1,189 +1,95 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, Button, ActivityIndicator, Vibration, Alert } from 'react-native';
-import * as tf from '@tensorflow/tfjs';
-import modelService from '../services/modelService';
+import { View, Text, StyleSheet, Button, ActivityIndicator, Alert } from 'react-native';
+import * as FileSystem from 'expo-file-system';
 import sensorService from '../services/sensorService';
-import { saveStepCount } from '../services/healthDataService';
+import stepTrackingService from '../services/stepTrackingService';
+import { subscribeToStepSyncStatus } from '../services/healthDataService';
 import Visualizer from './Visualizer';
-import { formatDate } from '../utils/dateUtils';
-import { auth } from './firebaseConfig';
+import { recordingToJSON } from '../services/sensorRecording';
+import { getStepCalibration } from '../services/stepCalibrationService';
+import { useStepTracking } from '../hooks/useStepTracking';
+
+const ACTIVITY_LABELS = {
+  idle: 'Idle',
+  walking: 'Walking',
+  running: 'Running',
+  stairs: 'Climbing stairs',
+  cycling: 'Cycling'
+};
 
-const StepCounter = () => {
-  const [isModelReady, setIsModelReady] = useState(false);
-  const [isCountingSteps, setIsCountingSteps] = useState(false);
-  const [stepCount, setStepCount] = useState(0);
-  const [sensorData, setSensorData] = useState([]);
-  const [modelStatus, setModelStatus] = useState('Loading model...');
-  const [isSaving, setIsSaving] = useState(false);
-  const [savedStepsForSession, setSavedStepsForSession] = useState(false);
+const StepCounter = ({ navigation }) => {
+  const tracking = useStepTracking();
+  const [syncStatus, setSyncStatus] = useState(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [calibration, setCalibration] = useState(null);
+  const recordingStartStepsRef = useRef(0);
 
-  // Refs to maintain state between renders
-  const stepCountRef = useRef(0);
-  const initialStepCountRef = useRef(0); // To track steps in this session
-  const isInitializedRef = useRef(false);
-  const lastSaveTimeRef = useRef(0); // To avoid too frequent saves
+  const isActive = tracking.status === 'running' || tracking.status === 'starting';
 
-  // Initialize model and sensors on component mount
+  // Track whether recorded steps have reached the server
   useEffect(() => {
-    const initTensorFlow = async () => {
-      try {
-        if (isInitializedRef.current) return;
-
-        setModelStatus('Initializing TensorFlow.js...');
-        await tf.ready();
-
-        setModelStatus('Loading step detection model...');
-        const modelLoaded = await modelService.loadModel();
-
-        if (modelLoaded) {
-          setModelStatus('Model ready');
-          setIsModelReady(true);
-          isInitializedRef.current = true;
-        } else {
-          setModelStatus('Failed to load model');
-        }
-      } catch (error) {
-        console.error('Error initializing:', error);
-        setModelStatus(`Error: ${error.message}`);
-      }
-    };
-
-    initTensorFlow();
-
-    // Clean up on unmount
-    return () => {
-      sensorService.stop();
-      modelService.dispose();
-      
-      // FIXED: Prevent double saving when component unmounts
-      if (isCountingSteps && stepCountRef.current > initialStepCountRef.current && !savedStepsForSession) {
-        console.log('Component unmounting - saving final steps');
-        saveCurrentSteps();
-      } else {
-        console.log('Component unmounting - no need to save steps again');
-      }
-    };
+    const unsubscribe = subscribeToStepSyncStatus(setSyncStatus);
+    return unsubscribe;
   }, []);
 
-  // Set up sensor callback when isCountingSteps changes
+  // Show whether this device is calibrated, refreshing after the calibration screen
   useEffect(() => {
-    if (isCountingSteps) {
-      // Start with the current step count
-      initialStepCountRef.current = stepCountRef.current;
-      // Reset saved flag when starting a new counting session
-      setSavedStepsForSession(false);
-
-      // Define the callback for processed sensor data
-      sensorService.setWindowCompleteCallback(async (windowData) => {
-        // Update visualizer with the latest data
-        setSensorData(windowData.slice(-10)); // Just show last 10 points
-
-        // MODIFIED: Add a delay between step detection to reduce false positives
-        const now = Date.now();
-        const timeSinceLastStep = now - lastSaveTimeRef.current;
-        const minStepInterval = 300; // Minimum milliseconds between steps (adjust based on testing)
-        
-        // Predict step with the current window of data
-        if (timeSinceLastStep >= minStepInterval) {
-          const stepDetected = await modelService.predictStep(windowData);
-
-          if (stepDetected) {
-            // Vibrate briefly to provide haptic feedback for step detection
-            Vibration.vibrate(100);
-
-            // Increment step count
-            stepCountRef.current += 1;
-            setStepCount(stepCountRef.current);
-            console.log(`Step detected! Total count: ${stepCountRef.current}`);
-            lastSaveTimeRef.current = now;
+    getStepCalibration().then(setCalibration);
 
-            // Save step data periodically (every 10 steps or every 2 minutes)
-            // MODIFIED: Reduced frequency to avoid too many Firestore operations
-            const sessionSteps = stepCountRef.current - initialStepCountRef.current;
-            if (sessionSteps % 10 === 0 || now - lastSaveTimeRef.current > 120000) {
-              // Instead of immediately saving, mark steps as pending save
-              // This avoids saving small increments frequently
-              console.log(`${sessionSteps} steps ready for saving`);
-            }
-          }
-        }
-      });
-
-      // Start collecting sensor data
-      sensorService.start();
-      console.log('Step counting started');
-    } else {
-      // Stop collecting sensor data
-      sensorService.stop();
-      console.log('Step counting stopped');
-
-      // FIXED: Only save steps when explicitly stopping, not on state change
-      if (stepCountRef.current > initialStepCountRef.current && !savedStepsForSession) {
-        saveCurrentSteps();
-      }
-    }
-  }, [isCountingSteps]);
+    const unsubscribe = navigation.addListener('focus', () => {
+      getStepCalibration().then(setCalibration);
+    });
+    return unsubscribe;
+  }, [navigation]);
 
+  // Counting is owned by stepTrackingService and carries on after leaving this screen
   const toggleCounting = () => {
-    if (isCountingSteps) {
-      // Stop counting first, then save steps
-      setIsCountingSteps(false);
-      // Saving will be handled in the effect above
+    if (tracking.status === 'running') {
+      stepTrackingService.pause();
+    } else if (tracking.status === 'paused') {
+      stepTrackingService.resume();
     } else {
-      // Reset session counter and start counting
-      initialStepCountRef.current = stepCountRef.current;
-      setIsCountingSteps(true);
+      stepTrackingService.start();
     }
   };
-  
-  // MODIFIED: saveCurrentSteps now sets a flag to prevent duplicate saves
-  const saveCurrentSteps = async () => {
-    // Don't save if not logged in
-    if (!auth.currentUser) {
-      console.log('User not logged in, steps not saved');
-      return;
+
+  const stopCounting = async () => {
+    if (isRecording) {
+      await toggleRecording();
     }
-    
-    // Prevent duplicate saves
-    if (savedStepsForSession) {
-      console.log('Steps already saved for this session');
+    await stepTrackingService.stop();
+  };
+
+  // Development aid: capture the raw sensor stream so a walk can be replayed in tests
+  const toggleRecording = async () => {
+    if (!isRecording) {
+      recordingStartStepsRef.current = tracking.steps;
+      sensorService.startRecording({ label: 'step-counter walk' });
+      setIsRecording(true);
       return;
     }
-    
+
+    setIsRecording(false);
+    const recording = sensorService.stopRecording();
+    if (!recording) return;
+
+    recording.actualSteps = stepTrackingService.getState().steps - recordingStartStepsRef.current;
+    const path = `${FileSystem.documentDirectory}sensor-recording-${Date.now()}.json`;
+
     try {
-      setIsSaving(true);
-      const sessionSteps = stepCountRef.current - initialStepCountRef.current;
-      
-      if (sessionSteps > 0) {
-        console.log(`Saving ${sessionSteps} steps to Firestore`);
-        await saveStepCount(sessionSteps);
-        console.log('Steps saved successfully');
-        initialStepCountRef.current = stepCountRef.current; // Reset session counter after saving
-        setSavedStepsForSession(true); // Mark that we've saved for this session
-      } else {
-        console.log('No new steps to save');
-      }
+      await FileSystem.writeAsStringAsync(path, recordingToJSON(recording));
+      Alert.alert('Recording saved', path);
     } catch (error) {
-      console.error('Failed to save steps:', error);
-      // In case of error, we'll try again later
-      setSavedStepsForSession(false);
-    } finally {
-      setIsSaving(false);
+      console.error('Failed to save sensor recording:', error);
+      Alert.alert('Error', 'Could not save the sensor recording');
     }
   };
 
-  const resetStepCount = () => {
-    stepCountRef.current = 0;
-    initialStepCountRef.current = 0;
-    setStepCount(0);
-    setSavedStepsForSession(false);
-  };
-
-  if (!isModelReady) {
+  if (tracking.status === 'starting') {
     return (
       <View style={styles.container}>
         <ActivityIndicator size="large" color="#0000ff" />
-        <Text style={styles.loadingText}>{modelStatus}</Text>
+        <Text style={styles.loadingText}>Loading step detection model...</Text>
       </View>
     );
   }
@@ -194,29 +100,67 @@ const StepCounter = () => {
 
       <View style={styles.countContainer}>
         <Text style={styles.countLabel}>Steps Taken:</Text>
-        <Text style={styles.countValue}>{stepCount}</Text>
-        {isSaving && <Text style={styles.savingText}>Saving...</Text>}
+        <Text style={styles.countValue}>{tracking.steps}</Text>
+        {tracking.status === 'running' && (
+          <Text style={styles.activityText}>{ACTIVITY_LABELS[tracking.currentActivity]}</Text>
+        )}
+        {tracking.status === 'paused' && <Text style={styles.activityText}>Paused</Text>}
+        {tracking.isSaving && <Text style={styles.savingText}>Saving...</Text>}
+        {syncStatus && syncStatus.pendingSessions > 0 && (
+          <Text style={styles.pendingText}>
+            {syncStatus.isSyncing
+              ? 'Syncing steps...'
+              : `${syncStatus.pendingSteps} steps waiting to sync`}
+          </Text>
+        )}
+        {syncStatus && syncStatus.pendingSessions === 0 && syncStatus.lastSyncedAt && (
+          <Text style={styles.savingText}>All steps synced</Text>
+        )}
+        {tracking.error && <Text style={styles.errorText}>{tracking.error}</Text>}
       </View>
 
-      <Visualizer data={sensorData} />
+      <Visualizer data={tracking.recentSamples} />
 
       <View style={styles.buttonContainer}>
         <Button
-          title={isCountingSteps ? "Stop Counting" : "Start Counting"}
+          title={tracking.status === 'running' ? "Pause" : tracking.status === 'paused' ? "Resume" : "Start Counting"}
           onPress={toggleCounting}
-          color={isCountingSteps ? "#ff6347" : "#4caf50"}
+          color={tracking.status === 'running' ? "#ff9800" : "#4caf50"}
         />
+        {tracking.status === 'stopped' ? (
+          <Button
+            title="Reset Counter"
+            onPress={() => stepTrackingService.resetCount()}
+            color="#2196f3"
+          />
+        ) : (
+          <Button
+            title="Stop"
+            onPress={stopCounting}
+            color="#ff6347"
+          />
+        )}
+      </View>
+
+      <Button
+        title={calibration ? "Recalibrate" : "Calibrate"}
+        onPress={() => navigation.navigate('step-calibration')}
+        color="#673ab7"
+        disabled={tracking.status !== 'stopped'}
+      />
+
+      {__DEV__ && (
         <Button
-          title="Reset Counter"
-          onPress={resetStepCount}
-          color="#2196f3"
-          disabled={isCountingSteps}
+          title={isRecording ? "Stop Recording" : "Record Sensor Data"}
+          onPress={toggleRecording}
+          color="#9e9e9e"
+          disabled={!isActive && !isRecording}
         />
-      </View>
+      )}
 
       <Text style={styles.footer}>
-        {isCountingSteps
-          ? "Walk naturally with your phone in your pocket or hand"
+        {tracking.status === 'running'
+          ? "Walk naturally with your phone in your pocket or hand. Counting continues on other screens."
           : "Press Start to begin counting steps"}
       </Text>
     </View>
@@ -255,11 +199,26 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#2196f3',
   },
+  activityText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 5,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#f44336',
+    marginTop: 5,
+  },
   savingText: {
     fontSize: 14,
     color: '#4caf50',
     marginTop: 5,
   },
+  pendingText: {
+    fontSize: 14,
+    color: '#ff9800',
+    marginTop: 5,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
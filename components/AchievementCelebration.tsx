@@ -0,0 +1,147 @@
+// Achievement celebration
+//
+// Shows a popup whenever achievementEngine announces an unlock, one
+// achievement at a time if several come in together.
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Animated } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Achievement } from '../models/FitnessGoalModels';
+import { subscribeToAchievementUnlocks } from '../services/achievementEngine';
+
+export default function AchievementCelebration() {
+  const [queue, setQueue] = useState<Achievement[]>([]);
+  const scaleAnimation = useRef(new Animated.Value(0)).current;
+  const current = queue[0];
+
+  useEffect(() => {
+    return subscribeToAchievementUnlocks(achievement => {
+      setQueue(previous => [...previous, achievement]);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!current) return;
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    scaleAnimation.setValue(0);
+    Animated.spring(scaleAnimation, {
+      toValue: 1,
+      friction: 4,
+      useNativeDriver: true,
+    }).start();
+  }, [current, scaleAnimation]);
+
+  const dismiss = () => {
+    setQueue(previous => previous.slice(1));
+  };
+
+  if (!current) return null;
+
+  const isTierUp = (current.tier || 1) > 1;
+
+  return (
+    <Modal transparent animationType="fade" visible onRequestClose={dismiss}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Animated.View style={[styles.iconContainer, { transform: [{ scale: scaleAnimation }] }]}>
+            <Ionicons name={(current.icon || 'trophy') as any} size={48} color="#FFB300" />
+          </Animated.View>
+          <Text style={styles.heading}>{isTierUp ? 'Achievement Upgraded!' : 'Achievement Unlocked!'}</Text>
+          <Text style={styles.title}>{current.title}</Text>
+          {current.tierLabel && (
+            <View style={styles.tierBadge}>
+              <Text style={styles.tierBadgeText}>{current.tierLabel}</Text>
+            </View>
+          )}
+          <Text style={styles.description}>{current.description}</Text>
+          {current.nextThreshold && (
+            <Text style={styles.nextTier}>Next tier: {current.requirement}</Text>
+          )}
+          <TouchableOpacity style={styles.button} onPress={dismiss}>
+            <Text style={styles.buttonText}>{queue.length > 1 ? 'Next' : 'Awesome!'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+    width: '100%',
+    maxWidth: 340,
+  },
+  iconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#fff9c4',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  heading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6200ee',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  tierBadge: {
+    backgroundColor: '#FFD700',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  tierBadgeText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  description: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  nextTier: {
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  button: {
+    marginTop: 12,
+    backgroundColor: '#6200ee',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
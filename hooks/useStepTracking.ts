@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import stepTrackingService, { StepTrackingState } from '../services/stepTrackingService';
+
+/**
+ * Live state of the background step tracker. The tracker keeps running when
+ * the component unmounts; use the service itself to start, pause or stop it.
+ */
+export const useStepTracking = (): StepTrackingState => {
+  const [state, setState] = useState<StepTrackingState>(() => stepTrackingService.getState());
+
+  useEffect(() => stepTrackingService.subscribe(setState), []);
+
+  return state;
+};
+
+export default useStepTracking;
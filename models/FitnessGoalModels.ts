@@ -8,6 +8,8 @@ export enum GoalType {
   DISTANCE = 'distance',
   CALORIE_INTAKE = 'calorie_intake',
   WEIGHT = 'weight',
+  SLEEP = 'sleep', // Hours slept, counted on the day the user wakes up
+  CUSTOM = 'custom',
 }
 
 // Enum for goal time frames
@@ -15,6 +17,7 @@ export enum GoalTimeFrame {
   DAILY = 'daily',
   WEEKLY = 'weekly',
   MONTHLY = 'monthly',
+  CUSTOM = 'custom', // User-chosen start and end dates
 }
 
 // Enum for goal status
@@ -25,6 +28,24 @@ export enum GoalStatus {
   FAILED = 'failed',
 }
 
+// Whether a goal is met by reaching the target or by staying under it
+export type GoalDirection = 'at_least' | 'at_most';
+
+// What a custom goal measures
+export enum CustomGoalMetric {
+  STEPS = 'steps',
+  DISTANCE = 'distance',
+  RUNNING_DISTANCE = 'running_distance',
+  ACTIVE_MINUTES = 'active_minutes',
+  CALORIES_BURNED = 'calories_burned',
+  CALORIE_INTAKE = 'calorie_intake',
+  WORKOUTS = 'workouts',
+  MANUAL = 'manual', // Progress logged by the user
+}
+
+// Which completed program workouts count towards a workouts goal
+export type WorkoutCategory = 'any' | 'strength' | 'cardio';
+
 // Interface for a fitness goal
 export interface FitnessGoal {
   id: string;
@@ -41,19 +62,59 @@ export interface FitnessGoal {
   updatedAt: string;
   streak?: number;
   previousTarget?: number | null; // Updated to allow null
+  startValue?: number; // Value when the goal was set, for goals that can go down (weight)
+  rationale?: string; // Why the target was set where it is
+  successProbability?: number; // Estimated chance of reaching the target when it was set, 0-1
+  direction?: GoalDirection; // Defaults to 'at_most' for calorie intake, 'at_least' otherwise
+  closedAt?: string; // Set once the period is over and the final status recorded
+  replacedBy?: string; // Set when newly generated goals took over the rest of the period
+  // Custom goals only
+  isCustom?: boolean;
+  title?: string;
+  metric?: CustomGoalMetric;
+  unit?: string;
+  workoutCategory?: WorkoutCategory;
+}
+
+// Final result of a goal, kept in `goalHistory` once its period is over
+export interface GoalHistoryEntry {
+  goalId: string;
+  userId: string;
+  type: GoalType;
+  timeFrame: GoalTimeFrame;
+  description: string;
+  title?: string;
+  metric?: CustomGoalMetric;
+  unit?: string;
+  direction: GoalDirection;
+  target: number;
+  final: number;
+  startValue?: number;
+  status: GoalStatus;
+  streak: number;
+  startDate: string;
+  endDate: string; // Last day of the period
+  closedAt: string;
+  replacedBy?: string; // Goal that took over the rest of the period, if regenerated early
 }
 
 // Interface for analytics data
 export interface UserAnalytics {
   userId: string;
   date: string;
-  caloriesBurned: number;
+  caloriesBurned: number; // Total expenditure: BMR plus activity
+  activeCaloriesBurned?: number; // Activity and workouts only
   caloriesConsumed: number;
   calorieDifference: number; // Burned - Consumed
   stepCount: number;
   activeMinutes: number;
   distance: number; // in kilometers
+  protein?: number; // grams
+  carbs?: number;   // grams
+  fat?: number;     // grams
+  workouts?: number; // Completed program workouts
   sleepHours?: number;
+  sleepQuality?: number; // 1-5 scale
   stressLevel?: number; // 1-10 scale
   energyLevel?: number; // 1-10 scale
   weight?: number;
@@ -74,8 +135,74 @@ export interface FitnessRecommendation {
   timeOfDayDependent?: boolean;
   idealTimeOfDay?: string; // e.g., "morning", "afternoon", "evening"
   idealWeatherCondition?: string;
+  severity?: SafetySeverity; // Set on outdoor safety guidance
+  ruleId?: string; // Rule that produced it, for cooldowns
 }
 
+// Facts a recommendation rule can test, see recommendationEngine. Facts
+// without data (no goal, no weather, too few days) are missing, and only
+// `missing` conditions hold for them.
+export type RecommendationFact =
+  | 'hour'                         // 0-23 in the user's time zone
+  | 'weekday'                      // 0 for Sunday through 6 for Saturday
+  | 'goals.steps.current'          // Daily step goal
+  | 'goals.steps.target'
+  | 'goals.steps.progress'         // Share of the target, 0-1+
+  | 'goals.steps.remaining'
+  | 'goals.calories.current'       // Daily calorie intake goal
+  | 'goals.calories.target'
+  | 'goals.calories.progress'
+  | 'analytics.days'               // Recent days with data
+  | 'analytics.recentAverageSteps' // Last three days
+  | 'analytics.stepsFalling'       // Fewer steps each of the last three days
+  | 'analytics.deficitDays'        // Days burning more than eaten
+  | 'weather.condition'            // e.g. "sunny"
+  | 'weather.temperature'
+  | 'weather.feelsLike'
+  | 'weather.outdoorFriendly'
+  | 'sleep.nights'                 // Nights logged this week
+  | 'sleep.averageHours'
+  | 'sleep.averageQuality'         // 1-5
+  | 'sleep.lastNightHours'
+  | 'sleep.debt'                   // Hours short over the week
+  | 'sleep.recommendedHours'
+  | 'sleep.short'                  // Averaging under the recommended hours
+  | 'profile.fitnessGoal';         // e.g. "weightLoss"
+
+export type RecommendationFactValue = number | string | boolean;
+
+export interface RecommendationFactCondition {
+  fact: RecommendationFact;
+  op: '<' | '<=' | '>' | '>=' | '==' | '!=' | 'in' | 'exists' | 'missing';
+  value?: RecommendationFactValue | RecommendationFactValue[]; // A list for `in`
+}
+
+export type RecommendationCondition =
+  | RecommendationFactCondition
+  | { all: RecommendationCondition[] }
+  | { any: RecommendationCondition[] }
+  | { not: RecommendationCondition };
+
+// Catalog entry; `{fact}` in the title and description is replaced with the
+// fact's value
+export interface RecommendationRule {
+  id: string;
+  title: string;
+  description: string;
+  type: FitnessRecommendation['type'];
+  priority: FitnessRecommendation['priority'];
+  when: RecommendationCondition;
+  expiresInHours?: number;
+  cooldownHours?: number;       // Not repeated within this long of the last one
+  weatherDependent?: boolean;   // Revisited when the weather changes
+  idealTimeOfDay?: string;      // e.g. "morning"
+  severity?: SafetySeverity;
+  disabled?: boolean;           // Lets the remote catalog switch off a built-in rule
+}
+
+// How serious an outdoor safety concern is, from worth knowing to stay indoors
+export type SafetySeverity = 'info' | 'caution' | 'warning' | 'danger';
+
 // Interface for achievements
 export interface Achievement {
   id: string;
@@ -86,13 +213,78 @@ export interface Achievement {
   unlockedAt: string | null; // Date unlocked, null if locked
   progress: number; // 0-100 percentage
   requirement: string; // Description of what's needed to unlock
+  // Tiered achievements from the catalog
+  tier?: number; // Tiers reached, 0 while locked
+  tierCount?: number;
+  tierLabel?: string; // e.g. "Silver"
+  value?: number; // Current value of the rule
+  nextThreshold?: number | null; // null once every tier is reached
+}
+
+// Metrics an achievement rule can read, see achievementEngine
+export type AchievementMetric =
+  | 'goals_completed'          // params: goalType, timeFrame
+  | 'steps_total'
+  | 'best_day_steps'
+  | 'best_week_active_minutes'
+  | 'streak_current'           // params: streak ('activity' or a goal type)
+  | 'streak_longest'           // params: streak
+  | 'logging_streak'           // params: log ('calories' or 'weight'); longest run of days logged
+  | 'friends'
+  | 'activity_events'          // params: eventType, e.g. 'challenge_joined'
+  | 'workouts_completed'
+  | 'weigh_ins';
+
+export interface AchievementMetricRule {
+  metric: AchievementMetric;
+  params?: { [name: string]: string };
+}
+
+// Combines several rules into one value
+export interface AchievementCombinedRule {
+  combine: 'min' | 'max' | 'sum';
+  rules: AchievementRule[];
+}
+
+export type AchievementRule = AchievementMetricRule | AchievementCombinedRule;
+
+export interface AchievementTier {
+  threshold: number;
+  label?: string;
+}
+
+// Catalog entry; `{threshold}` in the description and requirement is
+// replaced with the tier's threshold
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string; // Shown once unlocked
+  requirement: string; // Shown while working towards the next tier
+  icon: string;        // Ionicons name
+  rule: AchievementRule;
+  tiers: AchievementTier[]; // Ascending thresholds
+  disabled?: boolean;       // Lets the remote catalog switch off a built-in entry
 }
 
-// Weather Context
+// Weather Context; null where weather is expected means it is unknown
 export interface WeatherContext {
   condition: string; // e.g., "sunny", "rainy", "cloudy"
   temperature: number; // in Celsius
   humidity: number;
   windSpeed: number;
   isOutdoorFriendly: boolean;
+  // Left out when the provider has no data for them
+  feelsLike?: number; // Heat index or wind chill, in Celsius
+  airQualityIndex?: number; // US AQI, 0-500
+  uvIndex?: number;
+  sunrise?: string; // ISO
+  sunset?: string; // ISO
+}
+
+// One hour of the forecast
+export interface HourlyForecast extends WeatherContext {
+  time: string; // ISO start of the hour
+  precipitationProbability: number; // 0-1
+  precipitation: number; // mm in the hour
+  isDaylight?: boolean;
 }
\ No newline at end of file
@@ -24,6 +24,7 @@ import WorkoutVisualization from '../components/WorkoutVisualization';
 import CoachAvatar from '../components/CoachAvatar';
 import WeeklyProgramComponent from '../components/WeeklyProgramComponent';
 import WorkoutProgramService from '../services/WorkoutProgramService';
+import { getSleepSummary } from '../services/sleepService';
 
 // Use types from AICoachService
 
@@ -104,11 +105,12 @@ export default function CoachScreen({ navigation }: { navigation: any }) {
                 });
                 
                 // Include today's metrics in the userData for more personalized recommendations
-                const todayData = await getTodayData();
+                const [todayData, sleep] = await Promise.all([getTodayData(), getSleepSummary(user.uid)]);
                 setUserData({
                     ...userDataFromDb,
                     todaySteps: todayData.steps,
-                    todayCalories: todayData.calories
+                    todayCalories: todayData.calories,
+                    sleep
                 });
             }
         } catch (error) {
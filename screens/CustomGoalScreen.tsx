@@ -0,0 +1,452 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { CustomGoalMetric, GoalDirection, WorkoutCategory } from '../models/FitnessGoalModels';
+import CustomGoalsService, {
+  CUSTOM_GOAL_METRICS,
+  CustomGoalInput,
+  validateCustomGoal
+} from '../services/CustomGoalsService';
+import GoalsTrackingService from '../services/GoalsTrackingService';
+import {
+  getCurrentDate,
+  addDays,
+  getStartOfWeek,
+  getEndOfWeek,
+  getStartOfMonth,
+  getEndOfMonth
+} from '../utils/dateUtils';
+
+// Quick ways to fill in the start and end dates
+const PERIOD_PRESETS = [
+  { label: 'This week', getDates: () => ({ startDate: getStartOfWeek(), endDate: getEndOfWeek() }) },
+  { label: 'This month', getDates: () => ({ startDate: getStartOfMonth(), endDate: getEndOfMonth() }) },
+  { label: 'Next 7 days', getDates: () => ({ startDate: getCurrentDate(), endDate: addDays(getCurrentDate(), 6) }) },
+  { label: 'Next 30 days', getDates: () => ({ startDate: getCurrentDate(), endDate: addDays(getCurrentDate(), 29) }) }
+];
+
+const WORKOUT_CATEGORIES: { value: WorkoutCategory; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'strength', label: 'Strength' },
+  { value: 'cardio', label: 'Cardio' }
+];
+
+const DIRECTIONS: { value: GoalDirection; label: string }[] = [
+  { value: 'at_least', label: 'At least' },
+  { value: 'at_most', label: 'At most' }
+];
+
+export default function CustomGoalScreen({ route, navigation }: { route: any; navigation: any }) {
+  const goalId: string | undefined = route.params?.goalId;
+  const [title, setTitle] = useState('');
+  const [metric, setMetric] = useState<CustomGoalMetric>(CustomGoalMetric.WORKOUTS);
+  const [workoutCategory, setWorkoutCategory] = useState<WorkoutCategory>('strength');
+  const [target, setTarget] = useState('');
+  const [unit, setUnit] = useState(CUSTOM_GOAL_METRICS[CustomGoalMetric.WORKOUTS].units[0].unit);
+  const [direction, setDirection] = useState<GoalDirection>('at_least');
+  const [startDate, setStartDate] = useState(getStartOfWeek());
+  const [endDate, setEndDate] = useState(getEndOfWeek());
+  const [loading, setLoading] = useState(!!goalId);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (goalId) {
+      loadGoal(goalId);
+    }
+  }, [goalId]);
+
+  const loadGoal = async (id: string) => {
+    try {
+      const goal = await CustomGoalsService.getOwnedCustomGoal(id);
+      setTitle(goal.title || '');
+      setMetric(goal.metric || CustomGoalMetric.MANUAL);
+      setWorkoutCategory(goal.workoutCategory || 'any');
+      setTarget(String(goal.target));
+      setUnit(goal.unit || '');
+      setDirection(goal.direction || 'at_least');
+      setStartDate(goal.startDate);
+      setEndDate(goal.endDate);
+    } catch (error) {
+      console.error('Error loading custom goal:', error);
+      Alert.alert('Error', 'Failed to load this goal');
+      navigation.goBack();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectMetric = (value: CustomGoalMetric) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setMetric(value);
+    setUnit(CUSTOM_GOAL_METRICS[value].units[0]?.unit || '');
+    setDirection(value === CustomGoalMetric.CALORIE_INTAKE ? 'at_most' : 'at_least');
+  };
+
+  const handleSave = async () => {
+    const input: CustomGoalInput = {
+      title,
+      metric,
+      target: parseFloat(target),
+      unit,
+      direction,
+      startDate: startDate.trim(),
+      endDate: endDate.trim(),
+      workoutCategory: metric === CustomGoalMetric.WORKOUTS ? workoutCategory : undefined
+    };
+
+    const validationError = validateCustomGoal(input);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      if (goalId) {
+        await CustomGoalsService.updateCustomGoal(goalId, input);
+        await GoalsTrackingService.syncGoalProgress();
+      } else {
+        await CustomGoalsService.createCustomGoal(input);
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error saving custom goal:', error);
+      Alert.alert('Error', 'Failed to save goal. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!goalId) return;
+
+    Alert.alert(
+      'Delete Goal',
+      'Are you sure you want to delete this goal?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await CustomGoalsService.deleteCustomGoal(goalId);
+              navigation.navigate('personalized-goals', { tab: 'goals' });
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete goal');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6200ee" />
+      </View>
+    );
+  }
+
+  const metricInfo = CUSTOM_GOAL_METRICS[metric];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{goalId ? 'Edit Goal' : 'Custom Goal'}</Text>
+        {goalId && (
+          <TouchableOpacity onPress={handleDelete} style={styles.backButton}>
+            <Ionicons name="trash-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.label}>Goal Name</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g. Strength week"
+          value={title}
+          onChangeText={setTitle}
+          maxLength={40}
+        />
+
+        <Text style={styles.label}>What to Track</Text>
+        <View style={styles.optionRow}>
+          {(Object.keys(CUSTOM_GOAL_METRICS) as CustomGoalMetric[]).map(value => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.option, metric === value && styles.selectedOption]}
+              onPress={() => selectMetric(value)}
+            >
+              <Ionicons
+                name={CUSTOM_GOAL_METRICS[value].icon as any}
+                size={16}
+                color={metric === value ? '#fff' : '#6200ee'}
+                style={{ marginRight: 6 }}
+              />
+              <Text style={[styles.optionText, metric === value && styles.selectedOptionText]}>
+                {CUSTOM_GOAL_METRICS[value].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {metric === CustomGoalMetric.WORKOUTS && (
+          <>
+            <Text style={styles.label}>Workout Type</Text>
+            <View style={styles.optionRow}>
+              {WORKOUT_CATEGORIES.map(category => (
+                <TouchableOpacity
+                  key={category.value}
+                  style={[styles.option, workoutCategory === category.value && styles.selectedOption]}
+                  onPress={() => setWorkoutCategory(category.value)}
+                >
+                  <Text style={[styles.optionText, workoutCategory === category.value && styles.selectedOptionText]}>
+                    {category.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>Target</Text>
+        <View style={styles.optionRow}>
+          {DIRECTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, direction === option.value && styles.selectedOption]}
+              onPress={() => setDirection(option.value)}
+            >
+              <Text style={[styles.optionText, direction === option.value && styles.selectedOptionText]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.targetRow}>
+          <TextInput
+            style={[styles.input, styles.targetInput]}
+            placeholder="3"
+            value={target}
+            onChangeText={setTarget}
+            keyboardType="numeric"
+          />
+          {metricInfo.units.length > 0 ? (
+            <View style={styles.unitRow}>
+              {metricInfo.units.map(option => (
+                <TouchableOpacity
+                  key={option.unit}
+                  style={[styles.option, unit === option.unit && styles.selectedOption]}
+                  onPress={() => setUnit(option.unit)}
+                >
+                  <Text style={[styles.optionText, unit === option.unit && styles.selectedOptionText]}>
+                    {option.unit}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              placeholder="Unit, e.g. glasses"
+              value={unit}
+              onChangeText={setUnit}
+              maxLength={20}
+            />
+          )}
+        </View>
+
+        <Text style={styles.label}>Dates</Text>
+        <View style={styles.optionRow}>
+          {PERIOD_PRESETS.map(preset => (
+            <TouchableOpacity
+              key={preset.label}
+              style={styles.option}
+              onPress={() => {
+                const dates = preset.getDates();
+                setStartDate(dates.startDate);
+                setEndDate(dates.endDate);
+              }}
+            >
+              <Text style={styles.optionText}>{preset.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.targetRow}>
+          <TextInput
+            style={[styles.input, styles.dateInput]}
+            placeholder="YYYY-MM-DD"
+            value={startDate}
+            onChangeText={setStartDate}
+            maxLength={10}
+          />
+          <Text style={styles.dateSeparator}>to</Text>
+          <TextInput
+            style={[styles.input, styles.dateInput]}
+            placeholder="YYYY-MM-DD"
+            value={endDate}
+            onChangeText={setEndDate}
+            maxLength={10}
+          />
+        </View>
+
+        {metric === CustomGoalMetric.MANUAL && (
+          <Text style={styles.hint}>Log your progress from the goal's detail page.</Text>
+        )}
+
+        <TouchableOpacity
+          style={styles.saveButton}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <Text style={styles.saveButtonText}>{goalId ? 'Save Changes' : 'Create Goal'}</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#6200ee',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+    marginLeft: 8,
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#444',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    fontSize: 16,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 1,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#6200ee',
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: '#fff',
+  },
+  selectedOption: {
+    backgroundColor: '#6200ee',
+  },
+  optionText: {
+    color: '#6200ee',
+    fontSize: 14,
+  },
+  selectedOptionText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  targetInput: {
+    width: 100,
+    marginRight: 12,
+  },
+  unitRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    flex: 1,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  dateSeparator: {
+    marginHorizontal: 10,
+    marginTop: 14,
+    color: '#666',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  saveButton: {
+    backgroundColor: '#6200ee',
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 40,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
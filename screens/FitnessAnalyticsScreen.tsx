@@ -7,24 +7,28 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Dimensions,
-  RefreshControl
+  RefreshControl,
+  TextInput,
+  Alert
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { LineChart, BarChart, PieChart } from 'react-native-chart-kit';
-import { auth, db } from '../app/firebaseConfig';
+import { auth } from '../app/firebaseConfig';
 import {
-  collection,
-  query,
-  where,
-  getDocs,
-  orderBy,
-  limit,
-  Timestamp
-} from 'firebase/firestore';
-import { formatDate } from '../utils/dateUtils';
+  formatDate,
+  addDays,
+  getStartOfWeek,
+  getISOWeek,
+  getWeekStartPreference
+} from '../utils/dateUtils';
+import { getDailyAnalytics } from '../services/analyticsService';
+import { WeightSummary, getWeightSummary, logWeighIn } from '../services/weightTrackingService';
+import GoalsTrackingService from '../services/GoalsTrackingService';
+import { GoalType, UserAnalytics } from '../models/FitnessGoalModels';
 
 const screenWidth = Dimensions.get('window').width;
+const MAX_WEIGHT_LABELS = 6; // Chart labels shown before they start to overlap
 
 const CHART_CONFIG = {
   backgroundColor: '#ffffff',
@@ -59,6 +63,8 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
     avgStepsPerDay: 0,
     stepStreak: 0
   });
+  const [weightSummary, setWeightSummary] = useState<WeightSummary | null>(null);
+  const [weightInput, setWeightInput] = useState('');
   
   // Load data when screen is focused
   useFocusEffect(
@@ -81,14 +87,23 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
       // Determine date range based on selected timeframe
       const { startDate, endDate, interval } = getDateRange(selectedTimeframe);
       
-      // Load step data
-      await loadStepData(userId, startDate, endDate, interval);
+      // Steps, food and calories burned for each recorded day
+      const days = await getDailyAnalytics(userId, startDate, endDate);
       
-      // Load calorie data
-      await loadCalorieData(userId, startDate, endDate, interval);
+      setStepData(groupDataByInterval(
+        days.filter(day => day.stepCount > 0).map(day => ({ date: day.date, value: day.stepCount })),
+        interval
+      ));
+      setCalorieData(groupDataByInterval(
+        days.filter(day => day.caloriesConsumed > 0).map(day => ({ date: day.date, value: day.caloriesConsumed })),
+        interval
+      ));
       
       // Calculate summary statistics
-      calculateSummaryStats();
+      calculateSummaryStats(days);
+      
+      // Load weigh-ins and the trend towards any weight goal
+      await loadWeightData(userId);
     } catch (error) {
       console.error('Error loading analytics data:', error);
     } finally {
@@ -128,54 +143,77 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
     };
   };
   
-  // Load step data
-  const loadStepData = async (userId: string, startDate: string, endDate: string, interval: string) => {
+  // Load the weight trend, projecting towards the active weight goal if there is one
+  const loadWeightData = async (userId: string) => {
     try {
-      const stepHistoryRef = collection(db, 'stepHistory');
-      const stepQuery = query(
-        stepHistoryRef,
-        where('userId', '==', userId),
-        where('date', '>=', startDate),
-        where('date', '<=', endDate),
-        orderBy('date', 'asc')
-      );
-      
-      const querySnapshot = await getDocs(stepQuery);
-      
-      // Group data by the specified interval
-      const groupedData = groupDataByInterval(querySnapshot.docs.map(doc => doc.data()), interval);
+      const goals = await GoalsTrackingService.getActiveGoals();
+      const weightGoal = goals.find(goal => goal.type === GoalType.WEIGHT);
       
-      setStepData(groupedData);
+      setWeightSummary(await getWeightSummary(userId, weightGoal?.target));
     } catch (error) {
-      console.error('Error loading step data:', error);
+      console.error('Error loading weight data:', error);
     }
   };
   
-  // Load calorie data
-  const loadCalorieData = async (userId: string, startDate: string, endDate: string, interval: string) => {
+  // Record today's weight, then update weight goals with the new trend
+  const handleLogWeight = async () => {
+    const weight = parseFloat(weightInput);
+    if (isNaN(weight) || weight <= 0) {
+      Alert.alert('Error', 'Please enter a valid weight.');
+      return;
+    }
+    
     try {
-      const calorieIntakeRef = collection(db, 'calorieIntake');
-      const calorieQuery = query(
-        calorieIntakeRef,
-        where('userId', '==', userId),
-        where('date', '>=', startDate),
-        where('date', '<=', endDate),
-        orderBy('date', 'asc')
-      );
+      await logWeighIn(weight);
+      setWeightInput('');
+      await GoalsTrackingService.syncGoalProgress();
       
-      const querySnapshot = await getDocs(calorieQuery);
-      
-      // Group data by the specified interval
-      const groupedData = groupDataByInterval(querySnapshot.docs.map(doc => doc.data()), interval);
-      
-      setCalorieData(groupedData);
+      const userId = auth.currentUser?.uid;
+      if (userId) {
+        await loadWeightData(userId);
+      }
     } catch (error) {
-      console.error('Error loading calorie data:', error);
+      console.error('Error logging weight:', error);
+      Alert.alert('Error', 'Failed to save your weight. Please try again.');
+    }
+  };
+  
+  // Weigh-ins and trend inside the selected time frame, with labels thinned out
+  const getWeightChartPoints = () => {
+    if (!weightSummary) return [];
+    
+    const { startDate } = getDateRange(selectedTimeframe);
+    const points = weightSummary.points.filter(point => point.date >= startDate);
+    const labelEvery = Math.ceil(points.length / MAX_WEIGHT_LABELS);
+    
+    return points.map((point, index) => {
+      const [, month, day] = point.date.split('-');
+      return {
+        ...point,
+        label: index % labelEvery === 0 ? `${Number(month)}/${Number(day)}` : ''
+      };
+    });
+  };
+  
+  // Describe the weekly rate and when the target will be reached
+  const describeWeightTrend = (summary: WeightSummary) => {
+    const rate = Math.abs(summary.weeklyRate).toFixed(2);
+    const direction = summary.weeklyRate < 0 ? 'Losing' : 'Gaining';
+    const rateText = Math.abs(summary.weeklyRate) < 0.05
+      ? 'Your weight is holding steady.'
+      : `${direction} ${rate} kg per week.`;
+    
+    if (summary.targetWeight === null) {
+      return rateText;
     }
+    
+    return summary.projectedGoalDate
+      ? `${rateText} At this rate you will reach ${summary.targetWeight.toFixed(1)} kg on ${summary.projectedGoalDate}.`
+      : `${rateText} Your trend is not heading towards your ${summary.targetWeight.toFixed(1)} kg target yet.`;
   };
   
   // Group data by interval (day, week, month)
-  const groupDataByInterval = (data: any[], interval: string) => {
+  const groupDataByInterval = (data: { date: string; value: number }[], interval: string) => {
     const result: any[] = [];
     const groupedData: { [key: string]: number } = {};
     
@@ -184,25 +222,18 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
       let key = item.date;
       
       if (interval === 'week') {
-        // Get week number
-        const date = new Date(item.date);
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay()); // Sunday
-        key = formatDate(weekStart);
+        // Group by the first day of the week, using the user's week start
+        key = getStartOfWeek(item.date);
       } else if (interval === 'month') {
         // Get month
-        const date = new Date(item.date);
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+        key = item.date.slice(0, 7);
       }
       
-      // Determine the value to add (steps or calories)
-      const value = item.steps || item.calories || 0;
-      
       if (!groupedData[key]) {
         groupedData[key] = 0;
       }
       
-      groupedData[key] += value;
+      groupedData[key] += item.value;
     });
     
     // Convert to array format for charts
@@ -211,11 +242,12 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
       
       // Format label for display
       if (interval === 'day') {
-        const date = new Date(key);
-        label = `${date.getMonth() + 1}/${date.getDate()}`;
+        const [, month, day] = key.split('-');
+        label = `${Number(month)}/${Number(day)}`;
       } else if (interval === 'week') {
-        const date = new Date(key);
-        label = `W${Math.ceil((date.getDate() + date.getDay()) / 7)}`;
+        // ISO weeks start on Monday, so number the Monday that falls inside this week
+        const mondayOffset = { monday: 0, sunday: 1, saturday: 2 }[getWeekStartPreference()];
+        label = `W${getISOWeek(addDays(key, mondayOffset)).week}`;
       } else if (interval === 'month') {
         const [year, month] = key.split('-');
         label = `${month}/${year.slice(2)}`;
@@ -231,28 +263,31 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
     return result;
   };
   
-  // Calculate summary statistics
-  const calculateSummaryStats = () => {
+  // Calculate summary statistics from freshly loaded data
+  const calculateSummaryStats = (days: UserAnalytics[]) => {
+    const stepDays = days.filter(day => day.stepCount > 0);
+    
     // Calculate total steps
-    const totalSteps = stepData.reduce((sum, item) => sum + item.value, 0);
+    const totalSteps = stepDays.reduce((sum, day) => sum + day.stepCount, 0);
     
     // Calculate average steps per day
-    const avgStepsPerDay = stepData.length > 0 ? Math.round(totalSteps / stepData.length) : 0;
+    const avgStepsPerDay = stepDays.length > 0 ? Math.round(totalSteps / stepDays.length) : 0;
     
     // Calculate total calories consumed
-    const totalCaloriesConsumed = calorieData.reduce((sum, item) => sum + item.value, 0);
+    const totalCaloriesConsumed = days.reduce((sum, day) => sum + day.caloriesConsumed, 0);
     
-    // Estimate calories burned from steps (very rough estimate: 20 steps = 1 calorie)
-    const totalCaloriesBurned = Math.round(totalSteps / 20);
+    // Calories burned on days with any recorded activity or food, so days
+    // before the user started tracking do not count as a deficit
+    const totalCaloriesBurned = days
+      .filter(day => day.stepCount > 0 || day.caloriesConsumed > 0)
+      .reduce((sum, day) => sum + day.caloriesBurned, 0);
     
     // Calculate calorie balance
     const calorieBalance = totalCaloriesBurned - totalCaloriesConsumed;
     
-    // Estimate active minutes from steps (rough estimate: 100 steps = 1 active minute)
-    const activeMinutes = Math.round(totalSteps / 100);
-    
-    // Estimate distance from steps (0.762 meters per step)
-    const distance = parseFloat((totalSteps * 0.000762).toFixed(2));
+    // Active minutes and distance as recorded for each day
+    const activeMinutes = stepDays.reduce((sum, day) => sum + day.activeMinutes, 0);
+    const distance = parseFloat(stepDays.reduce((sum, day) => sum + day.distance, 0).toFixed(2));
     
     // Calculate step streak (simplified version - consecutive days with steps > 0)
     let stepStreak = 0;
@@ -260,10 +295,8 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
       // Group by date
       const dateMap: { [key: string]: boolean } = {};
       
-      stepData.forEach(item => {
-        if (item.value > 0) {
-          dateMap[item.date] = true;
-        }
+      stepDays.forEach(day => {
+        dateMap[day.date] = true;
       });
       
       // Check for consecutive days
@@ -319,6 +352,8 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
     );
   }
   
+  const weightChartPoints = getWeightChartPoints();
+  
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -514,6 +549,77 @@ export default function FitnessAnalyticsScreen({ navigation }: { navigation: any
           </View>
         )}
         
+        {/* Weight Chart */}
+        <View style={styles.chartContainer}>
+          <Text style={styles.sectionTitle}>Weight</Text>
+          {weightSummary && weightChartPoints.length > 1 ? (
+            <LineChart
+              data={{
+                labels: weightChartPoints.map(point => point.label),
+                datasets: [
+                  {
+                    data: weightChartPoints.map(point => point.weight),
+                    color: (opacity = 1) => `rgba(0, 150, 136, ${opacity * 0.4})`,
+                  },
+                  {
+                    data: weightChartPoints.map(point => point.trend),
+                    color: (opacity = 1) => `rgba(0, 150, 136, ${opacity})`,
+                  },
+                ],
+                legend: ['Scale', 'Trend'],
+              }}
+              width={screenWidth - 40}
+              height={220}
+              yAxisSuffix=" kg"
+              chartConfig={{
+                ...CHART_CONFIG,
+                decimalPlaces: 1,
+                color: (opacity = 1) => `rgba(0, 150, 136, ${opacity})`,
+                propsForDots: { r: '3' },
+              }}
+              style={styles.chart}
+            />
+          ) : (
+            <View style={styles.emptyChart}>
+              <Ionicons name="scale-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyChartText}>Log your weight on a few days to see your trend</Text>
+            </View>
+          )}
+          {weightSummary && (
+            <View style={styles.weightStats}>
+              <View style={styles.weightStat}>
+                <Text style={styles.weightStatValue}>{weightSummary.trendWeight.toFixed(1)} kg</Text>
+                <Text style={styles.statLabel}>Trend Weight</Text>
+              </View>
+              <View style={styles.weightStat}>
+                <Text style={styles.weightStatValue}>
+                  {weightSummary.weeklyRate > 0 ? '+' : ''}{weightSummary.weeklyRate.toFixed(2)} kg
+                </Text>
+                <Text style={styles.statLabel}>Per Week</Text>
+              </View>
+              <View style={styles.weightStat}>
+                <Text style={styles.weightStatValue}>{weightSummary.latestWeight.toFixed(1)} kg</Text>
+                <Text style={styles.statLabel}>Last Weigh-in</Text>
+              </View>
+            </View>
+          )}
+          {weightSummary && (
+            <Text style={styles.insightText}>{describeWeightTrend(weightSummary)}</Text>
+          )}
+          <View style={styles.weightInputRow}>
+            <TextInput
+              style={styles.weightInput}
+              placeholder="Today's weight (kg)"
+              value={weightInput}
+              onChangeText={setWeightInput}
+              keyboardType="numeric"
+            />
+            <TouchableOpacity style={styles.weightButton} onPress={handleLogWeight}>
+              <Text style={styles.weightButtonText}>Log</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+        
         {/* Insights Section */}
         <View style={styles.insightsContainer}>
           <Text style={styles.sectionTitle}>Insights</Text>
@@ -736,6 +842,45 @@ const styles = StyleSheet.create({
     color: '#999',
     marginTop: 8,
   },
+  weightStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: 12,
+  },
+  weightStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weightStatValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#009688',
+    marginBottom: 4,
+  },
+  weightInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  weightInput: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginRight: 10,
+  },
+  weightButton: {
+    backgroundColor: '#009688',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  weightButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
   insightsContainer: {
     backgroundColor: '#fff',
     borderRadius: 12,
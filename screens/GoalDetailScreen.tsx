@@ -7,28 +7,49 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Alert,
-  Image
+  Image,
+  TextInput
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { LineChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
-import { doc, getDoc, collection, query, where, orderBy, getDocs } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from '../app/firebaseConfig';
-import { FitnessGoal, GoalTimeFrame, GoalStatus } from '../models/FitnessGoalModels';
+import { FitnessGoal, GoalHistoryEntry, GoalTimeFrame, GoalStatus, CustomGoalMetric, UserAnalytics } from '../models/FitnessGoalModels';
 import GoalsTrackingService from '../services/GoalsTrackingService';
-import { formatDate } from '../utils/dateUtils';
+import { CUSTOM_GOAL_METRICS } from '../services/CustomGoalsService';
+import { calculateWeightTrend, getWeighIns, getWeightGoalProgress } from '../services/weightTrackingService';
+import {
+  GoalForecast,
+  PACE_COLORS,
+  describeForecast,
+  forecastGoal,
+  formatForecastValue
+} from '../services/goalForecastService';
+import { getGoalHistory, getTargetEvolution, summarizeGoalHistory } from '../services/goalHistoryService';
+import { getDailyAnalytics } from '../services/analyticsService';
+import { addDays, daysBetween, getCurrentDate, getStartOfMonth } from '../utils/dateUtils';
 
 const screenWidth = Dimensions.get('window').width;
 
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const TARGET_CHART_MONTHS = 6;
+const RECENT_OUTCOMES = 8;
+
 export default function GoalDetailScreen({ route, navigation }: { route: any; navigation: any }) {
   const { goalId } = route.params;
   const [goal, setGoal] = useState<FitnessGoal | null>(null);
   const [history, setHistory] = useState<any[]>([]);
+  const [forecast, setForecast] = useState<GoalForecast | null>(null);
+  const [outcomes, setOutcomes] = useState<GoalHistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [manualAmount, setManualAmount] = useState('');
   
   useEffect(() => {
-    loadGoalDetails();
-  }, [goalId]);
+    // Reload when coming back from editing a custom goal
+    const unsubscribe = navigation.addListener('focus', loadGoalDetails);
+    return unsubscribe;
+  }, [goalId, navigation]);
   
   const loadGoalDetails = async () => {
     try {
@@ -48,6 +69,12 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
       
       // Load goal history (e.g., previous step counts or calories)
       await loadGoalHistory(goalData);
+      
+      // Where the goal is heading by the end of its period
+      setForecast(await forecastGoal(goalData));
+      
+      // How past periods of the same goal went
+      await loadOutcomes(goalData);
     } catch (error) {
       console.error('Error loading goal details:', error);
       Alert.alert('Error', 'Failed to load goal details');
@@ -56,6 +83,17 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
     }
   };
   
+  const loadOutcomes = async (goal: FitnessGoal) => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+    
+    const entries = await getGoalHistory(userId, goal.type, goal.timeFrame);
+    // Custom goals only compare with others measuring the same thing
+    setOutcomes(goal.isCustom
+      ? entries.filter(entry => entry.metric === goal.metric && entry.unit === goal.unit)
+      : entries);
+  };
+  
   const loadGoalHistory = async (goal: FitnessGoal) => {
     try {
       const userId = auth.currentUser?.uid;
@@ -65,20 +103,39 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
       
       switch (goal.type) {
         case 'step_count':
-          // Get step history
-          await loadStepHistory(goal, history);
+          await loadAnalyticsHistory(goal, history, day => day.stepCount);
           break;
         case 'calorie_intake':
-          // Get calorie history
-          await loadCalorieHistory(goal, history);
+          await loadAnalyticsHistory(goal, history, day => day.caloriesConsumed);
           break;
         case 'active_minutes':
-          // For now, derive from step history
-          await loadActiveMinutesHistory(goal, history);
+          await loadAnalyticsHistory(goal, history, day => day.activeMinutes);
           break;
         case 'distance':
-          // For now, derive from step history
-          await loadDistanceHistory(goal, history);
+          await loadAnalyticsHistory(goal, history, day => day.distance);
+          break;
+        case 'weight':
+          // Trend weight since the goal started
+          await loadWeightHistory(goal, history);
+          break;
+        case 'sleep':
+          // Hours slept over the last two weeks
+          await loadSleepHistory(goal, history);
+          break;
+        case 'custom':
+          // Custom goals chart the metric they measure, when shown in its base unit
+          if (!goal.metric || goal.unit !== CUSTOM_GOAL_METRICS[goal.metric].units[0]?.unit) {
+            break;
+          }
+          if (goal.metric === CustomGoalMetric.STEPS) {
+            await loadAnalyticsHistory(goal, history, day => day.stepCount);
+          } else if (goal.metric === CustomGoalMetric.CALORIE_INTAKE) {
+            await loadAnalyticsHistory(goal, history, day => day.caloriesConsumed);
+          } else if (goal.metric === CustomGoalMetric.ACTIVE_MINUTES) {
+            await loadAnalyticsHistory(goal, history, day => day.activeMinutes);
+          } else if (goal.metric === CustomGoalMetric.DISTANCE) {
+            await loadAnalyticsHistory(goal, history, day => day.distance);
+          }
           break;
       }
       
@@ -88,314 +145,93 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
     }
   };
   
-  const loadStepHistory = async (goal: FitnessGoal, history: any[]) => {
+  // Chart a goal's metric from daily analytics: each day for daily and custom
+  // goals, and grouped into weeks or months for longer goals
+  const loadAnalyticsHistory = async (
+    goal: FitnessGoal,
+    history: any[],
+    getValue: (day: UserAnalytics) => number
+  ) => {
     const userId = auth.currentUser?.uid;
     if (!userId) return;
     
-    let startDate, endDate;
-    const today = new Date();
+    const endDate = getCurrentDate();
+    let startDate: string;
     
     // Determine date range based on goal timeframe
     switch (goal.timeFrame) {
-      case GoalTimeFrame.DAILY:
-        // Show last 7 days
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 6);
-        endDate = today;
-        break;
       case GoalTimeFrame.WEEKLY:
         // Show last 4 weeks
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 28);
-        endDate = today;
+        startDate = addDays(endDate, -27);
         break;
       case GoalTimeFrame.MONTHLY:
         // Show last 6 months
-        startDate = new Date(today);
-        startDate.setMonth(today.getMonth() - 5);
-        endDate = today;
-        break;
-    }
-    
-    // Format dates
-    const startDateStr = formatDate(startDate);
-    const endDateStr = formatDate(endDate);
-    
-    // Query step history
-    const stepHistoryRef = collection(db, 'stepHistory');
-    const stepQuery = query(
-      stepHistoryRef,
-      where('userId', '==', userId),
-      where('date', '>=', startDateStr),
-      where('date', '<=', endDateStr),
-      orderBy('date', 'asc')
-    );
-    
-    const querySnapshot = await getDocs(stepQuery);
-    
-    // Group by appropriate time period
-    const groupedData: { [key: string]: number } = {};
-    
-    querySnapshot.forEach(doc => {
-      const data = doc.data();
-      let key = data.date;
-      
-      // For weekly and monthly goals, group by week or month
-      if (goal.timeFrame === GoalTimeFrame.WEEKLY) {
-        // Get week number (simple implementation - group by 7 days)
-        const date = new Date(data.date);
-        const weekNum = Math.floor((date.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000));
-        key = `Week ${weekNum + 1}`;
-      } else if (goal.timeFrame === GoalTimeFrame.MONTHLY) {
-        // Get month
-        const date = new Date(data.date);
-        key = date.toLocaleString('default', { month: 'short' });
-      }
-      
-      if (!groupedData[key]) groupedData[key] = 0;
-      groupedData[key] += data.steps;
-    });
-    
-    // Convert to array for chart
-    Object.keys(groupedData).forEach(key => {
-      history.push({
-        date: key,
-        value: groupedData[key]
-      });
-    });
-  };
-  
-  const loadCalorieHistory = async (goal: FitnessGoal, history: any[]) => {
-    const userId = auth.currentUser?.uid;
-    if (!userId) return;
-    
-    let startDate, endDate;
-    const today = new Date();
-    
-    // Determine date range based on goal timeframe
-    switch (goal.timeFrame) {
-      case GoalTimeFrame.DAILY:
-        // Show last 7 days
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 6);
-        endDate = today;
-        break;
-      case GoalTimeFrame.WEEKLY:
-        // Show last 4 weeks
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 28);
-        endDate = today;
+        startDate = getStartOfMonth(addDays(endDate, -5 * 30));
         break;
-      case GoalTimeFrame.MONTHLY:
-        // Show last 6 months
-        startDate = new Date(today);
-        startDate.setMonth(today.getMonth() - 5);
-        endDate = today;
+      case GoalTimeFrame.CUSTOM:
+        // Show each day since the goal started
+        startDate = goal.startDate;
         break;
+      default:
+        // Show last 7 days
+        startDate = addDays(endDate, -6);
     }
     
-    // Format dates
-    const startDateStr = formatDate(startDate);
-    const endDateStr = formatDate(endDate);
-    
-    // Query calorie history
-    const calorieIntakeRef = collection(db, 'calorieIntake');
-    const calorieQuery = query(
-      calorieIntakeRef,
-      where('userId', '==', userId),
-      where('date', '>=', startDateStr),
-      where('date', '<=', endDateStr),
-      orderBy('date', 'asc')
-    );
-    
-    const querySnapshot = await getDocs(calorieQuery);
+    const days = await getDailyAnalytics(userId, startDate, endDate);
     
     // Group by appropriate time period
     const groupedData: { [key: string]: number } = {};
     
-    querySnapshot.forEach(doc => {
-      const data = doc.data();
-      let key = data.date;
+    days.forEach(day => {
+      let key = day.date;
       
-      // For weekly and monthly goals, group by week or month
       if (goal.timeFrame === GoalTimeFrame.WEEKLY) {
-        // Get week number (simple implementation - group by 7 days)
-        const date = new Date(data.date);
-        const weekNum = Math.floor((date.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000));
-        key = `Week ${weekNum + 1}`;
+        key = `Week ${Math.floor(daysBetween(startDate, day.date) / 7) + 1}`;
       } else if (goal.timeFrame === GoalTimeFrame.MONTHLY) {
-        // Get month
-        const date = new Date(data.date);
-        key = date.toLocaleString('default', { month: 'short' });
+        key = MONTH_LABELS[parseInt(day.date.slice(5, 7), 10) - 1];
       }
       
-      if (!groupedData[key]) groupedData[key] = 0;
-      groupedData[key] += data.calories;
+      groupedData[key] = (groupedData[key] || 0) + getValue(day);
     });
     
     // Convert to array for chart
     Object.keys(groupedData).forEach(key => {
       history.push({
         date: key,
-        value: groupedData[key]
+        value: parseFloat(groupedData[key].toFixed(2))
       });
     });
   };
   
-  const loadActiveMinutesHistory = async (goal: FitnessGoal, history: any[]) => {
+  const loadWeightHistory = async (goal: FitnessGoal, history: any[]) => {
     const userId = auth.currentUser?.uid;
     if (!userId) return;
     
-    // For now, we'll estimate active minutes from steps (100 steps ≈ 1 active minute)
-    let startDate, endDate;
-    const today = new Date();
-    
-    // Determine date range based on goal timeframe
-    switch (goal.timeFrame) {
-      case GoalTimeFrame.DAILY:
-        // Show last 7 days
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 6);
-        endDate = today;
-        break;
-      case GoalTimeFrame.WEEKLY:
-        // Show last 4 weeks
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 28);
-        endDate = today;
-        break;
-      case GoalTimeFrame.MONTHLY:
-        // Show last 6 months
-        startDate = new Date(today);
-        startDate.setMonth(today.getMonth() - 5);
-        endDate = today;
-        break;
-    }
-    
-    // Format dates
-    const startDateStr = formatDate(startDate);
-    const endDateStr = formatDate(endDate);
-    
-    // Query step history to derive active minutes
-    const stepHistoryRef = collection(db, 'stepHistory');
-    const stepQuery = query(
-      stepHistoryRef,
-      where('userId', '==', userId),
-      where('date', '>=', startDateStr),
-      where('date', '<=', endDateStr),
-      orderBy('date', 'asc')
-    );
-    
-    const querySnapshot = await getDocs(stepQuery);
-    
-    // Group by appropriate time period
-    const groupedData: { [key: string]: number } = {};
-    
-    querySnapshot.forEach(doc => {
-      const data = doc.data();
-      let key = data.date;
-      
-      // For weekly and monthly goals, group by week or month
-      if (goal.timeFrame === GoalTimeFrame.WEEKLY) {
-        // Get week number (simple implementation - group by 7 days)
-        const date = new Date(data.date);
-        const weekNum = Math.floor((date.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000));
-        key = `Week ${weekNum + 1}`;
-      } else if (goal.timeFrame === GoalTimeFrame.MONTHLY) {
-        // Get month
-        const date = new Date(data.date);
-        key = date.toLocaleString('default', { month: 'short' });
-      }
-      
-      if (!groupedData[key]) groupedData[key] = 0;
-      // Convert steps to active minutes (rough estimate: 100 steps = 1 minute)
-      groupedData[key] += Math.round(data.steps / 100);
-    });
+    // Smooth over all weigh-ins so the trend at the start of the goal is settled
+    const points = calculateWeightTrend(await getWeighIns(userId));
     
-    // Convert to array for chart
-    Object.keys(groupedData).forEach(key => {
-      history.push({
-        date: key,
-        value: groupedData[key]
+    points
+      .filter(point => point.date >= goal.startDate)
+      .forEach(point => {
+        history.push({
+          date: point.date.slice(5),
+          value: point.trend
+        });
       });
-    });
   };
   
-  const loadDistanceHistory = async (goal: FitnessGoal, history: any[]) => {
+  const loadSleepHistory = async (goal: FitnessGoal, history: any[]) => {
     const userId = auth.currentUser?.uid;
     if (!userId) return;
     
-    // For now, we'll estimate distance from steps (1 step ≈ 0.762 meters)
-    let startDate, endDate;
-    const today = new Date();
-    
-    // Determine date range based on goal timeframe
-    switch (goal.timeFrame) {
-      case GoalTimeFrame.DAILY:
-        // Show last 7 days
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 6);
-        endDate = today;
-        break;
-      case GoalTimeFrame.WEEKLY:
-        // Show last 4 weeks
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 28);
-        endDate = today;
-        break;
-      case GoalTimeFrame.MONTHLY:
-        // Show last 6 months
-        startDate = new Date(today);
-        startDate.setMonth(today.getMonth() - 5);
-        endDate = today;
-        break;
-    }
-    
-    // Format dates
-    const startDateStr = formatDate(startDate);
-    const endDateStr = formatDate(endDate);
-    
-    // Query step history to derive distance
-    const stepHistoryRef = collection(db, 'stepHistory');
-    const stepQuery = query(
-      stepHistoryRef,
-      where('userId', '==', userId),
-      where('date', '>=', startDateStr),
-      where('date', '<=', endDateStr),
-      orderBy('date', 'asc')
-    );
-    
-    const querySnapshot = await getDocs(stepQuery);
-    
-    // Group by appropriate time period
-    const groupedData: { [key: string]: number } = {};
+    const endDate = goal.endDate < getCurrentDate() ? goal.endDate : getCurrentDate();
+    const days = await getDailyAnalytics(userId, addDays(endDate, -13), endDate);
     
-    querySnapshot.forEach(doc => {
-      const data = doc.data();
-      let key = data.date;
-      
-      // For weekly and monthly goals, group by week or month
-      if (goal.timeFrame === GoalTimeFrame.WEEKLY) {
-        // Get week number (simple implementation - group by 7 days)
-        const date = new Date(data.date);
-        const weekNum = Math.floor((date.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000));
-        key = `Week ${weekNum + 1}`;
-      } else if (goal.timeFrame === GoalTimeFrame.MONTHLY) {
-        // Get month
-        const date = new Date(data.date);
-        key = date.toLocaleString('default', { month: 'short' });
-      }
-      
-      if (!groupedData[key]) groupedData[key] = 0;
-      // Convert steps to distance in kilometers (0.762 meters per step)
-      groupedData[key] += data.steps * 0.000762;
-    });
-    
-    // Convert to array for chart
-    Object.keys(groupedData).forEach(key => {
+    days.forEach(day => {
+      if (day.sleepHours === undefined) return;
       history.push({
-        date: key,
-        value: parseFloat(groupedData[key].toFixed(2))
+        date: day.date.slice(5),
+        value: day.sleepHours
       });
     });
   };
@@ -413,6 +249,12 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
         return 'fast-food-outline';
       case 'distance':
         return 'map-outline';
+      case 'weight':
+        return 'scale-outline';
+      case 'sleep':
+        return 'moon-outline';
+      case 'custom':
+        return goal.metric ? CUSTOM_GOAL_METRICS[goal.metric].icon : 'fitness-outline';
       default:
         return 'fitness-outline';
     }
@@ -467,11 +309,99 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
         return `${value} kcal`;
       case 'distance':
         return `${value.toFixed(2)} km`;
+      case 'weight':
+        return `${value.toFixed(1)} kg`;
+      case 'sleep':
+        return `${value.toFixed(1)} h`;
+      case 'custom':
+        return `${Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2)} ${goal.unit || ''}`.trim();
       default:
         return value.toLocaleString();
     }
   };
   
+  // Label a past period, e.g. "2024-05-06" or "2024-05-06 – 2024-05-12"
+  const formatPeriod = (entry: GoalHistoryEntry) =>
+    entry.startDate === entry.endDate ? entry.endDate : `${entry.startDate} – ${entry.endDate}`;
+  
+  const getOutcomeIcon = (entry: GoalHistoryEntry) => {
+    if (entry.replacedBy) return { name: 'swap-horizontal', color: '#999' };
+    return entry.status === GoalStatus.COMPLETED
+      ? { name: 'checkmark-circle', color: '#4CAF50' }
+      : { name: 'close-circle', color: '#F44336' };
+  };
+  
+  // Success rate, streaks and target changes over past periods
+  const renderOutcomeHistory = () => {
+    if (outcomes.length === 0) return null;
+    
+    const summary = summarizeGoalHistory(outcomes);
+    const evolution = getTargetEvolution(outcomes).slice(-TARGET_CHART_MONTHS);
+    
+    return (
+      <View style={styles.chartContainer}>
+        <Text style={styles.chartTitle}>Past Periods</Text>
+        <View style={styles.outcomeStats}>
+          <View style={styles.outcomeStat}>
+            <Text style={styles.progressStatValue}>
+              {summary.successRate !== null ? `${Math.round(summary.successRate * 100)}%` : '-'}
+            </Text>
+            <Text style={styles.progressStatLabel}>{summary.completed} of {summary.periods} met</Text>
+          </View>
+          <View style={styles.outcomeStat}>
+            <Text style={styles.progressStatValue}>{summary.bestStreak}</Text>
+            <Text style={styles.progressStatLabel}>Best run</Text>
+          </View>
+          {summary.averageResult !== null && (
+            <View style={styles.outcomeStat}>
+              <Text style={styles.progressStatValue}>{Math.round(summary.averageResult * 100)}%</Text>
+              <Text style={styles.progressStatLabel}>Avg of target</Text>
+            </View>
+          )}
+        </View>
+        
+        {evolution.length >= 2 && (
+          <>
+            <Text style={styles.outcomeSubtitle}>Average target by month</Text>
+            <LineChart
+              data={{
+                labels: evolution.map(point => MONTH_LABELS[parseInt(point.month.slice(5, 7), 10) - 1]),
+                datasets: [{ data: evolution.map(point => point.averageTarget) }],
+              }}
+              width={screenWidth - 40}
+              height={180}
+              chartConfig={{
+                backgroundColor: '#f5f5f5',
+                backgroundGradientFrom: '#f5f5f5',
+                backgroundGradientTo: '#f5f5f5',
+                decimalPlaces: goal?.type === 'distance' || goal?.type === 'weight' || goal?.type === 'sleep' ? 1 : 0,
+                color: (opacity = 1) => `rgba(0, 150, 136, ${opacity})`,
+                labelColor: (opacity = 1) => `rgba(0, 0, 0, ${opacity})`,
+                propsForLabels: {
+                  fontSize: 10,
+                },
+              }}
+              style={styles.chart}
+            />
+          </>
+        )}
+        
+        {outcomes.slice(0, RECENT_OUTCOMES).map(entry => {
+          const icon = getOutcomeIcon(entry);
+          return (
+            <View key={entry.goalId} style={styles.outcomeRow}>
+              <Ionicons name={icon.name as any} size={20} color={icon.color} />
+              <Text style={styles.outcomePeriod}>{formatPeriod(entry)}</Text>
+              <Text style={styles.outcomeValue}>
+                {entry.replacedBy ? 'Replaced' : `${formatValue(entry.final)} / ${formatValue(entry.target)}`}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+  
   // Format goal timeline
   const formatGoalTimeline = () => {
     if (!goal) return '';
@@ -482,10 +412,33 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
     return `${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
   };
   
+  // Add progress to a custom goal tracked by hand
+  const logManualProgress = async () => {
+    const amount = parseFloat(manualAmount);
+    if (!goal || isNaN(amount) || amount === 0) {
+      Alert.alert('Invalid amount', 'Enter the amount to add to this goal');
+      return;
+    }
+    
+    try {
+      const updated = await GoalsTrackingService.logManualProgress(goal.id, amount);
+      if (updated) {
+        setGoal({ ...goal, current: updated.current, status: updated.status });
+      }
+      setManualAmount('');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to log progress');
+    }
+  };
+  
   // Calculate progress percentage
   const calculateProgress = () => {
     if (!goal) return 0;
     
+    if (goal.type === 'weight') {
+      return Math.round(getWeightGoalProgress(goal) * 100);
+    }
+    
     return Math.min(100, Math.round((goal.current / goal.target) * 100));
   };
   
@@ -525,6 +478,14 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
           <Ionicons name="arrow-back" size={24} color="#fff" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Goal Details</Text>
+        {goal.isCustom && (
+          <TouchableOpacity
+            style={styles.editButton}
+            onPress={() => navigation.navigate('custom-goal', { goalId: goal.id })}
+          >
+            <Ionicons name="create-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        )}
       </View>
       
       {/* Goal Card */}
@@ -534,7 +495,8 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
             <Ionicons name={getGoalTypeIcon() as any} size={32} color="#6200ee" />
           </View>
           <View style={styles.goalInfo}>
-            <Text style={styles.goalTitle}>{goal.description}</Text>
+            <Text style={styles.goalTitle}>{goal.title || goal.description}</Text>
+            {goal.title ? <Text style={styles.goalTimeframe}>{goal.description}</Text> : null}
             <Text style={styles.goalTimeframe}>{formatGoalTimeline()}</Text>
             <View style={[styles.statusBadge, { backgroundColor: getGoalStatusColor() }]}>
               <Text style={styles.statusText}>{getGoalStatusLabel()}</Text>
@@ -577,6 +539,45 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
           </View>
         </View>
         
+        {/* Forecast for weekly and monthly goals */}
+        {forecast && (
+          <View style={styles.forecastContainer}>
+            <View style={styles.forecastHeader}>
+              <Text style={styles.guidanceTitle}>
+                <Ionicons name="trending-up-outline" size={18} color="#6200ee" /> Forecast
+              </Text>
+              <View style={[styles.paceBadge, { backgroundColor: PACE_COLORS[forecast.status] }]}>
+                <Text style={styles.paceBadgeText}>{forecast.status.replace('_', ' ')}</Text>
+              </View>
+            </View>
+            <Text style={styles.guidanceTip}>{describeForecast(goal, forecast)}</Text>
+            <Text style={styles.rationaleOdds}>
+              Projected {formatForecastValue(goal, forecast.projected)} by the end of the {goal.timeFrame === GoalTimeFrame.WEEKLY ? 'week' : 'month'} (likely {formatForecastValue(goal, forecast.low)} to {formatForecastValue(goal, forecast.high)})
+            </Text>
+            {!forecast.basedOnPattern && (
+              <Text style={styles.rationaleOdds}>
+                Based on this period only until there is more of your history to go on.
+              </Text>
+            )}
+          </View>
+        )}
+        
+        {/* Manual progress for custom goals the app cannot measure */}
+        {goal.metric === CustomGoalMetric.MANUAL && (
+          <View style={styles.manualContainer}>
+            <TextInput
+              style={styles.manualInput}
+              value={manualAmount}
+              onChangeText={setManualAmount}
+              keyboardType="numeric"
+              placeholder={`Add ${goal.unit || 'progress'}`}
+            />
+            <TouchableOpacity style={styles.manualButton} onPress={logManualProgress}>
+              <Text style={styles.manualButtonText}>Log</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        
         {/* History Chart */}
         {history.length > 0 && (
           <View style={styles.chartContainer}>
@@ -596,7 +597,7 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
                 backgroundColor: '#f5f5f5',
                 backgroundGradientFrom: '#f5f5f5',
                 backgroundGradientTo: '#f5f5f5',
-                decimalPlaces: goal.type === 'distance' ? 1 : 0,
+                decimalPlaces: goal.type === 'distance' || goal.type === 'weight' || goal.type === 'sleep' || goal.metric === CustomGoalMetric.DISTANCE ? 1 : 0,
                 color: (opacity = 1) => `rgba(98, 0, 238, ${opacity})`,
                 labelColor: (opacity = 1) => `rgba(0, 0, 0, ${opacity})`,
                 propsForDots: {
@@ -614,6 +615,24 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
           </View>
         )}
         
+        {/* Outcomes of earlier periods */}
+        {renderOutcomeHistory()}
+        
+        {/* How the target was chosen */}
+        {goal.rationale ? (
+          <View style={styles.rationaleContainer}>
+            <Text style={styles.guidanceTitle}>
+              <Ionicons name="analytics-outline" size={18} color="#6200ee" /> Why this target
+            </Text>
+            <Text style={styles.guidanceTip}>{goal.rationale}</Text>
+            {goal.successProbability !== undefined && (
+              <Text style={styles.rationaleOdds}>
+                Estimated chance of success: {Math.round(goal.successProbability * 100)}%
+              </Text>
+            )}
+          </View>
+        ) : null}
+        
         {/* Guidance Section */}
         <View style={styles.guidanceContainer}>
           <Text style={styles.guidanceTitle}>
@@ -672,6 +691,16 @@ export default function GoalDetailScreen({ route, navigation }: { route: any; na
           </>
         );
       
+      case 'sleep':
+        return (
+          <>
+            <Text style={styles.guidanceTip}>• Go to bed and wake up at the same time every day</Text>
+            <Text style={styles.guidanceTip}>• Put screens away an hour before bed</Text>
+            <Text style={styles.guidanceTip}>• Avoid caffeine after lunch and hard workouts late in the evening</Text>
+            <Text style={styles.guidanceTip}>• Log your night in the Sleep Tracker when you wake up</Text>
+          </>
+        );
+      
       default:
         return (
           <Text style={styles.guidanceTip}>• Stay consistent with your habits to reach your goal</Text>
@@ -729,6 +758,12 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
     color: '#fff',
+    flex: 1,
+  },
+  editButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
   },
   goalCard: {
     margin: 16,
@@ -846,6 +881,71 @@ const styles = StyleSheet.create({
     marginVertical: 8,
     borderRadius: 8,
   },
+  outcomeStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  outcomeStat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  outcomeSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  outcomeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  outcomePeriod: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 8,
+  },
+  outcomeValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rationaleContainer: {
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  rationaleOdds: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  forecastContainer: {
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  forecastHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  paceBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  paceBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
   guidanceContainer: {
     padding: 16,
     backgroundColor: '#f0e6ff',
@@ -863,4 +963,29 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     lineHeight: 20,
   },
+  manualContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  manualInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginRight: 10,
+  },
+  manualButton: {
+    backgroundColor: '#6200ee',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  manualButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
 });
\ No newline at end of file
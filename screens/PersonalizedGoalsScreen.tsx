@@ -16,14 +16,28 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { FitnessGoal, GoalTimeFrame, GoalStatus, FitnessRecommendation } from '../models/FitnessGoalModels';
+import { FitnessGoal, GoalTimeFrame, GoalStatus, FitnessRecommendation, WeatherContext } from '../models/FitnessGoalModels';
 import GoalsTrackingService from '../services/GoalsTrackingService';
 import GoalsGenerationService from '../services/GoalsGenerationService';
+import goalLifecycleService from '../services/goalLifecycleService';
+import {
+  StreakState,
+  StreakHistoryEvent,
+  StreakKey,
+  STREAK_LABELS,
+  getStreakState,
+  getStreakHistory,
+  describeStreakEvent
+} from '../services/streakService';
+import { GoalForecast, PACE_COLORS, describeForecast, forecastGoals } from '../services/goalForecastService';
+import { CUSTOM_GOAL_METRICS } from '../services/CustomGoalsService';
+import { getWeightGoalProgress } from '../services/weightTrackingService';
 import RecommendationsService from '../services/RecommendationsService';
 import WorkoutProgramService from '../services/WorkoutProgramService';
 import WeatherService from '../services/WeatherService';
+import { SEVERITY_COLORS, SEVERITY_LABELS, getAirQualityCategory } from '../services/outdoorSafety';
 import { auth } from '../app/firebaseConfig';
-import { formatDate } from '../utils/dateUtils';
+import { formatDate, formatTime } from '../utils/dateUtils';
 
 // Get screen dimensions for responsive design
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -34,7 +48,8 @@ const isTablet = SCREEN_WIDTH > 600;
 const GoalTimeFrameLabels = {
   [GoalTimeFrame.DAILY]: 'Today',
   [GoalTimeFrame.WEEKLY]: 'This Week',
-  [GoalTimeFrame.MONTHLY]: 'This Month'
+  [GoalTimeFrame.MONTHLY]: 'This Month',
+  [GoalTimeFrame.CUSTOM]: 'Custom'
 };
 
 export default function PersonalizedGoalsScreen({ navigation, route }: { navigation: any, route: any }) {
@@ -42,10 +57,13 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
   const [recommendations, setRecommendations] = useState<FitnessRecommendation[]>([]);
   const [achievements, setAchievements] = useState<any[]>([]);
   const [workoutPrograms, setWorkoutPrograms] = useState<any[]>([]);
+  const [streakState, setStreakState] = useState<StreakState | null>(null);
+  const [streakHistory, setStreakHistory] = useState<StreakHistoryEvent[]>([]);
+  const [forecasts, setForecasts] = useState<{ [goalId: string]: GoalForecast }>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState('goals'); // 'goals', 'recommendations', 'achievements', 'programs'
-  const [weather, setWeather] = useState<any>(null);
+  const [weather, setWeather] = useState<WeatherContext | null | undefined>(undefined); // null when unknown
   const [tabIndicatorPosition] = useState(new Animated.Value(0));
   const [tabIndicatorWidth] = useState(new Animated.Value(0));
   
@@ -114,6 +132,9 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
     try {
       setLoading(true);
       
+      // Close yesterday's goals first if the day changed while the screen was open
+      await goalLifecycleService.runIfDue().catch(error => console.warn('Goal lifecycle check failed:', error));
+      
       // Sync goal progress with latest activity data
       console.log('Syncing goal progress...');
       await GoalsTrackingService.syncGoalProgress();
@@ -122,6 +143,9 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
       const currentWeather = await WeatherService.getCurrentWeather();
       setWeather(currentWeather);
       
+      // Load the forecast so recommendations can plan the best workout window
+      await WeatherService.getHourlyForecast();
+      
       // Get active goals with direct debugging
       console.log('Loading active goals...');
       const goals = await GoalsTrackingService.getActiveGoals();
@@ -134,6 +158,19 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
       
       setActiveGoals(goals);
       
+      // Forecast weekly and monthly goals
+      setForecasts(await forecastGoals(goals));
+      
+      // Get streaks and their recent history
+      if (auth.currentUser) {
+        const [streaks, history] = await Promise.all([
+          getStreakState(auth.currentUser.uid),
+          getStreakHistory(auth.currentUser.uid, 5)
+        ]);
+        setStreakState(streaks);
+        setStreakHistory(history);
+      }
+      
       // Get recommendations
       const recs = await RecommendationsService.getActiveRecommendations();
       setRecommendations(recs);
@@ -268,7 +305,10 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
   
   // Render goal progress bar with animation
   const renderGoalProgress = (goal: FitnessGoal) => {
-    const progress = Math.min(goal.current / goal.target, 1);
+    const progress = goal.type === 'weight'
+      ? getWeightGoalProgress(goal)
+      : Math.min(goal.current / goal.target, 1);
+    const forecast = forecasts[goal.id];
     let color1, color2;
     
     // Different colors based on goal type
@@ -289,6 +329,14 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
         color1 = '#2196F3';
         color2 = '#03A9F4';
         break;
+      case 'weight':
+        color1 = '#009688';
+        color2 = '#4DB6AC';
+        break;
+      case 'sleep':
+        color1 = '#3F51B5';
+        color2 = '#7986CB';
+        break;
       default:
         color1 = '#6200ee';
         color2 = '#9546f8';
@@ -309,7 +357,11 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
         </View>
         <View style={styles.progressTextContainer}>
           <Text style={styles.progressText}>
-            {goal.current.toLocaleString()} / {goal.target.toLocaleString()}
+            {goal.type === 'weight'
+              ? `${goal.current.toFixed(1)} kg, target ${goal.target.toFixed(1)} kg`
+              : goal.type === 'sleep'
+              ? `${goal.current.toFixed(1)} / ${goal.target} hours`
+              : `${goal.current.toLocaleString()} / ${goal.target.toLocaleString()}${goal.unit ? ` ${goal.unit}` : ''}`}
           </Text>
           {goal.streak && goal.streak > 1 ? (
             <Text style={styles.streakText}>
@@ -317,6 +369,11 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
             </Text>
           ) : null}
         </View>
+        {forecast && (
+          <Text style={[styles.forecastText, { color: PACE_COLORS[forecast.status] }]}>
+            <Ionicons name="trending-up" size={14} color={PACE_COLORS[forecast.status]} /> {describeForecast(goal, forecast)}
+          </Text>
+        )}
       </View>
     );
   };
@@ -339,20 +396,79 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
       case 'distance':
         icon = 'map-outline';
         break;
+      case 'weight':
+        icon = 'scale-outline';
+        break;
+      case 'sleep':
+        icon = 'moon-outline';
+        break;
+      case 'custom':
+        icon = goal.metric ? CUSTOM_GOAL_METRICS[goal.metric].icon : 'create-outline';
+        break;
     }
     
+    // Custom goals show their own dates instead of a fixed period
+    const timeframeLabel = goal.timeFrame === GoalTimeFrame.CUSTOM
+      ? `${goal.startDate} to ${goal.endDate}${goal.direction === 'at_most' ? ' · stay under' : ''}`
+      : GoalTimeFrameLabels[goal.timeFrame];
+    
     return (
-      <View key={goal.id} style={styles.goalCard}>
+      <TouchableOpacity
+        key={goal.id}
+        style={styles.goalCard}
+        onPress={() => navigation.navigate('goal-detail', { goalId: goal.id })}
+      >
         <View style={styles.goalHeader}>
           <View style={styles.goalIconContainer}>
             <Ionicons name={icon as any} size={24} color="#6200ee" />
           </View>
           <View style={styles.goalTitleContainer}>
-            <Text style={styles.goalTitle}>{goal.description}</Text>
-            <Text style={styles.goalTimeframe}>{GoalTimeFrameLabels[goal.timeFrame]}</Text>
+            <Text style={styles.goalTitle}>{goal.title || goal.description}</Text>
+            <Text style={styles.goalTimeframe}>{timeframeLabel}</Text>
           </View>
         </View>
         {renderGoalProgress(goal)}
+      </TouchableOpacity>
+    );
+  };
+  
+  // Render the activity streak, goal streaks, freezes and recent streak events
+  const renderStreakCard = () => {
+    if (!streakState) return null;
+    
+    const activity = streakState.streaks.activity;
+    const goalStreaks = (Object.keys(streakState.streaks) as StreakKey[])
+      .filter(key => key !== 'activity' && (streakState.streaks[key]?.current || 0) > 0);
+    
+    return (
+      <View style={styles.goalCard}>
+        <View style={styles.streakHeader}>
+          <View style={styles.streakStat}>
+            <Text style={styles.streakValue}>🔥 {activity?.current || 0}</Text>
+            <Text style={styles.streakLabel}>Day streak</Text>
+          </View>
+          <View style={styles.streakStat}>
+            <Text style={styles.streakValue}>{activity?.longest || 0}</Text>
+            <Text style={styles.streakLabel}>Longest</Text>
+          </View>
+          <View style={styles.streakStat}>
+            <Text style={styles.streakValue}>❄️ {streakState.freezes}</Text>
+            <Text style={styles.streakLabel}>Freezes</Text>
+          </View>
+        </View>
+        
+        {goalStreaks.map(key => (
+          <Text key={key} style={styles.goalStreakText}>
+            {streakState.streaks[key]?.current} days of your {STREAK_LABELS[key]} (best {streakState.streaks[key]?.longest})
+          </Text>
+        ))}
+        
+        {streakHistory.map(event => (
+          <View key={event.id} style={styles.streakEvent}>
+            <Text style={styles.streakEventDate}>{event.date}</Text>
+            <Text style={styles.streakEventText}>{describeStreakEvent(event)}</Text>
+          </View>
+        ))}
       </View>
     );
   };
@@ -429,6 +545,11 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
             )}
           </View>
         </View>
+        {recommendation.severity && (
+          <View style={[styles.severityBadge, { backgroundColor: SEVERITY_COLORS[recommendation.severity] }]}>
+            <Text style={styles.severityBadgeText}>{SEVERITY_LABELS[recommendation.severity]}</Text>
+          </View>
+        )}
         <Text style={styles.recommendationDescription}>
           {recommendation.description}
         </Text>
@@ -469,7 +590,7 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
             styles.achievementTitle,
             !isUnlocked && styles.lockedText
           ]}>
-            {achievement.title}
+            {achievement.title}{achievement.tierLabel ? ` · ${achievement.tierLabel}` : ''}
           </Text>
           <Text style={[
             styles.achievementDescription,
@@ -586,7 +707,16 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
   
   // Render weather info
   const renderWeatherInfo = () => {
-    if (!weather) return null;
+    if (weather === undefined) return null;
+    
+    if (weather === null) {
+      return (
+        <View style={styles.weatherContainer}>
+          <Ionicons name="cloud-offline-outline" size={24} color="#fff" />
+          <Text style={styles.weatherText}>Weather unavailable</Text>
+        </View>
+      );
+    }
     
     let weatherIcon = 'sunny-outline';
     
@@ -605,18 +735,34 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
         break;
     }
     
+    // Whatever the provider could tell us beyond the basics
+    const details: string[] = [];
+    if (weather.feelsLike !== undefined && weather.feelsLike !== weather.temperature) {
+      details.push(`Feels like ${weather.feelsLike}°C`);
+    }
+    if (weather.airQualityIndex !== undefined) {
+      details.push(`Air: ${getAirQualityCategory(weather.airQualityIndex)} (${weather.airQualityIndex})`);
+    }
+    if (weather.uvIndex !== undefined) details.push(`UV ${weather.uvIndex}`);
+    if (weather.sunset) details.push(`Sunset ${formatTime(new Date(weather.sunset))}`);
+    
     return (
-      <View style={styles.weatherContainer}>
-        <Ionicons name={weatherIcon as any} size={24} color="#fff" />
-        <Text style={styles.weatherText}>
-          {weather.temperature}°C {weather.condition}
-        </Text>
-        {weather.isOutdoorFriendly ? (
-          <Text style={styles.weatherGoodText}>Good for outdoor activity</Text>
-        ) : (
-          <Text style={styles.weatherBadText}>Better for indoor activity</Text>
+      <>
+        <View style={styles.weatherContainer}>
+          <Ionicons name={weatherIcon as any} size={24} color="#fff" />
+          <Text style={styles.weatherText}>
+            {weather.temperature}°C {weather.condition}
+          </Text>
+          {weather.isOutdoorFriendly ? (
+            <Text style={styles.weatherGoodText}>Good for outdoor activity</Text>
+          ) : (
+            <Text style={styles.weatherBadText}>Better for indoor activity</Text>
+          )}
+        </View>
+        {details.length > 0 && (
+          <Text style={styles.weatherDetailsText}>{details.join(' · ')}</Text>
         )}
-      </View>
+      </>
     );
   };
   
@@ -745,6 +891,9 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
         {/* Goals Tab */}
         {activeTab === 'goals' && (
           <View style={styles.tabContent}>
+            {/* Streaks */}
+            {renderStreakCard()}
+            
             {/* Daily Goals */}
             <Text style={styles.sectionTitle}>Daily Goals</Text>
             {activeGoals.filter(goal => goal.timeFrame === GoalTimeFrame.DAILY).length > 0 ? (
@@ -781,6 +930,27 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
               </View>
             )}
             
+            {/* Custom Goals */}
+            <Text style={styles.sectionTitle}>Custom Goals</Text>
+            {activeGoals.filter(goal => goal.timeFrame === GoalTimeFrame.CUSTOM).length > 0 ? (
+              activeGoals
+                .filter(goal => goal.timeFrame === GoalTimeFrame.CUSTOM)
+                .map(renderGoalCard)
+            ) : (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyStateText}>Set your own target, like 3 strength workouts this week</Text>
+              </View>
+            )}
+            
+            {/* Create Custom Goal Button */}
+            <TouchableOpacity
+              style={styles.customGoalButton}
+              onPress={() => navigation.navigate('custom-goal', {})}
+            >
+              <Ionicons name="add-circle-outline" size={20} color="#6200ee" style={{ marginRight: 8 }} />
+              <Text style={styles.customGoalButtonText}>Create Custom Goal</Text>
+            </TouchableOpacity>
+            
             {/* Generate Goals Button */}
             <TouchableOpacity
               style={styles.generateButton}
@@ -873,6 +1043,14 @@ export default function PersonalizedGoalsScreen({ navigation, route }: { navigat
         {/* Achievements Tab */}
         {activeTab === 'achievements' && (
           <View style={styles.tabContent}>
+            <TouchableOpacity
+              style={styles.customGoalButton}
+              onPress={() => navigation.navigate('trophy-case')}
+            >
+              <Ionicons name="trophy-outline" size={20} color="#6200ee" style={{ marginRight: 8 }} />
+              <Text style={styles.customGoalButtonText}>View Trophy Case</Text>
+            </TouchableOpacity>
+
             {achievements.length > 0 ? (
               <>
                 <Text style={styles.sectionTitle}>Your Achievements</Text>
@@ -947,6 +1125,11 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     fontSize: 16,
   },
+  weatherDetailsText: {
+    color: '#e0e0e0',
+    fontSize: 13,
+    marginTop: 4,
+  },
   weatherGoodText: {
     color: '#a5d6a7',
     marginLeft: 8,
@@ -1081,6 +1264,51 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 14,
   },
+  forecastText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 6,
+  },
+  streakHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+  },
+  streakStat: {
+    alignItems: 'center',
+  },
+  streakValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  streakLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  goalStreakText: {
+    fontSize: 14,
+    color: '#ff9800',
+    marginTop: 6,
+  },
+  streakEvent: {
+    flexDirection: 'row',
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  streakEventDate: {
+    fontSize: 12,
+    color: '#999',
+    width: 84,
+  },
+  streakEventText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#555',
+  },
   recommendationCard: {
     borderRadius: 16,
     padding: 16,
@@ -1119,6 +1347,18 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  severityBadge: {
+    alignSelf: 'flex-start',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 8,
+  },
+  severityBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   recommendationDescription: {
     fontSize: 14,
     color: '#333',
@@ -1364,6 +1604,23 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     maxWidth: '90%',
   },
+  customGoalButton: {
+    marginTop: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#6200ee',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+  },
+  customGoalButtonText: {
+    color: '#6200ee',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
   generateButton: {
     marginTop: 20,
     marginBottom: 40,
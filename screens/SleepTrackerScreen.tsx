@@ -0,0 +1,497 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { auth } from '../app/firebaseConfig';
+import {
+  MIN_RECOMMENDED_SLEEP_HOURS,
+  SleepInput,
+  SleepLog,
+  SleepSummary,
+  deleteSleepLog,
+  getSleepLogs,
+  getSleepSummary,
+  logSleep,
+  validateSleepInput
+} from '../services/sleepService';
+import GoalsTrackingService from '../services/GoalsTrackingService';
+import {
+  getCurrentDate,
+  addDays,
+  formatTime,
+  formatReadableDate,
+  isValidDateFormat,
+  zonedTimeToDate
+} from '../utils/dateUtils';
+
+const RECENT_NIGHTS = 14;
+
+const QUALITY_LABELS = ['Poor', 'Restless', 'Okay', 'Good', 'Great'];
+
+// "HH:MM" on a 24-hour clock, or null if the text is not a time
+const parseClockTime = (text: string): { hours: number; minutes: number } | null => {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+};
+
+export default function SleepTrackerScreen({ navigation }: { navigation: any }) {
+  const [bedtime, setBedtime] = useState('23:00');
+  const [wakeTime, setWakeTime] = useState('07:00');
+  const [wakeDate, setWakeDate] = useState(getCurrentDate());
+  const [quality, setQuality] = useState(3);
+  const [summary, setSummary] = useState<SleepSummary | null>(null);
+  const [nights, setNights] = useState<SleepLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSleep();
+  }, []);
+
+  const loadSleep = async () => {
+    try {
+      const user = auth.currentUser;
+      if (!user) return;
+
+      const today = getCurrentDate();
+      const [recentSummary, recentNights] = await Promise.all([
+        getSleepSummary(user.uid),
+        getSleepLogs(user.uid, addDays(today, -(RECENT_NIGHTS - 1)), today)
+      ]);
+
+      setSummary(recentSummary);
+      setNights(recentNights.reverse());
+    } catch (error) {
+      console.error('Error loading sleep:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Bedtime is taken as the evening before when it is later than the wake-up time
+  const buildInput = (): SleepInput | string => {
+    const bed = parseClockTime(bedtime);
+    const wake = parseClockTime(wakeTime);
+    if (!bed || !wake) return 'Enter times as HH:MM, e.g. 23:30';
+    if (!isValidDateFormat(wakeDate.trim())) return 'Enter the wake-up date as YYYY-MM-DD';
+
+    const date = wakeDate.trim();
+    const bedMinutes = bed.hours * 60 + bed.minutes;
+    const wakeMinutes = wake.hours * 60 + wake.minutes;
+    const bedDate = bedMinutes > wakeMinutes ? addDays(date, -1) : date;
+
+    return {
+      bedtime: zonedTimeToDate(bedDate, bed.hours, bed.minutes),
+      wakeTime: zonedTimeToDate(date, wake.hours, wake.minutes),
+      quality
+    };
+  };
+
+  const handleSave = async () => {
+    const input = buildInput();
+    if (typeof input === 'string') {
+      Alert.alert('Error', input);
+      return;
+    }
+
+    const validationError = validateSleepInput(input);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await logSleep(input);
+      await GoalsTrackingService.syncGoalProgress();
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadSleep();
+    } catch (error) {
+      console.error('Error logging sleep:', error);
+      Alert.alert('Error', 'Failed to save your sleep. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (night: SleepLog) => {
+    Alert.alert(
+      'Delete Night',
+      `Remove your sleep for ${formatReadableDate(new Date(night.wakeTime))}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteSleepLog(night.date);
+              await GoalsTrackingService.syncGoalProgress();
+              await loadSleep();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete this night');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderSummary = () => {
+    if (!summary || summary.nights === 0) {
+      return (
+        <View style={styles.summaryCard}>
+          <Ionicons name="moon" size={32} color="#3F51B5" />
+          <Text style={styles.emptyText}>
+            Log a few nights to see your sleep patterns. Nights you don't log are estimated
+            from how still your phone stays while the step tracker is running.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.summaryCard}>
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{summary.averageHours}h</Text>
+            <Text style={styles.statLabel}>Average</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{summary.averageQuality}/5</Text>
+            <Text style={styles.statLabel}>Quality</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, summary.sleepDebt > 0 && styles.debtValue]}>
+              {summary.sleepDebt}h
+            </Text>
+            <Text style={styles.statLabel}>Sleep debt</Text>
+          </View>
+        </View>
+        <Text style={styles.summaryNote}>
+          Last 7 days, {summary.nights} {summary.nights === 1 ? 'night' : 'nights'} logged.
+          Sleep debt counts hours under {MIN_RECOMMENDED_SLEEP_HOURS} a night.
+        </Text>
+      </View>
+    );
+  };
+
+  const renderNight = (night: SleepLog) => (
+    <View key={night.date} style={styles.nightCard}>
+      <View style={styles.nightIcon}>
+        <Ionicons
+          name={night.source === 'inferred' ? 'phone-portrait-outline' : 'moon-outline'}
+          size={20}
+          color="#3F51B5"
+        />
+      </View>
+      <View style={styles.nightContent}>
+        <Text style={styles.nightDate}>{formatReadableDate(new Date(night.wakeTime))}</Text>
+        <Text style={styles.nightDetails}>
+          {formatTime(new Date(night.bedtime))} - {formatTime(new Date(night.wakeTime))}
+          {night.source === 'inferred' ? ' · estimated' : ''}
+        </Text>
+      </View>
+      <View style={styles.nightStats}>
+        <Text style={[styles.nightHours, night.hours < MIN_RECOMMENDED_SLEEP_HOURS && styles.debtValue]}>
+          {night.hours.toFixed(1)}h
+        </Text>
+        <Text style={styles.nightQuality}>{QUALITY_LABELS[night.quality - 1]}</Text>
+      </View>
+      <TouchableOpacity onPress={() => handleDelete(night)} style={styles.deleteButton}>
+        <Ionicons name="trash-outline" size={18} color="#999" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6200ee" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Sleep Tracker</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {renderSummary()}
+
+        <Text style={styles.sectionTitle}>Log a Night</Text>
+        <View style={styles.timeRow}>
+          <View style={styles.timeField}>
+            <Text style={styles.label}>Bedtime</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="23:00"
+              value={bedtime}
+              onChangeText={setBedtime}
+              maxLength={5}
+            />
+          </View>
+          <View style={styles.timeField}>
+            <Text style={styles.label}>Woke up</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="07:00"
+              value={wakeTime}
+              onChangeText={setWakeTime}
+              maxLength={5}
+            />
+          </View>
+        </View>
+
+        <Text style={styles.label}>Wake-up Date</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD"
+          value={wakeDate}
+          onChangeText={setWakeDate}
+          maxLength={10}
+        />
+
+        <Text style={styles.label}>How did you sleep?</Text>
+        <View style={styles.qualityRow}>
+          {QUALITY_LABELS.map((label, index) => (
+            <TouchableOpacity
+              key={label}
+              style={styles.qualityOption}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setQuality(index + 1);
+              }}
+            >
+              <Ionicons
+                name={index < quality ? 'star' : 'star-outline'}
+                size={28}
+                color={index < quality ? '#FFB300' : '#ccc'}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.qualityLabel}>{QUALITY_LABELS[quality - 1]}</Text>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Night</Text>
+          )}
+        </TouchableOpacity>
+
+        {nights.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Recent Nights</Text>
+            {nights.map(renderNight)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#6200ee',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+    marginLeft: 8,
+  },
+  content: {
+    padding: 20,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    width: '100%',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#3F51B5',
+  },
+  debtValue: {
+    color: '#F44336',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  summaryNote: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 24,
+    marginBottom: 12,
+    color: '#333',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#444',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    fontSize: 16,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 1,
+  },
+  timeRow: {
+    flexDirection: 'row',
+  },
+  timeField: {
+    flex: 1,
+    marginRight: 12,
+  },
+  qualityRow: {
+    flexDirection: 'row',
+  },
+  qualityOption: {
+    marginRight: 8,
+  },
+  qualityLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  saveButton: {
+    backgroundColor: '#6200ee',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  nightCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  nightIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#e8eaf6',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  nightContent: {
+    flex: 1,
+  },
+  nightDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  nightDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  nightStats: {
+    alignItems: 'flex-end',
+    marginRight: 8,
+  },
+  nightHours: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#3F51B5',
+  },
+  nightQuality: {
+    fontSize: 12,
+    color: '#999',
+  },
+  deleteButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../app/firebaseConfig';
+import { Achievement } from '../models/FitnessGoalModels';
+import GoalsTrackingService from '../services/GoalsTrackingService';
+import { buildAchievement, getAchievementCatalog } from '../services/achievementEngine';
+
+type TrophyState = 'unlocked' | 'in_progress' | 'locked';
+
+const getTrophyState = (achievement: Achievement): TrophyState => {
+  if (achievement.unlockedAt) return 'unlocked';
+  return achievement.progress > 0 ? 'in_progress' : 'locked';
+};
+
+export default function TrophyCaseScreen({ navigation }: { navigation: any }) {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadAchievements();
+  }, []);
+
+  // Every catalog entry is shown, with stored progress where there is some
+  const loadAchievements = async (refresh = false) => {
+    try {
+      const user = auth.currentUser;
+      if (!user) return;
+
+      const [catalog, stored] = await Promise.all([
+        getAchievementCatalog(refresh),
+        GoalsTrackingService.getAchievements()
+      ]);
+      const storedById = new Map(stored.map(achievement => [achievement.id, achievement]));
+
+      const merged = catalog.map(definition =>
+        storedById.get(definition.id) || buildAchievement(user.uid, definition, 0));
+
+      // Keep unlocks from achievements that have since left the catalog
+      stored
+        .filter(achievement => achievement.unlockedAt && !catalog.some(definition => definition.id === achievement.id))
+        .forEach(achievement => merged.push(achievement));
+
+      setAchievements(merged);
+    } catch (error) {
+      console.error('Error loading trophy case:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadAchievements(true);
+  };
+
+  const renderTierBadges = (achievement: Achievement) => {
+    const tierCount = achievement.tierCount || 1;
+    if (tierCount < 2) return null;
+
+    return (
+      <View style={styles.tierRow}>
+        {Array.from({ length: tierCount }, (_, index) => (
+          <Ionicons
+            key={index}
+            name={index < (achievement.tier || 0) ? 'star' : 'star-outline'}
+            size={14}
+            color={index < (achievement.tier || 0) ? '#FFB300' : '#ccc'}
+            style={styles.tierStar}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  const renderTrophy = (achievement: Achievement) => {
+    const state = getTrophyState(achievement);
+    const isUnlocked = state === 'unlocked';
+    const showProgress = achievement.progress > 0 && achievement.progress < 100;
+
+    return (
+      <View key={achievement.id} style={[styles.trophyCard, !isUnlocked && styles.lockedCard]}>
+        <View style={[styles.trophyIcon, isUnlocked && styles.unlockedIcon]}>
+          <Ionicons
+            name={(state === 'locked' ? 'lock-closed' : achievement.icon || 'trophy') as any}
+            size={28}
+            color={isUnlocked ? '#FFB300' : '#999'}
+          />
+        </View>
+        <View style={styles.trophyContent}>
+          <View style={styles.titleRow}>
+            <Text style={[styles.trophyTitle, !isUnlocked && styles.lockedText]}>
+              {achievement.title}
+            </Text>
+            {achievement.tierLabel && (
+              <View style={styles.tierLabel}>
+                <Text style={styles.tierLabelText}>{achievement.tierLabel}</Text>
+              </View>
+            )}
+          </View>
+          {renderTierBadges(achievement)}
+          <Text style={styles.trophyDescription}>
+            {isUnlocked ? achievement.description : achievement.requirement}
+          </Text>
+          {showProgress && (
+            <View style={styles.progressContainer}>
+              <View style={styles.progressBackground}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    isUnlocked && styles.nextTierFill,
+                    { width: `${achievement.progress}%` }
+                  ]}
+                />
+              </View>
+              <Text style={styles.progressText}>
+                {isUnlocked ? `Next: ${achievement.requirement} · ` : ''}{achievement.progress}%
+              </Text>
+            </View>
+          )}
+          {isUnlocked && (
+            <Text style={styles.unlockedDate}>
+              Unlocked on {new Date(achievement.unlockedAt!).toLocaleDateString()}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderSection = (title: string, items: Achievement[]) => {
+    if (items.length === 0) return null;
+
+    return (
+      <>
+        <Text style={styles.sectionTitle}>{title} ({items.length})</Text>
+        {items.map(renderTrophy)}
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6200ee" />
+      </View>
+    );
+  }
+
+  const unlocked = achievements
+    .filter(achievement => getTrophyState(achievement) === 'unlocked')
+    .sort((a, b) => (b.unlockedAt || '').localeCompare(a.unlockedAt || ''));
+  const inProgress = achievements
+    .filter(achievement => getTrophyState(achievement) === 'in_progress')
+    .sort((a, b) => b.progress - a.progress);
+  const locked = achievements.filter(achievement => getTrophyState(achievement) === 'locked');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Trophy Case</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6200ee']} />}
+      >
+        <View style={styles.summaryCard}>
+          <Ionicons name="trophy" size={36} color="#FFD700" />
+          <View style={styles.summaryContent}>
+            <Text style={styles.summaryValue}>
+              {unlocked.length} of {achievements.length}
+            </Text>
+            <Text style={styles.summaryLabel}>achievements unlocked</Text>
+          </View>
+        </View>
+
+        {renderSection('Unlocked', unlocked)}
+        {renderSection('In Progress', inProgress)}
+        {renderSection('Locked', locked)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#6200ee',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+    marginLeft: 8,
+  },
+  content: {
+    padding: 16,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  summaryContent: {
+    marginLeft: 16,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 20,
+    marginBottom: 12,
+    color: '#333',
+    paddingHorizontal: 4,
+  },
+  trophyCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    flexDirection: 'row',
+  },
+  lockedCard: {
+    backgroundColor: '#f5f5f5',
+  },
+  trophyIcon: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: '#eee',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  unlockedIcon: {
+    backgroundColor: '#fff9c4',
+  },
+  trophyContent: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  trophyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 8,
+  },
+  tierLabel: {
+    backgroundColor: '#FFD700',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  tierLabelText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  tierRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  tierStar: {
+    marginRight: 2,
+  },
+  trophyDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  lockedText: {
+    color: '#777',
+  },
+  progressContainer: {
+    marginTop: 8,
+  },
+  progressBackground: {
+    height: 6,
+    backgroundColor: '#e0e0e0',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#9e9e9e',
+    borderRadius: 3,
+  },
+  nextTierFill: {
+    backgroundColor: '#6200ee',
+  },
+  progressText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    textAlign: 'right',
+  },
+  unlockedDate: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+});
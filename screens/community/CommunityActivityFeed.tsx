@@ -63,6 +63,8 @@ export default function CommunityActivityFeed({ navigation }: { navigation: any
         return 'person-add-outline';
       case 'achievement_unlocked':
         return 'ribbon-outline';
+      case 'streak_milestone':
+        return 'flame';
       default:
         return 'star-outline';
     }
@@ -80,6 +82,8 @@ export default function CommunityActivityFeed({ navigation }: { navigation: any
         return '#9C27B0';
       case 'achievement_unlocked':
         return '#FFD700';
+      case 'streak_milestone':
+        return '#FF5722';
       default:
         return '#6200ee';
     }
@@ -99,6 +103,8 @@ export default function CommunityActivityFeed({ navigation }: { navigation: any
           : 'sent a friend request';
       case 'achievement_unlocked':
         return `unlocked the "${item.details.achievementTitle}" achievement`;
+      case 'streak_milestone':
+        return `reached a ${item.details.days}-day ${item.details.streakLabel} streak`;
       default:
         return 'did something';
     }
@@ -913,8 +913,22 @@ class AICoachService {
    * Handle sleep-related requests
    */
   private handleSleepRequest(userMessage: string, userData: any): CoachResponse {
+    let message = "Quality sleep is crucial for recovery, performance, and even weight management. Most adults need 7-9 hours of quality sleep each night.";
+    
+    // Personalize with the nights the user has logged this week
+    const sleep = userData?.sleep;
+    if (sleep && sleep.nights > 0 && sleep.averageHours !== null) {
+      if (sleep.averageHours < 7) {
+        message += ` You've averaged ${sleep.averageHours} hours over your last ${sleep.nights} logged nights, which is below that. Even 30 minutes more a night will help your recovery.`;
+      } else {
+        message += ` You've averaged ${sleep.averageHours} hours over your last ${sleep.nights} logged nights. Great job, keep it consistent!`;
+      }
+    } else {
+      message += " Log your sleep in the Sleep Tracker and I can give you more personal advice.";
+    }
+    
     return {
-      message: "Quality sleep is crucial for recovery, performance, and even weight management. Most adults need 7-9 hours of quality sleep each night.",
+      message,
       attachment: {
         type: 'tip',
         data: {
@@ -0,0 +1,404 @@
+import 'react-native-get-random-values';
+import {
+  FitnessGoal,
+  GoalType,
+  GoalTimeFrame,
+  GoalStatus,
+  GoalDirection,
+  CustomGoalMetric,
+  WorkoutCategory
+} from '../models/FitnessGoalModels';
+import { getCurrentDate, isValidDateFormat } from '../utils/dateUtils';
+import { getDailyStepTotals, getActiveMinutes, getDistanceKm } from './stepLedgerService';
+import { getActiveCaloriesBurned } from './energyExpenditureService';
+import { getActiveSeconds } from './activityClassifier';
+import WorkoutProgramService from './WorkoutProgramService';
+import { auth, db } from '../app/firebaseConfig';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+
+// A unit a metric can be shown in, with the factor from the metric's base unit
+export interface CustomGoalUnit {
+  unit: string;
+  factor: number;
+}
+
+export interface CustomGoalMetricInfo {
+  label: string;
+  icon: string;
+  units: CustomGoalUnit[]; // First unit is the base unit
+}
+
+export const CUSTOM_GOAL_METRICS: { [metric in CustomGoalMetric]: CustomGoalMetricInfo } = {
+  [CustomGoalMetric.STEPS]: {
+    label: 'Steps',
+    icon: 'footsteps-outline',
+    units: [{ unit: 'steps', factor: 1 }]
+  },
+  [CustomGoalMetric.DISTANCE]: {
+    label: 'Distance',
+    icon: 'map-outline',
+    units: [{ unit: 'km', factor: 1 }, { unit: 'mi', factor: 1 / 1.609344 }]
+  },
+  [CustomGoalMetric.RUNNING_DISTANCE]: {
+    label: 'Running distance',
+    icon: 'speedometer-outline',
+    units: [{ unit: 'km', factor: 1 }, { unit: 'mi', factor: 1 / 1.609344 }]
+  },
+  [CustomGoalMetric.ACTIVE_MINUTES]: {
+    label: 'Active time',
+    icon: 'timer-outline',
+    units: [{ unit: 'min', factor: 1 }, { unit: 'h', factor: 1 / 60 }]
+  },
+  [CustomGoalMetric.CALORIES_BURNED]: {
+    label: 'Calories burned',
+    icon: 'flame-outline',
+    units: [{ unit: 'kcal', factor: 1 }]
+  },
+  [CustomGoalMetric.CALORIE_INTAKE]: {
+    label: 'Calories eaten',
+    icon: 'fast-food-outline',
+    units: [{ unit: 'kcal', factor: 1 }]
+  },
+  [CustomGoalMetric.WORKOUTS]: {
+    label: 'Workouts',
+    icon: 'barbell-outline',
+    units: [{ unit: 'workouts', factor: 1 }]
+  },
+  [CustomGoalMetric.MANUAL]: {
+    label: 'Something else',
+    icon: 'create-outline',
+    units: [] // The user types their own unit
+  }
+};
+
+// Program workout types (see AICoachService) in each category
+const WORKOUT_CATEGORY_PATTERNS: { [category in Exclude<WorkoutCategory, 'any'>]: RegExp } = {
+  strength: /strength|body|push|pull|legs|chest|back|shoulders/i,
+  cardio: /hiit|circuit|cardio|run|walk|jog|cross train|interval/i
+};
+
+// Fields the user fills in on CustomGoalScreen
+export interface CustomGoalInput {
+  title: string;
+  metric: CustomGoalMetric;
+  target: number;
+  unit: string;
+  direction: GoalDirection;
+  startDate: string;
+  endDate: string;
+  workoutCategory?: WorkoutCategory;
+}
+
+/**
+ * Check a custom goal before saving it
+ * @returns An error message, or null if the goal is valid
+ */
+export const validateCustomGoal = (input: CustomGoalInput): string | null => {
+  if (!input.title.trim()) return 'Give your goal a name';
+  if (!(input.target > 0)) return 'The target must be a number above zero';
+  if (!input.unit.trim()) return 'Choose a unit for the target';
+  if (!isValidDateFormat(input.startDate) || !isValidDateFormat(input.endDate)) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+  if (input.endDate < input.startDate) return 'The end date must be on or after the start date';
+  return null;
+};
+
+/**
+ * Describe a custom goal the way generated goals are described,
+ * e.g. "At least 3 workouts (strength) by 2026-10-25"
+ */
+export const describeCustomGoal = (input: CustomGoalInput): string => {
+  const amount = `${input.target.toLocaleString()} ${input.unit}`;
+  const category = input.metric === CustomGoalMetric.WORKOUTS && input.workoutCategory && input.workoutCategory !== 'any'
+    ? ` (${input.workoutCategory})`
+    : '';
+  const prefix = input.direction === 'at_most' ? 'At most' : 'At least';
+
+  return `${prefix} ${amount}${category} from ${input.startDate} to ${input.endDate}`;
+};
+
+/**
+ * Convert a value in a metric's base unit to the unit the goal uses
+ */
+const toGoalUnit = (metric: CustomGoalMetric, unit: string | undefined, value: number): number => {
+  const match = CUSTOM_GOAL_METRICS[metric].units.find(u => u.unit === unit);
+  return value * (match ? match.factor : 1);
+};
+
+/**
+ * Count the completed program workouts in a category
+ */
+const countWorkouts = async (
+  userId: string,
+  startDate: string,
+  endDate: string,
+  category: WorkoutCategory = 'any'
+): Promise<number> => {
+  const workouts = await WorkoutProgramService.getCompletedWorkouts(startDate, endDate, userId);
+  if (category === 'any') return workouts.length;
+
+  const pattern = WORKOUT_CATEGORY_PATTERNS[category];
+  return workouts.filter(workout => pattern.test(workout.day.workoutType)).length;
+};
+
+/**
+ * Kilometers covered while the activity classifier saw running
+ */
+const getRunningDistanceKm = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const totals = await getDailyStepTotals(userId, startDate, endDate);
+
+  return totals.reduce((sum, total) => {
+    const running = total.activitySeconds?.running || 0;
+    const active = total.activitySeconds ? getActiveSeconds(total.activitySeconds) : 0;
+    return active > 0 ? sum + getDistanceKm(total) * (running / active) : sum;
+  }, 0);
+};
+
+/**
+ * Calories logged in the calorie tracker
+ */
+const getCalorieIntake = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const caloriesQuery = query(
+    collection(db, 'calorieIntake'),
+    where('userId', '==', userId),
+    where('date', '>=', startDate),
+    where('date', '<=', endDate)
+  );
+
+  const querySnapshot = await getDocs(caloriesQuery);
+  let totalCalories = 0;
+  querySnapshot.forEach(snapshot => {
+    totalCalories += snapshot.data().calories || 0;
+  });
+  return totalCalories;
+};
+
+/**
+ * Measure progress on a custom goal from the start date up to today
+ * (or the end date, if that has passed)
+ * @param userId - Goal owner
+ * @param goal - Custom goal
+ * @returns Progress in the goal's unit
+ */
+export const measureCustomGoal = async (userId: string, goal: FitnessGoal): Promise<number> => {
+  const metric = goal.metric || CustomGoalMetric.MANUAL;
+  if (metric === CustomGoalMetric.MANUAL) return goal.current;
+
+  const today = getCurrentDate();
+  const startDate = goal.startDate;
+  const endDate = goal.endDate < today ? goal.endDate : today;
+  if (endDate < startDate) return 0; // Not started yet
+
+  let value = 0;
+
+  switch (metric) {
+    case CustomGoalMetric.STEPS: {
+      const totals = await getDailyStepTotals(userId, startDate, endDate);
+      value = totals.reduce((sum, total) => sum + total.steps, 0);
+      break;
+    }
+    case CustomGoalMetric.DISTANCE: {
+      const totals = await getDailyStepTotals(userId, startDate, endDate);
+      value = totals.reduce((sum, total) => sum + getDistanceKm(total), 0);
+      break;
+    }
+    case CustomGoalMetric.RUNNING_DISTANCE:
+      value = await getRunningDistanceKm(userId, startDate, endDate);
+      break;
+    case CustomGoalMetric.ACTIVE_MINUTES: {
+      const totals = await getDailyStepTotals(userId, startDate, endDate);
+      value = totals.reduce((sum, total) => sum + getActiveMinutes(total), 0);
+      break;
+    }
+    case CustomGoalMetric.CALORIES_BURNED:
+      value = await getActiveCaloriesBurned(userId, startDate, endDate);
+      break;
+    case CustomGoalMetric.CALORIE_INTAKE:
+      value = await getCalorieIntake(userId, startDate, endDate);
+      break;
+    case CustomGoalMetric.WORKOUTS:
+      value = await countWorkouts(userId, startDate, endDate, goal.workoutCategory);
+      break;
+  }
+
+  return Number(toGoalUnit(metric, goal.unit, value).toFixed(2));
+};
+
+class CustomGoalsService {
+  /**
+   * Create a custom goal for the current user
+   */
+  async createCustomGoal(input: CustomGoalInput): Promise<FitnessGoal> {
+    try {
+      const user = auth.currentUser;
+      if (!user) {
+        throw new Error('User not logged in');
+      }
+
+      const validationError = validateCustomGoal(input);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const now = new Date().toISOString();
+      const goal: FitnessGoal = {
+        id: uuidv4(),
+        userId: user.uid,
+        type: GoalType.CUSTOM,
+        timeFrame: GoalTimeFrame.CUSTOM,
+        target: input.target,
+        current: 0,
+        status: GoalStatus.PENDING,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        description: describeCustomGoal(input),
+        createdAt: now,
+        updatedAt: now,
+        isCustom: true,
+        title: input.title.trim(),
+        metric: input.metric,
+        unit: input.unit.trim(),
+        direction: input.direction
+      };
+
+      if (input.metric === CustomGoalMetric.WORKOUTS) {
+        goal.workoutCategory = input.workoutCategory || 'any';
+      }
+
+      goal.current = await measureCustomGoal(user.uid, goal);
+
+      await setDoc(doc(db, 'fitnessGoals', goal.id), {
+        ...goal,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      return goal;
+    } catch (error) {
+      console.error('Error creating custom goal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a custom goal. Progress is re-measured on the next sync.
+   */
+  async updateCustomGoal(goalId: string, input: CustomGoalInput): Promise<void> {
+    try {
+      const goal = await this.getOwnedCustomGoal(goalId);
+
+      const validationError = validateCustomGoal(input);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const updates: { [key: string]: any } = {
+        title: input.title.trim(),
+        metric: input.metric,
+        target: input.target,
+        unit: input.unit.trim(),
+        direction: input.direction,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        description: describeCustomGoal(input),
+        status: GoalStatus.IN_PROGRESS,
+        updatedAt: serverTimestamp()
+      };
+
+      if (input.metric === CustomGoalMetric.WORKOUTS) {
+        updates.workoutCategory = input.workoutCategory || 'any';
+      }
+      if (input.metric !== CustomGoalMetric.MANUAL && goal.metric === CustomGoalMetric.MANUAL) {
+        updates.current = 0;
+      }
+
+      await updateDoc(doc(db, 'fitnessGoals', goalId), updates);
+    } catch (error) {
+      console.error('Error updating custom goal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom goal. Generated goals cannot be deleted.
+   */
+  async deleteCustomGoal(goalId: string): Promise<void> {
+    try {
+      await this.getOwnedCustomGoal(goalId);
+      await deleteDoc(doc(db, 'fitnessGoals', goalId));
+    } catch (error) {
+      console.error('Error deleting custom goal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all custom goals for the current user, newest end date first
+   */
+  async getCustomGoals(): Promise<FitnessGoal[]> {
+    try {
+      const user = auth.currentUser;
+      if (!user) {
+        throw new Error('User not logged in');
+      }
+
+      const goalsQuery = query(
+        collection(db, 'fitnessGoals'),
+        where('userId', '==', user.uid),
+        where('type', '==', GoalType.CUSTOM)
+      );
+
+      const querySnapshot = await getDocs(goalsQuery);
+      const goals: FitnessGoal[] = [];
+
+      querySnapshot.forEach(snapshot => {
+        goals.push({ id: snapshot.id, ...snapshot.data() } as FitnessGoal);
+      });
+
+      return goals.sort((a, b) => b.endDate.localeCompare(a.endDate));
+    } catch (error) {
+      console.error('Error getting custom goals:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a custom goal, checking it belongs to the current user
+   */
+  async getOwnedCustomGoal(goalId: string): Promise<FitnessGoal> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not logged in');
+    }
+
+    const goalDoc = await getDoc(doc(db, 'fitnessGoals', goalId));
+    if (!goalDoc.exists()) {
+      throw new Error('Goal not found');
+    }
+
+    const goal = { id: goalDoc.id, ...goalDoc.data() } as FitnessGoal;
+    if (goal.userId !== user.uid) {
+      throw new Error('Unauthorized access to goal');
+    }
+    if (goal.type !== GoalType.CUSTOM) {
+      throw new Error('Only custom goals can be changed');
+    }
+
+    return goal;
+  }
+}
+
+export default new CustomGoalsService();
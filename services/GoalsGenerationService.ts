@@ -6,7 +6,28 @@ import {
   GoalStatus,
   UserAnalytics
 } from '../models/FitnessGoalModels';
-import { formatDate } from '../utils/dateUtils';
+import {
+  getCurrentDate,
+  addDays,
+  daysBetween,
+  getStartOfWeek,
+  getEndOfWeek,
+  getStartOfMonth,
+  getEndOfMonth
+} from '../utils/dateUtils';
+import { estimateStepLength } from './gaitAnalysis';
+import { getDailyAnalytics } from './analyticsService';
+import { getTrendWeight } from './weightTrackingService';
+import { getCurrentStreaks } from './streakService';
+import { MAX_RECOMMENDED_SLEEP_HOURS, MIN_RECOMMENDED_SLEEP_HOURS } from './sleepService';
+import { archiveGoalOutcome } from './goalHistoryService';
+import {
+  DifficultyConfig,
+  DEFAULT_DIFFICULTY_CONFIG,
+  GoalOutcome,
+  calculateAdaptiveTarget,
+  getGoalOutcomes
+} from './adaptiveGoalEngine';
 import { auth, db } from '../app/firebaseConfig';
 import {
   collection,
@@ -25,36 +46,74 @@ import {
 import { v4 as uuidv4 } from 'uuid';
 
 // Constants for goal generation
+const ANALYTICS_DAYS = 30; // History read for goal targets
 const DEFAULT_DAILY_STEP_GOAL = 8000;
+const MIN_DAILY_STEP_GOAL = 2000;
+const MAX_DAILY_STEP_GOAL = 25000;
 const DEFAULT_DAILY_ACTIVE_MINUTES = 30;
+const MIN_DAILY_ACTIVE_MINUTES = 10;
+const MAX_DAILY_ACTIVE_MINUTES = 180;
 const DEFAULT_WEEKLY_ACTIVE_MINUTES = 150;
+const MIN_WEEKLY_ACTIVE_MINUTES = 60;
+const WEEKLY_MIN_HISTORY = 3; // Complete weeks needed before weekly targets come from history
 const CALORIE_DEFICIT_FOR_WEIGHT_LOSS = 500; // Daily calorie deficit for weight loss
-const STEPS_PER_CALORIE = 20; // Rough estimate: 20 steps burn 1 calorie
+const DEFAULT_DAILY_ACTIVE_CALORIES = 300;
+const MIN_DAILY_ACTIVE_CALORIES = 100;
+const MAX_DAILY_ACTIVE_CALORIES = 1000;
+const WEIGHT_LOSS_PER_DAY = 0.1;   // kg, about 0.7kg a week
+const MAX_MONTHLY_WEIGHT_LOSS = 2; // kg
+const WEIGHT_GAIN_PER_DAY = 0.035; // kg, about 0.25kg a week of lean mass
+const SLEEP_HISTORY_DAYS = 14;
+const MIN_SLEEP_NIGHTS = 3;        // Nights logged in SLEEP_HISTORY_DAYS before sleep goals are set
+const MAX_SLEEP_TARGET = 8;        // hours; enough for most adults, inside the recommended range
 
 class GoalsGenerationService {
+  private difficultyConfig: DifficultyConfig = DEFAULT_DIFFICULTY_CONFIG;
+
+  /**
+   * Change how hard generated goals are, e.g. the band of success chances to aim for
+   */
+  setDifficultyConfig(config: Partial<DifficultyConfig>): void {
+    this.difficultyConfig = { ...this.difficultyConfig, ...config };
+  }
+
   /**
    * Generate daily, weekly, and monthly goals based on user analytics
+   * @param userId - User to generate goals for
+   * @param timeFrames - Time frames to generate, defaults to all three
    */
-  async generateGoalsForUser(userId: string): Promise<FitnessGoal[]> {
+  async generateGoalsForUser(
+    userId: string,
+    timeFrames: GoalTimeFrame[] = [GoalTimeFrame.DAILY, GoalTimeFrame.WEEKLY, GoalTimeFrame.MONTHLY]
+  ): Promise<FitnessGoal[]> {
     try {
       // Get user profile and recent analytics
-      const analytics = await this.getUserAnalytics(userId);
+      const analytics = await getDailyAnalytics(userId, addDays(getCurrentDate(), -ANALYTICS_DAYS), getCurrentDate());
       const userProfile = await this.getUserProfile(userId);
 
       const goals: FitnessGoal[] = [];
 
       // Generate daily goals
-      goals.push(...await this.generateDailyGoals(userId, analytics, userProfile));
+      if (timeFrames.includes(GoalTimeFrame.DAILY)) {
+        goals.push(...await this.generateDailyGoals(userId, analytics, userProfile));
+      }
 
       // Generate weekly goals
-      goals.push(...await this.generateWeeklyGoals(userId, analytics, userProfile));
+      if (timeFrames.includes(GoalTimeFrame.WEEKLY)) {
+        goals.push(...await this.generateWeeklyGoals(userId, analytics, userProfile));
+      }
 
       // Generate monthly goals
-      goals.push(...await this.generateMonthlyGoals(userId, analytics, userProfile));
+      if (timeFrames.includes(GoalTimeFrame.MONTHLY)) {
+        goals.push(...await this.generateMonthlyGoals(userId, analytics, userProfile));
+      }
 
       // Save goals to Firestore
       await this.saveGoalsToFirestore(goals);
 
+      // Goals generated earlier for the same periods give way to the new ones
+      await this.retireReplacedGoals(userId, goals);
+
       return goals;
     } catch (error) {
       console.error('Error generating goals:', error);
@@ -71,61 +130,67 @@ class GoalsGenerationService {
     userProfile: any
   ): Promise<FitnessGoal[]> {
     const goals: FitnessGoal[] = [];
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const now = new Date();
+    const today = getCurrentDate();
 
     // Calculate averages from analytics
-    const avgSteps = this.calculateAverage(analytics, 'stepCount');
     const avgCaloriesBurned = this.calculateAverage(analytics, 'caloriesBurned');
-    const avgCaloriesConsumed = this.calculateAverage(analytics, 'caloriesConsumed');
 
-    // Get current goals to check progress
+    // Get current goals and past outcomes to set targets from
     const currentGoals = await this.getCurrentGoals(userId, GoalTimeFrame.DAILY);
+    const [streaks, stepOutcomes, activeCalorieOutcomes, activeMinuteOutcomes] = await Promise.all([
+      getCurrentStreaks(userId),
+      getGoalOutcomes(userId, GoalType.STEP_COUNT, GoalTimeFrame.DAILY, this.difficultyConfig.historySize),
+      getGoalOutcomes(userId, GoalType.CALORIES_BURNED, GoalTimeFrame.DAILY, this.difficultyConfig.historySize),
+      getGoalOutcomes(userId, GoalType.ACTIVE_MINUTES, GoalTimeFrame.DAILY, this.difficultyConfig.historySize)
+    ]);
 
     // Generate step count goal
     const currentStepGoal = currentGoals.find(g => g.type === GoalType.STEP_COUNT);
-    let stepTarget = DEFAULT_DAILY_STEP_GOAL;
+    const stepTarget = calculateAdaptiveTarget({
+      label: 'daily step',
+      unit: 'steps',
+      recentValues: this.getDailyValues(analytics, 'stepCount'),
+      outcomes: stepOutcomes,
+      previousTarget: currentStepGoal?.target || stepOutcomes[0]?.target || null,
+      defaultTarget: DEFAULT_DAILY_STEP_GOAL,
+      minTarget: MIN_DAILY_STEP_GOAL,
+      maxTarget: MAX_DAILY_STEP_GOAL,
+      roundTo: 100
+    }, this.difficultyConfig);
 
-    if (avgSteps > 0) {
-      // If user has history, base goal on their average with a slight increase
-      stepTarget = Math.round(avgSteps * 1.05); // 5% increase
-    }
-
-    // If they've been completing goals, make it more challenging
-    if (currentStepGoal && currentStepGoal.status === GoalStatus.COMPLETED) {
-      stepTarget = Math.round(currentStepGoal.target * 1.1); // 10% increase
-    }
-
-    // Cap daily step goal at reasonable maximum
-    stepTarget = Math.min(stepTarget, 15000);
-
-    // Create step goal - Fix: Use null instead of undefined
     goals.push({
       id: uuidv4(),
       userId,
       type: GoalType.STEP_COUNT,
       timeFrame: GoalTimeFrame.DAILY,
-      target: stepTarget,
+      target: stepTarget.target,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(tomorrow),
-      description: `Take ${stepTarget.toLocaleString()} steps today`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: currentStepGoal?.streak || 0,
-      previousTarget: currentStepGoal?.target || null // Fix: Use null as fallback
+      startDate: today,
+      endDate: today,
+      description: `Take ${stepTarget.target.toLocaleString()} steps today`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: streaks[GoalType.STEP_COUNT] || 0,
+      previousTarget: currentStepGoal?.target || null, // Fix: Use null as fallback
+      rationale: stepTarget.rationale,
+      successProbability: stepTarget.successProbability ?? undefined
     });
 
     // Generate calorie goal based on user profile and analytics
     const fitnessGoal = userProfile?.fitnessGoal || 'maintenance';
     let calorieIntakeTarget = userProfile?.dailyCalorieGoal || 2000;
+    let calorieRationale = userProfile?.dailyCalorieGoal
+      ? 'This is the daily calorie goal worked out from your profile.'
+      : 'This is a typical daily intake until your profile is filled in.';
 
     // If goal is weight loss, ensure deficit
     if (fitnessGoal === 'weightLoss' && avgCaloriesBurned > 0) {
       // Target should be less than what they burn
-      calorieIntakeTarget = Math.max(1200, avgCaloriesBurned - CALORIE_DEFICIT_FOR_WEIGHT_LOSS);
+      calorieIntakeTarget = Math.round(Math.max(1200, avgCaloriesBurned - CALORIE_DEFICIT_FOR_WEIGHT_LOSS));
+      calorieRationale = `You burn about ${Math.round(avgCaloriesBurned).toLocaleString()} calories a day, ` +
+        `so eating ${CALORIE_DEFICIT_FOR_WEIGHT_LOSS} less supports steady weight loss.`;
     }
 
     // Create calorie intake goal
@@ -137,41 +202,136 @@ class GoalsGenerationService {
       target: calorieIntakeTarget,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(tomorrow),
+      direction: 'at_most',
+      startDate: today,
+      endDate: today,
       description: `Consume no more than ${calorieIntakeTarget.toLocaleString()} calories today`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: 0, // Fix: Provide a default value
-      previousTarget: null // Fix: Provide a default value
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: streaks[GoalType.CALORIE_INTAKE] || 0,
+      previousTarget: null, // Fix: Provide a default value
+      rationale: calorieRationale
+    });
+
+    // Generate calories burned goal from recent activity
+    const currentActiveCalorieGoal = currentGoals.find(g => g.type === GoalType.CALORIES_BURNED);
+    const activeCaloriesTarget = calculateAdaptiveTarget({
+      label: 'daily calories burned',
+      unit: 'calories',
+      recentValues: this.getDailyValues(analytics, 'activeCaloriesBurned'),
+      outcomes: activeCalorieOutcomes,
+      previousTarget: currentActiveCalorieGoal?.target || activeCalorieOutcomes[0]?.target || null,
+      defaultTarget: DEFAULT_DAILY_ACTIVE_CALORIES,
+      minTarget: MIN_DAILY_ACTIVE_CALORIES,
+      maxTarget: MAX_DAILY_ACTIVE_CALORIES,
+      roundTo: 10
+    }, this.difficultyConfig);
+
+    goals.push({
+      id: uuidv4(),
+      userId,
+      type: GoalType.CALORIES_BURNED,
+      timeFrame: GoalTimeFrame.DAILY,
+      target: activeCaloriesTarget.target,
+      current: 0,
+      status: GoalStatus.PENDING,
+      startDate: today,
+      endDate: today,
+      description: `Burn ${activeCaloriesTarget.target.toLocaleString()} calories through activity today`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: streaks[GoalType.CALORIES_BURNED] || 0,
+      previousTarget: currentActiveCalorieGoal?.target || null,
+      rationale: activeCaloriesTarget.rationale,
+      successProbability: activeCaloriesTarget.successProbability ?? undefined
     });
 
     // Generate active minutes goal
-    const activeMinutesTarget =
-      userProfile?.fitnessGoal === 'weightLoss'
+    const currentActiveMinutesGoal = currentGoals.find(g => g.type === GoalType.ACTIVE_MINUTES);
+    const activeMinutesTarget = calculateAdaptiveTarget({
+      label: 'daily active minutes',
+      unit: 'minutes',
+      recentValues: this.getDailyValues(analytics, 'activeMinutes'),
+      outcomes: activeMinuteOutcomes,
+      previousTarget: currentActiveMinutesGoal?.target || activeMinuteOutcomes[0]?.target || null,
+      defaultTarget: userProfile?.fitnessGoal === 'weightLoss'
         ? DEFAULT_DAILY_ACTIVE_MINUTES * 1.5 // More activity for weight loss
-        : DEFAULT_DAILY_ACTIVE_MINUTES;
+        : DEFAULT_DAILY_ACTIVE_MINUTES,
+      minTarget: MIN_DAILY_ACTIVE_MINUTES,
+      maxTarget: MAX_DAILY_ACTIVE_MINUTES,
+      roundTo: 5
+    }, this.difficultyConfig);
 
     goals.push({
       id: uuidv4(),
       userId,
       type: GoalType.ACTIVE_MINUTES,
       timeFrame: GoalTimeFrame.DAILY,
-      target: Math.round(activeMinutesTarget),
+      target: activeMinutesTarget.target,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(tomorrow),
-      description: `Be active for ${Math.round(activeMinutesTarget)} minutes today`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: 0, // Fix: Provide a default value
-      previousTarget: null // Fix: Provide a default value
+      startDate: today,
+      endDate: today,
+      description: `Be active for ${activeMinutesTarget.target} minutes today`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: streaks[GoalType.ACTIVE_MINUTES] || 0,
+      previousTarget: currentActiveMinutesGoal?.target || null,
+      rationale: activeMinutesTarget.rationale,
+      successProbability: activeMinutesTarget.successProbability ?? undefined
     });
 
+    // Sleep goals only for users who log their sleep, since a night never logged can never be met
+    const sleepGoal = this.generateSleepGoal(userId, analytics, today, streaks[GoalType.SLEEP] || 0);
+    if (sleepGoal) {
+      goals.push(sleepGoal);
+    }
+
     return goals;
   }
 
+  /**
+   * Daily sleep goal a quarter of an hour above the user's recent average,
+   * kept inside the recommended range. Counted on the night ending today.
+   */
+  private generateSleepGoal(
+    userId: string,
+    analytics: UserAnalytics[],
+    today: string,
+    streak: number
+  ): FitnessGoal | null {
+    const nights = this.getDailyValues(
+      analytics.filter(item => item.date >= addDays(today, -SLEEP_HISTORY_DAYS)),
+      'sleepHours'
+    );
+    if (nights.length < MIN_SLEEP_NIGHTS) return null;
+
+    const averageHours = nights.reduce((sum, hours) => sum + hours, 0) / nights.length;
+    const target = Math.min(MAX_SLEEP_TARGET, Math.max(MIN_RECOMMENDED_SLEEP_HOURS,
+      Math.round((averageHours + 0.25) * 4) / 4));
+    const now = new Date();
+
+    return {
+      id: uuidv4(),
+      userId,
+      type: GoalType.SLEEP,
+      timeFrame: GoalTimeFrame.DAILY,
+      target,
+      current: 0,
+      status: GoalStatus.PENDING,
+      startDate: today,
+      endDate: today,
+      description: `Wake up after ${target} hours of sleep`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak,
+      previousTarget: null,
+      rationale: `Adults need ${MIN_RECOMMENDED_SLEEP_HOURS}-${MAX_RECOMMENDED_SLEEP_HOURS} hours of sleep. ` +
+        `You averaged ${averageHours.toFixed(1)} hours over your last ${nights.length} logged nights, ` +
+        `so this aims ${target > averageHours ? 'a little higher' : 'to keep you there'}.`
+    };
+  }
+
   /**
    * Generate weekly goals based on user data
    */
@@ -181,20 +341,37 @@ class GoalsGenerationService {
     userProfile: any
   ): Promise<FitnessGoal[]> {
     const goals: FitnessGoal[] = [];
-    const today = new Date();
-
-    // Calculate end of week (next Sunday)
-    const endOfWeek = new Date(today);
-    const daysUntilSunday = 7 - endOfWeek.getDay();
-    endOfWeek.setDate(endOfWeek.getDate() + (daysUntilSunday || 7));
-
-    // Calculate weekly step target (7 days * daily target with slight reduction)
-    const dailyGoals = await this.getCurrentGoals(userId, GoalTimeFrame.DAILY);
+    const now = new Date();
+    const today = getCurrentDate();
+
+    // Weekly goals cover the user's whole week, matching the window progress is tracked over
+    const startOfWeek = getStartOfWeek(today);
+    const endOfWeek = getEndOfWeek(today);
+
+    // Only a few weeks of history are loaded, so weekly targets need fewer past values
+    const weeklyConfig = { ...this.difficultyConfig, minHistory: WEEKLY_MIN_HISTORY };
+    const [currentGoals, dailyGoals, stepOutcomes, activeMinuteOutcomes] = await Promise.all([
+      this.getCurrentGoals(userId, GoalTimeFrame.WEEKLY),
+      this.getCurrentGoals(userId, GoalTimeFrame.DAILY),
+      getGoalOutcomes(userId, GoalType.STEP_COUNT, GoalTimeFrame.WEEKLY, this.difficultyConfig.historySize),
+      getGoalOutcomes(userId, GoalType.ACTIVE_MINUTES, GoalTimeFrame.WEEKLY, this.difficultyConfig.historySize)
+    ]);
+
+    // Weekly step target, starting from 7 days of the daily target with a 10% buffer
     const dailyStepGoal = dailyGoals.find(g => g.type === GoalType.STEP_COUNT);
-
-    const weeklyStepTarget = dailyStepGoal
-      ? dailyStepGoal.target * 7 * 0.9 // 7 days with 10% buffer
-      : DEFAULT_DAILY_STEP_GOAL * 7 * 0.9;
+    const currentStepGoal = currentGoals.find(g => g.type === GoalType.STEP_COUNT);
+    const weeklyStepTarget = calculateAdaptiveTarget({
+      label: 'weekly step',
+      unit: 'steps',
+      periodLabel: 'weeks',
+      recentValues: this.getWeeklyTotals(analytics, 'stepCount'),
+      outcomes: stepOutcomes,
+      previousTarget: currentStepGoal?.target || stepOutcomes[0]?.target || null,
+      defaultTarget: (dailyStepGoal?.target || DEFAULT_DAILY_STEP_GOAL) * 7 * 0.9,
+      minTarget: MIN_DAILY_STEP_GOAL * 7,
+      maxTarget: MAX_DAILY_STEP_GOAL * 7,
+      roundTo: 500
+    }, weeklyConfig);
 
     // Create weekly step goal
     goals.push({
@@ -202,41 +379,54 @@ class GoalsGenerationService {
       userId,
       type: GoalType.STEP_COUNT,
       timeFrame: GoalTimeFrame.WEEKLY,
-      target: Math.round(weeklyStepTarget),
+      target: weeklyStepTarget.target,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(endOfWeek),
-      description: `Take ${Math.round(weeklyStepTarget).toLocaleString()} steps this week`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: 0, // Fix: Provide a default value
-      previousTarget: null // Fix: Provide a default value
+      startDate: startOfWeek,
+      endDate: endOfWeek,
+      description: `Take ${weeklyStepTarget.target.toLocaleString()} steps this week`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: this.getCarriedStreak(stepOutcomes, startOfWeek),
+      previousTarget: currentStepGoal?.target || null,
+      rationale: weeklyStepTarget.rationale,
+      successProbability: weeklyStepTarget.successProbability ?? undefined
     });
 
     // Weekly active minutes goal (based on CDC recommendation of 150 minutes moderate activity)
-    let weeklyActiveMinutesTarget = DEFAULT_WEEKLY_ACTIVE_MINUTES;
-
-    // If goal is weight loss, increase target
-    if (userProfile?.fitnessGoal === 'weightLoss') {
-      weeklyActiveMinutesTarget = DEFAULT_WEEKLY_ACTIVE_MINUTES * 1.3; // 30% more
-    }
+    const currentActiveMinutesGoal = currentGoals.find(g => g.type === GoalType.ACTIVE_MINUTES);
+    const weeklyActiveMinutesTarget = calculateAdaptiveTarget({
+      label: 'weekly active minutes',
+      unit: 'minutes',
+      periodLabel: 'weeks',
+      recentValues: this.getWeeklyTotals(analytics, 'activeMinutes'),
+      outcomes: activeMinuteOutcomes,
+      previousTarget: currentActiveMinutesGoal?.target || activeMinuteOutcomes[0]?.target || null,
+      defaultTarget: userProfile?.fitnessGoal === 'weightLoss'
+        ? DEFAULT_WEEKLY_ACTIVE_MINUTES * 1.3 // 30% more for weight loss
+        : DEFAULT_WEEKLY_ACTIVE_MINUTES,
+      minTarget: MIN_WEEKLY_ACTIVE_MINUTES,
+      maxTarget: MAX_DAILY_ACTIVE_MINUTES * 7,
+      roundTo: 10
+    }, weeklyConfig);
 
     goals.push({
       id: uuidv4(),
       userId,
       type: GoalType.ACTIVE_MINUTES,
       timeFrame: GoalTimeFrame.WEEKLY,
-      target: Math.round(weeklyActiveMinutesTarget),
+      target: weeklyActiveMinutesTarget.target,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(endOfWeek),
-      description: `Be active for ${Math.round(weeklyActiveMinutesTarget)} minutes this week`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: 0, // Fix: Provide a default value
-      previousTarget: null // Fix: Provide a default value
+      startDate: startOfWeek,
+      endDate: endOfWeek,
+      description: `Be active for ${weeklyActiveMinutesTarget.target} minutes this week`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: this.getCarriedStreak(activeMinuteOutcomes, startOfWeek),
+      previousTarget: currentActiveMinutesGoal?.target || null,
+      rationale: weeklyActiveMinutesTarget.rationale,
+      successProbability: weeklyActiveMinutesTarget.successProbability ?? undefined
     });
 
     return goals;
@@ -251,42 +441,59 @@ class GoalsGenerationService {
     userProfile: any
   ): Promise<FitnessGoal[]> {
     const goals: FitnessGoal[] = [];
-    const today = new Date();
+    const now = new Date();
+    const today = getCurrentDate();
 
     // Calculate end of month
-    const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-    const daysInMonth = endOfMonth.getDate();
-    const remainingDays = endOfMonth.getDate() - today.getDate() + 1;
-
-    // Calculate daily averages
-    const avgSteps = this.calculateAverage(analytics, 'stepCount');
-
-    // Monthly step goal
-    const monthlyStepTarget = Math.round(avgSteps > 0
-      ? avgSteps * remainingDays * 1.05 // Slight increase
-      : DEFAULT_DAILY_STEP_GOAL * remainingDays * 0.9); // Default with buffer
+    const startOfMonth = getStartOfMonth(today);
+    const endOfMonth = getEndOfMonth(today);
+    const remainingDays = daysBetween(today, endOfMonth) + 1;
+
+    const [stepOutcomes, distanceOutcomes, weightOutcomes] = await Promise.all([
+      getGoalOutcomes(userId, GoalType.STEP_COUNT, GoalTimeFrame.MONTHLY, this.difficultyConfig.historySize),
+      getGoalOutcomes(userId, GoalType.DISTANCE, GoalTimeFrame.MONTHLY, 1),
+      getGoalOutcomes(userId, GoalType.WEIGHT, GoalTimeFrame.MONTHLY, 1)
+    ]);
+
+    // Monthly step goal, from how many steps a typical week of days adds up to
+    // over the days left in the month
+    const monthlyStepTarget = calculateAdaptiveTarget({
+      label: 'monthly step',
+      unit: 'steps',
+      periodLabel: 'weeks, at that week\'s pace',
+      recentValues: this.getRollingAverages(this.getDailyValues(analytics, 'stepCount'), 7)
+        .map(average => average * remainingDays),
+      outcomes: stepOutcomes,
+      previousTarget: null, // Months have different lengths, so the last target is not comparable
+      defaultTarget: DEFAULT_DAILY_STEP_GOAL * remainingDays * 0.9, // Default with buffer
+      minTarget: MIN_DAILY_STEP_GOAL * remainingDays,
+      maxTarget: MAX_DAILY_STEP_GOAL * remainingDays,
+      roundTo: 1000
+    }, { ...this.difficultyConfig, minHistory: 1 });
 
     goals.push({
       id: uuidv4(),
       userId,
       type: GoalType.STEP_COUNT,
       timeFrame: GoalTimeFrame.MONTHLY,
-      target: monthlyStepTarget,
+      target: monthlyStepTarget.target,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(endOfMonth),
-      description: `Take ${monthlyStepTarget.toLocaleString()} steps by the end of the month`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: 0, // Fix: Provide a default value
-      previousTarget: null // Fix: Provide a default value
+      startDate: today,
+      endDate: endOfMonth,
+      description: `Take ${monthlyStepTarget.target.toLocaleString()} steps by the end of the month`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: this.getCarriedStreak(stepOutcomes, startOfMonth),
+      previousTarget: null, // Fix: Provide a default value
+      rationale: monthlyStepTarget.rationale,
+      successProbability: monthlyStepTarget.successProbability ?? undefined
     });
 
-    // Calculate distance goal (rough estimate based on step goal)
-    const avgStepLength = 0.762; // average step length in meters (30 inches)
+    // Calculate distance goal from the step goal and the user's step length
+    const avgStepLength = estimateStepLength(userProfile?.height);
     const stepsPerKm = 1000 / avgStepLength;
-    const monthlyDistanceTarget = Math.round(monthlyStepTarget / stepsPerKm * 100) / 100;
+    const monthlyDistanceTarget = Math.round(monthlyStepTarget.target / stepsPerKm * 100) / 100;
 
     goals.push({
       id: uuidv4(),
@@ -296,35 +503,47 @@ class GoalsGenerationService {
       target: monthlyDistanceTarget,
       current: 0,
       status: GoalStatus.PENDING,
-      startDate: formatDate(today),
-      endDate: formatDate(endOfMonth),
+      startDate: today,
+      endDate: endOfMonth,
       description: `Walk ${monthlyDistanceTarget.toFixed(1)} kilometers by the end of the month`,
-      createdAt: today.toISOString(),
-      updatedAt: today.toISOString(),
-      streak: 0, // Fix: Provide a default value
-      previousTarget: null // Fix: Provide a default value
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      streak: this.getCarriedStreak(distanceOutcomes, startOfMonth),
+      previousTarget: null, // Fix: Provide a default value
+      rationale: `This is your monthly step goal at your estimated step length of ${avgStepLength.toFixed(2)} m.`
     });
 
-    // Weight-based goal if user has set a weight loss goal
-    if (userProfile?.fitnessGoal === 'weightLoss' && userProfile?.weight) {
-      // Healthy weight loss is 0.5-1kg per week
-      const weightLossTarget = Math.min(remainingDays * 0.1, 2); // Max 2kg per month
+    // Weight-based goal if the user wants to lose weight or build muscle,
+    // set from the trend weight so one heavy or light day does not skew it
+    const weightChange = userProfile?.fitnessGoal === 'weightLoss'
+      ? -Math.min(remainingDays * WEIGHT_LOSS_PER_DAY, MAX_MONTHLY_WEIGHT_LOSS)
+      : userProfile?.fitnessGoal === 'muscleGain'
+        ? remainingDays * WEIGHT_GAIN_PER_DAY
+        : 0;
+    const startWeight = weightChange !== 0 ? await getTrendWeight(userId) : null;
+
+    if (startWeight) {
+      const targetWeight = Math.round((startWeight + weightChange) * 10) / 10;
 
       goals.push({
         id: uuidv4(),
         userId,
         type: GoalType.WEIGHT,
         timeFrame: GoalTimeFrame.MONTHLY,
-        target: userProfile.weight - weightLossTarget,
-        current: userProfile.weight,
+        target: targetWeight,
+        current: startWeight,
+        startValue: startWeight,
         status: GoalStatus.PENDING,
-        startDate: formatDate(today),
-        endDate: formatDate(endOfMonth),
-        description: `Reach a weight of ${(userProfile.weight - weightLossTarget).toFixed(1)} kg by the end of the month`,
-        createdAt: today.toISOString(),
-        updatedAt: today.toISOString(),
-        streak: 0, // Fix: Provide a default value
-        previousTarget: null // Fix: Provide a default value
+        startDate: today,
+        endDate: endOfMonth,
+        description: `Reach a weight of ${targetWeight.toFixed(1)} kg by the end of the month`,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        streak: this.getCarriedStreak(weightOutcomes, startOfMonth),
+        previousTarget: null, // Fix: Provide a default value
+        rationale: weightChange < 0
+          ? `Losing about ${(WEIGHT_LOSS_PER_DAY * 7).toFixed(1)} kg a week from your trend weight of ${startWeight.toFixed(1)} kg is a safe, steady pace.`
+          : `Gaining about ${(WEIGHT_GAIN_PER_DAY * 7).toFixed(2)} kg a week from your trend weight of ${startWeight.toFixed(1)} kg keeps the gain mostly lean.`
       });
     }
 
@@ -379,87 +598,6 @@ class GoalsGenerationService {
     return cleanObj;
   }
 
-  /**
-   * Get user's recent analytics
-   */
-  private async getUserAnalytics(userId: string): Promise<UserAnalytics[]> {
-    try {
-      // Calculate date 30 days ago for analytics query
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      const thirtyDaysAgoStr = formatDate(thirtyDaysAgo);
-
-      // Get step history
-      const stepHistoryRef = collection(db, 'stepHistory');
-      const stepQuery = query(
-        stepHistoryRef,
-        where('userId', '==', userId),
-        where('date', '>=', thirtyDaysAgoStr),
-        orderBy('date', 'desc')
-      );
-
-      const stepQuerySnapshot = await getDocs(stepQuery);
-      const stepData: { [key: string]: number } = {};
-
-      stepQuerySnapshot.forEach(doc => {
-        const data = doc.data();
-        if (!stepData[data.date]) stepData[data.date] = 0;
-        stepData[data.date] += data.steps;
-      });
-
-      // Get calorie intake
-      const calorieIntakeRef = collection(db, 'calorieIntake');
-      const calorieQuery = query(
-        calorieIntakeRef,
-        where('userId', '==', userId),
-        where('date', '>=', thirtyDaysAgoStr),
-        orderBy('date', 'desc')
-      );
-
-      const calorieQuerySnapshot = await getDocs(calorieQuery);
-      const calorieData: { [key: string]: number } = {};
-
-      calorieQuerySnapshot.forEach(doc => {
-        const data = doc.data();
-        if (!calorieData[data.date]) calorieData[data.date] = 0;
-        calorieData[data.date] += data.calories;
-      });
-
-      // Combine the data
-      const analytics: UserAnalytics[] = [];
-
-      // Get all unique dates
-      const allDates = new Set([
-        ...Object.keys(stepData),
-        ...Object.keys(calorieData)
-      ]);
-
-      allDates.forEach(date => {
-        const steps = stepData[date] || 0;
-
-        // Estimate calories burned from steps (very rough estimate)
-        const caloriesBurned = steps / STEPS_PER_CALORIE;
-        const caloriesConsumed = calorieData[date] || 0;
-
-        analytics.push({
-          userId,
-          date,
-          caloriesBurned,
-          caloriesConsumed,
-          calorieDifference: caloriesBurned - caloriesConsumed,
-          stepCount: steps,
-          activeMinutes: Math.round(steps / 100), // Rough estimate: 100 steps = 1 active minute
-          distance: steps * 0.000762, // Average step is 0.762 meters
-        });
-      });
-
-      return analytics;
-    } catch (error) {
-      console.error('Error getting user analytics:', error);
-      return [];
-    }
-  }
-
   /**
    * Get user profile from Firestore
    */
@@ -494,7 +632,7 @@ class GoalsGenerationService {
     timeFrame: GoalTimeFrame
   ): Promise<FitnessGoal[]> {
     try {
-      const today = formatDate(new Date());
+      const today = getCurrentDate();
 
       const goalsRef = collection(db, 'fitnessGoals');
       const goalsQuery = query(
@@ -519,6 +657,91 @@ class GoalsGenerationService {
     }
   }
 
+  /**
+   * Close generated goals that new goals replace part way through their
+   * period, keeping their outcome so far in the goal history
+   */
+  private async retireReplacedGoals(userId: string, newGoals: FitnessGoal[]): Promise<void> {
+    const timeFrames = [...new Set(newGoals.map(goal => goal.timeFrame))];
+
+    for (const timeFrame of timeFrames) {
+      const currentGoals = await this.getCurrentGoals(userId, timeFrame);
+
+      for (const goal of currentGoals) {
+        if (goal.isCustom || goal.closedAt || newGoals.some(newGoal => newGoal.id === goal.id)) continue;
+
+        const replacement = newGoals.find(newGoal =>
+          newGoal.type === goal.type && newGoal.timeFrame === goal.timeFrame && newGoal.startDate === goal.startDate);
+        if (!replacement) continue;
+
+        try {
+          const closedAt = new Date().toISOString();
+          await updateDoc(doc(db, 'fitnessGoals', goal.id), { closedAt, replacedBy: replacement.id });
+          await archiveGoalOutcome({ ...goal, closedAt, replacedBy: replacement.id });
+        } catch (error) {
+          console.error(`Error retiring replaced goal ${goal.id}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Streak a new weekly or monthly goal starts on. The last goal of the same type and time
+   * frame passes its streak on if it was met and ended right before the new
+   * period; a missed or skipped period starts again from zero.
+   */
+  private getCarriedStreak(outcomes: GoalOutcome[], periodStart: string): number {
+    const last = outcomes[0];
+    if (!last?.completed || daysBetween(last.endDate, periodStart) > 1) return 0;
+
+    // Goals completed before every time frame kept a streak still count once
+    return Math.max(last.streak, 1);
+  }
+
+  /**
+   * Values of one field for each tracked day before today, oldest first.
+   * Today is left out because it is not over yet.
+   */
+  private getDailyValues(analytics: UserAnalytics[], field: keyof UserAnalytics): number[] {
+    const today = getCurrentDate();
+
+    return analytics
+      .filter(item => item.date < today && typeof item[field] === 'number')
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(item => item[field] as number);
+  }
+
+  /**
+   * Totals of one field for each week before the current one, oldest first
+   */
+  private getWeeklyTotals(analytics: UserAnalytics[], field: keyof UserAnalytics): number[] {
+    const currentWeek = getStartOfWeek();
+    const totals: { [weekStart: string]: number } = {};
+
+    analytics.forEach(item => {
+      const weekStart = getStartOfWeek(item.date);
+      const value = item[field];
+      if (weekStart >= currentWeek || typeof value !== 'number') return;
+      totals[weekStart] = (totals[weekStart] || 0) + value;
+    });
+
+    return Object.keys(totals).sort().map(weekStart => totals[weekStart]);
+  }
+
+  /**
+   * Averages over each run of consecutive values, oldest first
+   */
+  private getRollingAverages(values: number[], windowSize: number): number[] {
+    const averages: number[] = [];
+
+    for (let i = windowSize; i <= values.length; i++) {
+      const window = values.slice(i - windowSize, i);
+      averages.push(window.reduce((sum, value) => sum + value, 0) / windowSize);
+    }
+
+    return averages;
+  }
+
   /**
    * Calculate average value from analytics array
    */
@@ -3,14 +3,21 @@ import {
     GoalType,
     GoalTimeFrame,
     GoalStatus,
+    GoalDirection,
+    CustomGoalMetric,
     Achievement
   } from '../models/FitnessGoalModels';
-  import { formatDate } from '../utils/dateUtils';
+  import { formatDate, getStartOfWeek, getStartOfMonth } from '../utils/dateUtils';
+  import { getTotalSteps, getTotalActiveMinutes, getTotalDistanceKm } from './stepLedgerService';
+  import { getActiveCaloriesBurned } from './energyExpenditureService';
+  import { measureCustomGoal } from './CustomGoalsService';
+  import { getTrendWeight } from './weightTrackingService';
+  import { getAverageSleepHours } from './sleepService';
+  import { evaluateAchievements } from './achievementEngine';
   import { auth, db } from '../app/firebaseConfig';
   import {
     collection,
     doc,
-    addDoc,
     getDoc,
     getDocs,
     query,
@@ -22,6 +29,46 @@ import {
     limit
   } from 'firebase/firestore';
   
+  /**
+   * Last day a goal counts towards. Daily goals used to be saved ending the
+   * day after they started, so they are judged on their start date.
+   */
+  export const getGoalPeriodEnd = (goal: FitnessGoal): string =>
+    goal.timeFrame === GoalTimeFrame.DAILY ? goal.startDate : goal.endDate;
+  
+  /**
+   * Whether a goal has to reach its target or stay under it. Calorie intake
+   * goals are limits unless they say otherwise.
+   */
+  export const getGoalDirection = (goal: FitnessGoal): GoalDirection =>
+    goal.direction ?? (goal.type === GoalType.CALORIE_INTAKE ? 'at_most' : 'at_least');
+  
+  /**
+   * Status of a goal at a given amount of progress
+   * @param goal - Goal to judge
+   * @param current - Progress towards the target
+   * @param periodOver - Whether the period has ended, so a goal not yet met has failed
+   */
+  export const evaluateGoalStatus = (goal: FitnessGoal, current: number, periodOver: boolean): GoalStatus => {
+    let reached: boolean;
+    
+    if (goal.type === GoalType.WEIGHT) {
+      // Weight goals are reached from either side; older goals without a
+      // start value were all weight loss goals
+      const losing = goal.startValue === undefined || goal.startValue >= goal.target;
+      reached = losing ? current <= goal.target : current >= goal.target;
+    } else if (getGoalDirection(goal) === 'at_most') {
+      // A limit is only met once the whole period has stayed under it
+      if (current > goal.target) return GoalStatus.FAILED;
+      reached = periodOver;
+    } else {
+      reached = current >= goal.target;
+    }
+    
+    if (reached) return GoalStatus.COMPLETED;
+    return periodOver ? GoalStatus.FAILED : GoalStatus.IN_PROGRESS;
+  };
+  
   class GoalsTrackingService {
     /**
      * Get active goals for the current user
@@ -35,7 +82,8 @@ import {
   
         const today = formatDate(new Date());
         
-        // Create the base query
+        // Create the base query. Older daily goals end the day after they
+        // start, so those from yesterday are dropped below.
         let goalsQuery = query(
           collection(db, 'fitnessGoals'),
           where('userId', '==', user.uid),
@@ -64,7 +112,8 @@ import {
           goals.push({ id: doc.id, ...doc.data() } as FitnessGoal);
         });
         
-        return goals;
+        // Goals replaced by regenerated ones are closed before their period ends
+        return goals.filter(goal => !goal.closedAt && getGoalPeriodEnd(goal) >= today);
       } catch (error) {
         console.error('Error getting active goals:', error);
         return [];
@@ -165,11 +214,13 @@ import {
         const current = progress;
         const target = goalData.target;
         
-        // Calculate new status
-        let status = GoalStatus.IN_PROGRESS;
-        if (current >= target) {
-          status = GoalStatus.COMPLETED;
-        }
+        // Calculate new status. "At most" goals fail once the limit is passed
+        // and otherwise stay in progress until their period is over.
+        const status = evaluateGoalStatus(goalData, current, false);
+        
+        // Completing a goal extends the streak carried over from earlier periods
+        const justCompleted = status === GoalStatus.COMPLETED && goalData.status !== GoalStatus.COMPLETED;
+        const streak = justCompleted ? (goalData.streak || 0) + 1 : goalData.streak || 0;
         
         console.log(`Updating goal ${goalRef.id} progress: ${current}/${target} (${status})`);
         
@@ -177,17 +228,13 @@ import {
         await updateDoc(goalRef, {
           current,
           status,
+          streak,
           updatedAt: serverTimestamp()
         });
         
         // If goal is completed, check for achievements
-        if (status === GoalStatus.COMPLETED) {
-          await this.checkAndUpdateAchievements(goalData);
-          
-          // Update streak if it's a daily goal
-          if (goalData.timeFrame === GoalTimeFrame.DAILY) {
-            await this.updateStreak(goalRef.id, (goalData.streak || 0) + 1);
-          }
+        if (justCompleted) {
+          await this.checkAndUpdateAchievements({ ...goalData, current, streak });
         }
         
         // Return updated goal data
@@ -195,7 +242,8 @@ import {
           ...goalData,
           id: goalRef.id,
           current,
-          status
+          status,
+          streak
         };
       } catch (error) {
         console.error('Error updating goal progress:', error);
@@ -204,14 +252,85 @@ import {
     }
     
     /**
-     * Update goal streak
+     * Record the final result of a goal whose period is over. Open goals are
+     * measured one last time over their own period; a goal that was not met
+     * fails and its streak ends.
+     * @param goal - Goal to close
+     * @param checkAchievements - Whether to evaluate achievements when the goal
+     *   was completed; callers closing several goals evaluate once afterwards
+     * @returns The goal with its final progress, status and streak
      */
-    private async updateStreak(goalId: string, streak: number): Promise<void> {
-      try {
-        const goalRef = doc(db, 'fitnessGoals', goalId);
-        await updateDoc(goalRef, { streak });
-      } catch (error) {
-        console.error('Error updating streak:', error);
+    async closeGoal(goal: FitnessGoal, checkAchievements: boolean = true): Promise<FitnessGoal> {
+      const user = auth.currentUser;
+      if (!user) {
+        throw new Error('User not logged in');
+      }
+      if (goal.userId !== user.uid) {
+        throw new Error('Unauthorized access to goal');
+      }
+      
+      const isOpen = goal.status === GoalStatus.PENDING || goal.status === GoalStatus.IN_PROGRESS;
+      const current = isOpen ? await this.measureGoal(goal) : goal.current;
+      const status = isOpen ? evaluateGoalStatus(goal, current, true) : goal.status;
+      
+      let streak = 0;
+      if (status === GoalStatus.COMPLETED) {
+        // Goals completed before streaks were kept for every time frame still count once
+        streak = isOpen ? (goal.streak || 0) + 1 : Math.max(goal.streak || 0, 1);
+      }
+      
+      const closedGoal: FitnessGoal = {
+        ...goal,
+        current,
+        status,
+        streak,
+        closedAt: new Date().toISOString()
+      };
+      
+      await updateDoc(doc(db, 'fitnessGoals', goal.id), {
+        current,
+        status,
+        streak,
+        closedAt: closedGoal.closedAt,
+        updatedAt: serverTimestamp()
+      });
+      
+      if (checkAchievements && isOpen && status === GoalStatus.COMPLETED) {
+        await this.checkAndUpdateAchievements(closedGoal);
+      }
+      
+      return closedGoal;
+    }
+    
+    /**
+     * Measure a goal over its own period, up to today
+     */
+    async measureGoal(goal: FitnessGoal): Promise<number> {
+      const today = formatDate(new Date());
+      const periodEnd = getGoalPeriodEnd(goal);
+      const endDate = periodEnd < today ? periodEnd : today;
+      
+      switch (goal.type) {
+        case GoalType.STEP_COUNT:
+          return this.getStepsForTimeframe(goal.userId, goal.startDate, endDate);
+        case GoalType.CALORIE_INTAKE:
+          return this.getCaloriesForTimeframe(goal.userId, goal.startDate, endDate);
+        case GoalType.ACTIVE_MINUTES:
+          return getTotalActiveMinutes(goal.userId, goal.startDate, endDate);
+        case GoalType.DISTANCE:
+          return getTotalDistanceKm(goal.userId, goal.startDate, endDate);
+        case GoalType.CALORIES_BURNED:
+          return getActiveCaloriesBurned(goal.userId, goal.startDate, endDate);
+        case GoalType.WEIGHT: {
+          const trendWeight = await getTrendWeight(goal.userId, endDate);
+          return trendWeight === null ? goal.current : Number(trendWeight.toFixed(1));
+        }
+        case GoalType.SLEEP:
+          return getAverageSleepHours(goal.userId, goal.startDate, endDate);
+        case GoalType.CUSTOM:
+          return measureCustomGoal(goal.userId, goal);
+        default:
+          return goal.current;
       }
     }
     
@@ -240,6 +359,10 @@ import {
         await this.syncCalorieGoals(user.uid, activeGoals.filter(g => g.type === GoalType.CALORIE_INTAKE), today);
         await this.syncActiveMinutesGoals(user.uid, activeGoals.filter(g => g.type === GoalType.ACTIVE_MINUTES), today);
         await this.syncDistanceGoals(user.uid, activeGoals.filter(g => g.type === GoalType.DISTANCE), today);
+        await this.syncCaloriesBurnedGoals(user.uid, activeGoals.filter(g => g.type === GoalType.CALORIES_BURNED), today);
+        await this.syncWeightGoals(user.uid, activeGoals.filter(g => g.type === GoalType.WEIGHT));
+        await this.syncSleepGoals(activeGoals.filter(g => g.type === GoalType.SLEEP));
+        await this.syncCustomGoals(user.uid, activeGoals.filter(g => g.type === GoalType.CUSTOM));
       } catch (error) {
         console.error('Error syncing goal progress:', error);
       }
@@ -337,18 +460,13 @@ import {
      */
     private async syncActiveMinutesGoals(userId: string, goals: FitnessGoal[], today: string): Promise<void> {
       try {
-        // For now, estimate active minutes from steps (later could come from actual activity tracking)
-        const [dailySteps, weeklySteps, monthlySteps] = await Promise.all([
-          this.getStepsForTimeframe(userId, today, today),
-          this.getStepsForTimeframe(userId, this.getFirstDayOfWeek(), today),
-          this.getStepsForTimeframe(userId, this.getFirstDayOfMonth(), today)
+        // Active minutes come from the activity classifier where available
+        const [dailyMinutes, weeklyMinutes, monthlyMinutes] = await Promise.all([
+          getTotalActiveMinutes(userId, today, today),
+          getTotalActiveMinutes(userId, this.getFirstDayOfWeek(), today),
+          getTotalActiveMinutes(userId, this.getFirstDayOfMonth(), today)
         ]);
         
-        // Rough estimation: 100 steps = 1 active minute
-        const dailyMinutes = Math.round(dailySteps / 100);
-        const weeklyMinutes = Math.round(weeklySteps / 100);
-        const monthlyMinutes = Math.round(monthlySteps / 100);
-        
         // Update each goal
         for (const goal of goals) {
           let progress = 0;
@@ -372,25 +490,54 @@ import {
       }
     }
     
+    /**
+     * Sync calories burned goals with the energy expenditure model
+     */
+    private async syncCaloriesBurnedGoals(userId: string, goals: FitnessGoal[], today: string): Promise<void> {
+      try {
+        if (goals.length === 0) return;
+        
+        // Only calories burned through activity count, not resting energy
+        const [dailyCalories, weeklyCalories, monthlyCalories] = await Promise.all([
+          getActiveCaloriesBurned(userId, today, today),
+          getActiveCaloriesBurned(userId, this.getFirstDayOfWeek(), today),
+          getActiveCaloriesBurned(userId, this.getFirstDayOfMonth(), today)
+        ]);
+        
+        for (const goal of goals) {
+          let progress = 0;
+          
+          switch (goal.timeFrame) {
+            case GoalTimeFrame.DAILY:
+              progress = dailyCalories;
+              break;
+            case GoalTimeFrame.WEEKLY:
+              progress = weeklyCalories;
+              break;
+            case GoalTimeFrame.MONTHLY:
+              progress = monthlyCalories;
+              break;
+          }
+          
+          await this.updateGoalProgress(goal.id, progress);
+        }
+      } catch (error) {
+        console.error('Error syncing calories burned goals:', error);
+      }
+    }
+    
     /**
      * Sync distance goals
      */
     private async syncDistanceGoals(userId: string, goals: FitnessGoal[], today: string): Promise<void> {
       try {
-        // For now, estimate distance from steps
-        const [dailySteps, weeklySteps, monthlySteps] = await Promise.all([
-          this.getStepsForTimeframe(userId, today, today),
-          this.getStepsForTimeframe(userId, this.getFirstDayOfWeek(), today),
-          this.getStepsForTimeframe(userId, this.getFirstDayOfMonth(), today)
+        // Distance is recorded per session from cadence and the user's height
+        const [dailyDistance, weeklyDistance, monthlyDistance] = await Promise.all([
+          getTotalDistanceKm(userId, today, today),
+          getTotalDistanceKm(userId, this.getFirstDayOfWeek(), today),
+          getTotalDistanceKm(userId, this.getFirstDayOfMonth(), today)
         ]);
         
-        // Average step length is about 0.762 meters (30 inches)
-        // Convert to kilometers
-        const stepToKm = 0.000762;
-        const dailyDistance = dailySteps * stepToKm;
-        const weeklyDistance = weeklySteps * stepToKm;
-        const monthlyDistance = monthlySteps * stepToKm;
-        
         // Update each goal
         for (const goal of goals) {
           let progress = 0;
@@ -415,26 +562,81 @@ import {
     }
     
     /**
-     * Get steps for a specific time frame
+     * Sync weight goals with the smoothed trend weight, so a single low
+     * reading does not complete the goal
      */
-    private async getStepsForTimeframe(userId: string, startDate: string, endDate: string): Promise<number> {
+    private async syncWeightGoals(userId: string, goals: FitnessGoal[]): Promise<void> {
       try {
-        const stepsRef = collection(db, 'stepHistory');
-        const stepsQuery = query(
-          stepsRef,
-          where('userId', '==', userId),
-          where('date', '>=', startDate),
-          where('date', '<=', endDate)
-        );
+        if (goals.length === 0) return;
         
-        const querySnapshot = await getDocs(stepsQuery);
-        let totalSteps = 0;
+        const trendWeight = await getTrendWeight(userId);
+        if (trendWeight === null) return;
         
-        querySnapshot.forEach(doc => {
-          totalSteps += doc.data().steps;
-        });
+        for (const goal of goals) {
+          await this.updateGoalProgress(goal.id, Number(trendWeight.toFixed(1)));
+        }
+      } catch (error) {
+        console.error('Error syncing weight goals:', error);
+      }
+    }
+    
+    /**
+     * Sync sleep goals from the nights logged in each goal's period
+     */
+    private async syncSleepGoals(goals: FitnessGoal[]): Promise<void> {
+      for (const goal of goals) {
+        try {
+          await this.updateGoalProgress(goal.id, await this.measureGoal(goal));
+        } catch (error) {
+          console.warn(`Error syncing sleep goal ${goal.id}:`, error);
+        }
+      }
+    }
+    
+    /**
+     * Sync custom goals, each over its own start and end dates
+     */
+    private async syncCustomGoals(userId: string, goals: FitnessGoal[]): Promise<void> {
+      for (const goal of goals) {
+        try {
+          const progress = await measureCustomGoal(userId, goal);
+          await this.updateGoalProgress(goal.id, progress);
+        } catch (error) {
+          console.warn(`Error syncing custom goal ${goal.id}:`, error);
+        }
+      }
+    }
+    
+    /**
+     * Add progress to a custom goal the user tracks by hand
+     * @param goalId - Goal to update
+     * @param amount - Amount to add, in the goal's unit (negative to correct a mistake)
+     */
+    async logManualProgress(goalId: string, amount: number): Promise<FitnessGoal | null> {
+      try {
+        const goalDoc = await getDoc(doc(db, 'fitnessGoals', goalId));
+        if (!goalDoc.exists()) {
+          throw new Error('Goal not found');
+        }
+        
+        const goal = goalDoc.data() as FitnessGoal;
+        if (goal.type !== GoalType.CUSTOM || goal.metric !== CustomGoalMetric.MANUAL) {
+          throw new Error('Progress can only be logged for goals tracked by hand');
+        }
         
-        return totalSteps;
+        return await this.updateGoalProgress(goalId, Math.max(0, (goal.current || 0) + amount));
+      } catch (error) {
+        console.error('Error logging goal progress:', error);
+        throw error;
+      }
+    }
+    
+    /**
+     * Get steps for a specific time frame
+     */
+    private async getStepsForTimeframe(userId: string, startDate: string, endDate: string): Promise<number> {
+      try {
+        return await getTotalSteps(userId, startDate, endDate);
       } catch (error) {
         console.error('Error getting steps for timeframe:', error);
         return 0;
@@ -469,231 +671,34 @@ import {
     }
     
     /**
-     * Get first day of the current week (Sunday)
+     * Get first day of the current week, using the user's week start and time zone
      */
     private getFirstDayOfWeek(): string {
-      const today = new Date();
-      const day = today.getDay(); // 0 = Sunday, 1 = Monday, etc.
-      const diff = today.getDate() - day;
-      
-      const firstDay = new Date(today);
-      firstDay.setDate(diff);
-      
-      return formatDate(firstDay);
+      return getStartOfWeek();
     }
     
     /**
-     * Get first day of the current month
+     * Get first day of the current month in the user's time zone
      */
     private getFirstDayOfMonth(): string {
-      const today = new Date();
-      const firstDay = new Date(today.getFullYear(), today.getMonth(), 1);
-      
-      return formatDate(firstDay);
+      return getStartOfMonth();
     }
     
     /**
-     * Check and update achievements based on completed goals
+     * Check and update achievements when a goal is completed. The rules live
+     * in the achievement catalog, see achievementEngine.
      */
     private async checkAndUpdateAchievements(goal: FitnessGoal): Promise<void> {
       try {
         const user = auth.currentUser;
-        if (!user) return;
-        
-        // Different achievements based on goal type
-        switch (goal.type) {
-          case GoalType.STEP_COUNT:
-            await this.checkStepAchievements(user.uid, goal);
-            break;
-          case GoalType.ACTIVE_MINUTES:
-            await this.checkActiveMinutesAchievements(user.uid, goal);
-            break;
-          case GoalType.CALORIE_INTAKE:
-            await this.checkCalorieAchievements(user.uid, goal);
-            break;
-        }
+        if (!user || goal.userId !== user.uid) return;
         
-        // Check streak achievements
-        if (goal.streak && goal.streak >= 3) {
-          await this.updateOrCreateAchievement(user.uid, {
-            id: `streak-${goal.streak}`,
-            userId: user.uid,
-            title: `${goal.streak} Day Streak!`,
-            description: `Completed the same goal for ${goal.streak} days in a row`,
-            icon: 'streak',
-            unlockedAt: new Date().toISOString(),
-            progress: 100,
-            requirement: `Complete a goal for ${goal.streak} days in a row`
-          });
-        }
+        await evaluateAchievements(user.uid);
       } catch (error) {
         console.error('Error checking achievements:', error);
       }
     }
     
-    /**
-     * Check step-related achievements
-     */
-    private async checkStepAchievements(userId: string, goal: FitnessGoal): Promise<void> {
-      try {
-        // Get completed step goals
-        const completedGoalsQuery = query(
-          collection(db, 'fitnessGoals'),
-          where('userId', '==', userId),
-          where('type', '==', GoalType.STEP_COUNT),
-          where('status', '==', GoalStatus.COMPLETED)
-        );
-        
-        const querySnapshot = await getDocs(completedGoalsQuery);
-        const completedCount = querySnapshot.size + 1; // +1 for current goal
-        
-        // First step goal completed
-        if (completedCount === 1) {
-          await this.updateOrCreateAchievement(userId, {
-            id: 'first-step-goal',
-            userId,
-            title: 'First Steps!',
-            description: 'Completed your first step goal',
-            icon: 'first-steps',
-            unlockedAt: new Date().toISOString(),
-            progress: 100,
-            requirement: 'Complete your first step goal'
-          });
-        }
-        
-        // 5 step goals completed
-        if (completedCount === 5) {
-          await this.updateOrCreateAchievement(userId, {
-            id: 'step-master',
-            userId,
-            title: 'Step Master',
-            description: 'Completed 5 step goals',
-            icon: 'step-master',
-            unlockedAt: new Date().toISOString(),
-            progress: 100,
-            requirement: 'Complete 5 step goals'
-          });
-        }
-        
-        // 10K steps in a day
-        if (goal.timeFrame === GoalTimeFrame.DAILY && goal.current >= 10000) {
-          await this.updateOrCreateAchievement(userId, {
-            id: '10k-steps',
-            userId,
-            title: '10K Club',
-            description: 'Took 10,000 steps in a single day',
-            icon: '10k-steps',
-            unlockedAt: new Date().toISOString(),
-            progress: 100,
-            requirement: 'Take 10,000 steps in a single day'
-          });
-        }
-      } catch (error) {
-        console.error('Error checking step achievements:', error);
-      }
-    }
-    
-    /**
-     * Check active minutes achievements
-     */
-    private async checkActiveMinutesAchievements(userId: string, goal: FitnessGoal): Promise<void> {
-      try {
-        // Weekly active minutes achievements
-        if (goal.timeFrame === GoalTimeFrame.WEEKLY && goal.current >= 150) {
-          await this.updateOrCreateAchievement(userId, {
-            id: 'active-week',
-            userId,
-            title: 'Active Lifestyle',
-            description: 'Achieved 150+ active minutes in a week',
-            icon: 'active-lifestyle',
-            unlockedAt: new Date().toISOString(),
-            progress: 100,
-            requirement: 'Achieve 150+ active minutes in a week'
-          });
-        }
-      } catch (error) {
-        console.error('Error checking active minutes achievements:', error);
-      }
-    }
-    
-    /**
-     * Check calorie achievements
-     */
-    private async checkCalorieAchievements(userId: string, goal: FitnessGoal): Promise<void> {
-      try {
-        // Daily calorie goal achievement
-        if (goal.timeFrame === GoalTimeFrame.DAILY && goal.current <= goal.target) {
-          // Get streak of calorie goals
-          const calorieGoalsQuery = query(
-            collection(db, 'fitnessGoals'),
-            where('userId', '==', userId),
-            where('type', '==', GoalType.CALORIE_INTAKE),
-            where('timeFrame', '==', GoalTimeFrame.DAILY),
-            where('status', '==', GoalStatus.COMPLETED),
-            orderBy('endDate', 'desc'),
-            limit(7)
-          );
-          
-          const querySnapshot = await getDocs(calorieGoalsQuery);
-          const streakCount = querySnapshot.size + 1; // +1 for current goal
-          
-          if (streakCount >= 7) {
-            await this.updateOrCreateAchievement(userId, {
-              id: 'calorie-streak',
-              userId,
-              title: 'Nutrition Master',
-              description: 'Met your calorie goal for 7 days in a row',
-              icon: 'nutrition',
-              unlockedAt: new Date().toISOString(),
-              progress: 100,
-              requirement: 'Meet your calorie goal for 7 days in a row'
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Error checking calorie achievements:', error);
-      }
-    }
-    
-    /**
-     * Update or create an achievement
-     */
-    private async updateOrCreateAchievement(userId: string, achievement: Achievement): Promise<void> {
-      try {
-        // Check if achievement exists
-        const achievementsRef = collection(db, 'achievements');
-        const achievementQuery = query(
-          achievementsRef,
-          where('userId', '==', userId),
-          where('id', '==', achievement.id)
-        );
-        
-        const querySnapshot = await getDocs(achievementQuery);
-        
-        if (querySnapshot.empty) {
-          // Create new achievement
-          await addDoc(achievementsRef, {
-            ...achievement,
-            createdAt: serverTimestamp()
-          });
-        } else {
-          // Update existing achievement
-          const achievementDoc = querySnapshot.docs[0];
-          
-          // Only update if not already unlocked
-          if (!achievementDoc.data().unlockedAt) {
-            await updateDoc(doc(db, 'achievements', achievementDoc.id), {
-              progress: achievement.progress,
-              unlockedAt: achievement.unlockedAt,
-              updatedAt: serverTimestamp()
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Error updating achievement:', error);
-      }
-    }
-    
     /**
      * Get all achievements for the current user
      */
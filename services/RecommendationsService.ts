@@ -1,16 +1,15 @@
 import {
   FitnessRecommendation,
-  WeatherContext,
-  UserAnalytics,
-  GoalType,
-  GoalTimeFrame,
-  GoalStatus
+  HourlyForecast,
+  SafetySeverity,
+  WeatherContext
 } from '../models/FitnessGoalModels';
-import { formatDate } from '../utils/dateUtils';
+import { getCurrentDate, addDays, formatTime, getHourOfDay } from '../utils/dateUtils';
 import { auth, db } from '../app/firebaseConfig';
 import {
   collection,
   addDoc,
+  getDoc,
   getDocs,
   query,
   where,
@@ -22,22 +21,42 @@ import {
   serverTimestamp
 } from 'firebase/firestore';
 import GoalsTrackingService from './GoalsTrackingService';
+import { getDailyAnalytics } from './analyticsService';
+import { getSleepSummary } from './sleepService';
+import { assessOutdoorSafety, isAtLeast } from './outdoorSafety';
+import {
+  RecommendationContext,
+  evaluateRecommendationRules,
+  getRecommendationRules,
+  recordRuleFirings
+} from './recommendationEngine';
+import {
+  DEFAULT_WORKOUT_TIME,
+  WorkoutTimePreference,
+  WorkoutWindow,
+  isWorkoutTimePreference,
+  planWorkoutWindows
+} from './workoutWindowPlanner';
 // Import the polyfill for UUID
 import 'react-native-get-random-values';
 import { v4 as uuidv4 } from 'uuid';
 
-// Default weather to use when no weather data is available
-const DEFAULT_WEATHER: WeatherContext = {
-  condition: 'sunny',
-  temperature: 22,
-  humidity: 60,
-  windSpeed: 5,
-  isOutdoorFriendly: true
+const ANALYTICS_DAYS = 7; // Recent days recommendations look at
+const SAFETY_GUIDANCE_HOURS = 3; // Safety guidance is about the weather now
+
+// Safety severities ranked among other recommendations
+const SEVERITY_PRIORITY: { [severity in SafetySeverity]: FitnessRecommendation['priority'] } = {
+  info: 'low',
+  caution: 'medium',
+  warning: 'high',
+  danger: 'high'
 };
 
 class RecommendationsService {
-  // Store the current weather context
-  private weatherContext: WeatherContext = DEFAULT_WEATHER;
+  // Store the current weather context; null while the weather is unknown
+  private weatherContext: WeatherContext | null = null;
+  // Hourly forecast for the next 48 hours, empty until one is fetched
+  private hourlyForecast: HourlyForecast[] = [];
   
   /**
    * Generate personalized recommendations based on user data and context
@@ -49,42 +68,31 @@ class RecommendationsService {
         throw new Error('User not logged in');
       }
       
-      // Get user profile
-      const userDoc = await getDocs(collection(db, 'users'));
-      let userProfile = null;
-      userDoc.forEach(doc => {
-        if (doc.id === user.uid) {
-          userProfile = doc.data();
-        }
-      });
-      
-      if (!userProfile) {
-        throw new Error('User profile not found');
-      }
-      
-      // Get active goals
-      const activeGoals = await GoalsTrackingService.getActiveGoals();
-      
-      // Get recent analytics
-      const analytics = await this.getUserAnalytics(user.uid);
-      
-      // Generate recommendations
-      const recommendations: FitnessRecommendation[] = [];
-      
-      // 1. Step count recommendations
-      recommendations.push(...this.generateStepRecommendations(user.uid, activeGoals, analytics));
-      
-      // 2. Nutrition recommendations
-      recommendations.push(...this.generateNutritionRecommendations(user.uid, activeGoals, analytics, userProfile));
+      const [context, rules] = await Promise.all([
+        this.buildRuleContext(user.uid),
+        getRecommendationRules()
+      ]);
+      
+      // 1. Steps, nutrition, weather, time of day, recovery and sleep rules
+      const recommendations = evaluateRecommendationRules(
+        user.uid,
+        rules,
+        context,
+        context.profile.recommendationRuleFirings
+      );
       
-      // 3. Activity recommendations based on current weather
-      recommendations.push(...this.generateActivityRecommendations(user.uid, activeGoals, this.weatherContext));
+      // 2. Best time to be outdoors from the forecast
+      const preference = isWorkoutTimePreference(context.profile.preferredWorkoutTime)
+        ? context.profile.preferredWorkoutTime
+        : DEFAULT_WORKOUT_TIME;
+      recommendations.push(...this.generateWorkoutWindowRecommendations(user.uid, preference));
       
-      // 4. Recovery recommendations
-      recommendations.push(...this.generateRecoveryRecommendations(user.uid, analytics));
+      // 3. Outdoor safety: air quality, sun, heat and cold, darkness
+      recommendations.push(...this.generateSafetyRecommendations(user.uid, this.weatherContext));
       
       // Save recommendations to Firestore
       await this.saveRecommendations(recommendations);
+      await recordRuleFirings(user.uid, recommendations);
       
       return recommendations;
     } catch (error) {
@@ -93,6 +101,31 @@ class RecommendationsService {
     }
   }
   
+  /**
+   * Gather what recommendation rules are evaluated against
+   */
+  private async buildRuleContext(userId: string): Promise<RecommendationContext> {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    if (!userDoc.exists()) {
+      throw new Error('User profile not found');
+    }
+    
+    const [goals, analytics, sleep] = await Promise.all([
+      GoalsTrackingService.getActiveGoals(),
+      getDailyAnalytics(userId, addDays(getCurrentDate(), -ANALYTICS_DAYS), getCurrentDate()),
+      getSleepSummary(userId)
+    ]);
+    
+    return {
+      now: new Date(),
+      goals,
+      analytics,
+      weather: this.weatherContext,
+      sleep,
+      profile: userDoc.data()
+    };
+  }
+  
   /**
    * Get active recommendations for the current user
    */
@@ -162,493 +195,130 @@ class RecommendationsService {
   /**
    * Set the current weather context
    */
-  setWeatherContext(weather: WeatherContext): void {
+  setWeatherContext(weather: WeatherContext | null): void {
     console.log('Updating weather context:', weather);
     this.weatherContext = weather;
   }
   
   /**
-   * Get user analytics from Firestore
+   * Set the hourly forecast used to plan workout windows
    */
-  private async getUserAnalytics(userId: string): Promise<UserAnalytics[]> {
-    try {
-      const today = formatDate(new Date());
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const sevenDaysAgoStr = formatDate(sevenDaysAgo);
-      
-      // Get step data
-      const stepHistoryRef = collection(db, 'stepHistory');
-      const stepQuery = query(
-        stepHistoryRef,
-        where('userId', '==', userId),
-        where('date', '>=', sevenDaysAgoStr),
-        orderBy('date', 'desc')
-      );
-      
-      const stepSnapshot = await getDocs(stepQuery);
-      const stepData: { [key: string]: number } = {};
-      
-      stepSnapshot.forEach(doc => {
-        const data = doc.data();
-        if (!stepData[data.date]) stepData[data.date] = 0;
-        stepData[data.date] += data.steps;
-      });
-      
-      // Get calorie intake data
-      const calorieIntakeRef = collection(db, 'calorieIntake');
-      const calorieQuery = query(
-        calorieIntakeRef,
-        where('userId', '==', userId),
-        where('date', '>=', sevenDaysAgoStr),
-        orderBy('date', 'desc')
-      );
-      
-      const calorieSnapshot = await getDocs(calorieQuery);
-      const calorieData: { [key: string]: number } = {};
-      
-      calorieSnapshot.forEach(doc => {
-        const data = doc.data();
-        if (!calorieData[data.date]) calorieData[data.date] = 0;
-        calorieData[data.date] += data.calories;
-      });
-      
-      // Combine into analytics objects
-      const analytics: UserAnalytics[] = [];
-      const allDates = new Set([...Object.keys(stepData), ...Object.keys(calorieData)]);
-      
-      allDates.forEach(date => {
-        const steps = stepData[date] || 0;
-        const caloriesConsumed = calorieData[date] || 0;
-        
-        // Estimate calories burned based on steps (very rough calculation)
-        const caloriesBurned = steps / 20; // Approx 20 steps = 1 calorie
-        
-        analytics.push({
-          userId,
-          date,
-          stepCount: steps,
-          caloriesBurned,
-          caloriesConsumed,
-          calorieDifference: caloriesBurned - caloriesConsumed,
-          activeMinutes: Math.round(steps / 100), // Rough estimate
-          distance: steps * 0.000762, // Average step is 0.762 meters
-        });
-      });
-      
-      return analytics;
-    } catch (error) {
-      console.error('Error getting user analytics:', error);
-      return [];
-    }
+  setHourlyForecast(forecast: HourlyForecast[]): void {
+    this.hourlyForecast = forecast;
   }
   
   /**
-   * Generate step count recommendations
+   * Generate "best window" recommendations from the hourly forecast: when it
+   * clears up if it is wet now, and the best time to be outdoors today, or
+   * tomorrow when today has nothing good left
    */
-  private generateStepRecommendations(
+  private generateWorkoutWindowRecommendations(
     userId: string,
-    activeGoals: any[],
-    analytics: UserAnalytics[]
+    preference: WorkoutTimePreference
   ): FitnessRecommendation[] {
     const recommendations: FitnessRecommendation[] = [];
-    const today = new Date();
+    if (!this.hourlyForecast.length) return recommendations;
     
-    // Find step goals
-    const dailyStepGoal = activeGoals.find(g => 
-      g.type === GoalType.STEP_COUNT && g.timeFrame === GoalTimeFrame.DAILY
-    );
+    const today = new Date();
+    const plan = planWorkoutWindows(this.hourlyForecast, preference, today);
     
-    if (dailyStepGoal) {
-      const currentSteps = dailyStepGoal.current;
-      const targetSteps = dailyStepGoal.target;
-      
-      // If less than 50% of goal completed and it's afternoon
-      if (currentSteps < targetSteps * 0.5 && today.getHours() >= 12) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'You\'re behind on steps today',
-          description: `You've taken ${currentSteps.toLocaleString()} steps out of your goal of ${targetSteps.toLocaleString()}. Take a 15-minute walk to catch up!`,
-          type: 'exercise',
-          priority: 'high',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: this.weatherContext.condition
-        });
-      }
-      
-      // If close to goal, give encouragement
-      if (currentSteps >= targetSteps * 0.8 && currentSteps < targetSteps) {
-        const remainingSteps = targetSteps - currentSteps;
-        
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Almost there!',
-          description: `Only ${remainingSteps.toLocaleString()} more steps to reach your daily goal. A quick 5-minute walk should do it!`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false
-        });
-      }
+    if (plan.current && plan.clearsUpAt) {
+      const clearsUp = new Date(plan.clearsUpAt);
+      const condition = plan.current.condition;
+      recommendations.push({
+        id: uuidv4(),
+        userId,
+        title: `Clears up at ${formatTime(clearsUp)}`,
+        description: `It's ${condition} now, but the forecast dries up from ${formatTime(clearsUp)}. Save your outdoor activity for then, or do an indoor session now.`,
+        type: 'exercise',
+        priority: 'medium',
+        createdAt: today.toISOString(),
+        expiresAt: plan.clearsUpAt,
+        completed: false,
+        weatherDependent: true,
+        idealWeatherCondition: condition
+      });
     }
     
-    // Check for trends and patterns
-    if (analytics.length >= 3) {
-      const recentSteps = analytics.slice(0, 3).map(a => a.stepCount);
-      const avgSteps = recentSteps.reduce((sum, val) => sum + val, 0) / recentSteps.length;
-      
-      // If step count has been decreasing
-      if (recentSteps[0] < recentSteps[1] && recentSteps[1] < recentSteps[2]) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Step count decreasing',
-          description: 'Your daily steps have been decreasing. Try to incorporate more walking into your routine.',
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false
-        });
-      }
+    // No point planning a run in air the safety guidance says to stay out of
+    const airIsUnhealthy = this.weatherContext !== null && assessOutdoorSafety(this.weatherContext)
+      .some(concern => concern.kind === 'air-quality' && isAtLeast(concern.severity, 'warning'));
+    
+    const window = plan.today || plan.tomorrow;
+    if (window && !airIsUnhealthy) {
+      const isToday = window === plan.today;
+      recommendations.push({
+        id: uuidv4(),
+        userId,
+        title: isToday ? 'Best window today' : 'Best window tomorrow',
+        description: this.describeWorkoutWindow(window),
+        type: 'exercise',
+        priority: isToday && window.score >= 80 ? 'high' : 'medium',
+        createdAt: today.toISOString(),
+        expiresAt: window.end,
+        completed: false,
+        timeOfDayDependent: true,
+        idealTimeOfDay: this.getTimeOfDay(new Date(window.start))
+      });
     }
     
     return recommendations;
   }
   
   /**
-   * Generate nutrition recommendations
+   * Generate outdoor safety guidance for the current weather, with the
+   * severity of each concern
    */
-  private generateNutritionRecommendations(
+  private generateSafetyRecommendations(
     userId: string,
-    activeGoals: any[],
-    analytics: UserAnalytics[],
-    userProfile: any
+    weather: WeatherContext | null
   ): FitnessRecommendation[] {
-    const recommendations: FitnessRecommendation[] = [];
-    const today = new Date();
-    
-    // Find calorie intake goal
-    const dailyCalorieGoal = activeGoals.find(g => 
-      g.type === GoalType.CALORIE_INTAKE && g.timeFrame === GoalTimeFrame.DAILY
-    );
-    
-    if (dailyCalorieGoal) {
-      const currentCalories = dailyCalorieGoal.current;
-      const targetCalories = dailyCalorieGoal.target;
-      
-      // If exceeding calorie goal
-      if (currentCalories > targetCalories) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Calorie alert',
-          description: `You've consumed ${currentCalories.toLocaleString()} calories, which is above your daily target of ${targetCalories.toLocaleString()}. Try to have a lighter dinner.`,
-          type: 'nutrition',
-          priority: 'high',
-          createdAt: today.toISOString(),
-          completed: false
-        });
-      }
-      
-      // If well below calorie goal and it's evening
-      if (currentCalories < targetCalories * 0.5 && today.getHours() >= 17) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Nutrition check',
-          description: `You've only consumed ${currentCalories.toLocaleString()} calories today. Make sure you're eating enough to fuel your activities.`,
-          type: 'nutrition',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false
-        });
-      }
-    }
+    if (!weather) return [];
     
-    // Weight loss specific recommendations
-    if (userProfile?.fitnessGoal === 'weightLoss') {
-      // If consistently staying under calorie goal
-      const calorieDeficit = analytics
-        .filter(a => a.calorieDifference > 0)
-        .length;
-        
-      if (calorieDeficit >= 5 && analytics.length >= 5) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Great work!',
-          description: 'You\'ve maintained a calorie deficit for 5 days. Keep up the good work!',
-          type: 'nutrition',
-          priority: 'low',
-          createdAt: today.toISOString(),
-          completed: false
-        });
-      }
-    }
+    const today = new Date();
+    const expiresAt = new Date(today.getTime() + SAFETY_GUIDANCE_HOURS * 60 * 60 * 1000).toISOString();
     
-    return recommendations;
+    return assessOutdoorSafety(weather, today).map(concern => ({
+      id: uuidv4(),
+      userId,
+      title: concern.title,
+      description: concern.advice,
+      type: concern.kind === 'uv' ? 'general' : 'exercise',
+      priority: SEVERITY_PRIORITY[concern.severity],
+      severity: concern.severity,
+      createdAt: today.toISOString(),
+      expiresAt,
+      completed: false,
+      weatherDependent: true,
+      idealWeatherCondition: weather.condition
+    }));
   }
   
   /**
-   * Generate activity recommendations based on weather and time of day
+   * Describe a workout window with its times and weather
    */
-  private generateActivityRecommendations(
-    userId: string,
-    activeGoals: any[],
-    weather: WeatherContext
-  ): FitnessRecommendation[] {
-    const recommendations: FitnessRecommendation[] = [];
-    const today = new Date();
-    const hour = today.getHours();
-    
-    // Weather-specific recommendations
-    if (weather.isOutdoorFriendly) {
-      // For warm, sunny weather
-      if (weather.condition === 'sunny' && weather.temperature > 20) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Perfect weather for activity!',
-          description: `It's a beautiful ${weather.temperature}°C outside with ${weather.condition} conditions. Take advantage with a walk or outdoor activity.`,
-          type: 'exercise',
-          priority: 'high',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition
-        });
-      }
-      // For moderate, cloudy weather
-      else if (weather.condition === 'cloudy' && weather.temperature > 15) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Good conditions for exercise',
-          description: `It's ${weather.temperature}°C with cloudy skies - perfect weather for a run without overheating.`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition
-        });
-      }
-    } else {
-      // For bad weather
-      if (weather.condition === 'rainy') {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Rainy day workout',
-          description: `It's rainy outside (${weather.temperature}°C). Try an indoor workout like yoga or strength training.`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition
-        });
-      } 
-      else if (weather.temperature < 5) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Cold weather alert',
-          description: `It's very cold outside (${weather.temperature}°C). Consider an indoor workout or dress in layers if going out.`,
-          type: 'exercise',
-          priority: 'high',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition
-        });
-      }
-      else if (weather.temperature > 32) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Heat alert',
-          description: `It's very hot outside (${weather.temperature}°C). Stay hydrated and consider exercising in the early morning or evening.`,
-          type: 'exercise',
-          priority: 'high',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition
-        });
-      }
-    }
-    
-    // Morning recommendations (6am-10am)
-    if (hour >= 6 && hour <= 10) {
-      if (weather.isOutdoorFriendly) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Morning boost',
-          description: `It's a ${weather.condition} morning at ${weather.temperature}°C! Start your day with a brisk 10-minute walk to boost your energy.`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition,
-          timeOfDayDependent: true,
-          idealTimeOfDay: 'morning'
-        });
-      } else {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Indoor morning routine',
-          description: `Weather conditions (${weather.condition}, ${weather.temperature}°C) aren't ideal. Start your day with a 5-minute indoor stretching routine.`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false,
-          timeOfDayDependent: true,
-          idealTimeOfDay: 'morning'
-        });
-      }
-    }
-    
-    // Afternoon recommendations (12pm-5pm)
-    if (hour >= 12 && hour <= 17) {
-      if (weather.isOutdoorFriendly && weather.temperature < 28) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Afternoon break',
-          description: `Take a break from your activities with a 15-minute walk outside (${weather.temperature}°C, ${weather.condition}) to refresh your mind.`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition,
-          timeOfDayDependent: true,
-          idealTimeOfDay: 'afternoon'
-        });
-      } else {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Desk stretches',
-          description: 'Take a 5-minute break to do some simple desk stretches and reduce stiffness.',
-          type: 'exercise',
-          priority: 'low',
-          createdAt: today.toISOString(),
-          completed: false,
-          timeOfDayDependent: true,
-          idealTimeOfDay: 'afternoon'
-        });
-      }
-    }
+  private describeWorkoutWindow(window: WorkoutWindow): string {
+    const temperatures = window.hours.map(hour => hour.forecast.temperature);
+    const low = Math.min(...temperatures);
+    const high = Math.max(...temperatures);
+    const rainChance = Math.round(Math.max(...window.hours.map(hour => hour.forecast.precipitationProbability)) * 100);
+    const condition = window.hours[0].forecast.condition;
     
-    // Evening recommendations (6pm-9pm)
-    if (hour >= 18 && hour <= 21) {
-      if (weather.isOutdoorFriendly) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Evening stroll',
-          description: `Enjoy the ${weather.condition} evening (${weather.temperature}°C) with a relaxing 20-minute walk to wind down your day.`,
-          type: 'exercise',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false,
-          weatherDependent: true,
-          idealWeatherCondition: weather.condition,
-          timeOfDayDependent: true,
-          idealTimeOfDay: 'evening'
-        });
-      } else {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Evening relaxation',
-          description: 'Try a 10-minute gentle yoga routine to relax your body before bed.',
-          type: 'recovery',
-          priority: 'low',
-          createdAt: today.toISOString(),
-          completed: false,
-          timeOfDayDependent: true,
-          idealTimeOfDay: 'evening'
-        });
-      }
-    }
+    const temperature = low === high ? `${low}°C` : `${low}-${high}°C`;
+    const rain = rainChance > 0 ? `${rainChance}% chance of rain` : 'no rain expected';
+    const fit = window.preferred ? ' and right in your preferred workout time' : '';
     
-    return recommendations;
+    return `${formatTime(new Date(window.start))} - ${formatTime(new Date(window.end))} looks best for getting outside: ${condition}, ${temperature}, ${rain}${fit}. Plan a walk, run or outdoor workout for then.`;
   }
   
   /**
-   * Generate recovery recommendations
+   * Name the part of the day an instant falls in
    */
-  private generateRecoveryRecommendations(
-    userId: string,
-    analytics: UserAnalytics[]
-  ): FitnessRecommendation[] {
-    const recommendations: FitnessRecommendation[] = [];
-    const today = new Date();
-    
-    // If the user has been very active recently
-    if (analytics.length >= 3) {
-      const recentSteps = analytics.slice(0, 3).map(a => a.stepCount);
-      const avgSteps = recentSteps.reduce((sum, val) => sum + val, 0) / recentSteps.length;
-      
-      // If they've been consistently active (>10K steps)
-      if (avgSteps > 10000) {
-        recommendations.push({
-          id: uuidv4(),
-          userId,
-          title: 'Recovery day',
-          description: 'You\'ve been very active lately. Consider taking a recovery day with gentle stretching and adequate hydration.',
-          type: 'recovery',
-          priority: 'medium',
-          createdAt: today.toISOString(),
-          completed: false
-        });
-      }
-    }
-    
-    // Weather-based recovery recommendations
-    const weather = this.weatherContext;
-    
-    // Hot weather hydration reminder
-    if (weather.temperature > 25) {
-      recommendations.push({
-        id: uuidv4(),
-        userId,
-        title: 'Hydration reminder',
-        description: `It's ${weather.temperature}°C today. Remember to stay well-hydrated, especially if you're exercising.`,
-        type: 'recovery',
-        priority: weather.temperature > 30 ? 'high' : 'medium',
-        createdAt: today.toISOString(),
-        completed: false,
-        weatherDependent: true,
-        idealWeatherCondition: weather.condition
-      });
-    }
-    
-    // Weekend recovery recommendation (Saturday and Sunday)
-    if (today.getDay() === 0 || today.getDay() === 6) {
-      recommendations.push({
-        id: uuidv4(),
-        userId,
-        title: 'Weekend recovery',
-        description: 'Take some time this weekend for recovery activities like gentle stretching, adequate hydration, and quality sleep.',
-        type: 'recovery',
-        priority: 'low',
-        createdAt: today.toISOString(),
-        completed: false
-      });
-    }
-    
-    return recommendations;
+  private getTimeOfDay(date: Date): string {
+    const hour = getHourOfDay(date);
+    if (hour < 12) return 'morning';
+    if (hour < 18) return 'afternoon';
+    return 'evening';
   }
   
   /**
@@ -712,6 +382,7 @@ class RecommendationsService {
   async updateRecommendationsWithWeather(weather: WeatherContext): Promise<void> {
     try {
       console.log('Updating recommendations with new weather:', weather);
+      const previousWeather = this.weatherContext;
       this.setWeatherContext(weather);
       
       const user = auth.currentUser;
@@ -757,20 +428,24 @@ class RecommendationsService {
       }
       
       // If weather changed dramatically, generate new recommendations
-      if (weather.isOutdoorFriendly !== this.weatherContext.isOutdoorFriendly) {
-        // Get active goals for context
-        const activeGoals = await GoalsTrackingService.getActiveGoals();
+      if (previousWeather && weather.isOutdoorFriendly !== previousWeather.isOutdoorFriendly) {
+        const [context, rules] = await Promise.all([
+          this.buildRuleContext(user.uid),
+          getRecommendationRules()
+        ]);
         
         // Generate new weather-specific recommendations
-        const newRecommendations = this.generateActivityRecommendations(
+        const newRecommendations = evaluateRecommendationRules(
           user.uid,
-          activeGoals,
-          weather
+          rules.filter(rule => rule.weatherDependent),
+          context,
+          context.profile.recommendationRuleFirings
         );
         
         // Save only if we have new recommendations
         if (newRecommendations.length > 0) {
           await this.saveRecommendations(newRecommendations);
+          await recordRuleFirings(user.uid, newRecommendations);
         }
       }
       
@@ -1,19 +1,27 @@
-import { WeatherContext } from '../models/FitnessGoalModels';
+import { HourlyForecast, WeatherContext } from '../models/FitnessGoalModels';
 import * as Location from 'expo-location';
+import Constants from 'expo-constants';
 import RecommendationsService from './RecommendationsService';
+import { HOUR_MS, WeatherProvider, WeatherProviderName } from './weatherProvider';
+import { OpenWeatherMapProvider } from './openWeatherMapProvider';
+import { OpenMeteoProvider } from './openMeteoProvider';
+import { FixtureWeatherProvider } from './fixtureWeatherProvider';
 
-// Your OpenWeatherMap API key
-const OPEN_WEATHER_API_KEY = '2a038aaecf8d7b3b707e530d8c746ed1';
+const FORECAST_HOURS = 48;
 
 class WeatherService {
+  private provider: WeatherProvider | null = null;
   private currentWeather: WeatherContext | null = null;
   private lastFetchTime: number = 0;
   private cacheDuration: number = 30 * 60 * 1000; // 30 minutes in milliseconds
-  
+  private hourlyForecast: HourlyForecast[] = [];
+  private lastForecastFetchTime: number = 0;
+
   /**
    * Get current weather at the user's location
+   * @returns The weather, or null when it is unknown
    */
-  async getCurrentWeather(): Promise<WeatherContext> {
+  async getCurrentWeather(): Promise<WeatherContext | null> {
     try {
       // Check if we have cached weather that's still valid
       const now = Date.now();
@@ -21,139 +29,124 @@ class WeatherService {
         console.log('Using cached weather data');
         return this.currentWeather;
       }
-      
-      console.log('Fetching fresh weather data...');
-      
-      // Get current location
-      const { status } = await Location.requestForegroundPermissionsAsync();
-      
-      if (status !== 'granted') {
-        console.log('Location permission not granted, using default weather');
-        throw new Error('Location permission not granted');
-      }
-      
-      const location = await Location.getCurrentPositionAsync({});
-      console.log('Got location:', location.coords.latitude, location.coords.longitude);
-      
-      // Fetch weather from OpenWeatherMap API
-      const weather = await this.fetchWeatherData(location.coords.latitude, location.coords.longitude);
-      
+
+      const provider = this.getProvider();
+      console.log(`Fetching fresh weather data from ${provider.name}...`);
+
+      const coords = await this.getLocation(provider);
+      const weather = await provider.getCurrentWeather(coords.latitude, coords.longitude);
+
       // Update cache
       this.currentWeather = weather;
       this.lastFetchTime = now;
-      
+
       // Update recommendations based on weather
       await RecommendationsService.updateRecommendationsWithWeather(weather);
-      
+
       return weather;
     } catch (error) {
       console.error('Error getting weather:', error);
-      
-      // Return default weather if we can't get real data
-      return this.getDefaultWeather();
+
+      // Old weather is worse than none; recommendations stop assuming any
+      this.currentWeather = null;
+      RecommendationsService.setWeatherContext(null);
+      return null;
     }
   }
-  
+
   /**
-   * Fetch weather data from OpenWeatherMap API
+   * Get the hourly forecast for the next 48 hours at the user's location
+   * @returns Hours from the current one on, or an empty list when unavailable
    */
-  private async fetchWeatherData(latitude: number, longitude: number): Promise<WeatherContext> {
+  async getHourlyForecast(): Promise<HourlyForecast[]> {
     try {
-      console.log(`Fetching weather for lat: ${latitude}, lon: ${longitude} with API key: ${OPEN_WEATHER_API_KEY.substring(0, 5)}...`);
-      
-      const response = await fetch(
-        `https://api.openweathermap.org/data/2.5/weather?lat=${latitude}&lon=${longitude}&units=metric&appid=${OPEN_WEATHER_API_KEY}`
-      );
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Weather API error:', response.status, errorText);
-        throw new Error(`Weather API error: ${response.status}`);
+      const now = Date.now();
+      if (this.hourlyForecast.length && (now - this.lastForecastFetchTime < this.cacheDuration)) {
+        console.log('Using cached forecast data');
+        return this.hourlyForecast.filter(hour => new Date(hour.time).getTime() + HOUR_MS > now);
       }
-      
-      const data = await response.json();
-      console.log('Weather API response:', JSON.stringify(data, null, 2));
-      
-      // Map OpenWeatherMap data to our WeatherContext
-      const weather: WeatherContext = {
-        condition: this.mapWeatherCondition(data.weather[0].main),
-        temperature: Math.round(data.main.temp),
-        humidity: data.main.humidity,
-        windSpeed: data.wind.speed,
-        isOutdoorFriendly: this.isWeatherOutdoorFriendly(
-          data.weather[0].main, 
-          data.main.temp, 
-          data.wind.speed
-        )
-      };
-      
-      console.log('Mapped weather data:', weather);
-      return weather;
+
+      const provider = this.getProvider();
+      const coords = await this.getLocation(provider);
+      const forecast = await provider.getHourlyForecast(coords.latitude, coords.longitude, FORECAST_HOURS);
+
+      this.hourlyForecast = forecast;
+      this.lastForecastFetchTime = now;
+
+      // Let recommendations plan around the forecast
+      RecommendationsService.setHourlyForecast(forecast);
+
+      return forecast;
     } catch (error) {
-      console.error('Error fetching weather data:', error);
-      return this.getDefaultWeather();
+      console.error('Error getting forecast:', error);
+
+      // Planning without a forecast would be guesswork
+      this.hourlyForecast = [];
+      RecommendationsService.setHourlyForecast([]);
+      return [];
     }
   }
-  
+
   /**
-   * Map OpenWeatherMap condition to our simplified conditions
+   * Use a different provider, e.g. a fixture in tests. Cached weather is
+   * dropped.
    */
-  private mapWeatherCondition(condition: string): string {
-    console.log('Mapping weather condition:', condition);
-    switch (condition.toLowerCase()) {
-      case 'clear':
-        return 'sunny';
-      case 'clouds':
-        return 'cloudy';
-      case 'rain':
-      case 'drizzle':
-      case 'thunderstorm':
-        return 'rainy';
-      case 'snow':
-        return 'snowy';
-      default:
-        return 'cloudy';
-    }
+  setProvider(provider: WeatherProvider): void {
+    this.provider = provider;
+    this.currentWeather = null;
+    this.lastFetchTime = 0;
+    this.hourlyForecast = [];
+    this.lastForecastFetchTime = 0;
   }
-  
+
   /**
-   * Determine if weather is good for outdoor activities
+   * Get the provider set in the `extra` section of app.json:
+   * `weatherProvider` is "openweathermap", "open-meteo", "fixture" or "auto"
+   * (OpenWeatherMap when `openWeatherApiKey` or
+   * EXPO_PUBLIC_OPENWEATHER_API_KEY is set, Open-Meteo otherwise), and
+   * `weatherFixture` names the recorded weather the fixture provider replays
    */
-  private isWeatherOutdoorFriendly(
-    condition: string, 
-    temperature: number, 
-    windSpeed: number
-  ): boolean {
-    const unfriendlyConditions = ['rain', 'drizzle', 'thunderstorm', 'snow'];
-    
-    // Weather is not outdoor friendly if:
-    // 1. It's raining/snowing, or
-    // 2. It's very cold (<5°C), or
-    // 3. It's very hot (>35°C), or
-    // 4. It's very windy (>10 m/s or about 22 mph)
-    const isOutdoorFriendly = !unfriendlyConditions.includes(condition.toLowerCase()) && 
-                             temperature >= 5 && 
-                             temperature <= 35 && 
-                             windSpeed <= 10;
-    
-    console.log(`Is outdoor friendly: ${isOutdoorFriendly} (condition: ${condition}, temp: ${temperature}°C, wind: ${windSpeed} m/s)`);
-    return isOutdoorFriendly;
+  private getProvider(): WeatherProvider {
+    if (!this.provider) {
+      const extra = Constants.expoConfig?.extra || {};
+      const apiKey: string = extra.openWeatherApiKey || process.env.EXPO_PUBLIC_OPENWEATHER_API_KEY || '';
+      const name: WeatherProviderName = extra.weatherProvider || 'auto';
+
+      switch (name) {
+        case 'openweathermap':
+          this.provider = new OpenWeatherMapProvider(apiKey);
+          break;
+        case 'open-meteo':
+          this.provider = new OpenMeteoProvider();
+          break;
+        case 'fixture':
+          this.provider = new FixtureWeatherProvider(extra.weatherFixture);
+          break;
+        default:
+          this.provider = apiKey ? new OpenWeatherMapProvider(apiKey) : new OpenMeteoProvider();
+      }
+    }
+    return this.provider;
   }
-  
+
   /**
-   * Get default weather when API is unavailable
+   * Get the device location, asking for permission if needed
    */
-  private getDefaultWeather(): WeatherContext {
-    // Assume moderate, pleasant weather as default
-    console.log('Using default weather data');
-    return {
-      condition: 'sunny',
-      temperature: 22,
-      humidity: 60,
-      windSpeed: 5,
-      isOutdoorFriendly: true
-    };
+  private async getLocation(provider: WeatherProvider): Promise<{ latitude: number; longitude: number }> {
+    if (!provider.requiresLocation) {
+      return { latitude: 0, longitude: 0 };
+    }
+
+    const { status } = await Location.requestForegroundPermissionsAsync();
+
+    if (status !== 'granted') {
+      throw new Error('Location permission not granted');
+    }
+
+    const location = await Location.getCurrentPositionAsync({});
+    console.log('Got location:', location.coords.latitude, location.coords.longitude);
+    return location.coords;
   }
 }
 
-export default new WeatherService();
\ No newline at end of file
+export default new WeatherService();
@@ -10,8 +10,18 @@ import {
     serverTimestamp 
   } from 'firebase/firestore';
   import { auth, db } from '../app/firebaseConfig';
-  import { WeeklyProgramData } from './AICoachService';
-  import { formatDate } from '../utils/dateUtils';
+  import { WeeklyProgramData, ProgramDay } from './AICoachService';
+  import { markSummaryStale } from './dailySummaryService';
+  import {
+    formatDate,
+    getCurrentDate,
+    getStartOfWeek,
+    getDayOfWeek,
+    addDays,
+    daysBetween
+  } from '../utils/dateUtils';
+  
+  const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
   
   // Interface for stored workout program
   export interface StoredWorkoutProgram extends WeeklyProgramData {
@@ -26,11 +36,19 @@ import {
   // Interface for tracking workout progress
   export interface ProgramProgress {
     day: string;
-    date: string;
+    date: string; // Date the workout was completed
+    scheduledDate?: string; // Date the workout falls on in the current program week
     completed: boolean;
     notes?: string;
   }
   
+  // A workout the user marked as done
+  export interface CompletedWorkout {
+    programId: string;
+    date: string;
+    day: ProgramDay;
+  }
+  
   class WorkoutProgramService {
     // Save a new workout program
     async saveProgram(program: WeeklyProgramData): Promise<string> {
@@ -41,19 +59,25 @@ import {
           throw new Error('User not authenticated');
         }
         
+        // Programs run on the user's weeks, starting with the current one
+        const startDate = getStartOfWeek();
+        
         // Prepare initial progress tracking for each day
-        const progress: ProgramProgress[] = program.days.map(day => ({
-          day: day.day,
-          date: '', // Will be filled when program is activated
-          completed: false
-        }));
+        const progress: ProgramProgress[] = this.scheduleProgress(
+          program.days.map(day => ({
+            day: day.day,
+            date: '', // Will be filled when the workout is completed
+            completed: false
+          })),
+          startDate
+        );
         
         // Create the stored program object
         const storedProgram: Omit<StoredWorkoutProgram, 'id'> = {
           ...program,
           userId,
           createdAt: serverTimestamp(),
-          startDate: formatDate(new Date()), // Default to today
+          startDate,
           active: true,
           progress
         };
@@ -71,11 +95,9 @@ import {
       }
     }
     
-    // Get all workout programs for current user
-    async getUserPrograms(): Promise<StoredWorkoutProgram[]> {
+    // Get all workout programs for a user, the signed-in user's by default
+    async getUserPrograms(userId: string | undefined = auth.currentUser?.uid): Promise<StoredWorkoutProgram[]> {
       try {
-        const userId = auth.currentUser?.uid;
-        
         if (!userId) {
           throw new Error('User not authenticated');
         }
@@ -145,12 +167,13 @@ import {
         }
         
         // Update the progress for the specified day
+        const completedDate = formatDate(new Date());
         const updatedProgress = program.progress.map(p => {
           if (p.day === day) {
             return {
               ...p,
               completed: true,
-              date: formatDate(new Date()),
+              date: completedDate,
               notes: notes || p.notes
             };
           }
@@ -162,12 +185,40 @@ import {
         await updateDoc(programRef, {
           progress: updatedProgress
         });
+        
+        // Workout calories are worked out from the program when the day is rebuilt
+        await markSummaryStale(userId, completedDate);
       } catch (error) {
         console.error('Error marking workout as completed:', error);
         throw error;
       }
     }
     
+    // Get workouts completed in a date range across all of a user's programs,
+    // the signed-in user's unless another is given
+    async getCompletedWorkouts(
+      startDate: string,
+      endDate: string,
+      userId: string | undefined = auth.currentUser?.uid
+    ): Promise<CompletedWorkout[]> {
+      const programs = await this.getUserPrograms(userId);
+      const workouts: CompletedWorkout[] = [];
+      
+      programs.forEach(program => {
+        (program.progress || []).forEach(progress => {
+          if (!progress.completed || !progress.date) return;
+          if (progress.date < startDate || progress.date > endDate) return;
+          
+          const day = program.days.find(d => d.day === progress.day);
+          if (day && !day.isRestDay) {
+            workouts.push({ programId: program.id, date: progress.date, day });
+          }
+        });
+      });
+      
+      return workouts.sort((a, b) => a.date.localeCompare(b.date));
+    }
+    
     // Activate a program and deactivate others
     async activateProgram(programId: string): Promise<void> {
       try {
@@ -177,10 +228,19 @@ import {
           throw new Error('User not authenticated');
         }
         
-        // Activate this program
+        const program = await this.getProgramById(programId);
+        
+        if (!program) {
+          throw new Error('Program not found');
+        }
+        
+        // Activate this program, scheduled from the start of the current week
+        const startDate = getStartOfWeek();
         const programRef = doc(db, 'workoutPrograms', programId);
         await updateDoc(programRef, {
-          active: true
+          active: true,
+          startDate,
+          progress: this.scheduleProgress(program.progress, startDate)
         });
         
         // Deactivate other programs
@@ -230,8 +290,18 @@ import {
           throw new Error('User not authenticated');
         }
         
+        // Days with workouts from this program lose them from their summaries
+        const program = await this.getProgramById(programId);
+        const completedDates = new Set((program?.progress || [])
+          .filter(p => p.completed && p.date)
+          .map(p => p.date));
+        
         // Delete the program
         await deleteDoc(doc(db, 'workoutPrograms', programId));
+        
+        for (const date of completedDates) {
+          await markSummaryStale(userId, date);
+        }
       } catch (error) {
         console.error('Error deleting workout program:', error);
         throw error;
@@ -270,7 +340,7 @@ import {
       }
     }
     
-    // Update program with new start date
+    // Update program with new start date, snapped to the start of that week
     async updateProgramStartDate(programId: string, startDate: string): Promise<void> {
       try {
         const userId = auth.currentUser?.uid;
@@ -279,10 +349,19 @@ import {
           throw new Error('User not authenticated');
         }
         
-        // Update the program start date
+        const program = await this.getProgramById(programId);
+        
+        if (!program) {
+          throw new Error('Program not found');
+        }
+        
+        const weekStart = getStartOfWeek(startDate);
+        
+        // Update the program start date and reschedule its days
         const programRef = doc(db, 'workoutPrograms', programId);
         await updateDoc(programRef, {
-          startDate
+          startDate: weekStart,
+          progress: this.scheduleProgress(program.progress, weekStart)
         });
       } catch (error) {
         console.error('Error updating program start date:', error);
@@ -290,6 +369,38 @@ import {
       }
     }
     
+    // Get the program's days in the order they fall in the current week
+    getWeekSchedule(program: StoredWorkoutProgram): ProgramProgress[] {
+      const weekStart = getStartOfWeek();
+      
+      return this.scheduleProgress(program.progress || [], weekStart)
+        .sort((a, b) => (a.scheduledDate || '').localeCompare(b.scheduledDate || ''));
+    }
+    
+    // Get which week of the program the user is in (1-based)
+    getCurrentProgramWeek(program: StoredWorkoutProgram): number {
+      const elapsedDays = daysBetween(getStartOfWeek(program.startDate), getCurrentDate());
+      return Math.max(1, Math.floor(elapsedDays / 7) + 1);
+    }
+    
+    // Assign each named program day its date in the week starting on weekStart
+    private scheduleProgress(progress: ProgramProgress[], weekStart: string): ProgramProgress[] {
+      const weekStartDay = getDayOfWeek(weekStart);
+      
+      return progress.map(p => {
+        const dayIndex = DAY_NAMES.indexOf(p.day);
+        
+        if (dayIndex === -1) {
+          return p;
+        }
+        
+        return {
+          ...p,
+          scheduledDate: addDays(weekStart, (dayIndex - weekStartDay + 7) % 7)
+        };
+      });
+    }
+    
     // Get program completion percentage
     getCompletionPercentage(program: StoredWorkoutProgram): number {
       if (!program.progress || program.progress.length === 0) {
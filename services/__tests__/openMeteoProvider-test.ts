@@ -0,0 +1,45 @@
+import { OpenMeteoProvider } from '../openMeteoProvider';
+import { assessOutdoorSafety, isDarkAt } from '../outdoorSafety';
+
+const seconds = (iso: string): number => new Date(iso).getTime() / 1000;
+
+// Phoenix (UTC−7, no DST) on 15 June 2025: sunrise 05:19, sunset 19:41
+const PHOENIX = { latitude: 33.45, longitude: -112.07 };
+const LOCAL_DAY = {
+  sunrise: [seconds('2025-06-15T12:19:00Z')],
+  sunset: [seconds('2025-06-16T02:41:00Z')]
+};
+// The GMT day 15 June holds that morning's sunrise but the evening before's sunset
+const GMT_DAY = {
+  sunrise: [seconds('2025-06-15T12:19:00Z')],
+  sunset: [seconds('2025-06-15T02:40:00Z')]
+};
+
+const respond = (body: object) => ({ ok: true, json: async () => body });
+
+describe('OpenMeteoProvider.getCurrentWeather', () => {
+  const fetchMock = jest.fn(async (url: string) => {
+    if (url.includes('air-quality')) return respond({ current: { us_aqi: 30 } });
+    return respond({
+      current: { temperature_2m: 33, relative_humidity_2m: 15, weather_code: 0, wind_speed_10m: 3, uv_index: 9 },
+      daily: url.includes('timezone=auto') ? LOCAL_DAY : GMT_DAY
+    });
+  });
+
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('uses the local day\'s sunrise and sunset in a UTC−7 afternoon', async () => {
+    const weather = await new OpenMeteoProvider().getCurrentWeather(PHOENIX.latitude, PHOENIX.longitude);
+    const afternoon = new Date('2025-06-15T21:00:00Z'); // 14:00 in Phoenix
+
+    expect(weather.sunrise).toBe('2025-06-15T12:19:00.000Z');
+    expect(weather.sunset).toBe('2025-06-16T02:41:00.000Z');
+    expect(isDarkAt(weather, afternoon)).toBe(false);
+
+    const kinds = assessOutdoorSafety(weather, afternoon).map(concern => concern.kind);
+    expect(kinds).toContain('uv');
+    expect(kinds).not.toContain('darkness');
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  FitnessGoal,
+  GoalStatus,
+  GoalTimeFrame,
+  GoalType,
+  RecommendationRule,
+  UserAnalytics
+} from '../../models/FitnessGoalModels';
+import {
+  RecommendationContext,
+  evaluateCondition,
+  evaluateRecommendationRules,
+  fillTemplate,
+  resolveFacts,
+  validateRecommendationRule
+} from '../recommendationEngine';
+import { DEFAULT_RECOMMENDATION_RULES } from '../recommendationRules';
+import { setActiveTimeZone } from '../../utils/dateUtils';
+
+// The rules are evaluated without Firestore
+jest.mock('../../app/firebaseConfig', () => ({ auth: {}, db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('uuid', () => {
+  let count = 0;
+  return { v4: () => `recommendation-${++count}` };
+});
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const goal = (type: GoalType, current: number, target: number): FitnessGoal => ({
+  id: `${type}-goal`,
+  userId: 'user-1',
+  type,
+  timeFrame: GoalTimeFrame.DAILY,
+  target,
+  current,
+  status: GoalStatus.IN_PROGRESS,
+  startDate: '2025-03-05',
+  endDate: '2025-03-05',
+  description: '',
+  createdAt: '2025-03-05T00:00:00.000Z',
+  updatedAt: '2025-03-05T00:00:00.000Z'
+});
+
+const day = (date: string, stepCount: number, calorieDifference: number): UserAnalytics => ({
+  userId: 'user-1',
+  date,
+  caloriesBurned: 2200,
+  caloriesConsumed: 2200 - calorieDifference,
+  calorieDifference,
+  stepCount,
+  activeMinutes: 60,
+  distance: stepCount * 0.0008
+});
+
+// An active afternoon on a Wednesday in fine weather, after a short night
+const activeAfternoon: RecommendationContext = {
+  now: new Date('2025-03-05T14:00:00Z'),
+  goals: [goal(GoalType.STEP_COUNT, 3000, 10000), goal(GoalType.CALORIE_INTAKE, 2500, 2000)],
+  analytics: [
+    day('2025-03-02', 9000, 300),
+    day('2025-03-03', 12500, 250),
+    day('2025-03-04', 11000, -100),
+    day('2025-03-05', 11500, 200)
+  ],
+  weather: { condition: 'sunny', temperature: 24, humidity: 40, windSpeed: 2, isOutdoorFriendly: true },
+  sleep: {
+    nights: 3,
+    averageHours: 6.25,
+    averageQuality: 2.3,
+    lastNight: {
+      userId: 'user-1',
+      date: '2025-03-05',
+      bedtime: '2025-03-04T23:30:00.000Z',
+      wakeTime: '2025-03-05T05:00:00.000Z',
+      hours: 5.5,
+      quality: 2,
+      source: 'manual',
+      recordedAt: '2025-03-05T05:10:00.000Z'
+    },
+    sleepDebt: 2.3
+  },
+  profile: { fitnessGoal: 'weightLoss' }
+};
+
+// A Saturday morning for a new user, with the weather unknown
+const newUserSaturday: RecommendationContext = {
+  now: new Date('2025-03-08T08:00:00Z'),
+  goals: [],
+  analytics: [],
+  weather: null,
+  sleep: { nights: 0, averageHours: null, averageQuality: null, lastNight: null, sleepDebt: 0 },
+  profile: {}
+};
+
+const rule = (overrides: Partial<RecommendationRule>): RecommendationRule => ({
+  id: 'test-rule',
+  title: 'Test',
+  description: 'Test rule',
+  type: 'general',
+  priority: 'medium',
+  when: { fact: 'hour', op: 'exists' },
+  ...overrides
+});
+
+const ruleIds = (context: RecommendationContext, firings = {}): string[] =>
+  evaluateRecommendationRules('user-1', DEFAULT_RECOMMENDATION_RULES, context, firings)
+    .map(recommendation => recommendation.ruleId as string);
+
+beforeAll(() => setActiveTimeZone('UTC'));
+afterAll(() => setActiveTimeZone(null));
+
+describe('resolveFacts', () => {
+  it('works out facts from goals, analytics, weather, sleep and the profile', () => {
+    const facts = resolveFacts(activeAfternoon);
+
+    expect(facts).toMatchObject({
+      hour: 14,
+      weekday: 3,
+      'goals.steps.current': 3000,
+      'goals.steps.target': 10000,
+      'goals.steps.progress': 0.3,
+      'goals.steps.remaining': 7000,
+      'goals.calories.progress': 1.25,
+      'analytics.days': 4,
+      'analytics.stepsFalling': false,
+      'analytics.deficitDays': 3,
+      'weather.condition': 'sunny',
+      'weather.temperature': 24,
+      'weather.feelsLike': 24,
+      'weather.outdoorFriendly': true,
+      'sleep.lastNightHours': 5.5,
+      'sleep.recommendedHours': 7,
+      'sleep.short': true,
+      'profile.fitnessGoal': 'weightLoss'
+    });
+    expect(facts['analytics.recentAverageSteps']).toBeCloseTo(11666.7, 1);
+  });
+
+  it('leaves out facts there is no data for', () => {
+    const facts = resolveFacts(newUserSaturday);
+
+    expect(facts).toEqual({
+      hour: 8,
+      weekday: 6,
+      'analytics.days': 0,
+      'analytics.deficitDays': 0,
+      'sleep.nights': 0,
+      'sleep.debt': 0,
+      'sleep.recommendedHours': 7
+    });
+  });
+
+  it('sees steps falling over the last three days', () => {
+    const falling = {
+      ...activeAfternoon,
+      analytics: [day('2025-03-03', 9000, 0), day('2025-03-04', 8000, 0), day('2025-03-05', 6000, 0)]
+    };
+
+    expect(resolveFacts(falling)['analytics.stepsFalling']).toBe(true);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const facts = resolveFacts(activeAfternoon);
+  const unknown = resolveFacts(newUserSaturday);
+
+  it('compares numbers', () => {
+    expect(evaluateCondition({ fact: 'hour', op: '<', value: 15 }, facts)).toBe(true);
+    expect(evaluateCondition({ fact: 'hour', op: '<', value: 14 }, facts)).toBe(false);
+    expect(evaluateCondition({ fact: 'hour', op: '<=', value: 14 }, facts)).toBe(true);
+    expect(evaluateCondition({ fact: 'hour', op: '>', value: 14 }, facts)).toBe(false);
+    expect(evaluateCondition({ fact: 'hour', op: '>=', value: 14 }, facts)).toBe(true);
+  });
+
+  it('never orders values that are not numbers', () => {
+    expect(evaluateCondition({ fact: 'weather.condition', op: '>', value: 'rainy' }, facts)).toBe(false);
+    expect(evaluateCondition({ fact: 'hour', op: '<', value: '15' }, facts)).toBe(false);
+  });
+
+  it('tests equality, membership and presence', () => {
+    expect(evaluateCondition({ fact: 'weather.condition', op: '==', value: 'sunny' }, facts)).toBe(true);
+    expect(evaluateCondition({ fact: 'weather.condition', op: '!=', value: 'sunny' }, facts)).toBe(false);
+    expect(evaluateCondition({ fact: 'weekday', op: 'in', value: [0, 6] }, facts)).toBe(false);
+    expect(evaluateCondition({ fact: 'weekday', op: 'in', value: [0, 6] }, unknown)).toBe(true);
+    expect(evaluateCondition({ fact: 'weekday', op: 'in', value: 6 }, unknown)).toBe(false);
+    expect(evaluateCondition({ fact: 'weather.temperature', op: 'exists' }, facts)).toBe(true);
+    expect(evaluateCondition({ fact: 'weather.temperature', op: 'missing' }, facts)).toBe(false);
+  });
+
+  it('only lets missing and not match a missing fact', () => {
+    expect(evaluateCondition({ fact: 'weather.temperature', op: 'missing' }, unknown)).toBe(true);
+    expect(evaluateCondition({ fact: 'weather.temperature', op: 'exists' }, unknown)).toBe(false);
+    expect(evaluateCondition({ fact: 'weather.temperature', op: '<', value: 100 }, unknown)).toBe(false);
+    expect(evaluateCondition({ fact: 'weather.temperature', op: '!=', value: 20 }, unknown)).toBe(false);
+    expect(evaluateCondition({ not: { fact: 'weather.outdoorFriendly', op: '==', value: true } }, unknown)).toBe(true);
+  });
+
+  it('combines conditions with all, any and not', () => {
+    const afternoon = { fact: 'hour', op: '>=', value: 12 } as const;
+    const raining = { fact: 'weather.condition', op: '==', value: 'rainy' } as const;
+
+    expect(evaluateCondition({ all: [afternoon, raining] }, facts)).toBe(false);
+    expect(evaluateCondition({ any: [afternoon, raining] }, facts)).toBe(true);
+    expect(evaluateCondition({ all: [afternoon, { not: raining }] }, facts)).toBe(true);
+    expect(evaluateCondition({ all: [] }, facts)).toBe(true);
+    expect(evaluateCondition({ any: [] }, facts)).toBe(false);
+  });
+});
+
+describe('fillTemplate', () => {
+  const facts = resolveFacts(activeAfternoon);
+
+  it('fills in facts, with thousands separators and one decimal', () => {
+    expect(fillTemplate('{goals.steps.current} of {goals.steps.target} steps', facts)).toBe('3,000 of 10,000 steps');
+    expect(fillTemplate('{analytics.recentAverageSteps} a day', facts)).toBe('11666.7 a day');
+    expect(fillTemplate('It is {weather.condition}', facts)).toBe('It is sunny');
+  });
+
+  it('gives up on text naming a missing or unknown fact', () => {
+    expect(fillTemplate('It is {weather.temperature}°C', resolveFacts(newUserSaturday))).toBeNull();
+    expect(fillTemplate('{not.a.fact}', facts)).toBeNull();
+  });
+});
+
+describe('validateRecommendationRule', () => {
+  it('accepts the built-in rules', () => {
+    DEFAULT_RECOMMENDATION_RULES.forEach(builtIn => expect(validateRecommendationRule(builtIn)).toBeNull());
+  });
+
+  it('rejects unknown facts, operators and placeholders', () => {
+    expect(validateRecommendationRule(rule({ when: { fact: 'moon.phase' as any, op: '==', value: 'full' } }))).not.toBeNull();
+    expect(validateRecommendationRule(rule({ when: { fact: 'hour', op: '~' as any, value: 1 } }))).not.toBeNull();
+    expect(validateRecommendationRule(rule({ when: 'always' as any }))).not.toBeNull();
+    expect(validateRecommendationRule(rule({ description: 'Phase: {moon.phase}' }))).not.toBeNull();
+  });
+
+  it('does not take object built-ins for facts', () => {
+    expect(validateRecommendationRule(rule({ description: 'Made by {constructor}' }))).not.toBeNull();
+    expect(validateRecommendationRule(rule({ when: { fact: 'toString' as any, op: 'exists' } }))).not.toBeNull();
+    expect(fillTemplate('Made by {constructor}', resolveFacts(activeAfternoon))).toBeNull();
+  });
+});
+
+describe('evaluateRecommendationRules', () => {
+  it('recommends from the built-in rules for an active afternoon', () => {
+    expect(ruleIds(activeAfternoon)).toEqual([
+      'steps-behind',
+      'calories-over',
+      'weather-perfect',
+      'afternoon-break',
+      'recovery-day-short-sleep',
+      'short-night',
+      'sleep-quality'
+    ]);
+  });
+
+  it('only recommends what needs no data when nothing is known', () => {
+    expect(ruleIds(newUserSaturday)).toEqual(['morning-routine', 'weekend-recovery']);
+  });
+
+  it('fills in the recommendation from the rule', () => {
+    const [recommendation] = evaluateRecommendationRules('user-1', [rule({
+      id: 'walk',
+      title: 'Walk in the {weather.condition}',
+      description: '{goals.steps.remaining} steps to go',
+      type: 'exercise',
+      priority: 'high',
+      expiresInHours: 3,
+      weatherDependent: true,
+      idealTimeOfDay: 'afternoon',
+      severity: 'info'
+    })], activeAfternoon);
+
+    expect(recommendation).toMatchObject({
+      userId: 'user-1',
+      ruleId: 'walk',
+      title: 'Walk in the sunny',
+      description: '7,000 steps to go',
+      type: 'exercise',
+      priority: 'high',
+      completed: false,
+      createdAt: '2025-03-05T14:00:00.000Z',
+      expiresAt: '2025-03-05T17:00:00.000Z',
+      weatherDependent: true,
+      idealWeatherCondition: 'sunny',
+      timeOfDayDependent: true,
+      idealTimeOfDay: 'afternoon',
+      severity: 'info'
+    });
+    expect(recommendation.id).toEqual(expect.any(String));
+  });
+
+  it('leaves weather fields and expiry off when they do not apply', () => {
+    const [recommendation] = evaluateRecommendationRules(
+      'user-1', [rule({ weatherDependent: true })], newUserSaturday
+    );
+
+    expect(recommendation.expiresAt).toBeUndefined();
+    expect(recommendation.weatherDependent).toBeUndefined();
+    expect(recommendation.idealWeatherCondition).toBeUndefined();
+    expect(recommendation.timeOfDayDependent).toBeUndefined();
+  });
+
+  it('holds a rule back until its cooldown has passed', () => {
+    const cooling = [rule({ cooldownHours: 12 })];
+    const now = activeAfternoon.now.getTime();
+    const firedAgo = (hours: number) => ({ 'test-rule': new Date(now - hours * HOUR_MS).toISOString() });
+
+    expect(evaluateRecommendationRules('user-1', cooling, activeAfternoon, firedAgo(11))).toHaveLength(0);
+    expect(evaluateRecommendationRules('user-1', cooling, activeAfternoon, firedAgo(12))).toHaveLength(1);
+    expect(evaluateRecommendationRules('user-1', cooling, activeAfternoon, { 'other-rule': firedAgo(1)['test-rule'] })).toHaveLength(1);
+
+    // Without a cooldown a rule fires every time
+    expect(evaluateRecommendationRules('user-1', [rule({})], activeAfternoon, firedAgo(0))).toHaveLength(1);
+  });
+
+  it('skips the cooled-down built-in rules only', () => {
+    const firings = { 'steps-behind': new Date(activeAfternoon.now.getTime() - HOUR_MS).toISOString() };
+
+    expect(ruleIds(activeAfternoon, firings)).not.toContain('steps-behind');
+    expect(ruleIds(activeAfternoon, firings)).toContain('calories-over');
+  });
+
+  it('skips disabled rules and rules whose text needs a missing fact', () => {
+    const rules = [
+      rule({ id: 'disabled', disabled: true }),
+      rule({ id: 'needs-weather', description: 'It is {weather.temperature}°C' }),
+      rule({ id: 'always' })
+    ];
+
+    expect(evaluateRecommendationRules('user-1', rules, newUserSaturday).map(r => r.ruleId)).toEqual(['always']);
+  });
+});
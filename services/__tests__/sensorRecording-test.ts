@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  SensorRecording,
+  getRecordingWindows,
+  recordingFromCSV,
+  recordingFromJSON,
+  recordingToCSV,
+  recordingToJSON,
+  replayRecording
+} from '../sensorRecording';
+import { SensorWindow, StepPredictor, createStepDetectionPipeline } from '../stepDetectionPipeline';
+
+const loadRecording = (name: string): SensorRecording =>
+  recordingFromCSV(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'));
+
+const HEEL_STRIKE = 1.25; // Vertical acceleration only reached on a heel strike, g
+
+/**
+ * Stands in for the step model: a step when a heel strike falls among the
+ * samples new to this window, so each strike is seen exactly once
+ */
+const heelStrikePredictor = (stepSize: number): StepPredictor => async (window: SensorWindow) =>
+  window.slice(-stepSize).some(sample => sample[2] > HEEL_STRIKE) ? 0.9 : 0.05;
+
+// A model that is sure every moving window is a step
+const alwaysStepPredictor: StepPredictor = async () => 0.9;
+
+describe('sensor recording fixtures', () => {
+  const recording = loadRecording('walk-10-steps.csv');
+
+  it('parses the recording and its metadata', () => {
+    expect(recording.actualSteps).toBe(10);
+    expect(recording.placement).toBe('pocket');
+    expect(recording.sampleIntervalMs).toBe(50);
+    expect(recording.samples).toHaveLength(360);
+    expect(recording.samples[1]).toEqual([50, 0.021, 0.0287, 0.9876, -0.0005, 0.0013, -0.0013]);
+  });
+
+  it('round-trips through CSV and JSON', () => {
+    expect(recordingFromCSV(recordingToCSV(recording))).toEqual(recording);
+    expect(recordingFromJSON(recordingToJSON(recording))).toEqual(recording);
+  });
+
+  it('rebuilds the windows sensorService emitted', () => {
+    const windows = getRecordingWindows(recording);
+
+    // 360 samples in windows of 50 sliding by 25
+    expect(windows).toHaveLength(13);
+    expect(windows[0].window).toHaveLength(50);
+    expect(windows[0].window[0]).toEqual(recording.samples[0].slice(1));
+    expect(windows[0].timestamp).toBe(2450);
+    expect(windows[1].timestamp).toBe(3700);
+  });
+});
+
+describe('replayRecording', () => {
+  const recording = loadRecording('walk-10-steps.csv');
+
+  it('counts the steps taken in the recording', async () => {
+    const pipeline = createStepDetectionPipeline(heelStrikePredictor(recording.stepSize));
+    const result = await replayRecording(recording, pipeline);
+
+    expect(result.steps).toBe(recording.actualSteps);
+    expect(result.stepTimestamps).toHaveLength(result.steps);
+    expect(result.windows).toHaveLength(getRecordingWindows(recording).length);
+  });
+
+  it('ignores windows while the phone is still', async () => {
+    const pipeline = createStepDetectionPipeline(alwaysStepPredictor);
+    const result = await replayRecording(recording, pipeline);
+
+    // The first 2.5 s of standing still come before any step
+    expect(result.windows[0].rejectedBy).toBe('motion-gate');
+    expect(result.stepTimestamps[0]).toBeGreaterThan(2500);
+  });
+
+  it('needs walking-sized movement, in g², to pass the motion gate', async () => {
+    // Walking in a pocket varies by a few hundredths of a g² per window
+    const pipeline = createStepDetectionPipeline(alwaysStepPredictor, { motionDetectionThreshold: 0.1 });
+    const result = await replayRecording(recording, pipeline);
+
+    expect(result.steps).toBe(0);
+    expect(result.windows.every(context => context.rejectedBy === 'motion-gate')).toBe(true);
+  });
+
+  it('drops steps within the refractory period of the last one', async () => {
+    const refractoryPeriod = 1500;
+    const pipeline = createStepDetectionPipeline(alwaysStepPredictor, { refractoryPeriod });
+    const result = await replayRecording(recording, pipeline);
+
+    // Windows complete every 1250 ms, so every other one falls within 1500 ms
+    expect(result.windows.some(context => context.rejectedBy === 'debounce')).toBe(true);
+    result.stepTimestamps.slice(1).forEach((timestamp, index) => {
+      expect(timestamp - result.stepTimestamps[index]).toBeGreaterThan(refractoryPeriod);
+    });
+
+    const shorter = await replayRecording(
+      recording,
+      createStepDetectionPipeline(alwaysStepPredictor, { refractoryPeriod: 1000 })
+    );
+    expect(shorter.steps).toBeGreaterThan(result.steps);
+  });
+
+  it('passes prebuilt windows through unchanged, so predictions can be cached', async () => {
+    const windows = getRecordingWindows(recording);
+    const seen = new Set<SensorWindow>();
+    const predict: StepPredictor = async window => {
+      seen.add(window);
+      return alwaysStepPredictor(window);
+    };
+
+    await replayRecording(recording, createStepDetectionPipeline(predict), windows);
+    await replayRecording(recording, createStepDetectionPipeline(predict, { predictionThreshold: 0.5 }), windows);
+
+    expect(seen.size).toBeGreaterThan(0);
+    seen.forEach(window => expect(windows.some(replayWindow => replayWindow.window === window)).toBe(true));
+  });
+
+  it('replays to the same steps every time', async () => {
+    const pipeline = createStepDetectionPipeline(heelStrikePredictor(recording.stepSize));
+    const first = await replayRecording(recording, pipeline);
+    const second = await replayRecording(recording, pipeline);
+
+    expect(second.stepTimestamps).toEqual(first.stepTimestamps);
+  });
+});
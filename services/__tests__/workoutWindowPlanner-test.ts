@@ -0,0 +1,71 @@
+import { HourlyForecast } from '../../models/FitnessGoalModels';
+import {
+  findBestWindow,
+  findClearingTime,
+  isWetHour,
+  isWorkoutTimePreference,
+  scoreWeather
+} from '../workoutWindowPlanner';
+import { setActiveTimeZone } from '../../utils/dateUtils';
+
+// A warm, calm, dry hour; 30°C costs 32 of the 40 temperature points
+const hour = (hourOfDay: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+  time: `2025-06-10T${String(hourOfDay).padStart(2, '0')}:00:00.000Z`,
+  condition: 'sunny',
+  temperature: 30,
+  humidity: 40,
+  windSpeed: 2,
+  isOutdoorFriendly: true,
+  precipitationProbability: 0,
+  precipitation: 0,
+  isDaylight: true,
+  ...overrides
+});
+
+const MORNING = new Date('2025-06-10T05:00:00Z');
+
+beforeAll(() => setActiveTimeZone('UTC'));
+afterAll(() => setActiveTimeZone(null));
+
+describe('findBestWindow', () => {
+  it('leaves a wet hour out even when it scores best', () => {
+    // A cool shower scores 80, above every warm, dry hour around it
+    const shower = hour(10, { temperature: 18, condition: 'rainy', precipitationProbability: 0.5 });
+    const forecast = [hour(8), hour(9), shower, hour(11), hour(12)];
+
+    expect(isWetHour(shower)).toBe(true);
+    expect(scoreWeather(shower)).toBeGreaterThan(scoreWeather(hour(9)));
+
+    const window = findBestWindow(forecast, 'any', '2025-06-10', MORNING);
+    expect(window).not.toBeNull();
+    expect(window!.hours.map(scored => scored.forecast.time)).not.toContain(shower.time);
+  });
+
+  it('does not widen a window across a wet hour', () => {
+    const forecast = [
+      hour(8, { temperature: 20 }),
+      hour(9, { temperature: 20, precipitationProbability: 0.6 }),
+      hour(10, { temperature: 20 })
+    ];
+
+    const window = findBestWindow(forecast, 'any', '2025-06-10', MORNING);
+    expect(window!.hours).toHaveLength(1);
+  });
+
+  it('finds no window on a day that is wet all day', () => {
+    const forecast = [8, 9, 10].map(hourOfDay =>
+      hour(hourOfDay, { temperature: 18, condition: 'rainy', precipitationProbability: 0.5 }));
+
+    expect(findBestWindow(forecast, 'any', '2025-06-10', MORNING)).toBeNull();
+    expect(findClearingTime(forecast, new Date('2025-06-10T08:00:00Z'))).toBeNull();
+  });
+});
+
+describe('isWorkoutTimePreference', () => {
+  it('accepts only the known preferences', () => {
+    expect(isWorkoutTimePreference('evening')).toBe(true);
+    expect(isWorkoutTimePreference('night')).toBe(false);
+    expect(isWorkoutTimePreference('toString')).toBe(false);
+    expect(isWorkoutTimePreference(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+// Built-in achievements
+//
+// Entries in the `achievementCatalog` collection with the same id replace
+// these, and new ids add to them. The first five keep the ids of the
+// achievements that used to be hardcoded in GoalsTrackingService, so
+// existing unlocks carry over.
+
+import { AchievementDefinition, GoalTimeFrame, GoalType } from '../models/FitnessGoalModels';
+
+const BRONZE_SILVER_GOLD = ['Bronze', 'Silver', 'Gold'];
+
+const tiers = (thresholds: number[], labels: string[] = BRONZE_SILVER_GOLD) =>
+  thresholds.map((threshold, index) => ({ threshold, label: thresholds.length > 1 ? labels[index] : undefined }));
+
+export const DEFAULT_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-step-goal',
+    title: 'First Steps!',
+    description: 'Completed your first step goal',
+    requirement: 'Complete your first step goal',
+    icon: 'footsteps',
+    rule: { metric: 'goals_completed', params: { goalType: GoalType.STEP_COUNT } },
+    tiers: tiers([1])
+  },
+  {
+    id: 'step-master',
+    title: 'Step Master',
+    description: 'Completed {threshold} step goals',
+    requirement: 'Complete {threshold} step goals',
+    icon: 'medal',
+    rule: { metric: 'goals_completed', params: { goalType: GoalType.STEP_COUNT } },
+    tiers: tiers([5, 25, 100])
+  },
+  {
+    id: '10k-steps',
+    title: '10K Club',
+    description: 'Took {threshold} steps in a single day',
+    requirement: 'Take {threshold} steps in a single day',
+    icon: 'walk',
+    rule: { metric: 'best_day_steps' },
+    tiers: tiers([10000, 15000, 20000])
+  },
+  {
+    id: 'active-week',
+    title: 'Active Lifestyle',
+    description: 'Achieved {threshold}+ active minutes in a week',
+    requirement: 'Achieve {threshold}+ active minutes in a week',
+    icon: 'timer',
+    rule: { metric: 'best_week_active_minutes' },
+    tiers: tiers([150, 300])
+  },
+  {
+    id: 'calorie-streak',
+    title: 'Nutrition Master',
+    description: 'Met your calorie goal for {threshold} days in a row',
+    requirement: 'Meet your calorie goal for {threshold} days in a row',
+    icon: 'nutrition',
+    rule: { metric: 'streak_longest', params: { streak: GoalType.CALORIE_INTAKE } },
+    tiers: tiers([7, 30])
+  },
+  {
+    id: 'activity-streak',
+    title: 'On Fire',
+    description: 'Stayed active for {threshold} days in a row',
+    requirement: 'Stay active for {threshold} days in a row',
+    icon: 'flame',
+    rule: { metric: 'streak_longest', params: { streak: 'activity' } },
+    tiers: tiers([7, 30, 100])
+  },
+  {
+    id: 'weekly-goal-getter',
+    title: 'Week Warrior',
+    description: 'Completed {threshold} weekly goals',
+    requirement: 'Complete {threshold} weekly goals',
+    icon: 'calendar',
+    rule: { metric: 'goals_completed', params: { timeFrame: GoalTimeFrame.WEEKLY } },
+    tiers: tiers([1, 10, 50])
+  },
+  {
+    id: 'step-total',
+    title: 'Globetrotter',
+    description: 'Walked {threshold} steps in total',
+    requirement: 'Walk {threshold} steps in total',
+    icon: 'globe',
+    rule: { metric: 'steps_total' },
+    tiers: tiers([100000, 500000, 1000000])
+  },
+  {
+    id: 'challenger',
+    title: 'Challenger',
+    description: 'Joined {threshold} challenges',
+    requirement: 'Join {threshold} challenges',
+    icon: 'trophy',
+    rule: { metric: 'activity_events', params: { eventType: 'challenge_joined' } },
+    tiers: tiers([1, 10, 25])
+  },
+  {
+    id: 'team-player',
+    title: 'Team Player',
+    description: 'Joined a team',
+    requirement: 'Join or create a team',
+    icon: 'people',
+    rule: { metric: 'activity_events', params: { eventType: 'team_joined' } },
+    tiers: tiers([1])
+  },
+  {
+    id: 'social-butterfly',
+    title: 'Social Butterfly',
+    description: 'Made {threshold} friends',
+    requirement: 'Make {threshold} friends',
+    icon: 'person-add',
+    rule: { metric: 'friends' },
+    tiers: tiers([1, 10, 25])
+  },
+  {
+    id: 'food-diary',
+    title: 'Food Diary',
+    description: 'Logged your meals {threshold} days in a row',
+    requirement: 'Log your meals {threshold} days in a row',
+    icon: 'restaurant',
+    rule: { metric: 'logging_streak', params: { log: 'calories' } },
+    tiers: tiers([7, 30])
+  },
+  {
+    id: 'weigh-in-habit',
+    title: 'Keeping Track',
+    description: 'Weighed in {threshold} days in a row',
+    requirement: 'Weigh in {threshold} days in a row',
+    icon: 'scale',
+    rule: { metric: 'logging_streak', params: { log: 'weight' } },
+    tiers: tiers([7, 30])
+  },
+  {
+    id: 'workout-warrior',
+    title: 'Workout Warrior',
+    description: 'Completed {threshold} program workouts',
+    requirement: 'Complete {threshold} program workouts',
+    icon: 'barbell',
+    rule: { metric: 'workouts_completed' },
+    tiers: tiers([1, 10, 50])
+  }
+];
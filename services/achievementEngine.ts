@@ -0,0 +1,515 @@
+// Achievements engine
+//
+// The catalog is DEFAULT_ACHIEVEMENTS with the `achievementCatalog`
+// collection on top, loaded through remoteCatalog. Each definition has a
+// rule that reads a metric (or combines several) and a list of tier
+// thresholds. evaluateAchievements works out each metric the catalog uses once,
+// then records the tier reached and the progress towards the next one in
+// `achievements`. Metrics cover all of a user's history, so evaluating also
+// backfills progress on achievements added after the activity happened.
+// Evaluations for a user never overlap, so a tier is only reached once.
+//
+// Reaching a tier is announced to subscribers (the in-app celebration) and
+// shared on the community feed as an `achievement_unlocked` event. The first
+// evaluation for an account that predates achievements only catches up on
+// past activity, so it is silent.
+
+import { auth, db } from '../app/firebaseConfig';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  updateDoc,
+  serverTimestamp
+} from 'firebase/firestore';
+import {
+  Achievement,
+  AchievementDefinition,
+  AchievementMetric,
+  AchievementMetricRule,
+  AchievementRule,
+  FitnessGoal,
+  GoalStatus
+} from '../models/FitnessGoalModels';
+import { DEFAULT_ACHIEVEMENTS } from './achievementCatalog';
+import { createRemoteCatalog } from './remoteCatalog';
+import { getActiveMinutes, getDailyStepTotals, DailyStepTotal } from './stepLedgerService';
+import { getStreakState, StreakKey, StreakState } from './streakService';
+import { getWeighIns } from './weightTrackingService';
+import WorkoutProgramService from './WorkoutProgramService';
+import communityService, { ActivityEvent } from './communityService';
+import { addDays, getCurrentDate, getStartOfWeek } from '../utils/dateUtils';
+
+const ALL_TIME_START = '2000-01-01';
+
+// A tier reached by an evaluation
+export interface AchievementUnlock {
+  definition: AchievementDefinition;
+  achievement: Achievement;
+  tier: number;
+}
+
+// Data several metrics share, each loaded at most once per evaluation
+interface MetricContext {
+  userId: string;
+  userData: () => Promise<{ [field: string]: any }>;
+  completedGoals: () => Promise<FitnessGoal[]>;
+  stepTotals: () => Promise<DailyStepTotal[]>;
+  streaks: () => Promise<StreakState>;
+}
+
+type MetricResolver = (context: MetricContext, params: { [name: string]: string }) => Promise<number>;
+
+type AchievementUnlockListener = (achievement: Achievement) => void;
+
+const unlockListeners: Set<AchievementUnlockListener> = new Set();
+
+/**
+ * Listen for achievements unlocked or moved up a tier
+ * @returns unsubscribe function
+ */
+export const subscribeToAchievementUnlocks = (listener: AchievementUnlockListener): (() => void) => {
+  unlockListeners.add(listener);
+
+  return () => {
+    unlockListeners.delete(listener);
+  };
+};
+
+const tierOf = (achievement?: Achievement): number =>
+  achievement?.tier ?? (achievement?.unlockedAt ? 1 : 0);
+
+const once = <T>(load: () => Promise<T>): (() => Promise<T>) => {
+  let promise: Promise<T> | null = null;
+  return () => {
+    if (!promise) promise = load();
+    return promise;
+  };
+};
+
+/**
+ * Longest run of consecutive days in a list of dates
+ */
+const longestDayRun = (dates: string[]): number => {
+  const sorted = [...new Set(dates)].sort();
+  let longest = 0;
+  let run = 0;
+
+  sorted.forEach((date, index) => {
+    run = index > 0 && addDays(sorted[index - 1], 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  return longest;
+};
+
+const countDocuments = async (collectionName: string, ...constraints: ReturnType<typeof where>[]): Promise<number> => {
+  const querySnapshot = await getDocs(query(collection(db, collectionName), ...constraints));
+  return querySnapshot.size;
+};
+
+const METRIC_RESOLVERS: { [metric in AchievementMetric]: MetricResolver } = {
+  goals_completed: async (context, params) => {
+    const goals = await context.completedGoals();
+    return goals.filter(goal =>
+      (!params.goalType || goal.type === params.goalType) &&
+      (!params.timeFrame || goal.timeFrame === params.timeFrame)
+    ).length;
+  },
+
+  steps_total: async context => (await context.userData()).totalSteps || 0,
+
+  best_day_steps: async context => {
+    const totals = await context.stepTotals();
+    return totals.reduce((best, total) => Math.max(best, total.steps), 0);
+  },
+
+  best_week_active_minutes: async context => {
+    const weeks: { [weekStart: string]: number } = {};
+    (await context.stepTotals()).forEach(total => {
+      const weekStart = getStartOfWeek(total.date);
+      weeks[weekStart] = (weeks[weekStart] || 0) + getActiveMinutes(total);
+    });
+    return Math.max(0, ...Object.values(weeks));
+  },
+
+  streak_current: async (context, params) =>
+    (await context.streaks()).streaks[(params.streak || 'activity') as StreakKey]?.current || 0,
+
+  streak_longest: async (context, params) =>
+    (await context.streaks()).streaks[(params.streak || 'activity') as StreakKey]?.longest || 0,
+
+  logging_streak: async (context, params) => {
+    if (params.log === 'weight') {
+      const weighIns = await getWeighIns(context.userId);
+      return longestDayRun(weighIns.map(weighIn => weighIn.date));
+    }
+
+    const querySnapshot = await getDocs(query(collection(db, 'calorieIntake'), where('userId', '==', context.userId)));
+    const dates: string[] = [];
+    querySnapshot.forEach(snapshot => {
+      if (snapshot.data().date) dates.push(snapshot.data().date);
+    });
+    return longestDayRun(dates);
+  },
+
+  friends: async context => ((await context.userData()).friends || []).length,
+
+  activity_events: (context, params) => {
+    const constraints = [where('userId', '==', context.userId)];
+    if (params.eventType) constraints.push(where('eventType', '==', params.eventType));
+    return countDocuments('activity', ...constraints);
+  },
+
+  workouts_completed: async context => {
+    const workouts = await WorkoutProgramService.getCompletedWorkouts(ALL_TIME_START, getCurrentDate(), context.userId);
+    return workouts.length;
+  },
+
+  weigh_ins: async context => (await getWeighIns(context.userId)).length
+};
+
+const isMetricRule = (rule: AchievementRule): rule is AchievementMetricRule => 'metric' in rule;
+
+const metricKey = (rule: AchievementMetricRule): string => `${rule.metric}:${JSON.stringify(rule.params || {})}`;
+
+/**
+ * Every metric a rule reads
+ */
+const collectMetricRules = (rule: AchievementRule, rules: AchievementMetricRule[] = []): AchievementMetricRule[] => {
+  if (isMetricRule(rule)) {
+    rules.push(rule);
+  } else {
+    rule.rules.forEach(child => collectMetricRules(child, rules));
+  }
+  return rules;
+};
+
+/**
+ * Value of a rule from the resolved metrics
+ * @param rule - Rule to evaluate
+ * @param values - Metric values by metricKey
+ */
+export const evaluateRule = (rule: AchievementRule, values: Map<string, number>): number => {
+  if (isMetricRule(rule)) {
+    return values.get(metricKey(rule)) || 0;
+  }
+
+  const childValues = rule.rules.map(child => evaluateRule(child, values));
+  if (childValues.length === 0) return 0;
+
+  switch (rule.combine) {
+    case 'min':
+      return Math.min(...childValues);
+    case 'max':
+      return Math.max(...childValues);
+    case 'sum':
+      return childValues.reduce((sum, value) => sum + value, 0);
+  }
+};
+
+const isValidRule = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as { [key: string]: any };
+  if ('metric' in rule) {
+    return typeof rule.metric === 'string' && Object.prototype.hasOwnProperty.call(METRIC_RESOLVERS, rule.metric);
+  }
+  return ['min', 'max', 'sum'].includes(rule.combine) && Array.isArray(rule.rules) && rule.rules.every(isValidRule);
+};
+
+/**
+ * Check a catalog entry can be evaluated
+ * @returns An error message, or null if the definition is valid
+ */
+export const validateAchievementDefinition = (definition: AchievementDefinition): string | null => {
+  if (!definition.id || !definition.title) return 'Achievement needs an id and a title';
+  if (!isValidRule(definition.rule)) return `Achievement ${definition.id} has an unknown rule`;
+  if (!Array.isArray(definition.tiers) || definition.tiers.length === 0) return `Achievement ${definition.id} has no tiers`;
+
+  const ascending = definition.tiers.every((tier, index) =>
+    tier.threshold > 0 && (index === 0 || tier.threshold > definition.tiers[index - 1].threshold));
+  return ascending ? null : `Achievement ${definition.id} tiers must have rising thresholds above zero`;
+};
+
+/**
+ * Built-in achievements merged with the remote catalog
+ * @param refresh - Skip the cache
+ */
+export const getAchievementCatalog = createRemoteCatalog<AchievementDefinition>({
+  collectionName: 'achievementCatalog',
+  defaults: DEFAULT_ACHIEVEMENTS,
+  validate: validateAchievementDefinition,
+  label: 'achievement catalog'
+});
+
+const fillThreshold = (text: string, threshold: number): string =>
+  text.replace(/\{threshold\}/g, threshold.toLocaleString());
+
+/**
+ * Achievement record for a definition at a given value. Tiers already
+ * reached are kept even if the value has dropped since (e.g. a current streak).
+ * @param userId - Achievement owner
+ * @param definition - Catalog entry
+ * @param value - Current value of the rule
+ * @param previous - Stored achievement, if any
+ */
+export const buildAchievement = (
+  userId: string,
+  definition: AchievementDefinition,
+  value: number,
+  previous?: Achievement
+): Achievement => {
+  const previousTier = tierOf(previous);
+  const reachedTier = definition.tiers.filter(tier => value >= tier.threshold).length;
+  const tier = Math.min(definition.tiers.length, Math.max(previousTier, reachedTier));
+
+  const currentTier = tier > 0 ? definition.tiers[tier - 1] : null;
+  const nextTier = tier < definition.tiers.length ? definition.tiers[tier] : null;
+
+  const achievement: Achievement = {
+    id: definition.id,
+    userId,
+    title: definition.title,
+    description: fillThreshold(definition.description, (currentTier || definition.tiers[0]).threshold),
+    icon: definition.icon,
+    unlockedAt: previous?.unlockedAt || (tier > 0 ? new Date().toISOString() : null),
+    progress: nextTier ? Math.min(99, Math.floor((value / nextTier.threshold) * 100)) : 100,
+    requirement: fillThreshold(definition.requirement, (nextTier || currentTier || definition.tiers[0]).threshold),
+    tier,
+    tierCount: definition.tiers.length,
+    value,
+    nextThreshold: nextTier ? nextTier.threshold : null
+  };
+
+  if (currentTier?.label) {
+    achievement.tierLabel = currentTier.label;
+  }
+
+  return achievement;
+};
+
+/**
+ * Tell subscribers about an unlock and share it with friends
+ */
+const announceUnlock = async (achievement: Achievement): Promise<void> => {
+  unlockListeners.forEach(listener => {
+    try {
+      listener(achievement);
+    } catch (error) {
+      console.warn('Achievement unlock listener failed:', error);
+    }
+  });
+
+  const details: { [field: string]: any } = {
+    achievementId: achievement.id,
+    achievementTitle: achievement.tierLabel ? `${achievement.title} (${achievement.tierLabel})` : achievement.title,
+    icon: achievement.icon,
+    tier: achievement.tier || 1
+  };
+
+  try {
+    await communityService.addActivityEvent('achievement_unlocked', details);
+  } catch (error) {
+    console.warn('Could not share achievement unlock:', error);
+  }
+};
+
+/**
+ * Write an achievement, keeping the first unlock date. Unlocking it, or
+ * reaching a higher tier, is announced unless `announce` is false.
+ * @param userId - Achievement owner
+ * @param achievement - Achievement to save
+ * @param documentId - Existing document, if the achievement was saved before
+ * @param previous - Stored achievement, to tell whether this is an unlock
+ * @param announce - Whether to celebrate and share an unlock
+ * @returns Whether the achievement was unlocked or moved up a tier
+ */
+export const updateOrCreateAchievement = async (
+  userId: string,
+  achievement: Achievement,
+  documentId?: string,
+  previous?: Achievement,
+  announce = true
+): Promise<boolean> => {
+  if (documentId) {
+    await updateDoc(doc(db, 'achievements', documentId), {
+      ...achievement,
+      updatedAt: serverTimestamp()
+    });
+  } else {
+    await setDoc(doc(db, 'achievements', `${userId}_${achievement.id}`), {
+      ...achievement,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  const unlocked = tierOf(achievement) > tierOf(previous);
+  if (unlocked && announce) {
+    await announceUnlock(achievement);
+  }
+  return unlocked;
+};
+
+/**
+ * Stored achievements by achievement id, with their document ids
+ */
+const getStoredAchievements = async (userId: string): Promise<Map<string, { documentId: string; achievement: Achievement }>> => {
+  const querySnapshot = await getDocs(query(collection(db, 'achievements'), where('userId', '==', userId)));
+  const stored = new Map<string, { documentId: string; achievement: Achievement }>();
+
+  querySnapshot.forEach(snapshot => {
+    const achievement = snapshot.data() as Achievement;
+    stored.set(achievement.id, { documentId: snapshot.id, achievement });
+  });
+
+  return stored;
+};
+
+// Evaluations running for each user, and the one queued to run after them
+const runningEvaluations = new Map<string, Promise<AchievementUnlock[]>>();
+const queuedEvaluations = new Map<string, Promise<AchievementUnlock[]>>();
+
+/**
+ * Evaluate the whole catalog for a user and save any change in progress. Only
+ * one evaluation runs per user at a time, so a tier is never announced twice.
+ * Calls made while one is running share a single evaluation after it, which
+ * sees whatever changed meanwhile.
+ * @param userId - User to evaluate
+ * @returns Promise resolving to the tiers newly reached
+ */
+export const evaluateAchievements = (userId: string): Promise<AchievementUnlock[]> => {
+  const running = runningEvaluations.get(userId);
+  if (!running) return startEvaluation(userId);
+
+  let queued = queuedEvaluations.get(userId);
+  if (!queued) {
+    queued = running.catch(() => []).then(() => {
+      queuedEvaluations.delete(userId);
+      return startEvaluation(userId);
+    });
+    queuedEvaluations.set(userId, queued);
+  }
+  return queued;
+};
+
+const startEvaluation = (userId: string): Promise<AchievementUnlock[]> => {
+  const evaluation = runEvaluation(userId).finally(() => {
+    runningEvaluations.delete(userId);
+  });
+  runningEvaluations.set(userId, evaluation);
+  return evaluation;
+};
+
+const runEvaluation = async (userId: string): Promise<AchievementUnlock[]> => {
+  const catalog = await getAchievementCatalog();
+
+  const context: MetricContext = {
+    userId,
+    userData: once(async () => {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      return userDoc.exists() ? userDoc.data() : {};
+    }),
+    completedGoals: once(async () => {
+      const querySnapshot = await getDocs(query(
+        collection(db, 'fitnessGoals'),
+        where('userId', '==', userId),
+        where('status', '==', GoalStatus.COMPLETED)
+      ));
+      const goals: FitnessGoal[] = [];
+      querySnapshot.forEach(snapshot => {
+        goals.push({ id: snapshot.id, ...snapshot.data() } as FitnessGoal);
+      });
+      return goals;
+    }),
+    stepTotals: once(() => getDailyStepTotals(userId, ALL_TIME_START, getCurrentDate())),
+    streaks: once(() => getStreakState(userId))
+  };
+
+  // Resolve each metric once, however many achievements use it
+  const values = new Map<string, number>();
+  const metricRules = catalog.flatMap(definition => collectMetricRules(definition.rule));
+  for (const rule of metricRules) {
+    const key = metricKey(rule);
+    if (values.has(key)) continue;
+
+    try {
+      values.set(key, await METRIC_RESOLVERS[rule.metric](context, rule.params || {}));
+    } catch (error) {
+      console.warn(`Could not work out achievement metric ${key}:`, error);
+    }
+  }
+
+  const stored = await getStoredAchievements(userId);
+  const unlocks: AchievementUnlock[] = [];
+
+  // The first evaluation for an account from before achievements were tracked
+  // unlocks everything already earned. Sign-up marks new accounts as caught
+  // up, and an account without a profile yet has nothing to catch up on.
+  const userData = await context.userData();
+  const isBackfill = Object.keys(userData).length > 0 && !userData.achievementsBackfilled;
+
+  for (const definition of catalog) {
+    const metrics = collectMetricRules(definition.rule);
+    if (metrics.some(rule => !values.has(metricKey(rule)))) continue; // Try again next time
+
+    const previous = stored.get(definition.id);
+    const achievement = buildAchievement(userId, definition, evaluateRule(definition.rule, values), previous?.achievement);
+
+    if (previous &&
+        previous.achievement.tier === achievement.tier &&
+        previous.achievement.value === achievement.value &&
+        previous.achievement.progress === achievement.progress) {
+      continue;
+    }
+
+    try {
+      const unlocked = await updateOrCreateAchievement(
+        userId, achievement, previous?.documentId, previous?.achievement, !isBackfill
+      );
+      if (unlocked) {
+        unlocks.push({ definition, achievement, tier: tierOf(achievement) });
+      }
+    } catch (error) {
+      console.error(`Error saving achievement ${definition.id}:`, error);
+    }
+  }
+
+  if (isBackfill) {
+    try {
+      await setDoc(doc(db, 'users', userId), { achievementsBackfilled: true }, { merge: true });
+    } catch (error) {
+      console.warn('Could not mark achievements as backfilled:', error);
+    }
+  }
+
+  return unlocks;
+};
+
+/**
+ * Evaluate the signed-in user's achievements after something they did, such
+ * as joining a challenge, without holding up the caller
+ */
+export const refreshAchievements = (): void => {
+  const user = auth.currentUser;
+  if (!user) return;
+
+  evaluateAchievements(user.uid).catch(error => {
+    console.warn('Could not update achievements:', error);
+  });
+};
+
+// Joining a challenge or a team, or adding a friend, can reach an achievement
+// right away. Other events are either evaluated where they happen (goals) or
+// come from an evaluation (unlocks).
+const COMMUNITY_EVENTS: ActivityEvent['eventType'][] = ['challenge_joined', 'team_joined', 'friend_added'];
+
+communityService.subscribeToActivityEvents(eventType => {
+  if (COMMUNITY_EVENTS.includes(eventType)) {
+    refreshAchievements();
+  }
+});
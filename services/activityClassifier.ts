@@ -0,0 +1,227 @@
+// Activity classification
+//
+// Labels each sensor window (the same 50 x [ax, ay, az, gx, gy, gz] windows the
+// step detector sees) as idle, walking, running, stair climbing or cycling
+// from a handful of signal features, and keeps track of how long was spent in
+// each activity. Accelerometer values are in g, gyroscope values in rad/s.
+
+import { SensorWindow } from './stepDetectionPipeline';
+
+export type ActivityType = 'idle' | 'walking' | 'running' | 'stairs' | 'cycling';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['idle', 'walking', 'running', 'stairs', 'cycling'];
+
+// Seconds spent in each activity
+export type ActivityDurations = { [activity in ActivityType]?: number };
+
+export interface ActivityFeatures {
+  magnitudeStd: number;    // Spread of total acceleration, overall movement intensity
+  verticalStd: number;     // Spread along gravity
+  horizontalStd: number;   // Spread perpendicular to gravity
+  rotationRate: number;    // Mean gyroscope magnitude
+  cadence: number;         // Acceleration cycles per second
+}
+
+export interface ActivityClassification {
+  activity: ActivityType;
+  features: ActivityFeatures;
+}
+
+// Thresholds picked from sample walks, runs, stair climbs and rides with the phone in a front pocket
+const IDLE_MAX_MAGNITUDE_STD = 0.04;
+const IDLE_MAX_ROTATION_RATE = 0.3;
+const CYCLING_MAX_MAGNITUDE_STD = 0.15;
+const CYCLING_MIN_ROTATION_RATE = 1.0;
+const RUNNING_MIN_MAGNITUDE_STD = 0.35;
+const RUNNING_MIN_CADENCE = 2.4; // Hz
+const STAIRS_MAX_CADENCE = 2.0;  // Hz
+const STAIRS_MIN_VERTICAL_RATIO = 2.5;
+const STAIRS_MIN_MAGNITUDE_STD = 0.1;
+
+const SMOOTHING_WINDOWS = 3;
+
+const mean = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const std = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - m) * (value - m))));
+};
+
+/**
+ * Count upward crossings of the mean, with a little hysteresis so sensor
+ * noise around the mean is not counted as a cycle
+ */
+const countCycles = (values: number[]): number => {
+  const m = mean(values);
+  const band = std(values) * 0.3;
+  let cycles = 0;
+  let below = values[0] < m;
+
+  values.forEach(value => {
+    if (below && value > m + band) {
+      cycles++;
+      below = false;
+    } else if (!below && value < m - band) {
+      below = true;
+    }
+  });
+
+  return cycles;
+};
+
+/**
+ * Extract the features the classifier works on
+ * @param window - Sensor window
+ * @param sampleIntervalMs - Time between samples
+ */
+export const extractActivityFeatures = (window: SensorWindow, sampleIntervalMs: number): ActivityFeatures => {
+  const magnitudes = window.map(([x, y, z]) => Math.sqrt(x * x + y * y + z * z));
+
+  // The mean acceleration over a couple of seconds approximates gravity
+  const gravity = [0, 1, 2].map(axis => mean(window.map(sample => sample[axis])));
+  const gravityNorm = Math.sqrt(gravity.reduce((sum, g) => sum + g * g, 0)) || 1;
+  const down = gravity.map(g => g / gravityNorm);
+
+  const vertical: number[] = [];
+  const horizontal: number[] = [];
+  window.forEach(([x, y, z]) => {
+    const v = x * down[0] + y * down[1] + z * down[2];
+    const hx = x - v * down[0];
+    const hy = y - v * down[1];
+    const hz = z - v * down[2];
+    vertical.push(v);
+    horizontal.push(Math.sqrt(hx * hx + hy * hy + hz * hz));
+  });
+
+  const rotationRate = mean(window.map(([, , , gx, gy, gz]) => Math.sqrt(gx * gx + gy * gy + gz * gz)));
+  const durationSeconds = (window.length * sampleIntervalMs) / 1000;
+
+  return {
+    magnitudeStd: std(magnitudes),
+    verticalStd: std(vertical),
+    horizontalStd: std(horizontal),
+    rotationRate,
+    cadence: durationSeconds > 0 ? countCycles(magnitudes) / durationSeconds : 0
+  };
+};
+
+/**
+ * Label a single sensor window
+ * @param window - Sensor window
+ * @param sampleIntervalMs - Time between samples
+ */
+export const classifyActivity = (window: SensorWindow, sampleIntervalMs: number): ActivityClassification => {
+  const features = extractActivityFeatures(window, sampleIntervalMs);
+  const { magnitudeStd, verticalStd, horizontalStd, rotationRate, cadence } = features;
+
+  let activity: ActivityType = 'walking';
+
+  if (magnitudeStd < IDLE_MAX_MAGNITUDE_STD && rotationRate < IDLE_MAX_ROTATION_RATE) {
+    activity = 'idle';
+  } else if (magnitudeStd < CYCLING_MAX_MAGNITUDE_STD && rotationRate >= CYCLING_MIN_ROTATION_RATE) {
+    // Pedalling turns the thigh a lot but barely bounces the body
+    activity = 'cycling';
+  } else if (magnitudeStd >= RUNNING_MIN_MAGNITUDE_STD || cadence >= RUNNING_MIN_CADENCE) {
+    activity = 'running';
+  } else if (magnitudeStd >= STAIRS_MIN_MAGNITUDE_STD && cadence <= STAIRS_MAX_CADENCE &&
+             verticalStd >= horizontalStd * STAIRS_MIN_VERTICAL_RATIO) {
+    // Climbing is slower than walking with most of the movement along gravity
+    activity = 'stairs';
+  } else if (magnitudeStd < IDLE_MAX_MAGNITUDE_STD) {
+    activity = 'idle';
+  }
+
+  return { activity, features };
+};
+
+/**
+ * Total seconds spent doing anything other than being idle
+ */
+export const getActiveSeconds = (durations: ActivityDurations): number =>
+  ACTIVITY_TYPES
+    .filter(activity => activity !== 'idle')
+    .reduce((sum, activity) => sum + (durations[activity] || 0), 0);
+
+/**
+ * Classifies a stream of windows and accumulates the time spent in each
+ * activity. Labels are smoothed over the last few windows so a single odd
+ * window does not flip the activity.
+ */
+export class ActivityTracker {
+  private recentLabels: ActivityType[] = [];
+  private durations: ActivityDurations = {};
+  private lastTimestamp: number | null = null;
+  private currentActivity: ActivityType = 'idle';
+
+  /**
+   * @param sampleIntervalMs - Time between samples
+   * @param windowStepMs - Time between consecutive windows
+   */
+  constructor(private sampleIntervalMs: number, private windowStepMs: number) {}
+
+  /**
+   * Classify a window and credit the time since the previous one
+   * @param window - Sensor window
+   * @param timestamp - Time the window completed, in ms
+   * @returns The smoothed activity
+   */
+  addWindow(window: SensorWindow, timestamp: number = Date.now()): ActivityType {
+    const { activity } = classifyActivity(window, this.sampleIntervalMs);
+
+    this.recentLabels.push(activity);
+    if (this.recentLabels.length > SMOOTHING_WINDOWS) {
+      this.recentLabels.shift();
+    }
+    this.currentActivity = this.majorityLabel();
+
+    // Gaps (e.g. the app was paused) are capped so they are not credited as activity
+    const elapsed = this.lastTimestamp === null
+      ? this.windowStepMs
+      : Math.min(timestamp - this.lastTimestamp, this.windowStepMs * 2);
+    this.lastTimestamp = timestamp;
+
+    this.durations[this.currentActivity] = (this.durations[this.currentActivity] || 0) + Math.max(0, elapsed) / 1000;
+
+    return this.currentActivity;
+  }
+
+  getCurrentActivity(): ActivityType {
+    return this.currentActivity;
+  }
+
+  /**
+   * Seconds spent in each activity since the last reset, rounded to whole seconds
+   */
+  getDurations(): ActivityDurations {
+    const rounded: ActivityDurations = {};
+    ACTIVITY_TYPES.forEach(activity => {
+      const seconds = Math.round(this.durations[activity] || 0);
+      if (seconds > 0) rounded[activity] = seconds;
+    });
+    return rounded;
+  }
+
+  reset(): void {
+    this.recentLabels = [];
+    this.durations = {};
+    this.lastTimestamp = null;
+    this.currentActivity = 'idle';
+  }
+
+  // Most common recent label; ties go to the latest
+  private majorityLabel(): ActivityType {
+    const counts: ActivityDurations = {};
+    let best = this.recentLabels[this.recentLabels.length - 1];
+
+    for (let i = this.recentLabels.length - 1; i >= 0; i--) {
+      const label = this.recentLabels[i];
+      counts[label] = (counts[label] || 0) + 1;
+      if ((counts[label] || 0) > (counts[best] || 0)) {
+        best = label;
+      }
+    }
+
+    return best;
+  }
+}
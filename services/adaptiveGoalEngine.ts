@@ -0,0 +1,223 @@
+// Adaptive goal difficulty
+//
+// Picks targets for generated goals so the user succeeds most of the time but
+// not every time. Recent daily (or weekly) values give an empirical chance of
+// hitting any target; the user's last few goal outcomes move the chance we aim
+// for up or down inside a configurable band. Streaks and the recent trend
+// nudge the result, and every target carries a plain-language rationale.
+
+import { GoalStatus, GoalTimeFrame, GoalType } from '../models/FitnessGoalModels';
+import { getGoalHistory } from './goalHistoryService';
+
+export interface DifficultyConfig {
+  historySize: number;           // Past goals of the same type and time frame to look at
+  successBand: [number, number]; // Chance of success to aim for, low and high
+  minHistory: number;            // Recent values needed before targets come from history
+  maxChange: number;             // Largest change from the previous target, as a fraction
+  streakLength: number;          // Completed goals in a row that count as a streak
+  trendWeight: number;           // How much of the recent trend carries into the target
+  maxTrendAdjustment: number;    // Cap on the trend nudge, as a fraction
+}
+
+export const DEFAULT_DIFFICULTY_CONFIG: DifficultyConfig = {
+  historySize: 10,
+  successBand: [0.6, 0.8],
+  minHistory: 5,
+  maxChange: 0.15,
+  streakLength: 3,
+  trendWeight: 0.5,
+  maxTrendAdjustment: 0.05
+};
+
+// Whether a finished goal was met
+export interface GoalOutcome {
+  target: number;
+  current: number;
+  completed: boolean;
+  startDate: string;
+  endDate: string; // Last day of the period
+  streak: number;
+}
+
+export interface AdaptiveTargetInput {
+  label: string;                 // e.g. "daily step", used in the rationale
+  unit: string;                  // e.g. "steps", "minutes"
+  periodLabel?: string;          // What each recent value covers, for the rationale; defaults to days
+  recentValues: number[];        // What the user actually did in recent periods, oldest first
+  outcomes: GoalOutcome[];       // Recent goals of this type, newest first
+  previousTarget: number | null;
+  defaultTarget: number;
+  minTarget: number;
+  maxTarget: number;
+  roundTo?: number;              // Round the target to a multiple of this
+}
+
+export interface AdaptiveTarget {
+  target: number;
+  successRate: number | null;          // Share of recent goals completed
+  successProbability: number | null;   // Chance of hitting the new target, from recent values
+  rationale: string;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const mean = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const percent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+
+/**
+ * Value exceeded in a given share of periods
+ * @param values - Recent values
+ * @param probability - Share of periods that should reach the value
+ */
+export const valueForProbability = (values: number[], probability: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = clamp(1 - probability, 0, 1) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Share of recent periods that reached a target
+ */
+export const estimateSuccessProbability = (values: number[], target: number): number | null =>
+  values.length ? values.filter(value => value >= target).length / values.length : null;
+
+/**
+ * Number of goals completed in a row, newest first
+ */
+export const countCompletedStreak = (outcomes: GoalOutcome[]): number => {
+  let streak = 0;
+  for (const outcome of outcomes) {
+    if (!outcome.completed) break;
+    streak++;
+  }
+  return streak;
+};
+
+/**
+ * Change between the older and newer halves of the recent values
+ * @returns Fractional change, e.g. 0.1 for a 10% rise
+ */
+export const calculateRecentTrend = (values: number[]): number => {
+  if (values.length < 4) return 0;
+
+  const half = Math.floor(values.length / 2);
+  const older = mean(values.slice(0, half));
+  const newer = mean(values.slice(values.length - half));
+  return older > 0 ? (newer - older) / older : 0;
+};
+
+/**
+ * Pick a target that keeps the chance of success inside the configured band
+ * @param input - Recent values, past outcomes and limits for the goal
+ * @param config - Difficulty settings
+ */
+export const calculateAdaptiveTarget = (
+  input: AdaptiveTargetInput,
+  config: DifficultyConfig = DEFAULT_DIFFICULTY_CONFIG
+): AdaptiveTarget => {
+  const [lowBand, highBand] = config.successBand;
+  const outcomes = input.outcomes.slice(0, config.historySize);
+  const completedCount = outcomes.filter(outcome => outcome.completed).length;
+  const successRate = outcomes.length ? completedCount / outcomes.length : null;
+  const streak = countCompletedStreak(outcomes);
+  const reasons: string[] = [];
+
+  // Aim for a lower chance of success when goals have been too easy, and a higher one when too hard
+  let aimedProbability = (lowBand + highBand) / 2;
+  if (successRate !== null) {
+    const record = `You completed ${completedCount} of your last ${outcomes.length} ${input.label} goals (${percent(successRate)})`;
+    if (successRate > highBand) {
+      aimedProbability = lowBand;
+      reasons.push(`${record}, so this one is a little harder.`);
+    } else if (successRate < lowBand) {
+      aimedProbability = highBand;
+      reasons.push(`${record}, so this one is a little easier.`);
+    } else {
+      reasons.push(`${record}, which is about the right level of challenge.`);
+    }
+  }
+
+  let target: number;
+  const hasHistory = input.recentValues.length >= config.minHistory;
+
+  if (hasHistory) {
+    target = valueForProbability(input.recentValues, aimedProbability);
+    reasons.push(`You reached this in about ${percent(aimedProbability)} of recent ${input.periodLabel || 'days you were tracked'}.`);
+  } else if (input.previousTarget && successRate !== null) {
+    // Not enough activity history, so step the previous target instead
+    const step = successRate > highBand ? config.maxChange / 2 : successRate < lowBand ? -config.maxChange : 0;
+    target = input.previousTarget * (1 + step);
+  } else {
+    target = input.defaultTarget;
+    reasons.push(`This is a starting target until there is more of your activity to go on.`);
+  }
+
+  // Carry part of a clear recent trend into the target
+  const trend = calculateRecentTrend(input.recentValues);
+  const trendAdjustment = clamp(trend * config.trendWeight, -config.maxTrendAdjustment, config.maxTrendAdjustment);
+  if (hasHistory && Math.abs(trendAdjustment) >= 0.01) {
+    target *= 1 + trendAdjustment;
+    reasons.push(trend > 0
+      ? `Your ${input.unit} are up ${percent(trend)} lately, so the target leans higher.`
+      : `Your ${input.unit} are down ${percent(-trend)} lately, so the target leans lower.`);
+  }
+
+  // Keep changes gradual, and smaller while a streak is running so a jump does not break it
+  if (input.previousTarget) {
+    const maxRise = streak >= config.streakLength ? config.maxChange / 2 : config.maxChange;
+    const limited = clamp(target, input.previousTarget * (1 - config.maxChange), input.previousTarget * (1 + maxRise));
+    if (limited !== target && streak >= config.streakLength && target > limited) {
+      reasons.push(`You are on a ${streak}-goal streak, so the increase is kept small.`);
+    }
+    target = limited;
+  }
+
+  const roundTo = input.roundTo || 1;
+  target = Math.round(clamp(target, input.minTarget, input.maxTarget) / roundTo) * roundTo;
+
+  if (input.previousTarget && target !== input.previousTarget) {
+    const change = (target - input.previousTarget) / input.previousTarget;
+    reasons.push(`That is ${change > 0 ? 'up' : 'down'} ${percent(Math.abs(change))} from your last target of ${input.previousTarget.toLocaleString()} ${input.unit}.`);
+  }
+
+  return {
+    target,
+    successRate,
+    successProbability: estimateSuccessProbability(input.recentValues, target),
+    rationale: reasons.join(' ')
+  };
+};
+
+/**
+ * Load the most recent finished goals of one type and time frame from the
+ * goal history. Goals replaced part way through a period are skipped.
+ * @param userId - Goal owner
+ * @param type - Goal type
+ * @param timeFrame - Goal time frame
+ * @param count - How many goals to return
+ * @returns Outcomes, newest first
+ */
+export const getGoalOutcomes = async (
+  userId: string,
+  type: GoalType,
+  timeFrame: GoalTimeFrame,
+  count: number = DEFAULT_DIFFICULTY_CONFIG.historySize
+): Promise<GoalOutcome[]> => {
+  const history = await getGoalHistory(userId, type, timeFrame, count * 2);
+
+  return history
+    .filter(entry => !entry.replacedBy)
+    .slice(0, count)
+    .map(entry => ({
+      target: entry.target,
+      current: entry.final,
+      completed: entry.status === GoalStatus.COMPLETED,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      streak: entry.streak
+    }));
+};
@@ -0,0 +1,250 @@
+// Daily analytics
+//
+// Every screen and service that looks at a user's days reads them through
+// here. Days come from the materialized summaries in dailySummaryService, and
+// the derived numbers (active minutes, distance, calories burned) are worked
+// out in one place with the same constants as the goals that measure them.
+// Summaries can always be rebuilt from the raw collections: for every user
+// once per DAILY_SUMMARY_VERSION, and for single days marked stale.
+
+import { db } from '../app/firebaseConfig';
+import { collection, doc, getDocs, query, runTransaction, serverTimestamp, setDoc, where } from 'firebase/firestore';
+import { UserAnalytics } from '../models/FitnessGoalModels';
+import {
+  DailyStepTotal,
+  getActiveMinutes,
+  getDailyStepTotalInTransaction,
+  getDailyStepTotals,
+  getDistanceKm
+} from './stepLedgerService';
+import {
+  BodyProfile,
+  calculateActivityCalories,
+  calculateBMR,
+  calculateWorkoutCalories,
+  elapsedDayFraction,
+  getBodyProfile
+} from './energyExpenditureService';
+import { getSleepLogs } from './sleepService';
+import { getWeighIns } from './weightTrackingService';
+import WorkoutProgramService from './WorkoutProgramService';
+import {
+  DAILY_SUMMARY_VERSION,
+  DailySummary,
+  dailySummaryId,
+  emptySummary,
+  getDailySummaries
+} from './dailySummaryService';
+import { addDays, getCurrentDate } from '../utils/dateUtils';
+
+const REBUILD_DAYS = 400; // Enough for a year of charts
+
+/**
+ * The step part of a summary in the shape of a ledger daily total
+ */
+const toStepTotal = (summary: DailySummary): DailyStepTotal => ({
+  date: summary.date,
+  steps: summary.steps,
+  sessionCount: 0,
+  distanceMeters: summary.distanceMeters,
+  activeSeconds: summary.activeSeconds,
+  activitySeconds: summary.activitySeconds
+});
+
+/**
+ * Whether anything was recorded on a day. Removing the last food of a day
+ * leaves an empty summary behind.
+ */
+const hasData = (summary: DailySummary): boolean =>
+  summary.steps > 0 || summary.meals > 0 || summary.workouts > 0 ||
+  summary.sleepHours !== undefined || summary.weight !== undefined;
+
+/**
+ * Turn a day's summary into analytics
+ * @param summary - Stored summary
+ * @param profile - Body measurements for resting and activity calories
+ */
+export const toUserAnalytics = (summary: DailySummary, profile: BodyProfile): UserAnalytics => {
+  const stepTotal = toStepTotal(summary);
+  const restingCalories = Math.round(calculateBMR(profile) * elapsedDayFraction(summary.date));
+  const activeCalories = Math.round(calculateActivityCalories(stepTotal, profile.weight)) + summary.workoutCalories;
+  const caloriesConsumed = Math.round(summary.caloriesIn);
+
+  const analytics: UserAnalytics = {
+    userId: summary.userId,
+    date: summary.date,
+    caloriesBurned: restingCalories + activeCalories,
+    activeCaloriesBurned: activeCalories,
+    caloriesConsumed,
+    calorieDifference: restingCalories + activeCalories - caloriesConsumed,
+    stepCount: summary.steps,
+    activeMinutes: getActiveMinutes(stepTotal),
+    distance: getDistanceKm(stepTotal),
+    protein: Math.round(summary.protein),
+    carbs: Math.round(summary.carbs),
+    fat: Math.round(summary.fat),
+    workouts: summary.workouts
+  };
+
+  if (summary.sleepHours !== undefined) analytics.sleepHours = summary.sleepHours;
+  if (summary.sleepQuality !== undefined) analytics.sleepQuality = summary.sleepQuality;
+  if (summary.weight !== undefined) analytics.weight = summary.weight;
+
+  return analytics;
+};
+
+/**
+ * Recompute a user's daily summaries from the raw collections. Days in the
+ * range with nothing recorded lose their summary.
+ * @param userId - User to rebuild
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the rebuilt summaries, oldest first
+ */
+export const rebuildDailySummaries = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<DailySummary[]> => {
+  try {
+    const [stepTotals, intakeSnapshot, workouts, nights, weighIns, profile, existing] = await Promise.all([
+      getDailyStepTotals(userId, startDate, endDate),
+      getDocs(query(
+        collection(db, 'calorieIntake'),
+        where('userId', '==', userId),
+        where('date', '>=', startDate),
+        where('date', '<=', endDate)
+      )),
+      WorkoutProgramService.getCompletedWorkouts(startDate, endDate, userId),
+      getSleepLogs(userId, startDate, endDate),
+      getWeighIns(userId, startDate, endDate),
+      getBodyProfile(userId),
+      getDailySummaries(userId, startDate, endDate)
+    ]);
+
+    const summaries: { [date: string]: DailySummary } = {};
+    const summaryFor = (date: string): DailySummary => {
+      if (!summaries[date]) summaries[date] = emptySummary(userId, date);
+      return summaries[date];
+    };
+
+    // Step fields are read from the ledger again as each day is written
+    stepTotals.forEach(total => summaryFor(total.date));
+
+    intakeSnapshot.forEach(snapshot => {
+      const data = snapshot.data();
+      const summary = summaryFor(data.date);
+      summary.caloriesIn += data.calories || 0;
+      summary.protein += data.protein || 0;
+      summary.carbs += data.carbs || 0;
+      summary.fat += data.fat || 0;
+      summary.meals += 1;
+    });
+
+    workouts.forEach(workout => {
+      const summary = summaryFor(workout.date);
+      summary.workouts += 1;
+      summary.workoutCalories += Math.round(calculateWorkoutCalories(workout.day, profile.weight));
+    });
+
+    nights.forEach(night => {
+      const summary = summaryFor(night.date);
+      summary.sleepHours = night.hours;
+      summary.sleepQuality = night.quality;
+    });
+
+    weighIns.forEach(weighIn => {
+      summaryFor(weighIn.date).weight = weighIn.weight;
+    });
+
+    // Each day is replaced in a transaction with the ledger's rollup for it, so
+    // a session recorded meanwhile retries the write instead of being erased.
+    // Replacing the whole document also clears the stale flag.
+    const dates = new Set([...Object.keys(summaries), ...existing.map(summary => summary.date)]);
+    const rebuilt: DailySummary[] = [];
+
+    for (const date of Array.from(dates).sort()) {
+      const summary = await runTransaction(db, async transaction => {
+        const stepTotal = await getDailyStepTotalInTransaction(transaction, userId, date);
+        const summary: DailySummary = { ...(summaries[date] || emptySummary(userId, date)) };
+        if (stepTotal) {
+          summary.steps = stepTotal.steps;
+          summary.distanceMeters = stepTotal.distanceMeters || 0;
+          if (stepTotal.activeSeconds !== undefined) {
+            summary.activeSeconds = stepTotal.activeSeconds;
+            summary.activitySeconds = stepTotal.activitySeconds;
+          }
+        }
+
+        const summaryRef = doc(db, 'dailySummaries', dailySummaryId(userId, date));
+        if (hasData(summary)) {
+          transaction.set(summaryRef, { ...summary, updatedAt: serverTimestamp() });
+        } else {
+          transaction.delete(summaryRef);
+        }
+        return summary;
+      });
+
+      if (hasData(summary)) rebuilt.push(summary);
+    }
+
+    return rebuilt;
+  } catch (error) {
+    console.error('Error rebuilding daily summaries:', error);
+    throw error;
+  }
+};
+
+/**
+ * Build a user's summaries from raw data when they were last built by an
+ * older DAILY_SUMMARY_VERSION, or never
+ * @param userId - User to migrate
+ * @param currentVersion - Version stored on the user document
+ */
+export const migrateDailySummaries = async (userId: string, currentVersion: number = 0): Promise<void> => {
+  if (currentVersion >= DAILY_SUMMARY_VERSION) return;
+
+  const today = getCurrentDate();
+  const summaries = await rebuildDailySummaries(userId, addDays(today, -(REBUILD_DAYS - 1)), today);
+  await setDoc(doc(db, 'users', userId), { dailySummaryVersion: DAILY_SUMMARY_VERSION }, { merge: true });
+
+  console.log(`Rebuilt ${summaries.length} daily summaries for ${userId}`);
+};
+
+/**
+ * Get analytics for each day with anything recorded, oldest first
+ * @param userId - User to read
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the analytics, or an empty list on failure
+ */
+export const getDailyAnalytics = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<UserAnalytics[]> => {
+  try {
+    const [stored, profile] = await Promise.all([
+      getDailySummaries(userId, startDate, endDate),
+      getBodyProfile(userId)
+    ]);
+
+    // Days changed in ways that could not be applied in place
+    const summaries: DailySummary[] = [];
+    for (const summary of stored) {
+      if (summary.stale) {
+        const rebuilt = await rebuildDailySummaries(userId, summary.date, summary.date);
+        summaries.push(...rebuilt);
+      } else {
+        summaries.push(summary);
+      }
+    }
+
+    return summaries
+      .filter(hasData)
+      .map(summary => toUserAnalytics(summary, profile));
+  } catch (error) {
+    console.error('Error getting daily analytics:', error);
+    return [];
+  }
+};
@@ -82,7 +82,7 @@ import {
     id: string;
     userId: string;
     displayName: string;
-    eventType: 'goal_completed' | 'challenge_joined' | 'team_joined' | 'friend_added' | 'achievement_unlocked';
+    eventType: 'goal_completed' | 'challenge_joined' | 'team_joined' | 'friend_added' | 'achievement_unlocked' | 'streak_milestone';
     timestamp: any; // Firestore timestamp
     details: any;
   }
@@ -98,7 +98,20 @@ import {
   };
   
   // Service class
+  type ActivityEventListener = (eventType: ActivityEvent['eventType'], details: any) => void;
+
   class CommunityService {
+    private activityEventListeners: Set<ActivityEventListener> = new Set();
+    
+    // Listen for activity events the signed-in user adds, e.g. to re-check
+    // achievements; returns an unsubscribe function
+    subscribeToActivityEvents(listener: ActivityEventListener): () => void {
+      this.activityEventListeners.add(listener);
+      
+      return () => {
+        this.activityEventListeners.delete(listener);
+      };
+    }
     
     // Get global leaderboard
     async getGlobalLeaderboard(
@@ -691,6 +704,14 @@ import {
           timestamp: serverTimestamp()
         });
         
+        this.activityEventListeners.forEach(listener => {
+          try {
+            listener(eventType, details);
+          } catch (error) {
+            console.error("Error in activity event listener:", error);
+          }
+        });
+        
         return activityRef.id;
       } catch (error) {
         console.error("Error adding activity event:", error);
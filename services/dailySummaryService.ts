@@ -0,0 +1,196 @@
+// Daily summaries
+//
+// One document per user and day in `dailySummaries` (`${userId}_${date}`)
+// holds everything recorded that day: steps and activity, food, completed
+// workouts, the night's sleep and the weigh-in. Each writer of raw data keeps
+// its part of the summary up to date as it writes, so analytics read one
+// document per day instead of querying every collection. Parts that cannot be
+// updated in place (workout calories need the program and body weight) mark
+// the day stale, and analyticsService rebuilds stale days from the raw data
+// the next time they are read.
+
+import { db } from '../app/firebaseConfig';
+import {
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  increment,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  Transaction
+} from 'firebase/firestore';
+import { ActivityDurations } from './activityClassifier';
+
+// Bump when analyticsService.rebuildDailySummaries starts deriving something new
+export const DAILY_SUMMARY_VERSION = 1;
+
+export interface DailySummary {
+  userId: string;
+  date: string;
+  // Step ledger
+  steps: number;
+  distanceMeters: number;
+  activeSeconds?: number; // Only set once a session with activity data is recorded
+  activitySeconds?: ActivityDurations;
+  // Calorie tracker
+  caloriesIn: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  meals: number;
+  // Workout programs
+  workouts: number;
+  workoutCalories: number; // Above rest, at the body weight when last rebuilt
+  // Sleep and weight
+  sleepHours?: number;
+  sleepQuality?: number;
+  weight?: number;
+  stale?: boolean; // Set when the day has to be rebuilt from raw data
+  updatedAt?: any; // Firestore Timestamp
+}
+
+// Food added to or removed from a day
+export interface IntakeChange {
+  calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+}
+
+export const dailySummaryId = (userId: string, date: string): string => `${userId}_${date}`;
+
+const summaryRef = (userId: string, date: string) => doc(db, 'dailySummaries', dailySummaryId(userId, date));
+
+/**
+ * Add a step session to a day's summary inside the ledger transaction
+ * @param transaction - Transaction recording the session
+ * @param stepIncrements - The increments applied to the day's `stepHistory` rollup
+ */
+export const applyStepsToSummary = (
+  transaction: Transaction,
+  userId: string,
+  date: string,
+  stepIncrements: { [field: string]: any }
+): void => {
+  transaction.set(summaryRef(userId, date), {
+    userId,
+    date,
+    ...stepIncrements,
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
+
+/**
+ * Add food to a day's summary, or take it away again
+ * @param change - Calories and macros of the food
+ * @param direction - 1 when food is logged, -1 when it is removed
+ */
+export const applyIntakeToSummary = async (
+  userId: string,
+  date: string,
+  change: IntakeChange,
+  direction: 1 | -1 = 1
+): Promise<void> => {
+  await setDoc(summaryRef(userId, date), {
+    userId,
+    date,
+    caloriesIn: increment(direction * (change.calories || 0)),
+    protein: increment(direction * (change.protein || 0)),
+    carbs: increment(direction * (change.carbs || 0)),
+    fat: increment(direction * (change.fat || 0)),
+    meals: increment(direction),
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
+
+/**
+ * Set or clear the night of sleep ending on a day
+ * @param night - Hours and quality, or null when the night was deleted
+ */
+export const setSleepOnSummary = async (
+  userId: string,
+  date: string,
+  night: { hours: number; quality: number } | null
+): Promise<void> => {
+  await setDoc(summaryRef(userId, date), {
+    userId,
+    date,
+    sleepHours: night ? night.hours : deleteField(),
+    sleepQuality: night ? night.quality : deleteField(),
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
+
+/**
+ * Set or clear a day's weigh-in
+ * @param weight - Weight in kg, or null when the weigh-in was deleted
+ */
+export const setWeightOnSummary = async (userId: string, date: string, weight: number | null): Promise<void> => {
+  await setDoc(summaryRef(userId, date), {
+    userId,
+    date,
+    weight: weight ?? deleteField(),
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
+
+/**
+ * Flag a day to be rebuilt from raw data on its next read
+ */
+export const markSummaryStale = async (userId: string, date: string): Promise<void> => {
+  await setDoc(summaryRef(userId, date), {
+    userId,
+    date,
+    stale: true,
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
+
+/**
+ * Get the stored summaries for a date range, oldest first. Fields never
+ * written for a day are filled with zeros.
+ * @param userId - User to read
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ */
+export const getDailySummaries = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<DailySummary[]> => {
+  const summaryQuery = query(
+    collection(db, 'dailySummaries'),
+    where('userId', '==', userId),
+    where('date', '>=', startDate),
+    where('date', '<=', endDate)
+  );
+
+  const querySnapshot = await getDocs(summaryQuery);
+  const summaries: DailySummary[] = [];
+
+  querySnapshot.forEach(snapshot => {
+    summaries.push({ ...emptySummary(userId, snapshot.data().date), ...snapshot.data() } as DailySummary);
+  });
+
+  return summaries.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * A day with nothing recorded
+ */
+export const emptySummary = (userId: string, date: string): DailySummary => ({
+  userId,
+  date,
+  steps: 0,
+  distanceMeters: 0,
+  caloriesIn: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  meals: 0,
+  workouts: 0,
+  workoutCalories: 0
+});
@@ -0,0 +1,236 @@
+// Energy expenditure
+//
+// Daily calories burned are resting energy (BMR, Mifflin-St Jeor) plus the
+// energy of each activity above rest, worked out from MET values and body
+// weight. Activity comes from the classified time in each step session and
+// from workouts marked as completed in workout programs.
+
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../app/firebaseConfig';
+import { ActivityType, ACTIVITY_TYPES } from './activityClassifier';
+import { DailyStepTotal, getDailyStepTotals } from './stepLedgerService';
+import { ProgramDay, Exercise } from './AICoachService';
+import WorkoutProgramService from './WorkoutProgramService';
+import { addDays, daysBetween, getCurrentDate, zonedTimeToDate } from '../utils/dateUtils';
+
+// Used for any body measurement the user has not entered
+const DEFAULT_WEIGHT_KG = 70;
+const DEFAULT_HEIGHT_CM = 170;
+const DEFAULT_AGE = 30;
+
+// Compendium of Physical Activities values for each classified activity
+export const ACTIVITY_METS: { [activity in ActivityType]: number } = {
+  idle: 1.0,
+  walking: 3.5,
+  running: 9.8,
+  stairs: 8.0,
+  cycling: 7.5
+};
+
+// Workout types from AICoachService programs, most specific first
+const WORKOUT_METS: { pattern: RegExp; met: number }[] = [
+  { pattern: /hiit|circuit/i, met: 8.0 },
+  { pattern: /tempo|interval|long run|easy run/i, met: 9.0 },
+  { pattern: /walk\/jog/i, met: 6.0 },
+  { pattern: /cardio|cross train/i, met: 7.0 },
+  { pattern: /recovery|stretch|yoga|mobility/i, met: 2.5 },
+  { pattern: /strength|body|push|pull|legs|chest|back|shoulders/i, met: 5.0 }
+];
+const DEFAULT_WORKOUT_MET = 5.0;
+
+const STEPS_PER_WALKING_MINUTE = 100; // For days recorded before activity tracking
+const MINUTES_PER_UNTIMED_EXERCISE = 3; // Three sets with rest for rep-based exercises
+
+export interface BodyProfile {
+  weight: number; // kg
+  height: number; // cm
+  age: number;
+  gender?: string;
+}
+
+// Calories for one day
+export interface DailyEnergyExpenditure {
+  date: string;
+  restingCalories: number;  // BMR, pro-rated for today
+  activityCalories: number; // Steps and classified activity above rest
+  workoutCalories: number;  // Completed program workouts above rest
+  activeCalories: number;   // activityCalories + workoutCalories
+  totalCalories: number;    // Everything burned
+}
+
+/**
+ * Read the body measurements collected by UserBioForm
+ * @param userId - User to read
+ * @returns Promise resolving to the profile, with defaults for missing values
+ */
+export const getBodyProfile = async (userId: string): Promise<BodyProfile> => {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    const data = userDoc.exists() ? userDoc.data() : {};
+
+    return {
+      weight: data.weight > 0 ? data.weight : DEFAULT_WEIGHT_KG,
+      height: data.height > 0 ? data.height : DEFAULT_HEIGHT_CM,
+      age: data.age > 0 ? data.age : DEFAULT_AGE,
+      gender: data.gender || undefined
+    };
+  } catch (error) {
+    console.error('Error reading body profile:', error);
+    return { weight: DEFAULT_WEIGHT_KG, height: DEFAULT_HEIGHT_CM, age: DEFAULT_AGE };
+  }
+};
+
+/**
+ * Basal metabolic rate using the Mifflin-St Jeor equation
+ * @param profile - Body measurements
+ * @returns Calories per day
+ */
+export const calculateBMR = (profile: BodyProfile): number => {
+  const base = 10 * profile.weight + 6.25 * profile.height - 5 * profile.age;
+
+  if (profile.gender === 'male') return base + 5;
+  if (profile.gender === 'female') return base - 161;
+  return base - 78; // Midpoint when gender is not given
+};
+
+/**
+ * Calories burned above rest for a period of activity
+ * @param met - MET value of the activity
+ * @param weightKg - Body weight
+ * @param minutes - Duration
+ */
+export const calculateMETCalories = (met: number, weightKg: number, minutes: number): number =>
+  Math.max(0, met - 1) * weightKg * (minutes / 60);
+
+/**
+ * Calories burned above rest by a day's steps
+ * @param total - Daily step total
+ * @param weightKg - Body weight
+ */
+export const calculateActivityCalories = (total: DailyStepTotal, weightKg: number): number => {
+  if (total.activitySeconds) {
+    return ACTIVITY_TYPES.reduce((sum, activity) =>
+      sum + calculateMETCalories(ACTIVITY_METS[activity], weightKg, (total.activitySeconds?.[activity] || 0) / 60), 0);
+  }
+
+  // No activity breakdown, so treat the steps as walking
+  return calculateMETCalories(ACTIVITY_METS.walking, weightKg, total.steps / STEPS_PER_WALKING_MINUTE);
+};
+
+/**
+ * MET value for a program workout type
+ * @param workoutType - e.g. "HIIT", "Upper Body", "Tempo Run"
+ */
+export const getWorkoutMET = (workoutType: string): number =>
+  WORKOUT_METS.find(({ pattern }) => pattern.test(workoutType))?.met ?? DEFAULT_WORKOUT_MET;
+
+/**
+ * Estimate how long an exercise takes from its duration text
+ * ("30 seconds", "20-30 minutes", "45 seconds each side")
+ */
+const estimateExerciseMinutes = (exercise: Exercise): number => {
+  const duration = exercise.duration || '';
+  const match = duration.match(/(\d+)(?:\s*-\s*(\d+))?\s*(second|minute)/i);
+  if (!match) return MINUTES_PER_UNTIMED_EXERCISE;
+
+  const low = Number(match[1]);
+  const high = match[2] ? Number(match[2]) : low;
+  const amount = (low + high) / 2;
+  const minutes = /second/i.test(match[3]) ? amount / 60 : amount;
+
+  return /each side|each leg/i.test(duration) ? minutes * 2 : minutes;
+};
+
+/**
+ * Estimate the length of a program workout
+ * @param day - Program day
+ * @returns Minutes
+ */
+export const estimateWorkoutMinutes = (day: ProgramDay): number => {
+  if (day.isRestDay) return 0;
+  return day.exercises.reduce((sum, exercise) => sum + estimateExerciseMinutes(exercise), 0);
+};
+
+/**
+ * Calories burned above rest by a program workout
+ * @param day - Program day
+ * @param weightKg - Body weight
+ */
+export const calculateWorkoutCalories = (day: ProgramDay, weightKg: number): number =>
+  calculateMETCalories(getWorkoutMET(day.workoutType), weightKg, estimateWorkoutMinutes(day));
+
+/**
+ * Share of the day that has passed, so today's resting calories are not
+ * counted ahead of time
+ */
+export const elapsedDayFraction = (date: string): number => {
+  if (date !== getCurrentDate()) return 1;
+
+  const start = zonedTimeToDate(date).getTime();
+  const end = zonedTimeToDate(addDays(date, 1)).getTime();
+  return Math.min(1, Math.max(0, (Date.now() - start) / (end - start)));
+};
+
+/**
+ * Calories burned on each day of a date range
+ * @param userId - User to calculate for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to one entry per day, oldest first
+ */
+export const getDailyEnergyExpenditure = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyEnergyExpenditure[]> => {
+  try {
+    const [profile, stepTotals, workouts] = await Promise.all([
+      getBodyProfile(userId),
+      getDailyStepTotals(userId, startDate, endDate),
+      WorkoutProgramService.getCompletedWorkouts(startDate, endDate, userId).catch(error => {
+        console.error('Error loading completed workouts:', error);
+        return [];
+      })
+    ]);
+
+    const bmr = calculateBMR(profile);
+    const result: DailyEnergyExpenditure[] = [];
+
+    for (let i = 0; i <= daysBetween(startDate, endDate); i++) {
+      const date = addDays(startDate, i);
+      const total = stepTotals.find(t => t.date === date);
+
+      const restingCalories = Math.round(bmr * elapsedDayFraction(date));
+      const activityCalories = Math.round(total ? calculateActivityCalories(total, profile.weight) : 0);
+      const workoutCalories = Math.round(workouts
+        .filter(workout => workout.date === date)
+        .reduce((sum, workout) => sum + calculateWorkoutCalories(workout.day, profile.weight), 0));
+
+      result.push({
+        date,
+        restingCalories,
+        activityCalories,
+        workoutCalories,
+        activeCalories: activityCalories + workoutCalories,
+        totalCalories: restingCalories + activityCalories + workoutCalories
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error calculating energy expenditure:', error);
+    return [];
+  }
+};
+
+/**
+ * Calories burned through activity and workouts (excluding BMR) in a date range
+ * @param userId - User to calculate for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the calories
+ */
+export const getActiveCaloriesBurned = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const days = await getDailyEnergyExpenditure(userId, startDate, endDate);
+  return days.reduce((sum, day) => sum + day.activeCalories, 0);
+};
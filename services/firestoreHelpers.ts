@@ -2,6 +2,7 @@ import {
     doc, 
     setDoc, 
     updateDoc, 
+    getDoc,
     increment,
     collection,
     serverTimestamp,
@@ -11,6 +12,14 @@ import {
     DocumentData
 } from 'firebase/firestore';
 import { db } from '../app/firebaseConfig';
+import {
+    getDeviceTimeZone,
+    setActiveTimeZone,
+    setWeekStartPreference,
+    WeekStartDay
+} from '../utils/dateUtils';
+import { StepCalibration } from './stepCalibrationService';
+import { applyIntakeToSummary, IntakeChange } from './dailySummaryService';
 
 export interface UserProfile {
     userId: string;
@@ -24,6 +33,14 @@ export interface UserProfile {
     gender?: string;
     fitnessGoal?: string;
     
+    // IANA time zone used to decide which day activity belongs to
+    timeZone?: string;
+    // Day weekly goals, analytics and programs start on
+    weekStart?: WeekStartDay;
+    
+    // Step detector calibrations keyed by device id
+    stepCalibrations?: { [deviceId: string]: StepCalibration };
+    
     // Fitness metrics
     totalSteps: number;
     totalCalories: number;
@@ -53,6 +70,28 @@ export const updateUserProfile = async (
     }
 };
 
+// Apply the user's calendar preferences and keep the profile's time zone in
+// line with the device so day boundaries follow the user when they travel
+export const syncUserDatePreferences = async (userId: string): Promise<string> => {
+    const deviceTimeZone = getDeviceTimeZone();
+    setActiveTimeZone(deviceTimeZone);
+
+    try {
+        const userDoc = await getDoc(doc(db, 'users', userId));
+        const storedTimeZone = userDoc.exists() ? userDoc.data().timeZone : undefined;
+        setWeekStartPreference(userDoc.exists() ? userDoc.data().weekStart : undefined);
+
+        if (storedTimeZone !== deviceTimeZone) {
+            console.log(`Time zone changed from ${storedTimeZone || 'unset'} to ${deviceTimeZone}`);
+            await updateUserProfile(userId, { timeZone: deviceTimeZone });
+        }
+    } catch (error) {
+        console.error('Error syncing user date preferences:', error);
+    }
+
+    return deviceTimeZone;
+};
+
 // Update user's fitness metrics
 export const updateUserMetrics = async (
     userId: string,
@@ -90,6 +129,8 @@ export const addCalorieIntake = async (intakeData: any) => {
             updatedAt: serverTimestamp()
         });
 
+        await applyIntakeToSummary(intakeData.userId, intakeData.date, intakeData);
+
         return docRef;
     } catch (error) {
         console.error('Error adding calorie intake:', error);
@@ -100,7 +141,14 @@ export const addCalorieIntake = async (intakeData: any) => {
 // Remove calorie intake
 export const removeCalorieIntake = async (userId: string, documentId: string, calories: number) => {
     try {
-        await deleteDoc(doc(db, 'calorieIntake', documentId));
+        // The day's summary needs the date and macros of the entry
+        const intakeRef = doc(db, 'calorieIntake', documentId);
+        const intakeDoc = await getDoc(intakeRef);
+        await deleteDoc(intakeRef);
+
+        if (intakeDoc.exists()) {
+            await applyIntakeToSummary(userId, intakeDoc.data().date, intakeDoc.data() as IntakeChange, -1);
+        }
         
         // Subtract calories from user's total
         await updateDoc(doc(db, 'users', userId), {
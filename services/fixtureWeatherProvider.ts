@@ -0,0 +1,135 @@
+// Fixture weather provider
+//
+// Replays recorded weather for tests and offline development, without
+// location or network. A fixture's hours are replayed from the current hour
+// on, so the forecast always lies ahead, and sunrise and sunset fall on
+// today. Pick a fixture with `weatherFixture` in app.json, or pass one in.
+
+import { HourlyForecast, WeatherContext } from '../models/FitnessGoalModels';
+import { HOUR_MS, WeatherProvider, startOfHour } from './weatherProvider';
+import { calculateFeelsLike, isOutdoorFriendly } from './outdoorSafety';
+import { getCurrentDate, getHourOfDay, zonedTimeToDate } from '../utils/dateUtils';
+
+// Fields worked out on replay are left out
+type DerivedFields = 'isOutdoorFriendly' | 'feelsLike' | 'sunrise' | 'sunset' | 'isDaylight';
+
+export interface WeatherFixture {
+  current: Omit<WeatherContext, DerivedFields>;
+  // Recorded hours, repeated when more are asked for
+  hourly: Omit<HourlyForecast, 'time' | DerivedFields>[];
+  daylight: [number, number]; // Local hours of sunrise and sunset
+}
+
+export const DEFAULT_WEATHER_FIXTURE = 'clear';
+
+/**
+ * A recorded day: one temperature per hour, with the other fields shared or
+ * set per hour
+ */
+const recordedDay = (
+  temperatures: number[],
+  weather: Omit<WeatherFixture['hourly'][number], 'temperature'>,
+  changes: { [hour: number]: Partial<WeatherFixture['hourly'][number]> } = {}
+): WeatherFixture['hourly'] => {
+  return temperatures.map((temperature, hour) => ({ ...weather, temperature, ...changes[hour] }));
+};
+
+const rainyHour = { condition: 'rainy', precipitationProbability: 0.9, precipitation: 1.5 };
+
+// null replays a provider with no data, to exercise unknown weather
+export const WEATHER_FIXTURES: { [name: string]: WeatherFixture | null } = {
+  clear: {
+    current: { condition: 'sunny', temperature: 18, humidity: 50, windSpeed: 3, uvIndex: 5, airQualityIndex: 32 },
+    hourly: recordedDay(
+      [18, 19, 21, 22, 23, 23, 22, 21, 19, 17, 16, 15, 14, 13, 13, 12, 12, 11, 11, 10, 10, 11, 13, 15],
+      { condition: 'sunny', humidity: 50, windSpeed: 3, precipitationProbability: 0, precipitation: 0 }
+    ),
+    daylight: [6, 19]
+  },
+  'rain-clearing': {
+    current: { condition: 'rainy', temperature: 14, humidity: 90, windSpeed: 6, uvIndex: 1, airQualityIndex: 18 },
+    hourly: recordedDay(
+      [14, 14, 14, 15, 15, 16, 17, 17, 16, 15, 14, 13, 12, 12, 11, 11, 10, 10, 10, 10, 11, 12, 13, 14],
+      { condition: 'cloudy', humidity: 70, windSpeed: 4, precipitationProbability: 0.1, precipitation: 0 },
+      { 0: rainyHour, 1: rainyHour, 2: rainyHour, 3: { ...rainyHour, precipitationProbability: 0.6, precipitation: 0.4 } }
+    ),
+    daylight: [6, 19]
+  },
+  // Hot, humid and smoggy
+  hot: {
+    current: { condition: 'sunny', temperature: 34, humidity: 55, windSpeed: 2, uvIndex: 10, airQualityIndex: 165 },
+    hourly: recordedDay(
+      [34, 36, 37, 38, 37, 35, 32, 30, 28, 27, 26, 26, 25, 25, 24, 24, 25, 26, 28, 30, 31, 32, 33, 34],
+      { condition: 'sunny', humidity: 55, windSpeed: 2, precipitationProbability: 0, precipitation: 0 }
+    ),
+    daylight: [5, 20]
+  },
+  windy: {
+    current: { condition: 'cloudy', temperature: 12, humidity: 65, windSpeed: 14, uvIndex: 2, airQualityIndex: 12 },
+    hourly: recordedDay(
+      [12, 12, 13, 13, 12, 12, 11, 11, 10, 10, 9, 9, 9, 8, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12],
+      { condition: 'cloudy', humidity: 65, windSpeed: 14, precipitationProbability: 0.2, precipitation: 0 }
+    ),
+    daylight: [7, 17]
+  },
+  unavailable: null
+};
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  name = 'Fixture';
+  requiresLocation = false;
+  private fixture: WeatherFixture | null;
+
+  /**
+   * @param fixture - Name of a recorded fixture, or the fixture itself
+   */
+  constructor(fixture: string | WeatherFixture | null = DEFAULT_WEATHER_FIXTURE) {
+    if (typeof fixture === 'string') {
+      if (!(fixture in WEATHER_FIXTURES)) {
+        throw new Error(`Unknown weather fixture: ${fixture}`);
+      }
+      this.fixture = WEATHER_FIXTURES[fixture];
+    } else {
+      this.fixture = fixture;
+    }
+  }
+
+  async getCurrentWeather(): Promise<WeatherContext> {
+    if (!this.fixture) {
+      throw new Error('Weather fixture has no data');
+    }
+
+    const { current, daylight } = this.fixture;
+    const today = getCurrentDate();
+    const weather: Omit<WeatherContext, 'isOutdoorFriendly'> = {
+      ...current,
+      feelsLike: calculateFeelsLike(current.temperature, current.humidity, current.windSpeed),
+      sunrise: zonedTimeToDate(today, daylight[0]).toISOString(),
+      sunset: zonedTimeToDate(today, daylight[1]).toISOString()
+    };
+
+    return { ...weather, isOutdoorFriendly: isOutdoorFriendly(weather) };
+  }
+
+  async getHourlyForecast(latitude: number, longitude: number, hours: number): Promise<HourlyForecast[]> {
+    if (!this.fixture || !this.fixture.hourly.length) {
+      throw new Error('Weather fixture has no data');
+    }
+
+    const { hourly: recorded, daylight } = this.fixture;
+    const firstHour = startOfHour();
+
+    return Array.from({ length: hours }, (_, hour) => {
+      const recordedHour = recorded[hour % recorded.length];
+      const time = new Date(firstHour + hour * HOUR_MS);
+      const hourOfDay = getHourOfDay(time);
+      const weather: Omit<HourlyForecast, 'isOutdoorFriendly'> = {
+        ...recordedHour,
+        time: time.toISOString(),
+        feelsLike: calculateFeelsLike(recordedHour.temperature, recordedHour.humidity, recordedHour.windSpeed),
+        isDaylight: hourOfDay >= daylight[0] && hourOfDay < daylight[1]
+      };
+      return { ...weather, isOutdoorFriendly: isOutdoorFriendly(weather, time) };
+    });
+  }
+}
@@ -0,0 +1,99 @@
+// Gait analysis
+//
+// Turns the timestamps of detected steps into cadence, step length, distance
+// and pace. Step length scales with the user's height and grows with cadence,
+// which is what separates a stroll from a run covering the same step count.
+
+export const DEFAULT_STEP_LENGTH_METERS = 0.762; // Used when the user's height is unknown
+
+const HEIGHT_TO_STEP_LENGTH = 0.414;  // Walking step length is ~41% of height
+const REFERENCE_CADENCE = 110;        // Typical walking cadence, steps per minute
+const MIN_CADENCE_FACTOR = 0.8;       // Slow shuffles
+const MAX_CADENCE_FACTOR = 1.6;       // Running strides
+const MAX_STEP_GAP_MS = 2000;         // Longer gaps between steps are pauses
+
+export interface GaitMetrics {
+  cadence: number;        // Steps per minute while moving, 0 if unknown
+  stepLength: number;     // Meters
+  distanceMeters: number;
+  movingSeconds: number;  // Time spent stepping, excluding pauses
+  pace: number | null;    // Minutes per kilometer, null if it could not be measured
+}
+
+/**
+ * Estimate step length from height and cadence
+ * @param heightCm - User's height, if known
+ * @param cadence - Steps per minute, if known
+ * @returns Step length in meters
+ */
+export const estimateStepLength = (heightCm?: number, cadence?: number): number => {
+  if (!heightCm || heightCm <= 0) return DEFAULT_STEP_LENGTH_METERS;
+
+  const baseLength = (heightCm / 100) * HEIGHT_TO_STEP_LENGTH;
+  if (!cadence) return baseLength;
+
+  const factor = Math.min(MAX_CADENCE_FACTOR, Math.max(MIN_CADENCE_FACTOR, cadence / REFERENCE_CADENCE));
+  return baseLength * factor;
+};
+
+/**
+ * Work out cadence from step timestamps, ignoring pauses between bursts of walking
+ * @param stepTimestamps - Time of each detected step in ms, in order
+ * @returns Steps per minute and the time spent moving
+ */
+export const calculateCadence = (stepTimestamps: number[]): { cadence: number; movingSeconds: number } => {
+  let movingMs = 0;
+  let movingIntervals = 0;
+
+  for (let i = 1; i < stepTimestamps.length; i++) {
+    const gap = stepTimestamps[i] - stepTimestamps[i - 1];
+    if (gap > 0 && gap <= MAX_STEP_GAP_MS) {
+      movingMs += gap;
+      movingIntervals++;
+    }
+  }
+
+  if (movingIntervals === 0) {
+    return { cadence: 0, movingSeconds: 0 };
+  }
+
+  return {
+    cadence: Math.round((movingIntervals / movingMs) * 60000),
+    movingSeconds: Math.round(movingMs / 1000)
+  };
+};
+
+/**
+ * Compute cadence, step length, distance and pace for a session
+ * @param steps - Steps recorded in the session
+ * @param stepTimestamps - Time of each detected step in ms
+ * @param heightCm - User's height, if known
+ */
+export const computeGaitMetrics = (steps: number, stepTimestamps: number[] = [], heightCm?: number): GaitMetrics => {
+  const { cadence, movingSeconds } = calculateCadence(stepTimestamps);
+  const stepLength = estimateStepLength(heightCm, cadence);
+  const distanceMeters = steps * stepLength;
+
+  return {
+    cadence,
+    stepLength: Number(stepLength.toFixed(3)),
+    distanceMeters: Math.round(distanceMeters),
+    movingSeconds,
+    pace: movingSeconds > 0 && distanceMeters > 0
+      ? Number(((movingSeconds / 60) / (distanceMeters / 1000)).toFixed(2))
+      : null
+  };
+};
+
+/**
+ * Format a pace in minutes per kilometer as m:ss
+ */
+export const formatPace = (pace: number | null): string => {
+  if (pace === null || !isFinite(pace)) return '--:--';
+
+  const minutes = Math.floor(pace);
+  const seconds = Math.round((pace - minutes) * 60);
+  return seconds === 60
+    ? `${minutes + 1}:00`
+    : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,332 @@
+// Goal forecasting
+//
+// Projects where an open weekly or monthly goal will end up. The user's
+// typical value for each day of the week comes from the BASELINE_WEEKS before
+// the period (step, distance and active minute goals read `stepHistory`).
+// That pattern is scaled by how the period has gone so far, and the remaining
+// days are added to the current value. The spread of past days on the same
+// weekday gives the confidence range.
+
+import { db } from '../app/firebaseConfig';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { FitnessGoal, GoalDirection, GoalTimeFrame, GoalType } from '../models/FitnessGoalModels';
+import { getActiveMinutes, getDailyStepTotals, getDistanceKm } from './stepLedgerService';
+import { elapsedDayFraction, getDailyEnergyExpenditure } from './energyExpenditureService';
+import { getGoalDirection, getGoalPeriodEnd } from './GoalsTrackingService';
+import { addDays, daysBetween, getCurrentDate, getDayOfWeek } from '../utils/dateUtils';
+
+const BASELINE_WEEKS = 8;
+const MIN_BASELINE_DAYS = 7;  // Fewer days than this and only the period so far is used
+const PRIOR_DAYS = 3;         // How many days of the period it takes to move the pattern halfway
+const PACE_MARGIN = 0.1;      // Projected this far past the target counts as ahead
+const RANGE_Z = 1.28;         // 80% confidence range
+
+const FORECAST_TYPES = [
+  GoalType.STEP_COUNT,
+  GoalType.DISTANCE,
+  GoalType.ACTIVE_MINUTES,
+  GoalType.CALORIES_BURNED,
+  GoalType.CALORIE_INTAKE
+];
+
+export type PaceStatus = 'achieved' | 'ahead' | 'on_pace' | 'behind';
+
+export const PACE_COLORS: { [status in PaceStatus]: string } = {
+  achieved: '#4CAF50',
+  ahead: '#4CAF50',
+  on_pace: '#2196F3',
+  behind: '#FF9800'
+};
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+export interface ForecastInput {
+  current: number;
+  target: number;
+  direction: GoalDirection;
+  today: string;
+  periodEnd: string;
+  todayElapsed: number;     // Share of today that has passed
+  baseline: DailyValue[];   // Days before the period
+  period: DailyValue[];     // Days of the period before today
+}
+
+export interface GoalForecast {
+  projected: number;
+  low: number;              // Confidence range for the final value
+  high: number;
+  status: PaceStatus;
+  daysLeft: number;         // Including today
+  neededPerDay: number | null; // Still needed per day (or allowed per day, for limits)
+  basedOnPattern: boolean;  // Whether the weekday pattern was used, or only this period
+}
+
+interface DayStats {
+  mean: number;
+  variance: number;
+}
+
+const mean = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const variance = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+/**
+ * Mean and variance for each day of the week, falling back to all days for
+ * weekdays with too few samples
+ */
+const getWeekdayStats = (baseline: DailyValue[]): DayStats[] => {
+  const overall = baseline.map(day => day.value);
+  const fallback = { mean: mean(overall), variance: variance(overall) };
+
+  return Array.from({ length: 7 }, (_, dayOfWeek) => {
+    const values = baseline.filter(day => getDayOfWeek(day.date) === dayOfWeek).map(day => day.value);
+    return values.length >= 2 ? { mean: mean(values), variance: variance(values) } : fallback;
+  });
+};
+
+/**
+ * Project the end-of-period value of a goal
+ * @param input - Progress so far and daily history
+ * @returns Forecast, or null if there is nothing to go on yet
+ */
+export const forecastGoalProgress = (input: ForecastInput): GoalForecast | null => {
+  const { current, target, direction, today, periodEnd, todayElapsed } = input;
+  const basedOnPattern = input.baseline.length >= MIN_BASELINE_DAYS;
+
+  let dayStats: DayStats[];
+  let scale = 1;
+
+  if (basedOnPattern) {
+    dayStats = getWeekdayStats(input.baseline);
+
+    // Lean towards this period's pace as more of it is known
+    const expectedSoFar = input.period.reduce((sum, day) => sum + dayStats[getDayOfWeek(day.date)].mean, 0);
+    if (input.period.length > 0 && expectedSoFar > 0) {
+      const ratio = input.period.reduce((sum, day) => sum + day.value, 0) / expectedSoFar;
+      scale = (input.period.length * ratio + PRIOR_DAYS) / (input.period.length + PRIOR_DAYS);
+    }
+  } else {
+    // Only the period so far, with a wide range while it is short
+    const values = input.period.map(day => day.value);
+    const elapsedDays = values.length + todayElapsed;
+    if (elapsedDays < 0.5) return null;
+
+    const average = values.length ? mean(values) : current / elapsedDays;
+    const spread = values.length >= 3 ? variance(values) : (average * 0.5) ** 2;
+    dayStats = Array.from({ length: 7 }, () => ({ mean: average, variance: spread }));
+  }
+
+  // The rest of today, then each remaining day
+  const todayStats = dayStats[getDayOfWeek(today)];
+  const remainingToday = 1 - todayElapsed;
+  let projected = current + todayStats.mean * scale * remainingToday;
+  let projectedVariance = todayStats.variance * scale ** 2 * remainingToday;
+
+  for (let date = addDays(today, 1); date <= periodEnd; date = addDays(date, 1)) {
+    const stats = dayStats[getDayOfWeek(date)];
+    projected += stats.mean * scale;
+    projectedVariance += stats.variance * scale ** 2;
+  }
+
+  const spread = RANGE_Z * Math.sqrt(projectedVariance);
+  const daysLeft = daysBetween(today, periodEnd) + 1;
+  const remaining = target - current;
+
+  let status: PaceStatus;
+  let neededPerDay: number | null;
+
+  if (direction === 'at_most') {
+    status = current > target ? 'behind'
+      : projected <= target * (1 - PACE_MARGIN) ? 'ahead'
+      : projected <= target ? 'on_pace'
+      : 'behind';
+    neededPerDay = Math.max(0, remaining / daysLeft);
+  } else {
+    status = current >= target ? 'achieved'
+      : projected >= target * (1 + PACE_MARGIN) ? 'ahead'
+      : projected >= target ? 'on_pace'
+      : 'behind';
+    neededPerDay = status === 'achieved' ? null : remaining / daysLeft;
+  }
+
+  return {
+    projected,
+    low: Math.max(current, projected - spread),
+    high: projected + spread,
+    status,
+    daysLeft,
+    neededPerDay,
+    basedOnPattern
+  };
+};
+
+/**
+ * Daily values of the metric a goal measures. Activity metrics count days
+ * without steps as zero from the first recorded day; calorie intake only
+ * counts days with something logged.
+ */
+const getDailyValues = async (
+  userId: string,
+  type: GoalType,
+  startDate: string,
+  endDate: string
+): Promise<DailyValue[]> => {
+  if (type === GoalType.CALORIE_INTAKE) {
+    const querySnapshot = await getDocs(query(
+      collection(db, 'calorieIntake'),
+      where('userId', '==', userId),
+      where('date', '>=', startDate),
+      where('date', '<=', endDate)
+    ));
+
+    const totals: { [date: string]: number } = {};
+    querySnapshot.forEach(snapshot => {
+      const data = snapshot.data();
+      totals[data.date] = (totals[data.date] || 0) + (data.calories || 0);
+    });
+    return Object.keys(totals).sort().map(date => ({ date, value: totals[date] }));
+  }
+
+  const values: { [date: string]: number } = {};
+  if (type === GoalType.CALORIES_BURNED) {
+    const stepTotals = await getDailyStepTotals(userId, startDate, endDate);
+    const firstDay = stepTotals[0]?.date;
+    if (!firstDay) return [];
+
+    const days = await getDailyEnergyExpenditure(userId, firstDay, endDate);
+    days.forEach(day => {
+      values[day.date] = day.activeCalories;
+    });
+  } else {
+    const stepTotals = await getDailyStepTotals(userId, startDate, endDate);
+    stepTotals.forEach(total => {
+      values[total.date] = type === GoalType.DISTANCE ? getDistanceKm(total)
+        : type === GoalType.ACTIVE_MINUTES ? getActiveMinutes(total)
+        : total.steps;
+    });
+  }
+
+  const firstDay = Object.keys(values).sort()[0];
+  if (!firstDay) return [];
+
+  const series: DailyValue[] = [];
+  for (let date = firstDay; date <= endDate; date = addDays(date, 1)) {
+    series.push({ date, value: values[date] || 0 });
+  }
+  return series;
+};
+
+/**
+ * Whether a goal gets a forecast: open weekly and monthly goals of a type
+ * measured day by day
+ */
+export const canForecastGoal = (goal: FitnessGoal): boolean => {
+  const today = getCurrentDate();
+  return (goal.timeFrame === GoalTimeFrame.WEEKLY || goal.timeFrame === GoalTimeFrame.MONTHLY) &&
+    FORECAST_TYPES.includes(goal.type) &&
+    !goal.closedAt &&
+    goal.startDate <= today &&
+    getGoalPeriodEnd(goal) >= today;
+};
+
+/**
+ * Forecast the end-of-period value of a goal from the user's history
+ * @param goal - Open weekly or monthly goal
+ * @returns Promise resolving to the forecast, or null if the goal has none
+ */
+export const forecastGoal = async (goal: FitnessGoal): Promise<GoalForecast | null> => {
+  if (!canForecastGoal(goal)) return null;
+
+  try {
+    const today = getCurrentDate();
+    const baselineStart = addDays(goal.startDate, -BASELINE_WEEKS * 7);
+    const values = await getDailyValues(goal.userId, goal.type, baselineStart, addDays(today, -1));
+
+    return forecastGoalProgress({
+      current: goal.current,
+      target: goal.target,
+      direction: getGoalDirection(goal),
+      today,
+      periodEnd: getGoalPeriodEnd(goal),
+      todayElapsed: elapsedDayFraction(today),
+      baseline: values.filter(day => day.date < goal.startDate),
+      period: values.filter(day => day.date >= goal.startDate)
+    });
+  } catch (error) {
+    console.error('Error forecasting goal:', error);
+    return null;
+  }
+};
+
+/**
+ * Forecast several goals, keyed by goal id. Goals without a forecast are left out.
+ */
+export const forecastGoals = async (goals: FitnessGoal[]): Promise<{ [goalId: string]: GoalForecast }> => {
+  const forecasts: { [goalId: string]: GoalForecast } = {};
+
+  for (const goal of goals.filter(canForecastGoal)) {
+    const forecast = await forecastGoal(goal);
+    if (forecast) forecasts[goal.id] = forecast;
+  }
+
+  return forecasts;
+};
+
+const FORECAST_UNITS: { [type: string]: string } = {
+  [GoalType.STEP_COUNT]: 'steps',
+  [GoalType.DISTANCE]: 'km',
+  [GoalType.ACTIVE_MINUTES]: 'min',
+  [GoalType.CALORIES_BURNED]: 'kcal',
+  [GoalType.CALORIE_INTAKE]: 'kcal'
+};
+
+/**
+ * Format a forecast value in the goal's unit
+ */
+export const formatForecastValue = (goal: FitnessGoal, value: number): string => {
+  const rounded = goal.type === GoalType.DISTANCE ? value.toFixed(1) : Math.round(value).toLocaleString();
+  return `${rounded} ${FORECAST_UNITS[goal.type] || goal.unit || ''}`.trim();
+};
+
+/**
+ * One-line pace summary, e.g. "Behind pace, need 8,500 steps per day"
+ * @param goal - Goal the forecast is for
+ * @param forecast - Goal forecast
+ */
+export const describeForecast = (goal: FitnessGoal, forecast: GoalForecast): string => {
+  const format = (value: number) => formatForecastValue(goal, value);
+  const perDay = forecast.neededPerDay !== null ? format(forecast.neededPerDay) : '';
+  const isLastDay = forecast.daysLeft === 1;
+
+  if (getGoalDirection(goal) === 'at_most') {
+    switch (forecast.status) {
+      case 'ahead':
+        return `Ahead, on track for about ${format(forecast.projected)}`;
+      case 'on_pace':
+        return `On pace, keep to ${perDay} ${isLastDay ? 'today' : 'per day'}`;
+      default:
+        return forecast.neededPerDay === 0
+          ? 'Over the limit for this period'
+          : `Over pace, keep to ${perDay} ${isLastDay ? 'today' : 'per day'} to stay under`;
+    }
+  }
+
+  switch (forecast.status) {
+    case 'achieved':
+      return 'Target reached';
+    case 'ahead':
+      return `Ahead of pace, on track for about ${format(forecast.projected)}`;
+    case 'on_pace':
+      return `On pace, about ${perDay} ${isLastDay ? 'today' : 'per day'} gets you there`;
+    default:
+      return `Behind pace, need ${perDay} ${isLastDay ? 'today' : 'per day'}`;
+  }
+};
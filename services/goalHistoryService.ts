@@ -0,0 +1,166 @@
+// Goal history
+//
+// Every goal leaves one record in `goalHistory` (keyed by goal id) with its
+// target, final value, status and streak. Goals are archived when the
+// lifecycle closes them at the end of their period, and when regenerated
+// goals replace them part way through one, so outcomes outlive the goals.
+
+import { db } from '../app/firebaseConfig';
+import { collection, doc, getDocs, limit, orderBy, query, setDoc, where } from 'firebase/firestore';
+import { FitnessGoal, GoalHistoryEntry, GoalStatus, GoalTimeFrame, GoalType } from '../models/FitnessGoalModels';
+import { getGoalDirection, getGoalPeriodEnd } from './GoalsTrackingService';
+
+export interface GoalHistorySummary {
+  periods: number;            // Periods that ran to the end
+  completed: number;
+  successRate: number | null;
+  currentStreak: number;      // Completed periods in a row, up to the latest
+  bestStreak: number;
+  averageResult: number | null; // Final value as a share of the target
+}
+
+// Targets and results for one calendar month
+export interface MonthlyTargetPoint {
+  month: string; // YYYY-MM
+  averageTarget: number;
+  periods: number;
+  completed: number;
+}
+
+/**
+ * History record for a goal
+ * @param goal - Closed or replaced goal
+ */
+export const buildGoalHistoryEntry = (goal: FitnessGoal): GoalHistoryEntry => {
+  const entry: GoalHistoryEntry = {
+    goalId: goal.id,
+    userId: goal.userId,
+    type: goal.type,
+    timeFrame: goal.timeFrame,
+    description: goal.description,
+    direction: getGoalDirection(goal),
+    target: goal.target,
+    final: goal.current,
+    status: goal.status,
+    streak: goal.streak || 0,
+    startDate: goal.startDate,
+    endDate: getGoalPeriodEnd(goal),
+    closedAt: goal.closedAt || new Date().toISOString()
+  };
+
+  // Firestore rejects undefined fields
+  if (goal.title) entry.title = goal.title;
+  if (goal.metric) entry.metric = goal.metric;
+  if (goal.unit) entry.unit = goal.unit;
+  if (goal.startValue !== undefined) entry.startValue = goal.startValue;
+  if (goal.replacedBy) entry.replacedBy = goal.replacedBy;
+
+  return entry;
+};
+
+/**
+ * Keep the outcome of a goal in the `goalHistory` collection
+ * @param goal - Closed or replaced goal
+ */
+export const archiveGoalOutcome = async (goal: FitnessGoal): Promise<GoalHistoryEntry> => {
+  const entry = buildGoalHistoryEntry(goal);
+  await setDoc(doc(db, 'goalHistory', goal.id), entry);
+  return entry;
+};
+
+/**
+ * Get past outcomes of one type of goal, newest first
+ * @param userId - Goal owner
+ * @param type - Goal type
+ * @param timeFrame - Goal time frame
+ * @param limitCount - Maximum number of periods
+ */
+export const getGoalHistory = async (
+  userId: string,
+  type: GoalType,
+  timeFrame: GoalTimeFrame,
+  limitCount: number = 60
+): Promise<GoalHistoryEntry[]> => {
+  try {
+    const historyQuery = query(
+      collection(db, 'goalHistory'),
+      where('userId', '==', userId),
+      where('type', '==', type),
+      where('timeFrame', '==', timeFrame),
+      orderBy('endDate', 'desc'),
+      limit(limitCount)
+    );
+
+    const querySnapshot = await getDocs(historyQuery);
+    const entries: GoalHistoryEntry[] = [];
+
+    querySnapshot.forEach(snapshot => {
+      entries.push(snapshot.data() as GoalHistoryEntry);
+    });
+
+    return entries;
+  } catch (error) {
+    console.error('Error getting goal history:', error);
+    return [];
+  }
+};
+
+/**
+ * Success rate and streaks over past periods. Goals replaced part way
+ * through a period are left out, since they did not run to the end.
+ * @param entries - History, newest first
+ */
+export const summarizeGoalHistory = (entries: GoalHistoryEntry[]): GoalHistorySummary => {
+  const finished = entries.filter(entry => !entry.replacedBy);
+  const completed = finished.filter(entry => entry.status === GoalStatus.COMPLETED).length;
+
+  let currentStreak = 0;
+  while (currentStreak < finished.length && finished[currentStreak].status === GoalStatus.COMPLETED) {
+    currentStreak++;
+  }
+
+  let bestStreak = 0;
+  let run = 0;
+  finished.forEach(entry => {
+    run = entry.status === GoalStatus.COMPLETED ? run + 1 : 0;
+    bestStreak = Math.max(bestStreak, run);
+  });
+
+  // A share of the target means little for weight goals, which aim at a level
+  const results = finished
+    .filter(entry => entry.type !== GoalType.WEIGHT && entry.target > 0)
+    .map(entry => entry.final / entry.target);
+
+  return {
+    periods: finished.length,
+    completed,
+    successRate: finished.length ? completed / finished.length : null,
+    currentStreak,
+    bestStreak,
+    averageResult: results.length ? results.reduce((sum, value) => sum + value, 0) / results.length : null
+  };
+};
+
+/**
+ * Average target and completions for each month, oldest first
+ * @param entries - History in any order
+ */
+export const getTargetEvolution = (entries: GoalHistoryEntry[]): MonthlyTargetPoint[] => {
+  const months: { [month: string]: { targets: number[]; completed: number } } = {};
+
+  entries
+    .filter(entry => !entry.replacedBy)
+    .forEach(entry => {
+      const month = entry.endDate.slice(0, 7);
+      months[month] = months[month] || { targets: [], completed: 0 };
+      months[month].targets.push(entry.target);
+      if (entry.status === GoalStatus.COMPLETED) months[month].completed++;
+    });
+
+  return Object.keys(months).sort().map(month => ({
+    month,
+    averageTarget: months[month].targets.reduce((sum, target) => sum + target, 0) / months[month].targets.length,
+    periods: months[month].targets.length,
+    completed: months[month].completed
+  }));
+};
@@ -0,0 +1,204 @@
+// Goal lifecycle
+//
+// Goals only change when the app syncs them, so nothing else notices when a
+// period ends. This scheduler runs when the user signs in, when the app comes
+// back to the foreground on a new day, and every few minutes while it stays
+// open. Each run closes goals whose period is over with their final status,
+// copies the result to `goalHistory`, settles the streaks for the days that
+// ended, and generates the next period's goals for each time frame that just
+// ended. Streaks carry into the new goals through GoalsGenerationService.
+// Achievements are evaluated on each run too, which also backfills progress
+// for achievements added since the user last opened the app.
+
+import { auth, db } from '../app/firebaseConfig';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc
+} from 'firebase/firestore';
+import { FitnessGoal, GoalTimeFrame } from '../models/FitnessGoalModels';
+import GoalsTrackingService, { getGoalPeriodEnd } from './GoalsTrackingService';
+import GoalsGenerationService from './GoalsGenerationService';
+import { archiveGoalOutcome } from './goalHistoryService';
+import { updateStreaks } from './streakService';
+import { evaluateAchievements } from './achievementEngine';
+import { updateInferredSleep } from './sleepService';
+import { getCurrentDate } from '../utils/dateUtils';
+
+const CHECK_INTERVAL_MINUTES = 15;
+const ROLLING_TIME_FRAMES = [GoalTimeFrame.DAILY, GoalTimeFrame.WEEKLY, GoalTimeFrame.MONTHLY];
+
+export interface GoalLifecycleResult {
+  closedGoals: FitnessGoal[];
+  newGoals: FitnessGoal[];
+}
+
+class GoalLifecycleService {
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private runPromise: Promise<GoalLifecycleResult> | null = null;
+  private lastRunDate: string | null = null;
+  private lastRunUserId: string | null = null;
+
+  /**
+   * Run now, then check again every few minutes until stopped
+   */
+  start(): Promise<GoalLifecycleResult> {
+    if (!this.checkTimer) {
+      this.checkTimer = setInterval(() => {
+        this.runIfDue().catch(error => console.warn('Goal lifecycle check failed:', error));
+      }, CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    return this.run();
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.lastRunDate = null;
+    this.lastRunUserId = null;
+  }
+
+  /**
+   * Run unless it has already run today for the signed-in user
+   * @returns The result, or null if nothing was due
+   */
+  async runIfDue(): Promise<GoalLifecycleResult | null> {
+    const user = auth.currentUser;
+    if (!user) return null;
+    if (this.lastRunDate === getCurrentDate() && this.lastRunUserId === user.uid) return null;
+
+    return this.run();
+  }
+
+  /**
+   * Close expired goals and roll over to the new period. Calls made while a
+   * run is in progress share it.
+   */
+  run(): Promise<GoalLifecycleResult> {
+    if (!this.runPromise) {
+      this.runPromise = this.runLifecycle().finally(() => {
+        this.runPromise = null;
+      });
+    }
+    return this.runPromise;
+  }
+
+  private async runLifecycle(): Promise<GoalLifecycleResult> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not logged in');
+    }
+
+    const today = getCurrentDate();
+    const userRef = doc(db, 'users', user.uid);
+    const userDoc = await getDoc(userRef);
+    const lastRunDate: string | undefined = userDoc.exists() ? userDoc.data().goalLifecycleRunDate : undefined;
+
+    const expiredGoals = await this.getExpiredGoals(user.uid, today, lastRunDate);
+    const closedGoals: FitnessGoal[] = [];
+    let failedCount = 0;
+
+    // Achievements are evaluated once below, after every goal is closed
+    for (const goal of expiredGoals) {
+      try {
+        const closedGoal = await GoalsTrackingService.closeGoal(goal, false);
+        closedGoals.push(closedGoal);
+        await archiveGoalOutcome(closedGoal);
+      } catch (error) {
+        failedCount++;
+        console.error(`Error closing goal ${goal.id}:`, error);
+      }
+    }
+
+    // Fill in last night from the phone's stillness if it was not logged
+    await updateInferredSleep(user.uid);
+
+    // New daily goals start on the streaks settled here
+    try {
+      await updateStreaks(user.uid);
+    } catch (error) {
+      console.error('Error updating streaks:', error);
+    }
+
+    const newGoals = await this.rollGoals(user.uid, closedGoals);
+
+    try {
+      await evaluateAchievements(user.uid);
+    } catch (error) {
+      console.error('Error evaluating achievements:', error);
+    }
+
+    // Goals that could not be closed are picked up again on the next run
+    if (failedCount === 0 && userDoc.exists()) {
+      await updateDoc(userRef, { goalLifecycleRunDate: today });
+    }
+
+    this.lastRunDate = today;
+    this.lastRunUserId = user.uid;
+
+    if (closedGoals.length > 0 || newGoals.length > 0) {
+      console.log(`Goal lifecycle closed ${closedGoals.length} goals and created ${newGoals.length}`);
+    }
+
+    return { closedGoals, newGoals };
+  }
+
+  /**
+   * Goals whose period ended before today and have not been closed. Goals
+   * ending before the last run were closed by it, so only later ones are read.
+   */
+  private async getExpiredGoals(userId: string, today: string, lastRunDate?: string): Promise<FitnessGoal[]> {
+    const constraints = [
+      where('userId', '==', userId),
+      where('endDate', '<=', today)
+    ];
+    if (lastRunDate) {
+      constraints.push(where('endDate', '>=', lastRunDate));
+    }
+
+    const querySnapshot = await getDocs(query(collection(db, 'fitnessGoals'), ...constraints));
+    const goals: FitnessGoal[] = [];
+
+    querySnapshot.forEach(snapshot => {
+      const goal = { id: snapshot.id, ...snapshot.data() } as FitnessGoal;
+      if (!goal.closedAt && getGoalPeriodEnd(goal) < today) {
+        goals.push(goal);
+      }
+    });
+
+    // Oldest first, so streaks build up in order
+    return goals.sort((a, b) => getGoalPeriodEnd(a).localeCompare(getGoalPeriodEnd(b)));
+  }
+
+  /**
+   * Generate goals for each time frame whose generated goals just closed,
+   * unless the user already has goals for the new period. Custom goals have
+   * their own dates and are not rolled over.
+   */
+  private async rollGoals(userId: string, closedGoals: FitnessGoal[]): Promise<FitnessGoal[]> {
+    const endedTimeFrames = ROLLING_TIME_FRAMES.filter(timeFrame =>
+      closedGoals.some(goal => !goal.isCustom && goal.timeFrame === timeFrame));
+    if (endedTimeFrames.length === 0) return [];
+
+    try {
+      const activeGoals = await GoalsTrackingService.getActiveGoals();
+      const timeFrames = endedTimeFrames.filter(timeFrame =>
+        !activeGoals.some(goal => !goal.isCustom && goal.timeFrame === timeFrame));
+      if (timeFrames.length === 0) return [];
+
+      return await GoalsGenerationService.generateGoalsForUser(userId, timeFrames);
+    } catch (error) {
+      console.error('Error rolling goals over to the new period:', error);
+      return [];
+    }
+  }
+}
+
+export default new GoalLifecycleService();
@@ -1,26 +1,32 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { auth, db } from '../app/firebaseConfig';
 import {
   collection,
-  doc,
   addDoc,
-  query,
-  where,
-  getDocs,
-  orderBy,
-  limit,
-  Timestamp,
-  updateDoc,
-  increment,
+  doc,
+  getDoc,
   serverTimestamp
 } from 'firebase/firestore';
 import GoalsTrackingService from './GoalsTrackingService';
-import { formatDate } from '../utils/dateUtils';
+import stepSyncQueue, { PendingStepSession, StepSyncStatus } from './stepSyncQueue';
+import {
+  StepSource,
+  getDeviceId,
+  recordStepSession,
+  rebuildStepTotals,
+  getDailyStepTotals,
+  getTotalSteps
+} from './stepLedgerService';
+import { ActivityDurations } from './activityClassifier';
+import { computeGaitMetrics } from './gaitAnalysis';
+import { logWeighIn } from './weightTrackingService';
+import { formatDate, getCurrentDate, addDays, getActiveTimeZone } from '../utils/dateUtils';
 
 export interface StepData {
   userId: string;
   date: string;
   steps: number;
-  timestamp: any; // Firestore Timestamp
+  sessionCount: number;
 }
 
 export interface HealthStats {
@@ -35,98 +41,168 @@ export interface HealthStats {
   timestamp: any;
 }
 
+// Optional details about how a step session was recorded
+export interface StepSessionOptions {
+  sessionId?: string;
+  startTime?: Date;
+  endTime?: Date;
+  source?: StepSource;
+  activitySeconds?: ActivityDurations;
+  stepTimestamps?: number[]; // Time of each detected step in ms, for cadence and distance
+}
+
+const HEIGHT_STORAGE_KEY = '@fitnessWarrior/height';
+
+// Height is kept on the device so saving a session never waits on Firestore,
+// and sessions saved offline still get a step length
+let cachedHeight: { userId: string; heightCm?: number } | null = null;
+let heightRefresh: Promise<void> | null = null;
+
+/**
+ * Get the signed-in user's height from the copy on the device, and refresh
+ * that copy from their profile in the background
+ * @param userId - User to look up
+ * @returns Promise resolving to the height in cm, or undefined if unknown
+ */
+const getUserHeight = async (userId: string): Promise<number | undefined> => {
+  if (cachedHeight?.userId === userId) return cachedHeight.heightCm;
+
+  try {
+    const stored = await AsyncStorage.getItem(HEIGHT_STORAGE_KEY);
+    const storedHeight = stored ? JSON.parse(stored) : null;
+    if (storedHeight?.userId === userId) cachedHeight = storedHeight;
+  } catch (error) {
+    console.warn('Could not read the stored height:', error);
+  }
+
+  refreshUserHeight(userId);
+  return cachedHeight?.userId === userId ? cachedHeight.heightCm : undefined;
+};
+
+/**
+ * Read the height from the user's profile without holding up the caller
+ */
+const refreshUserHeight = (userId: string): void => {
+  if (heightRefresh) return;
+
+  heightRefresh = getDoc(doc(db, 'users', userId))
+    .then(userDoc => setCachedHeight(userId, userDoc.exists() ? userDoc.data().height : undefined))
+    .catch(error => console.warn('Could not read height, using the average step length:', error))
+    .finally(() => {
+      heightRefresh = null;
+    });
+};
+
+/**
+ * Remember the user's height for step lengths, e.g. after they edit their profile
+ * @param heightCm - Height in cm, or undefined if unknown
+ */
+export const setCachedHeight = async (userId: string, heightCm?: number): Promise<void> => {
+  cachedHeight = { userId, heightCm: heightCm && heightCm > 0 ? heightCm : undefined };
+
+  try {
+    await AsyncStorage.setItem(HEIGHT_STORAGE_KEY, JSON.stringify(cachedHeight));
+  } catch (error) {
+    console.warn('Could not store the height:', error);
+  }
+};
+
 /**
- * Save daily step count to Firestore
+ * Record a step session and sync it to Firestore. The session is queued on the
+ * device first, so steps counted offline are kept and replayed later.
  * @param steps - Number of steps to record
- * @returns Promise resolving to document reference
+ * @param options - Session id (used to de-duplicate retries), time span, source, activity breakdown and step times
+ * @returns Promise resolving to true if the session reached Firestore right away
  */
-export const saveStepCount = async (steps: number): Promise<void> => {
+export const saveStepCount = async (steps: number, options: StepSessionOptions = {}): Promise<boolean> => {
   try {
     const user = auth.currentUser;
     if (!user) {
       throw new Error('User not logged in');
     }
 
-    const userId = user.uid;
-    const today = formatDate(new Date());
-    const sessionId = Date.now().toString(); // Unique ID for this session
-
-    console.log(`Saving ${steps} steps for user ${userId} on date ${today}`);
-
-    // First check if we already have an entry for today
-    const stepHistoryRef = collection(db, 'stepHistory');
-    const q = query(
-      stepHistoryRef,
-      where('userId', '==', userId),
-      where('date', '==', today)
-    );
-
-    const querySnapshot = await getDocs(q);
-    
-    if (querySnapshot.empty) {
-      // No entry for today, create a new one
-      console.log('No existing step entry found for today, creating new entry');
-      await addDoc(collection(db, 'stepHistory'), {
-        userId,
-        date: today,
-        steps,
-        timestamp: serverTimestamp(),
-        sessionId
-      });
-    } else {
-      // Update existing entry for today
-      const docRef = doc(db, 'stepHistory', querySnapshot.docs[0].id);
-      const docId = docRef.id;
-      
-      // Get the current data
-      const currentData = querySnapshot.docs[0].data();
-      const currentSteps = currentData.steps || 0;
-      
-      console.log(`Current steps in database: ${currentSteps}, adding ${steps} more`);
-      
-      // FIXED: Add steps instead of replacing them
-      await updateDoc(docRef, {
-        steps: currentSteps + steps, // Add to existing step count
-        lastUpdated: serverTimestamp(),
-        lastSessionId: sessionId // Track last session
-      });
-    }
+    const endTime = options.endTime || new Date();
+    const sessionId = options.sessionId || Date.now().toString();
+    const date = formatDate(options.startTime || endTime);
+
+    const gait = computeGaitMetrics(steps, options.stepTimestamps, await getUserHeight(user.uid));
+
+    console.log(`Queueing ${steps} steps for user ${user.uid} on date ${date} (session ${sessionId})`);
 
-    // Update user's total steps
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      totalSteps: increment(steps),
-      updatedAt: serverTimestamp()
+    await stepSyncQueue.enqueue({
+      sessionId,
+      userId: user.uid,
+      deviceId: await getDeviceId(),
+      date,
+      startTime: options.startTime ? options.startTime.toISOString() : null,
+      endTime: endTime.toISOString(),
+      steps,
+      source: options.source || 'phone_sensor',
+      timeZone: getActiveTimeZone(),
+      ...(options.activitySeconds ? { activitySeconds: options.activitySeconds } : {}),
+      distanceMeters: gait.distanceMeters,
+      cadence: gait.cadence,
+      stepLength: gait.stepLength,
+      movingSeconds: gait.movingSeconds,
+      pace: gait.pace,
+      recordedAt: new Date().toISOString()
     });
-    
-    console.log(`Successfully saved ${steps} steps for ${today}, total should be updated`);
-    
-    // Update goal progress immediately
-    console.log('Syncing goal progress after saving steps...');
-    await GoalsTrackingService.syncGoalProgress();
-    
-    // Verify data was saved correctly by reading it back
-    const verificationQuery = query(
-      stepHistoryRef,
-      where('userId', '==', userId),
-      where('date', '==', today)
-    );
-    
-    const verifySnapshot = await getDocs(verificationQuery);
-    if (!verifySnapshot.empty) {
-      const savedSteps = verifySnapshot.docs[0].data().steps;
-      console.log(`Verification: ${savedSteps} steps saved for today`);
-    }
+
+    await stepSyncQueue.flush();
+
+    const status = await stepSyncQueue.getStatus();
+    return status.pendingSessions === 0;
   } catch (error) {
     console.error('Error saving step count:', error);
     throw error;
   }
 };
 
+/**
+ * Retry syncing any step sessions still waiting on the device
+ * @returns Promise resolving to the number of sessions synced
+ */
+export const syncPendingSteps = (): Promise<number> => stepSyncQueue.flush();
+
+/**
+ * Recompute the ledger's daily and lifetime totals with step sync held, so
+ * sessions synced meanwhile are not overwritten by the rebuild
+ * @param userId - User to rebuild totals for
+ * @returns Promise resolving to the lifetime step total
+ */
+export const rebuildStepTotalsHoldingSync = (userId: string): Promise<number> =>
+  stepSyncQueue.runWithSyncHeld(() => rebuildStepTotals(userId));
+
+/**
+ * Subscribe to the pending/synced state of locally recorded steps
+ * @param listener - Called with the latest sync status
+ * @returns Unsubscribe function
+ */
+export const subscribeToStepSyncStatus = (listener: (status: StepSyncStatus) => void): (() => void) =>
+  stepSyncQueue.subscribe(listener);
+
+stepSyncQueue.configure({
+  syncSession: async ({ recordedAt, attempts, lastError, ...session }: PendingStepSession) => {
+    // Sessions queued before the ledger existed carry no device or source details
+    await recordStepSession({
+      ...session,
+      deviceId: session.deviceId || await getDeviceId(),
+      startTime: session.startTime || null,
+      endTime: session.endTime || recordedAt,
+      source: session.source || 'phone_sensor'
+    });
+  },
+  onSessionsSynced: async () => {
+    console.log('Syncing goal progress after saving steps...');
+    await GoalsTrackingService.syncGoalProgress();
+  },
+  getCurrentUserId: () => auth.currentUser?.uid || null
+});
+
 /**
  * Get step history for the current user
  * @param days - Number of days of history to retrieve
- * @returns Promise resolving to array of step data
+ * @returns Promise resolving to array of step data, newest first
  */
 export const getStepHistory = async (days: number = 7): Promise<StepData[]> => {
   try {
@@ -135,26 +211,17 @@ export const getStepHistory = async (days: number = 7): Promise<StepData[]> => {
       throw new Error('User not logged in');
     }
 
-    const stepHistoryRef = collection(db, 'stepHistory');
-    const q = query(
-      stepHistoryRef,
-      where('userId', '==', user.uid),
-      orderBy('date', 'desc'),
-      limit(days)
-    );
-
-    const querySnapshot = await getDocs(q);
-    const history: StepData[] = [];
-
-    querySnapshot.forEach(doc => {
-      const data = doc.data() as StepData;
-      history.push({
-        ...data,
-        id: doc.id
-      } as any);
-    });
+    const today = getCurrentDate();
+    const totals = await getDailyStepTotals(user.uid, addDays(today, -(days - 1)), today);
 
-    return history;
+    return totals
+      .map(total => ({
+        userId: user.uid,
+        date: total.date,
+        steps: total.steps,
+        sessionCount: total.sessionCount
+      }))
+      .reverse();
   } catch (error) {
     console.error('Error getting step history:', error);
     throw error;
@@ -174,23 +241,7 @@ export const getTotalStepsForDateRange = async (startDate: string, endDate: stri
       throw new Error('User not logged in');
     }
 
-    const stepHistoryRef = collection(db, 'stepHistory');
-    const q = query(
-      stepHistoryRef,
-      where('userId', '==', user.uid),
-      where('date', '>=', startDate),
-      where('date', '<=', endDate)
-    );
-
-    const querySnapshot = await getDocs(q);
-    let totalSteps = 0;
-
-    querySnapshot.forEach(doc => {
-      const data = doc.data() as StepData;
-      totalSteps += data.steps;
-    });
-
-    return totalSteps;
+    return await getTotalSteps(user.uid, startDate, endDate);
   } catch (error) {
     console.error('Error getting total steps:', error);
     throw error;
@@ -209,7 +260,7 @@ export const saveHealthStats = async (stats: Partial<HealthStats>): Promise<void
       throw new Error('User not logged in');
     }
 
-    const today = formatDate(new Date());
+    const today = getCurrentDate();
 
     await addDoc(collection(db, 'healthStats'), {
       userId: user.uid,
@@ -217,6 +268,11 @@ export const saveHealthStats = async (stats: Partial<HealthStats>): Promise<void
       timestamp: serverTimestamp(),
       ...stats
     });
+
+    // Weights also go in the weigh-in log that weight goals are tracked from
+    if (stats.weight) {
+      await logWeighIn(stats.weight, today);
+    }
   } catch (error) {
     console.error('Error saving health stats:', error);
     throw error;
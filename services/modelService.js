@@ -3,39 +3,37 @@ import '@tensorflow/tfjs-react-native';
 import { decode as base64Decode } from 'base-64';
 import { MODEL_JSON } from '../modelData';
 import { MODEL_WEIGHTS_BASE64 } from '../modelWeights';
+import {
+    createStepDetectionPipeline,
+    resolveStepDetectorConfig,
+    WINDOW_SIZE,
+    FEATURES_PER_SAMPLE
+} from './stepDetectionPipeline';
 
 class ModelService {
     constructor() {
         this.model = null;
         this.isModelReady = false;
-        this.lastStepTime = 0;
-        this.refractoryPeriod = 600; // Balanced value between original and strict
-        this.predictionThreshold = 0.18; // Lowered to match your device's typical values (based on logs)
-        this.consecutiveHighPredictions = 0;
-        this.requiredConsecutiveHighs = 1; // Back to 1 to ensure steps are detected
-        this.motionDetectionThreshold = 0.008; // Keep this the same as it's working
-        this.motionBuffer = []; // Buffer to store recent motion intensity values
-        this.motionBufferSize = 8; // Increased from 5 to 8 for more stable motion detection
-        this.isInMotion = false; // Track if user is in motion
         this.debugMode = true; // Set to true to see more detailed logs
+        this.config = resolveStepDetectorConfig();
+        this.pipeline = this.createPipeline();
+    }
 
-        // New: Add peak detection to identify real steps
-        this.peakDetection = {
-            values: [],
-            bufferSize: 15,
-            minPeakHeight: 0.12, // Lowered to detect more peaks
-            minPeakDistance: 6 // Reduced to detect steps that are closer together
-        };
-
-        // New: Add step pattern matching
-        this.stepPatternMatching = {
-            enabled: true,
-            minAccelPeak: 0.2, // Minimum acceleration peak for potential step
-            timeBetweenSteps: {
-                min: 400, // Minimum time between steps in ms
-                max: 2000  // Maximum time between steps in ms
-            }
-        };
+    // Build the detection pipeline around the loaded model
+    createPipeline() {
+        const pipeline = createStepDetectionPipeline(windowData => this.runModel(windowData), this.config);
+        pipeline.debugMode = this.debugMode;
+        return pipeline;
+    }
+
+    // Override detector thresholds (e.g. from a calibration profile)
+    configure(overrides = {}) {
+        this.config = resolveStepDetectorConfig(overrides);
+        this.pipeline = this.createPipeline();
+    }
+
+    getConfig() {
+        return this.config;
     }
 
     async loadModel() {
@@ -81,6 +79,7 @@ class ModelService {
             dummyInput.dispose();
 
             this.isModelReady = true;
+            this.pipeline.reset();
             return true;
         } catch (error) {
             console.error('Failed to load model:', error);
@@ -178,244 +177,39 @@ class ModelService {
         }
     }
 
-    // Calculate motion intensity from sensor data
-    calculateMotionIntensity(windowData) {
-        // Extract only accelerometer data (first 3 columns)
-        const accelX = windowData.map(d => d[0]);
-        const accelY = windowData.map(d => d[1]);
-        const accelZ = windowData.map(d => d[2]);
-
-        // Calculate variance for each axis
-        const varX = this.calculateVariance(accelX);
-        const varY = this.calculateVariance(accelY);
-        const varZ = this.calculateVariance(accelZ);
-
-        // Sum of variances as motion intensity
-        const sumAccelVar = varX + varY + varZ;
-
-        // New: Calculate vertical acceleration for better step detection
-        const verticalAcceleration = this.calculateVerticalAcceleration(accelX, accelY, accelZ);
-
-        if (this.debugMode) {
-            console.log(`Motion details - varX: ${varX.toFixed(6)}, varY: ${varY.toFixed(6)}, varZ: ${varZ.toFixed(6)}, total: ${sumAccelVar.toFixed(6)}, vertical: ${verticalAcceleration.toFixed(6)}`);
-        }
-
-        // Update peak detection buffer
-        this.updatePeakDetectionBuffer(verticalAcceleration);
-
-        return sumAccelVar;
-    }
-
-    // New: Calculate vertical acceleration component
-    calculateVerticalAcceleration(accelX, accelY, accelZ) {
-        // Get the magnitude of total acceleration for each sample
-        const magnitudes = accelX.map((x, i) => {
-            const y = accelY[i];
-            const z = accelZ[i];
-            return Math.sqrt(x * x + y * y + z * z);
-        });
-
-        // Compute the mean
-        const mean = magnitudes.reduce((sum, val) => sum + val, 0) / magnitudes.length;
+    // Run the model on a single [50, 6] window and return its step probability
+    async runModel(windowData) {
+        const inputTensor = tf.tensor3d([windowData], [1, WINDOW_SIZE, FEATURES_PER_SAMPLE]);
+        const prediction = this.model.predict(inputTensor);
+        const predictionValue = prediction.dataSync()[0];
 
-        // Remove gravity (1g) and compute variance of the resulting signal
-        const verticalComponents = magnitudes.map(m => m - mean);
+        // Clean up tensors
+        inputTensor.dispose();
+        prediction.dispose();
 
-        // Return the variance of the vertical components
-        return this.calculateVariance(verticalComponents);
+        return predictionValue;
     }
 
-    // New: Update the peak detection buffer
-    updatePeakDetectionBuffer(value) {
-        this.peakDetection.values.push(value);
-
-        // Keep buffer at desired size
-        if (this.peakDetection.values.length > this.peakDetection.bufferSize) {
-            this.peakDetection.values.shift();
-        }
-    }
-
-    // New: Detect if there's a peak in the current buffer
-    detectPeak() {
-        // Need enough data
-        if (this.peakDetection.values.length < this.peakDetection.bufferSize) {
-            return false;
-        }
-
-        // Get center value (which we're checking if it's a peak)
-        const centerIndex = Math.floor(this.peakDetection.bufferSize / 2);
-        const centerValue = this.peakDetection.values[centerIndex];
-
-        // Check if center value is high enough to be a potential peak
-        if (centerValue < this.peakDetection.minPeakHeight) {
-            return false;
-        }
-
-        // Check if center is higher than surrounding points
-        for (let i = 1; i <= this.peakDetection.minPeakDistance; i++) {
-            if (centerIndex - i >= 0) {
-                if (this.peakDetection.values[centerIndex - i] >= centerValue) {
-                    return false;
-                }
-            }
-
-            if (centerIndex + i < this.peakDetection.values.length) {
-                if (this.peakDetection.values[centerIndex + i] >= centerValue) {
-                    return false;
-                }
-            }
-        }
-
-        // It's a peak!
-        console.log(`Peak detected! Value: ${centerValue.toFixed(6)}`);
-        return true;
-    }
-
-    // Helper function to calculate variance
-    calculateVariance(array) {
-        const n = array.length;
-        if (n === 0) return 0;
-
-        // Calculate mean
-        const mean = array.reduce((sum, val) => sum + val, 0) / n;
-
-        // Calculate sum of squared differences from mean
-        const squaredDiffSum = array.reduce((sum, val) => {
-            const diff = val - mean;
-            return sum + (diff * diff);
-        }, 0);
-
-        // Return variance
-        return squaredDiffSum / n;
-    }
-
-    // Check if user is in motion based on recent motion intensity
-    updateMotionState(motionIntensity) {
-        // Add to buffer and maintain buffer size
-        this.motionBuffer.push(motionIntensity);
-        if (this.motionBuffer.length > this.motionBufferSize) {
-            this.motionBuffer.shift();
-        }
-
-        // Calculate average motion intensity
-        const avgMotion = this.motionBuffer.reduce((sum, val) => sum + val, 0) /
-            this.motionBuffer.length;
-
-        // Update motion state
-        const previousMotionState = this.isInMotion;
-        this.isInMotion = avgMotion > this.motionDetectionThreshold;
-
-        // Log motion state changes
-        if (this.isInMotion !== previousMotionState) {
-            console.log(`Motion state changed to: ${this.isInMotion ? 'MOVING' : 'STATIONARY'}, avg motion: ${avgMotion.toFixed(6)}, threshold: ${this.motionDetectionThreshold}`);
-        }
-
-        return this.isInMotion;
-    }
-
-    async predictStep(windowData) {
+    async predictStep(windowData, timestamp = Date.now()) {
         if (!this.isModelReady || !this.model) {
             console.log('Model is not ready yet');
             return false;
         }
 
         try {
-            
-            // Ensure it's an array with shape [50, 6]
-            if (!Array.isArray(windowData) || windowData.length !== 50) {
-                console.warn('Input data must have 50 time steps, got', windowData.length);
-                return false;
-            }
-
-            // Verify each time step has 6 features
-            const allHaveSixFeatures = windowData.every(step =>
-                Array.isArray(step) && step.length === 6);
-
-            if (!allHaveSixFeatures) {
-                console.warn('Each time step must have 6 features');
-                return false;
-            }
-
-            // Calculate motion intensity and update motion state
-            const motionIntensity = this.calculateMotionIntensity(windowData);
-            const isInMotion = this.updateMotionState(motionIntensity);
+            const result = await this.pipeline.process(windowData, timestamp);
 
-            // Only process for step detection if in motion
-            if (!isInMotion) {
-                console.log('No significant motion detected, skipping step detection');
-                this.consecutiveHighPredictions = 0;
-                return false;
-            }
-
-            // Check if we have a peak in the signal
-            const hasPeak = this.detectPeak();
-
-            // Create tensor with explicit shape to ensure it's 3D
-            const inputTensor = tf.tensor3d([windowData], [1, 50, 6]);
-            const prediction = this.model.predict(inputTensor);
-            const predictionValue = prediction.dataSync()[0];
-
-            console.log('Step prediction value:', predictionValue,
-                'Motion intensity:', motionIntensity.toFixed(6),
-                'Consecutive highs:', this.consecutiveHighPredictions,
-                'Has peak:', hasPeak);
-
-            // Clean up tensors
-            inputTensor.dispose();
-            prediction.dispose();
-
-            // Apply refractory period check - MODIFIED: Set to 700ms (balanced value)
-            const currentTime = new Date().getTime();
-            const timeCheck = (currentTime - this.lastStepTime) > 700;
-
-            // Track consecutive high predictions
-            if (predictionValue > this.predictionThreshold) {
-                this.consecutiveHighPredictions++;
-            } else {
-                // Only reset if prediction is significantly below threshold
-                if (predictionValue < this.predictionThreshold * 0.8) {
-                    this.consecutiveHighPredictions = 0;
-                }
+            if (result.rejectedBy === 'filter') {
+                console.warn('Input data must be 50 time steps of 6 features');
             }
 
-            const hasEnoughConsecutiveHighs = this.consecutiveHighPredictions >= 1; // Only need 1 consecutive reading
-
-            let stepDetected = false;
-
-            if (timeCheck) {
-                // Primary detection method: prediction value above threshold
-                if (predictionValue > this.predictionThreshold) {
-                    if (hasEnoughConsecutiveHighs) {
-                        stepDetected = true;
-                        console.log('Step detected by prediction threshold!');
-                    }
-                }
-                // Secondary method: strong peak with prediction close to threshold
-                else if (hasPeak && predictionValue > (this.predictionThreshold * 0.9)) {
-                    stepDetected = true;
-                    console.log('Step detected by acceleration peak!');
-                }
-            }
-
-            if (stepDetected) {
-                this.lastStepTime = currentTime;
-                this.consecutiveHighPredictions = 0; // Reset after detecting a step
-                return true;
-            }
-
-            return false;
+            return result.stepDetected;
         } catch (error) {
             console.error('Prediction error:', error);
             return false;
         }
     }
 
-    // Method to dynamically adjust thresholds based on observed data
-    adjustThresholds(avgMotionIntensity, avgPredictionValue) {
-        // This method could be used to auto-calibrate thresholds based on usage patterns
-        // For now, it's just a placeholder for potential future enhancements
-    }
-
     dispose() {
         if (this.model) {
             this.model.dispose();
@@ -0,0 +1,132 @@
+// Open-Meteo weather provider
+//
+// Current conditions, sunrise and sunset, and a true hourly forecast from
+// Open-Meteo, with the US AQI from its air quality API. Needs no API key.
+// Weather is described by WMO weather codes.
+
+import { HourlyForecast, WeatherContext } from '../models/FitnessGoalModels';
+import { HOUR_MS, WeatherProvider, startOfHour } from './weatherProvider';
+import { calculateFeelsLike, isOutdoorFriendly } from './outdoorSafety';
+
+const API_URL = 'https://api.open-meteo.com/v1/forecast';
+const AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+const CURRENT_FIELDS = 'temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m,uv_index';
+const HOURLY_FIELDS = 'temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m,precipitation_probability,precipitation,uv_index,is_day';
+
+export class OpenMeteoProvider implements WeatherProvider {
+  name = 'Open-Meteo';
+  requiresLocation = true;
+
+  /**
+   * Get the current weather from Open-Meteo
+   */
+  async getCurrentWeather(latitude: number, longitude: number): Promise<WeatherContext> {
+    // Daily values follow the location's own days, so the one day returned is
+    // today there rather than in GMT
+    const [data, airQualityIndex] = await Promise.all([
+      this.request(API_URL, latitude, longitude, `current=${CURRENT_FIELDS}&daily=sunrise,sunset&forecast_days=1&timezone=auto`),
+      this.getAirQualityIndex(latitude, longitude)
+    ]);
+    const current = data.current;
+    if (!current) {
+      throw new Error('Open-Meteo returned no current weather');
+    }
+
+    const weather: Omit<WeatherContext, 'isOutdoorFriendly'> = {
+      condition: this.mapWeatherCode(current.weather_code),
+      temperature: Math.round(current.temperature_2m),
+      humidity: current.relative_humidity_2m,
+      windSpeed: current.wind_speed_10m,
+      feelsLike: calculateFeelsLike(current.temperature_2m, current.relative_humidity_2m, current.wind_speed_10m)
+    };
+    if (typeof current.uv_index === 'number') weather.uvIndex = Math.round(current.uv_index);
+    if (data.daily?.sunrise?.length) weather.sunrise = new Date(data.daily.sunrise[0] * 1000).toISOString();
+    if (data.daily?.sunset?.length) weather.sunset = new Date(data.daily.sunset[0] * 1000).toISOString();
+    if (airQualityIndex !== null) weather.airQualityIndex = airQualityIndex;
+
+    return { ...weather, isOutdoorFriendly: isOutdoorFriendly(weather) };
+  }
+
+  /**
+   * Get the hourly forecast from the current hour on
+   */
+  async getHourlyForecast(latitude: number, longitude: number, hours: number): Promise<HourlyForecast[]> {
+    const forecastDays = Math.ceil(hours / 24) + 1;
+    const data = await this.request(API_URL, latitude, longitude, `hourly=${HOURLY_FIELDS}&forecast_days=${forecastDays}`);
+    const hourly = data.hourly;
+    if (!hourly || !hourly.time?.length) {
+      throw new Error('Open-Meteo returned no forecast');
+    }
+
+    const firstHour = startOfHour();
+    const forecast: HourlyForecast[] = [];
+
+    hourly.time.forEach((seconds: number, index: number) => {
+      const time = seconds * 1000;
+      if (time < firstHour || time >= firstHour + hours * HOUR_MS) return;
+
+      const temperature = hourly.temperature_2m[index];
+      const humidity = hourly.relative_humidity_2m[index];
+      const windSpeed = hourly.wind_speed_10m[index];
+
+      const weather: Omit<HourlyForecast, 'isOutdoorFriendly'> = {
+        time: new Date(time).toISOString(),
+        condition: this.mapWeatherCode(hourly.weather_code[index]),
+        temperature: Math.round(temperature),
+        humidity,
+        windSpeed,
+        feelsLike: calculateFeelsLike(temperature, humidity, windSpeed),
+        precipitationProbability: (hourly.precipitation_probability[index] ?? 0) / 100,
+        precipitation: hourly.precipitation[index] ?? 0,
+        isDaylight: hourly.is_day[index] === 1
+      };
+      if (typeof hourly.uv_index[index] === 'number') weather.uvIndex = Math.round(hourly.uv_index[index]);
+
+      forecast.push({ ...weather, isOutdoorFriendly: isOutdoorFriendly(weather, new Date(time)) });
+    });
+
+    return forecast;
+  }
+
+  /**
+   * Get the current US AQI
+   * @returns The AQI, or null when air quality is unavailable
+   */
+  private async getAirQualityIndex(latitude: number, longitude: number): Promise<number | null> {
+    try {
+      const data = await this.request(AIR_QUALITY_URL, latitude, longitude, 'current=us_aqi');
+      const aqi = data.current?.us_aqi;
+      return typeof aqi === 'number' ? Math.round(aqi) : null;
+    } catch (error) {
+      console.error('Error getting air quality:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Call an Open-Meteo API in metric units with wind in m/s and times as Unix seconds
+   */
+  private async request(url: string, latitude: number, longitude: number, fields: string): Promise<any> {
+    const response = await fetch(
+      `${url}?latitude=${latitude}&longitude=${longitude}&${fields}&wind_speed_unit=ms&timeformat=unixtime`
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Open-Meteo error:', response.status, errorText);
+      throw new Error(`Open-Meteo error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Map a WMO weather code to our simplified conditions
+   */
+  private mapWeatherCode(code: number): string {
+    if (code <= 1) return 'sunny';                          // Clear, mainly clear
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snowy';
+    if (code >= 51) return 'rainy';                         // Drizzle, rain, showers, thunderstorms
+    return 'cloudy';                                        // Partly cloudy, overcast, fog
+  }
+}
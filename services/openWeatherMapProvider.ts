@@ -0,0 +1,152 @@
+// OpenWeatherMap weather provider
+//
+// Current conditions from the 2.5 `/weather` endpoint, air quality from
+// `/air_pollution`, and the forecast from `/forecast`, which comes in 3-hour
+// steps and is spread over single hours. Needs an API key. The free API has
+// no UV index.
+
+import { HourlyForecast, WeatherContext } from '../models/FitnessGoalModels';
+import { HOUR_MS, WeatherProvider, pm25ToUsAqi, startOfHour } from './weatherProvider';
+import { calculateFeelsLike, isOutdoorFriendly } from './outdoorSafety';
+
+const API_URL = 'https://api.openweathermap.org/data/2.5';
+
+export class OpenWeatherMapProvider implements WeatherProvider {
+  name = 'OpenWeatherMap';
+  requiresLocation = true;
+
+  constructor(private apiKey: string) {}
+
+  /**
+   * Get the current weather from OpenWeatherMap
+   */
+  async getCurrentWeather(latitude: number, longitude: number): Promise<WeatherContext> {
+    const [data, airQualityIndex] = await Promise.all([
+      this.request('weather', latitude, longitude),
+      this.getAirQualityIndex(latitude, longitude)
+    ]);
+    const temperature = Math.round(data.main.temp);
+
+    const weather: Omit<WeatherContext, 'isOutdoorFriendly'> = {
+      condition: this.mapWeatherCondition(data.weather[0].main),
+      temperature,
+      humidity: data.main.humidity,
+      windSpeed: data.wind.speed,
+      feelsLike: calculateFeelsLike(data.main.temp, data.main.humidity, data.wind.speed),
+      sunrise: new Date(data.sys.sunrise * 1000).toISOString(),
+      sunset: new Date(data.sys.sunset * 1000).toISOString()
+    };
+    if (airQualityIndex !== null) weather.airQualityIndex = airQualityIndex;
+
+    return { ...weather, isOutdoorFriendly: isOutdoorFriendly(weather) };
+  }
+
+  /**
+   * Get the forecast and spread its 3-hour steps over single hours.
+   * Temperature, humidity, wind and chance of rain are interpolated between
+   * steps; the condition and rain amount carry over from the step an hour
+   * falls in.
+   */
+  async getHourlyForecast(latitude: number, longitude: number, hours: number): Promise<HourlyForecast[]> {
+    const data = await this.request('forecast', latitude, longitude);
+    const steps: any[] = data.list || [];
+    if (!steps.length) {
+      throw new Error('Forecast API returned no data');
+    }
+
+    const stepTime = (step: any): number => step.dt * 1000;
+    const interpolate = (from: number, to: number, fraction: number): number => from + (to - from) * fraction;
+
+    const firstHour = startOfHour();
+    const forecast: HourlyForecast[] = [];
+
+    for (let hour = 0; hour < hours; hour++) {
+      const time = firstHour + hour * HOUR_MS;
+
+      // Step the hour falls in, and the one after it
+      let index = 0;
+      while (index < steps.length - 1 && stepTime(steps[index + 1]) <= time) index++;
+      const step = steps[index];
+      const next = steps[Math.min(index + 1, steps.length - 1)];
+      const span = stepTime(next) - stepTime(step);
+      const fraction = span > 0 ? Math.min(Math.max((time - stepTime(step)) / span, 0), 1) : 0;
+
+      const temperature = interpolate(step.main.temp, next.main.temp, fraction);
+      const humidity = Math.round(interpolate(step.main.humidity, next.main.humidity, fraction));
+      const windSpeed = Math.round(interpolate(step.wind.speed, next.wind.speed, fraction) * 10) / 10;
+      const precipitation = ((step.rain?.['3h'] || 0) + (step.snow?.['3h'] || 0)) / 3;
+
+      const weather: Omit<HourlyForecast, 'isOutdoorFriendly'> = {
+        time: new Date(time).toISOString(),
+        condition: this.mapWeatherCondition(step.weather[0].main),
+        temperature: Math.round(temperature),
+        humidity,
+        windSpeed,
+        feelsLike: calculateFeelsLike(temperature, humidity, windSpeed),
+        precipitationProbability: Math.round(interpolate(step.pop || 0, next.pop || 0, fraction) * 100) / 100,
+        precipitation: Math.round(precipitation * 10) / 10,
+        isDaylight: step.sys?.pod === 'd'
+      };
+
+      forecast.push({ ...weather, isOutdoorFriendly: isOutdoorFriendly(weather, new Date(time)) });
+    }
+
+    return forecast;
+  }
+
+  /**
+   * Get the US AQI from the current PM2.5 level
+   * @returns The AQI, or null when air quality is unavailable
+   */
+  private async getAirQualityIndex(latitude: number, longitude: number): Promise<number | null> {
+    try {
+      const data = await this.request('air_pollution', latitude, longitude);
+      const pm25 = data.list?.[0]?.components?.pm2_5;
+      return typeof pm25 === 'number' ? pm25ToUsAqi(pm25) : null;
+    } catch (error) {
+      console.error('Error getting air quality:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Call an OpenWeatherMap endpoint in metric units
+   */
+  private async request(endpoint: string, latitude: number, longitude: number): Promise<any> {
+    if (!this.apiKey) {
+      throw new Error('OpenWeatherMap API key not configured');
+    }
+
+    const response = await fetch(
+      `${API_URL}/${endpoint}?lat=${latitude}&lon=${longitude}&units=metric&appid=${this.apiKey}`
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Weather API error:', response.status, errorText);
+      throw new Error(`Weather API error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Map OpenWeatherMap condition to our simplified conditions
+   */
+  private mapWeatherCondition(condition: string): string {
+    switch (condition.toLowerCase()) {
+      case 'clear':
+        return 'sunny';
+      case 'clouds':
+        return 'cloudy';
+      case 'rain':
+      case 'drizzle':
+      case 'thunderstorm':
+        return 'rainy';
+      case 'snow':
+        return 'snowy';
+      default:
+        return 'cloudy';
+    }
+  }
+}
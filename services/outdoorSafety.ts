@@ -0,0 +1,255 @@
+// Outdoor safety
+//
+// Turns the weather into safety concerns for exercising outside: air quality
+// (US AQI), UV index, heat index and wind chill, and darkness from sunrise and
+// sunset. Each concern carries a severity, from "info" (worth knowing) up to
+// "danger" (stay indoors). Weather with a concern at "warning" or above is not
+// outdoor friendly, except for UV, which sunscreen and timing take care of.
+// Fields a provider could not supply are skipped, never assumed.
+
+import { SafetySeverity, WeatherContext } from '../models/FitnessGoalModels';
+
+export type SafetyConcernKind = 'air-quality' | 'uv' | 'heat' | 'cold' | 'darkness';
+
+export interface SafetyConcern {
+  kind: SafetyConcernKind;
+  severity: SafetySeverity;
+  title: string;
+  advice: string;
+}
+
+export const SEVERITY_ORDER: SafetySeverity[] = ['info', 'caution', 'warning', 'danger'];
+
+export const SEVERITY_LABELS: { [severity in SafetySeverity]: string } = {
+  info: 'Info',
+  caution: 'Caution',
+  warning: 'Warning',
+  danger: 'Danger'
+};
+
+export const SEVERITY_COLORS: { [severity in SafetySeverity]: string } = {
+  info: '#2196F3',
+  caution: '#FFC107',
+  warning: '#FF9800',
+  danger: '#F44336'
+};
+
+const SUNSET_NOTICE_MS = 60 * 60 * 1000; // Mention sunset within the last hour of daylight
+
+// US AQI categories, by upper bound
+const AIR_QUALITY_CATEGORIES: { max: number; label: string }[] = [
+  { max: 50, label: 'Good' },
+  { max: 100, label: 'Moderate' },
+  { max: 150, label: 'Unhealthy for sensitive groups' },
+  { max: 200, label: 'Unhealthy' },
+  { max: 300, label: 'Very unhealthy' },
+  { max: Infinity, label: 'Hazardous' }
+];
+
+// WHO UV index categories, by upper bound
+const UV_CATEGORIES: { max: number; label: string }[] = [
+  { max: 2, label: 'Low' },
+  { max: 5, label: 'Moderate' },
+  { max: 7, label: 'High' },
+  { max: 10, label: 'Very high' },
+  { max: Infinity, label: 'Extreme' }
+];
+
+/**
+ * Name the category of a US AQI value
+ */
+export const getAirQualityCategory = (aqi: number): string => {
+  return AIR_QUALITY_CATEGORIES.find(category => aqi <= category.max)!.label;
+};
+
+/**
+ * Name the category of a UV index
+ */
+export const getUvCategory = (uvIndex: number): string => {
+  return UV_CATEGORIES.find(category => uvIndex <= category.max)!.label;
+};
+
+/**
+ * Whether one severity is at least as serious as another
+ */
+export const isAtLeast = (severity: SafetySeverity, threshold: SafetySeverity): boolean => {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+};
+
+/**
+ * How warm or cold it feels: the heat index when hot and humid, wind chill
+ * when cold and windy, and the air temperature otherwise
+ * @param temperature - Air temperature in °C
+ * @param humidity - Relative humidity in %
+ * @param windSpeed - Wind speed in m/s
+ * @returns Apparent temperature in °C, rounded
+ */
+export const calculateFeelsLike = (temperature: number, humidity: number, windSpeed: number): number => {
+  // NWS heat index (Rothfusz regression), defined from about 27°C and 40% humidity
+  if (temperature >= 27 && humidity >= 40) {
+    const t = temperature * 9 / 5 + 32;
+    const rh = humidity;
+    const heatIndex = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh -
+      0.00683783 * t * t - 0.05481717 * rh * rh + 0.00122874 * t * t * rh +
+      0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+    return Math.round((heatIndex - 32) * 5 / 9);
+  }
+
+  // Environment Canada wind chill, defined up to 10°C and from 4.8 km/h
+  const windKmh = windSpeed * 3.6;
+  if (temperature <= 10 && windKmh > 4.8) {
+    const windFactor = Math.pow(windKmh, 0.16);
+    return Math.round(13.12 + 0.6215 * temperature - 11.37 * windFactor + 0.3965 * temperature * windFactor);
+  }
+
+  return Math.round(temperature);
+};
+
+/**
+ * Find the safety concerns for exercising outside now
+ * @param weather - Current weather
+ * @param now - Time to judge daylight against
+ * @returns Concerns, most severe first
+ */
+export const assessOutdoorSafety = (
+  weather: Omit<WeatherContext, 'isOutdoorFriendly'>,
+  now: Date = new Date()
+): SafetyConcern[] => {
+  const concerns: SafetyConcern[] = [];
+  const feelsLike = weather.feelsLike ?? weather.temperature;
+
+  // Air quality
+  const aqi = weather.airQualityIndex;
+  if (aqi !== undefined && aqi > 100) {
+    const category = getAirQualityCategory(aqi);
+    if (aqi > 200) {
+      concerns.push({
+        kind: 'air-quality',
+        severity: 'danger',
+        title: 'Stay indoors: poor air quality',
+        advice: `Air quality is ${category.toLowerCase()} (AQI ${aqi}). Skip outdoor exercise today and keep your workout indoors.`
+      });
+    } else if (aqi > 150) {
+      concerns.push({
+        kind: 'air-quality',
+        severity: 'warning',
+        title: 'Move your run indoors',
+        advice: `Air quality is ${category.toLowerCase()} (AQI ${aqi}). Hard breathing outdoors draws in more pollution, so train indoors today.`
+      });
+    } else {
+      concerns.push({
+        kind: 'air-quality',
+        severity: 'caution',
+        title: 'Air quality alert',
+        advice: `Air quality is ${category.toLowerCase()} (AQI ${aqi}). If you have asthma or a heart or lung condition, keep outdoor sessions short and easy.`
+      });
+    }
+  }
+
+  // Sun; only worth mentioning while it is up
+  const isDark = isDarkAt(weather, now);
+  const uv = weather.uvIndex;
+  if (uv !== undefined && uv >= 3 && !isDark) {
+    const category = getUvCategory(uv);
+    concerns.push({
+      kind: 'uv',
+      severity: uv >= 11 ? 'danger' : uv >= 8 ? 'warning' : uv >= 6 ? 'caution' : 'info',
+      title: uv >= 8 ? 'Avoid the midday sun' : 'Sunscreen reminder',
+      advice: uv >= 8
+        ? `UV is ${category.toLowerCase()} (${uv}). Exercise before 10:00 or after 16:00, or indoors, and cover up with SPF 30+, a hat and sunglasses.`
+        : `UV is ${category.toLowerCase()} (${uv}). Put on SPF 30+ sunscreen before heading out, and reapply on long sessions.`
+    });
+  }
+
+  // Heat and cold as they feel
+  if (feelsLike >= 41) {
+    concerns.push({
+      kind: 'heat',
+      severity: 'danger',
+      title: 'Dangerous heat',
+      advice: `It feels like ${feelsLike}°C. Heat exhaustion is likely with exercise; train indoors somewhere cool.`
+    });
+  } else if (feelsLike >= 32) {
+    concerns.push({
+      kind: 'heat',
+      severity: 'warning',
+      title: 'Heat alert',
+      advice: `It feels like ${feelsLike}°C. Exercise early in the morning or in the evening, slow down, and drink before you are thirsty.`
+    });
+  } else if (feelsLike >= 27) {
+    concerns.push({
+      kind: 'heat',
+      severity: 'caution',
+      title: 'Warm out there',
+      advice: `It feels like ${feelsLike}°C. Take water with you and ease off if you feel dizzy.`
+    });
+  }
+
+  if (feelsLike <= -28) {
+    concerns.push({
+      kind: 'cold',
+      severity: 'danger',
+      title: 'Frostbite risk',
+      advice: `Wind chill makes it feel like ${feelsLike}°C. Exposed skin can freeze within minutes; train indoors.`
+    });
+  } else if (feelsLike <= -10) {
+    concerns.push({
+      kind: 'cold',
+      severity: 'warning',
+      title: 'Bitter cold',
+      advice: `It feels like ${feelsLike}°C. Cover your face and hands and keep outdoor sessions short, or move indoors.`
+    });
+  } else if (feelsLike < 5) {
+    concerns.push({
+      kind: 'cold',
+      severity: 'caution',
+      title: 'Cold weather alert',
+      advice: `It feels like ${feelsLike}°C. Dress in layers and warm up indoors before heading out.`
+    });
+  }
+
+  // Daylight
+  if (isDark) {
+    concerns.push({
+      kind: 'darkness',
+      severity: 'caution',
+      title: 'It\'s dark out',
+      advice: 'Avoid outdoor runs after dark. If you do go, wear reflective gear and a light and stick to lit, familiar routes.'
+    });
+  } else if (weather.sunset) {
+    const untilSunset = new Date(weather.sunset).getTime() - now.getTime();
+    if (untilSunset > 0 && untilSunset <= SUNSET_NOTICE_MS) {
+      concerns.push({
+        kind: 'darkness',
+        severity: 'info',
+        title: 'Sunset soon',
+        advice: `The sun sets in ${Math.round(untilSunset / 60000)} minutes. Finish outdoor runs before dark, or bring a light.`
+      });
+    }
+  }
+
+  return concerns.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+};
+
+/**
+ * Whether the sun is down, when sunrise and sunset are known
+ */
+export const isDarkAt = (weather: Pick<WeatherContext, 'sunrise' | 'sunset'>, now: Date = new Date()): boolean => {
+  if (!weather.sunrise || !weather.sunset) return false;
+  const time = now.getTime();
+  return time < new Date(weather.sunrise).getTime() || time >= new Date(weather.sunset).getTime();
+};
+
+/**
+ * Whether the weather is good for outdoor activities: not raining or snowing,
+ * between 5 and 35°C, wind up to 10 m/s (about 22 mph), and no safety
+ * concern other than UV at "warning" or above
+ */
+export const isOutdoorFriendly = (weather: Omit<WeatherContext, 'isOutdoorFriendly'>, now: Date = new Date()): boolean => {
+  return weather.condition !== 'rainy' &&
+    weather.condition !== 'snowy' &&
+    weather.temperature >= 5 &&
+    weather.temperature <= 35 &&
+    weather.windSpeed <= 10 &&
+    !assessOutdoorSafety(weather, now).some(concern => concern.kind !== 'uv' && isAtLeast(concern.severity, 'warning'));
+};
@@ -0,0 +1,306 @@
+// Recommendation rules engine
+//
+// The rules are DEFAULT_RECOMMENDATION_RULES with the `recommendationRules`
+// collection on top, loaded through remoteCatalog. A rule is a condition over
+// named facts (the hour, goal progress, recent analytics, weather, sleep, the
+// profile) with a templated title and description. evaluateRecommendationRules works out the facts once
+// from a RecommendationContext and is pure, so rules can be checked against
+// fixture contexts without Firestore.
+//
+// A rule that fired recently is held back for its cooldown. When each rule
+// last fired is kept on the user document, as cleanup deletes old unfinished
+// recommendations long before a week-long cooldown runs out.
+
+import { db } from '../app/firebaseConfig';
+import { doc, setDoc } from 'firebase/firestore';
+import {
+  FitnessGoal,
+  FitnessRecommendation,
+  GoalTimeFrame,
+  GoalType,
+  RecommendationCondition,
+  RecommendationFact,
+  RecommendationFactCondition,
+  RecommendationFactValue,
+  RecommendationRule,
+  UserAnalytics,
+  WeatherContext
+} from '../models/FitnessGoalModels';
+import { DEFAULT_RECOMMENDATION_RULES } from './recommendationRules';
+import { createRemoteCatalog } from './remoteCatalog';
+import { MIN_RECOMMENDED_SLEEP_HOURS, SleepSummary } from './sleepService';
+import { formatDate, getDayOfWeek, getHourOfDay } from '../utils/dateUtils';
+// Import the polyfill for UUID
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+const TREND_DAYS = 3; // Days the step trend and recent average look at
+
+const RECOMMENDATION_TYPES: FitnessRecommendation['type'][] = ['exercise', 'nutrition', 'recovery', 'general'];
+const PRIORITIES: FitnessRecommendation['priority'][] = ['low', 'medium', 'high'];
+const OPERATORS: RecommendationFactCondition['op'][] = ['<', '<=', '>', '>=', '==', '!=', 'in', 'exists', 'missing'];
+
+// Everything rules are evaluated against
+export interface RecommendationContext {
+  now: Date;
+  goals: FitnessGoal[];           // Active goals
+  analytics: UserAnalytics[];     // Recent days, oldest first
+  weather: WeatherContext | null; // null while the weather is unknown
+  sleep: SleepSummary;
+  profile: { [field: string]: any };
+}
+
+// When each rule last fired, as ISO times by rule id
+export type RuleFirings = { [ruleId: string]: string };
+
+type FactValues = Partial<Record<RecommendationFact, RecommendationFactValue>>;
+
+type FactResolver = (context: RecommendationContext) => RecommendationFactValue | undefined;
+
+const dailyGoal = (context: RecommendationContext, type: GoalType): FitnessGoal | undefined =>
+  context.goals.find(goal => goal.type === type && goal.timeFrame === GoalTimeFrame.DAILY);
+
+const goalProgress = (goal?: FitnessGoal): number | undefined =>
+  goal && goal.target > 0 ? goal.current / goal.target : undefined;
+
+const recentSteps = (context: RecommendationContext): number[] | undefined =>
+  context.analytics.length >= TREND_DAYS
+    ? context.analytics.slice(-TREND_DAYS).map(day => day.stepCount)
+    : undefined;
+
+const FACT_RESOLVERS: { [fact in RecommendationFact]: FactResolver } = {
+  hour: context => getHourOfDay(context.now),
+  weekday: context => getDayOfWeek(formatDate(context.now)),
+
+  'goals.steps.current': context => dailyGoal(context, GoalType.STEP_COUNT)?.current,
+  'goals.steps.target': context => dailyGoal(context, GoalType.STEP_COUNT)?.target,
+  'goals.steps.progress': context => goalProgress(dailyGoal(context, GoalType.STEP_COUNT)),
+  'goals.steps.remaining': context => {
+    const goal = dailyGoal(context, GoalType.STEP_COUNT);
+    return goal ? Math.max(0, goal.target - goal.current) : undefined;
+  },
+  'goals.calories.current': context => dailyGoal(context, GoalType.CALORIE_INTAKE)?.current,
+  'goals.calories.target': context => dailyGoal(context, GoalType.CALORIE_INTAKE)?.target,
+  'goals.calories.progress': context => goalProgress(dailyGoal(context, GoalType.CALORIE_INTAKE)),
+
+  'analytics.days': context => context.analytics.length,
+  'analytics.recentAverageSteps': context => {
+    const steps = recentSteps(context);
+    return steps ? steps.reduce((sum, value) => sum + value, 0) / steps.length : undefined;
+  },
+  'analytics.stepsFalling': context => {
+    const steps = recentSteps(context);
+    return steps ? steps.every((value, index) => index === 0 || value < steps[index - 1]) : undefined;
+  },
+  'analytics.deficitDays': context => context.analytics.filter(day => day.calorieDifference > 0).length,
+
+  'weather.condition': context => context.weather?.condition,
+  'weather.temperature': context => context.weather?.temperature,
+  'weather.feelsLike': context => context.weather ? context.weather.feelsLike ?? context.weather.temperature : undefined,
+  'weather.outdoorFriendly': context => context.weather?.isOutdoorFriendly,
+
+  'sleep.nights': context => context.sleep.nights,
+  'sleep.averageHours': context => context.sleep.averageHours ?? undefined,
+  'sleep.averageQuality': context => context.sleep.averageQuality ?? undefined,
+  'sleep.lastNightHours': context => context.sleep.lastNight?.hours,
+  'sleep.debt': context => context.sleep.sleepDebt,
+  'sleep.recommendedHours': () => MIN_RECOMMENDED_SLEEP_HOURS,
+  'sleep.short': context =>
+    context.sleep.averageHours !== null ? context.sleep.averageHours < MIN_RECOMMENDED_SLEEP_HOURS : undefined,
+
+  'profile.fitnessGoal': context => context.profile.fitnessGoal || undefined
+};
+
+const TEMPLATE_PATTERN = /\{([\w.]+)\}/g;
+
+const isFact = (name: unknown): name is RecommendationFact =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(FACT_RESOLVERS, name);
+
+const isFactCondition = (condition: RecommendationCondition): condition is RecommendationFactCondition =>
+  'fact' in condition;
+
+/**
+ * Work out every fact for a context
+ */
+export const resolveFacts = (context: RecommendationContext): FactValues => {
+  const facts: FactValues = {};
+  (Object.keys(FACT_RESOLVERS) as RecommendationFact[]).forEach(fact => {
+    const value = FACT_RESOLVERS[fact](context);
+    if (value !== undefined && value !== null) facts[fact] = value;
+  });
+  return facts;
+};
+
+/**
+ * Whether a condition holds. Comparisons against a missing fact are false,
+ * so only `missing` (and `not`) can match one.
+ */
+export const evaluateCondition = (condition: RecommendationCondition, facts: FactValues): boolean => {
+  if ('all' in condition) return condition.all.every(child => evaluateCondition(child, facts));
+  if ('any' in condition) return condition.any.some(child => evaluateCondition(child, facts));
+  if ('not' in condition) return !evaluateCondition(condition.not, facts);
+
+  const actual = facts[condition.fact];
+  if (condition.op === 'missing') return actual === undefined;
+  if (actual === undefined) return false;
+
+  const expected = condition.value;
+  switch (condition.op) {
+    case 'exists':
+      return true;
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    default:
+      if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+      if (condition.op === '<') return actual < expected;
+      if (condition.op === '<=') return actual <= expected;
+      if (condition.op === '>') return actual > expected;
+      return actual >= expected;
+  }
+};
+
+const formatFact = (value: RecommendationFactValue): string => {
+  if (typeof value !== 'number') return String(value);
+  return Number.isInteger(value) ? value.toLocaleString() : String(Math.round(value * 10) / 10);
+};
+
+/**
+ * Replace `{fact}` placeholders with the facts' values
+ * @returns The text, or null when it names a missing fact
+ */
+export const fillTemplate = (text: string, facts: FactValues): string | null => {
+  let complete = true;
+  const filled = text.replace(TEMPLATE_PATTERN, (placeholder, name: string) => {
+    const value = isFact(name) ? facts[name] : undefined;
+    if (value === undefined) {
+      complete = false;
+      return placeholder;
+    }
+    return formatFact(value);
+  });
+  return complete ? filled : null;
+};
+
+const isValidCondition = (condition: any): boolean => {
+  if (!condition || typeof condition !== 'object') return false;
+  if ('all' in condition) return Array.isArray(condition.all) && condition.all.every(isValidCondition);
+  if ('any' in condition) return Array.isArray(condition.any) && condition.any.every(isValidCondition);
+  if ('not' in condition) return isValidCondition(condition.not);
+  return isFact(condition.fact) && OPERATORS.includes(condition.op);
+};
+
+/**
+ * Check a catalog entry can be evaluated
+ * @returns An error message, or null if the rule is valid
+ */
+export const validateRecommendationRule = (rule: RecommendationRule): string | null => {
+  if (!rule.id || !rule.title || !rule.description) return 'Recommendation rule needs an id, a title and a description';
+  if (!RECOMMENDATION_TYPES.includes(rule.type)) return `Recommendation rule ${rule.id} has an unknown type`;
+  if (!PRIORITIES.includes(rule.priority)) return `Recommendation rule ${rule.id} has an unknown priority`;
+  if (!isValidCondition(rule.when)) return `Recommendation rule ${rule.id} has an unknown condition`;
+
+  const unknownFact = [...`${rule.title} ${rule.description}`.matchAll(TEMPLATE_PATTERN)]
+    .map(match => match[1])
+    .find(name => !isFact(name));
+  return unknownFact ? `Recommendation rule ${rule.id} uses unknown fact {${unknownFact}}` : null;
+};
+
+/**
+ * Built-in rules merged with the remote catalog
+ * @param refresh - Skip the cache
+ */
+export const getRecommendationRules = createRemoteCatalog<RecommendationRule>({
+  collectionName: 'recommendationRules',
+  defaults: DEFAULT_RECOMMENDATION_RULES,
+  validate: validateRecommendationRule,
+  label: 'recommendation rules'
+});
+
+/**
+ * Whether a rule is still cooling down from when it last fired
+ */
+const isCoolingDown = (rule: RecommendationRule, firings: RuleFirings, now: Date): boolean => {
+  const lastFired = firings[rule.id];
+  if (!rule.cooldownHours || !lastFired) return false;
+  return now.getTime() - new Date(lastFired).getTime() < rule.cooldownHours * 60 * 60 * 1000;
+};
+
+/**
+ * Recommendations from the rules whose conditions hold, in rule order.
+ * Rules cooling down, and rules whose text needs a missing fact, are skipped.
+ * @param userId - Recommendation owner
+ * @param rules - Rules to evaluate
+ * @param context - Data the facts come from
+ * @param firings - When each rule last fired
+ */
+export const evaluateRecommendationRules = (
+  userId: string,
+  rules: RecommendationRule[],
+  context: RecommendationContext,
+  firings: RuleFirings = {}
+): FitnessRecommendation[] => {
+  const facts = resolveFacts(context);
+  const createdAt = context.now.toISOString();
+  const recommendations: FitnessRecommendation[] = [];
+
+  rules.forEach(rule => {
+    if (rule.disabled || isCoolingDown(rule, firings, context.now)) return;
+    if (!evaluateCondition(rule.when, facts)) return;
+
+    const title = fillTemplate(rule.title, facts);
+    const description = fillTemplate(rule.description, facts);
+    if (title === null || description === null) return;
+
+    const recommendation: FitnessRecommendation = {
+      id: uuidv4(),
+      userId,
+      title,
+      description,
+      type: rule.type,
+      priority: rule.priority,
+      createdAt,
+      completed: false,
+      ruleId: rule.id
+    };
+
+    if (rule.expiresInHours) {
+      recommendation.expiresAt = new Date(context.now.getTime() + rule.expiresInHours * 60 * 60 * 1000).toISOString();
+    }
+    if (rule.weatherDependent && context.weather) {
+      recommendation.weatherDependent = true;
+      recommendation.idealWeatherCondition = context.weather.condition;
+    }
+    if (rule.idealTimeOfDay) {
+      recommendation.timeOfDayDependent = true;
+      recommendation.idealTimeOfDay = rule.idealTimeOfDay;
+    }
+    if (rule.severity) recommendation.severity = rule.severity;
+
+    recommendations.push(recommendation);
+  });
+
+  return recommendations;
+};
+
+/**
+ * Remember when the rules behind some recommendations fired, for cooldowns
+ * @param userId - Recommendation owner
+ * @param recommendations - Recommendations just saved
+ */
+export const recordRuleFirings = async (userId: string, recommendations: FitnessRecommendation[]): Promise<void> => {
+  const firings: RuleFirings = {};
+  recommendations.forEach(recommendation => {
+    if (recommendation.ruleId) firings[recommendation.ruleId] = recommendation.createdAt;
+  });
+  if (Object.keys(firings).length === 0) return;
+
+  try {
+    await setDoc(doc(db, 'users', userId), { recommendationRuleFirings: firings }, { merge: true });
+  } catch (error) {
+    console.error('Error recording recommendation rule firings:', error);
+  }
+};
@@ -0,0 +1,340 @@
+// Built-in recommendation rules
+//
+// Entries in the `recommendationRules` collection with the same id replace
+// these, and new ids add to them. Rules that used to pick their wording or
+// priority inside one branch are split in two with opposite conditions.
+
+import { RecommendationCondition, RecommendationRule } from '../models/FitnessGoalModels';
+
+const between = (fact: 'hour', from: number, to: number): RecommendationCondition => ({
+  all: [
+    { fact, op: '>=', value: from },
+    { fact, op: '<=', value: to }
+  ]
+});
+
+const outdoorFriendly: RecommendationCondition = { fact: 'weather.outdoorFriendly', op: '==', value: true };
+
+const MORNING = between('hour', 6, 10);
+const AFTERNOON = between('hour', 12, 17);
+const EVENING = between('hour', 18, 21);
+
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRule[] = [
+  // Steps
+  {
+    id: 'steps-behind',
+    title: 'You\'re behind on steps today',
+    description: 'You\'ve taken {goals.steps.current} steps out of your goal of {goals.steps.target}. Take a 15-minute walk to catch up!',
+    type: 'exercise',
+    priority: 'high',
+    when: {
+      all: [
+        { fact: 'goals.steps.progress', op: '<', value: 0.5 },
+        { fact: 'hour', op: '>=', value: 12 }
+      ]
+    },
+    expiresInHours: 12,
+    cooldownHours: 12,
+    weatherDependent: true
+  },
+  {
+    id: 'steps-almost-there',
+    title: 'Almost there!',
+    description: 'Only {goals.steps.remaining} more steps to reach your daily goal. A quick 5-minute walk should do it!',
+    type: 'exercise',
+    priority: 'medium',
+    when: {
+      all: [
+        { fact: 'goals.steps.progress', op: '>=', value: 0.8 },
+        { fact: 'goals.steps.progress', op: '<', value: 1 }
+      ]
+    },
+    expiresInHours: 12,
+    cooldownHours: 12
+  },
+  {
+    id: 'steps-falling',
+    title: 'Step count decreasing',
+    description: 'Your daily steps have been decreasing. Try to incorporate more walking into your routine.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { fact: 'analytics.stepsFalling', op: '==', value: true },
+    cooldownHours: 72
+  },
+
+  // Nutrition
+  {
+    id: 'calories-over',
+    title: 'Calorie alert',
+    description: 'You\'ve consumed {goals.calories.current} calories, which is above your daily target of {goals.calories.target}. Try to have a lighter dinner.',
+    type: 'nutrition',
+    priority: 'high',
+    when: { fact: 'goals.calories.progress', op: '>', value: 1 },
+    expiresInHours: 12,
+    cooldownHours: 12
+  },
+  {
+    id: 'calories-under',
+    title: 'Nutrition check',
+    description: 'You\'ve only consumed {goals.calories.current} calories today. Make sure you\'re eating enough to fuel your activities.',
+    type: 'nutrition',
+    priority: 'medium',
+    when: {
+      all: [
+        { fact: 'goals.calories.progress', op: '<', value: 0.5 },
+        { fact: 'hour', op: '>=', value: 17 }
+      ]
+    },
+    expiresInHours: 6,
+    cooldownHours: 12
+  },
+  {
+    id: 'deficit-streak',
+    title: 'Great work!',
+    description: 'You\'ve maintained a calorie deficit for {analytics.deficitDays} days. Keep up the good work!',
+    type: 'nutrition',
+    priority: 'low',
+    when: {
+      all: [
+        { fact: 'profile.fitnessGoal', op: '==', value: 'weightLoss' },
+        { fact: 'analytics.deficitDays', op: '>=', value: 5 }
+      ]
+    },
+    cooldownHours: 168
+  },
+
+  // Weather
+  {
+    id: 'weather-perfect',
+    title: 'Perfect weather for activity!',
+    description: 'It\'s a beautiful {weather.temperature}°C outside with {weather.condition} conditions. Take advantage with a walk or outdoor activity.',
+    type: 'exercise',
+    priority: 'high',
+    when: {
+      all: [
+        outdoorFriendly,
+        { fact: 'weather.condition', op: '==', value: 'sunny' },
+        { fact: 'weather.temperature', op: '>', value: 20 }
+      ]
+    },
+    expiresInHours: 6,
+    cooldownHours: 6,
+    weatherDependent: true
+  },
+  {
+    id: 'weather-good',
+    title: 'Good conditions for exercise',
+    description: 'It\'s {weather.temperature}°C with cloudy skies - perfect weather for a run without overheating.',
+    type: 'exercise',
+    priority: 'medium',
+    when: {
+      all: [
+        outdoorFriendly,
+        { fact: 'weather.condition', op: '==', value: 'cloudy' },
+        { fact: 'weather.temperature', op: '>', value: 15 }
+      ]
+    },
+    expiresInHours: 6,
+    cooldownHours: 6,
+    weatherDependent: true
+  },
+  {
+    id: 'weather-rainy',
+    title: 'Rainy day workout',
+    description: 'It\'s rainy outside ({weather.temperature}°C). Try an indoor workout like yoga or strength training.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { fact: 'weather.condition', op: '==', value: 'rainy' },
+    expiresInHours: 6,
+    cooldownHours: 6,
+    weatherDependent: true
+  },
+
+  // Time of day
+  {
+    id: 'morning-boost',
+    title: 'Morning boost',
+    description: 'It\'s a {weather.condition} morning at {weather.temperature}°C! Start your day with a brisk 10-minute walk to boost your energy.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { all: [MORNING, outdoorFriendly] },
+    expiresInHours: 4,
+    cooldownHours: 12,
+    weatherDependent: true,
+    idealTimeOfDay: 'morning'
+  },
+  {
+    id: 'morning-indoor',
+    title: 'Indoor morning routine',
+    description: 'Weather conditions ({weather.condition}, {weather.temperature}°C) aren\'t ideal. Start your day with a 5-minute indoor stretching routine.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { all: [MORNING, { fact: 'weather.outdoorFriendly', op: '==', value: false }] },
+    expiresInHours: 4,
+    cooldownHours: 12,
+    weatherDependent: true,
+    idealTimeOfDay: 'morning'
+  },
+  {
+    id: 'morning-routine',
+    title: 'Indoor morning routine',
+    description: 'Start your day with a 5-minute indoor stretching routine.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { all: [MORNING, { fact: 'weather.outdoorFriendly', op: 'missing' }] },
+    expiresInHours: 4,
+    cooldownHours: 12,
+    idealTimeOfDay: 'morning'
+  },
+  {
+    id: 'afternoon-break',
+    title: 'Afternoon break',
+    description: 'Take a break from your activities with a 15-minute walk outside ({weather.temperature}°C, {weather.condition}) to refresh your mind.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { all: [AFTERNOON, outdoorFriendly, { fact: 'weather.temperature', op: '<', value: 28 }] },
+    expiresInHours: 5,
+    cooldownHours: 12,
+    weatherDependent: true,
+    idealTimeOfDay: 'afternoon'
+  },
+  {
+    id: 'afternoon-stretches',
+    title: 'Desk stretches',
+    description: 'Take a 5-minute break to do some simple desk stretches and reduce stiffness.',
+    type: 'exercise',
+    priority: 'low',
+    when: {
+      all: [
+        AFTERNOON,
+        { not: { all: [outdoorFriendly, { fact: 'weather.temperature', op: '<', value: 28 }] } }
+      ]
+    },
+    expiresInHours: 5,
+    cooldownHours: 12,
+    idealTimeOfDay: 'afternoon'
+  },
+  {
+    id: 'evening-stroll',
+    title: 'Evening stroll',
+    description: 'Enjoy the {weather.condition} evening ({weather.temperature}°C) with a relaxing 20-minute walk to wind down your day.',
+    type: 'exercise',
+    priority: 'medium',
+    when: { all: [EVENING, outdoorFriendly] },
+    expiresInHours: 4,
+    cooldownHours: 12,
+    weatherDependent: true,
+    idealTimeOfDay: 'evening'
+  },
+  {
+    id: 'evening-relaxation',
+    title: 'Evening relaxation',
+    description: 'Try a 10-minute gentle yoga routine to relax your body before bed.',
+    type: 'recovery',
+    priority: 'low',
+    when: { all: [EVENING, { not: outdoorFriendly }] },
+    expiresInHours: 4,
+    cooldownHours: 12,
+    idealTimeOfDay: 'evening'
+  },
+
+  // Recovery and sleep
+  {
+    id: 'recovery-day',
+    title: 'Recovery day',
+    description: 'You\'ve been very active lately. Consider taking a recovery day with gentle stretching and adequate hydration.',
+    type: 'recovery',
+    priority: 'medium',
+    when: {
+      all: [
+        { fact: 'analytics.recentAverageSteps', op: '>', value: 10000 },
+        { not: { fact: 'sleep.short', op: '==', value: true } }
+      ]
+    },
+    cooldownHours: 48
+  },
+  {
+    id: 'recovery-day-short-sleep',
+    title: 'Recovery day',
+    description: 'You\'ve been very active lately on only {sleep.averageHours} hours of sleep a night. Take a recovery day with gentle stretching and get to bed early.',
+    type: 'recovery',
+    priority: 'high',
+    when: {
+      all: [
+        { fact: 'analytics.recentAverageSteps', op: '>', value: 10000 },
+        { fact: 'sleep.short', op: '==', value: true }
+      ]
+    },
+    cooldownHours: 48
+  },
+  {
+    // Hard training on little sleep raises the risk of injury
+    id: 'short-night',
+    title: 'Take it easy today',
+    description: 'You slept {sleep.lastNightHours} hours last night. Keep today\'s workout light, like a walk or mobility work, and save hard sessions for after a full night.',
+    type: 'recovery',
+    priority: 'high',
+    when: { fact: 'sleep.lastNightHours', op: '<', value: 6 },
+    expiresInHours: 18,
+    cooldownHours: 18
+  },
+  {
+    id: 'sleep-debt',
+    title: 'Catch up on sleep',
+    description: 'You\'re {sleep.debt} hours short of {sleep.recommendedHours} hours a night this week. Try going to bed 30 minutes earlier for the next few nights.',
+    type: 'recovery',
+    priority: 'medium',
+    when: { fact: 'sleep.debt', op: '>=', value: 5 },
+    cooldownHours: 72
+  },
+  {
+    id: 'sleep-quality',
+    title: 'Sleep better',
+    description: 'Your sleep has been restless lately. Avoid screens and caffeine in the evening, keep your room cool and dark, and finish hard workouts a few hours before bed.',
+    type: 'recovery',
+    priority: 'medium',
+    when: {
+      all: [
+        { fact: 'sleep.nights', op: '>=', value: 3 },
+        { fact: 'sleep.averageQuality', op: '<=', value: 2.5 }
+      ]
+    },
+    cooldownHours: 72
+  },
+  {
+    id: 'hydration',
+    title: 'Hydration reminder',
+    description: 'It\'s {weather.temperature}°C today. Remember to stay well-hydrated, especially if you\'re exercising.',
+    type: 'recovery',
+    priority: 'medium',
+    when: {
+      all: [
+        { fact: 'weather.temperature', op: '>', value: 25 },
+        { fact: 'weather.temperature', op: '<=', value: 30 }
+      ]
+    },
+    expiresInHours: 12,
+    cooldownHours: 12,
+    weatherDependent: true
+  },
+  {
+    id: 'hydration-hot',
+    title: 'Hydration reminder',
+    description: 'It\'s {weather.temperature}°C today. Remember to stay well-hydrated, especially if you\'re exercising.',
+    type: 'recovery',
+    priority: 'high',
+    when: { fact: 'weather.temperature', op: '>', value: 30 },
+    expiresInHours: 12,
+    cooldownHours: 12,
+    weatherDependent: true
+  },
+  {
+    id: 'weekend-recovery',
+    title: 'Weekend recovery',
+    description: 'Take some time this weekend for recovery activities like gentle stretching, adequate hydration, and quality sleep.',
+    type: 'recovery',
+    priority: 'low',
+    when: { fact: 'weekday', op: 'in', value: [0, 6] },
+    cooldownHours: 48
+  }
+];
@@ -0,0 +1,66 @@
+// Remote catalogs
+//
+// Achievements and recommendation rules are data: a built-in list ships with
+// the app, and documents in a Firestore collection add to it or replace
+// entries by id, so new entries need no release. Remote entries are validated
+// before they are used, invalid ones are skipped with a warning, and entries
+// marked disabled (built-in ones included, when replaced) are left out. The
+// merged catalog is cached for an hour, and the built-in list is used alone
+// while Firestore cannot be read.
+
+import { db } from '../app/firebaseConfig';
+import { collection, getDocs } from 'firebase/firestore';
+
+const CATALOG_CACHE_MINUTES = 60;
+
+// What every catalog entry has
+export interface CatalogEntry {
+  id: string;
+  disabled?: boolean;
+}
+
+export interface RemoteCatalogOptions<T extends CatalogEntry> {
+  collectionName: string;
+  defaults: T[];
+  // Returns an error message, or null if the entry can be used
+  validate: (entry: T) => string | null;
+  label: string; // What the catalog holds, for log messages
+}
+
+/**
+ * Create a loader for a catalog merged from built-in and remote entries
+ * @returns A function resolving to the enabled entries; pass true to skip the cache
+ */
+export const createRemoteCatalog = <T extends CatalogEntry>(
+  options: RemoteCatalogOptions<T>
+): ((refresh?: boolean) => Promise<T[]>) => {
+  let cached: { entries: T[]; loadedAt: number } | null = null;
+
+  return async (refresh = false) => {
+    if (!refresh && cached && Date.now() - cached.loadedAt < CATALOG_CACHE_MINUTES * 60 * 1000) {
+      return cached.entries;
+    }
+
+    const entries = new Map(options.defaults.map(entry => [entry.id, entry]));
+
+    try {
+      const querySnapshot = await getDocs(collection(db, options.collectionName));
+      querySnapshot.forEach(snapshot => {
+        const entry = { id: snapshot.id, ...snapshot.data() } as T;
+        const validationError = entry.disabled ? null : options.validate(entry);
+
+        if (validationError) {
+          console.warn(`Skipping ${options.label} entry: ${validationError}`);
+        } else {
+          entries.set(entry.id, entry);
+        }
+      });
+    } catch (error) {
+      console.warn(`Using the built-in ${options.label} only:`, error);
+    }
+
+    const catalog = [...entries.values()].filter(entry => !entry.disabled);
+    cached = { entries: catalog, loadedAt: Date.now() };
+    return catalog;
+  };
+};
@@ -0,0 +1,227 @@
+// Sensor recordings
+//
+// A recording stores the raw 6-axis samples streamed by sensorService along
+// with the windowing parameters, so the exact windows seen on the phone can be
+// rebuilt and replayed through the step detection pipeline (e.g. from Jest)
+// without a device. Recordings are saved as JSON or CSV.
+
+import { SensorWindow, StepDetectionPipeline, StepDetectionContext } from './stepDetectionPipeline';
+
+export const SENSOR_RECORDING_VERSION = 1;
+
+// [t, ax, ay, az, gx, gy, gz] where t is ms since the recording started
+export type RecordedSample = [number, number, number, number, number, number, number];
+
+export interface SensorRecordingMetadata {
+  label?: string;            // e.g. "brisk walk, phone in front pocket"
+  device?: string;
+  placement?: string;        // pocket, hand, bag, ...
+  actualSteps?: number;      // Steps counted by hand, for regression checks
+}
+
+export interface SensorRecording extends SensorRecordingMetadata {
+  version: number;
+  recordedAt: string;        // ISO timestamp of the first sample
+  sampleIntervalMs: number;
+  windowSize: number;
+  stepSize: number;          // Samples the window slides by
+  samples: RecordedSample[];
+}
+
+export interface ReplayWindow {
+  window: SensorWindow;
+  timestamp: number; // ms since the recording started
+}
+
+export interface ReplayResult {
+  steps: number;
+  stepTimestamps: number[];
+  windows: StepDetectionContext[];
+}
+
+const CSV_COLUMNS = ['t', 'ax', 'ay', 'az', 'gx', 'gy', 'gz'];
+
+/**
+ * Collects samples into a recording while sensorService is running
+ */
+export class SensorRecorder {
+  private recording: SensorRecording | null = null;
+  private startTime = 0;
+
+  constructor(
+    private sampleIntervalMs: number,
+    private windowSize: number,
+    private stepSize: number
+  ) {}
+
+  start(metadata: SensorRecordingMetadata = {}): void {
+    this.startTime = Date.now();
+    this.recording = {
+      ...metadata,
+      version: SENSOR_RECORDING_VERSION,
+      recordedAt: new Date(this.startTime).toISOString(),
+      sampleIntervalMs: this.sampleIntervalMs,
+      windowSize: this.windowSize,
+      stepSize: this.stepSize,
+      samples: []
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  addSample(sample: number[], timestamp: number = Date.now()): void {
+    if (!this.recording) return;
+    this.recording.samples.push([timestamp - this.startTime, ...sample] as RecordedSample);
+  }
+
+  stop(): SensorRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+}
+
+/**
+ * Rebuild the sliding windows sensorService would have emitted
+ * @param recording - Recording to split
+ * @returns Windows with the timestamp of their last sample
+ */
+export const getRecordingWindows = (recording: SensorRecording): ReplayWindow[] => {
+  const windows: ReplayWindow[] = [];
+  let buffer: RecordedSample[] = [];
+
+  recording.samples.forEach(sample => {
+    buffer.push(sample);
+
+    if (buffer.length >= recording.windowSize) {
+      const window = buffer.slice(0, recording.windowSize);
+      windows.push({
+        window: window.map(([, ...values]) => values),
+        timestamp: window[window.length - 1][0]
+      });
+
+      buffer = recording.stepSize < recording.windowSize ? buffer.slice(recording.stepSize) : [];
+    }
+  });
+
+  return windows;
+};
+
+/**
+ * Run a recording through a step detection pipeline
+ * @param recording - Recording to replay
+ * @param pipeline - Pipeline to test; it is reset before the replay
+ * @param windows - The recording's windows, when already built for an earlier replay
+ * @returns Detected steps and the per-window pipeline output
+ */
+export const replayRecording = async (
+  recording: SensorRecording,
+  pipeline: StepDetectionPipeline,
+  windows: ReplayWindow[] = getRecordingWindows(recording)
+): Promise<ReplayResult> => {
+  pipeline.reset();
+
+  const result: ReplayResult = { steps: 0, stepTimestamps: [], windows: [] };
+
+  for (const { window, timestamp } of windows) {
+    const context = await pipeline.process(window, timestamp);
+    result.windows.push(context);
+
+    if (context.stepDetected) {
+      result.steps++;
+      result.stepTimestamps.push(timestamp);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Serialise a recording to JSON
+ */
+export const recordingToJSON = (recording: SensorRecording): string => {
+  return JSON.stringify(recording);
+};
+
+/**
+ * Parse a JSON recording, checking it is a version we understand
+ */
+export const recordingFromJSON = (json: string): SensorRecording => {
+  const recording = JSON.parse(json) as SensorRecording;
+  validateRecording(recording);
+  return recording;
+};
+
+/**
+ * Serialise a recording to CSV. Metadata goes in leading "# key: value"
+ * comment lines, followed by one row per sample.
+ */
+export const recordingToCSV = (recording: SensorRecording): string => {
+  const { samples, ...metadata } = recording;
+
+  const header = Object.entries(metadata)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `# ${key}: ${value}`);
+
+  const rows = samples.map(sample => sample.join(','));
+
+  return [...header, CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * Parse a CSV recording written by recordingToCSV
+ */
+export const recordingFromCSV = (csv: string): SensorRecording => {
+  const metadata: { [key: string]: string } = {};
+  const samples: RecordedSample[] = [];
+
+  csv.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    if (trimmed.startsWith('#')) {
+      const separator = trimmed.indexOf(':');
+      if (separator > 0) {
+        metadata[trimmed.slice(1, separator).trim()] = trimmed.slice(separator + 1).trim();
+      }
+      return;
+    }
+
+    if (trimmed === CSV_COLUMNS.join(',')) return;
+
+    samples.push(trimmed.split(',').map(Number) as RecordedSample);
+  });
+
+  const recording: SensorRecording = {
+    version: Number(metadata.version),
+    recordedAt: metadata.recordedAt,
+    sampleIntervalMs: Number(metadata.sampleIntervalMs),
+    windowSize: Number(metadata.windowSize),
+    stepSize: Number(metadata.stepSize),
+    label: metadata.label,
+    device: metadata.device,
+    placement: metadata.placement,
+    actualSteps: metadata.actualSteps !== undefined ? Number(metadata.actualSteps) : undefined,
+    samples
+  };
+
+  validateRecording(recording);
+  return recording;
+};
+
+const validateRecording = (recording: SensorRecording): void => {
+  if (recording.version !== SENSOR_RECORDING_VERSION) {
+    throw new Error(`Unsupported sensor recording version: ${recording.version}`);
+  }
+
+  if (!(recording.windowSize > 0) || !(recording.stepSize > 0)) {
+    throw new Error('Sensor recording is missing its window settings');
+  }
+
+  if (!Array.isArray(recording.samples) ||
+      recording.samples.some(sample => sample.length !== CSV_COLUMNS.length || sample.some(isNaN))) {
+    throw new Error('Sensor recording has malformed samples');
+  }
+};
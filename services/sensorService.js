@@ -1,5 +1,6 @@
 //sensorService.js
 import { Accelerometer, Gyroscope } from 'expo-sensors';
+import { SensorRecorder } from './sensorRecording';
 
 class SensorService {
   constructor() {
@@ -17,15 +18,43 @@ class SensorService {
     
     // Callbacks
     this.onWindowComplete = null;
+    this.onMotionMinute = null;
+
+    // Movement in the current minute, for sleep inference
+    this.motionMinute = null;
     
     // Debug counter
     this.dataPointCounter = 0;
+
+    // Optional capture of raw samples for offline replay
+    this.recorder = new SensorRecorder(this.sensorUpdateInterval, this.windowSize, this.stepSize);
   }
 
+  // Callback receives (window, timestamp) for every completed window
   setWindowCompleteCallback(callback) {
     this.onWindowComplete = callback;
   }
 
+  // Callback receives { start, movement } as each minute ends
+  setMotionMinuteCallback(callback) {
+    this.onMotionMinute = callback;
+  }
+
+  // Start capturing raw samples; metadata is stored with the recording
+  startRecording(metadata = {}) {
+    this.recorder.start(metadata);
+    console.log('Sensor recording started');
+  }
+
+  // Stop capturing and return the recording (null if none was running)
+  stopRecording() {
+    const recording = this.recorder.stop();
+    if (recording) {
+      console.log(`Sensor recording stopped with ${recording.samples.length} samples`);
+    }
+    return recording;
+  }
+
   async start() {
     if (this.isCollecting) return;
     
@@ -80,6 +109,7 @@ class SensorService {
     
     this.isCollecting = false;
     this.dataBuffer = [];
+    this.motionMinute = null;
     console.log('Sensor collection stopped');
   }
 
@@ -94,9 +124,17 @@ class SensorService {
       this.gyroscopeData.z
     ];
     
+    const timestamp = Date.now();
+
     // Add to buffer
     this.dataBuffer.push(combinedData);
     this.dataPointCounter++;
+
+    if (this.recorder.isRecording()) {
+      this.recorder.addSample(combinedData, timestamp);
+    }
+
+    this._trackMotion(timestamp);
     
     // Log data points collected occasionally
     if (this.dataPointCounter % 20 === 0) {
@@ -111,7 +149,7 @@ class SensorService {
       // Call callback with the window
       if (this.onWindowComplete && typeof this.onWindowComplete === 'function') {
         console.log('Window complete, calling prediction callback');
-        this.onWindowComplete(window);
+        this.onWindowComplete(window, timestamp);
       }
       
       // Apply step size (sliding window)
@@ -122,6 +160,29 @@ class SensorService {
       }
     }
   }
+
+  // Average how far the acceleration is from 1 g over each minute
+  _trackMotion(timestamp) {
+    const { x, y, z } = this.accelerometerData;
+    const movement = Math.abs(Math.sqrt(x * x + y * y + z * z) - 1);
+    const minuteStart = Math.floor(timestamp / 60000) * 60000;
+
+    if (this.motionMinute && this.motionMinute.start !== minuteStart) {
+      if (this.onMotionMinute && typeof this.onMotionMinute === 'function') {
+        this.onMotionMinute({
+          start: this.motionMinute.start,
+          movement: this.motionMinute.total / this.motionMinute.count
+        });
+      }
+      this.motionMinute = null;
+    }
+
+    if (!this.motionMinute) {
+      this.motionMinute = { start: minuteStart, total: 0, count: 0 };
+    }
+    this.motionMinute.total += movement;
+    this.motionMinute.count++;
+  }
 }
 
 export default new SensorService();
\ No newline at end of file
@@ -0,0 +1,365 @@
+// Sleep tracking
+//
+// Nights are kept in the `sleepLogs` collection, one document per user and
+// wake-up day (`${userId}_${date}`), so a night counts towards the day the
+// user wakes up on. Nights are logged by hand, or inferred from the phone
+// lying still overnight while the sensors are running: sensorService reports
+// how much the phone moved in each minute, and the longest still stretch of
+// the night is taken as sleep. A night logged by hand always wins over an
+// inferred one.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth, db } from '../app/firebaseConfig';
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, where } from 'firebase/firestore';
+import { addDays, formatDate, getCurrentDate, zonedTimeToDate } from '../utils/dateUtils';
+import { setSleepOnSummary } from './dailySummaryService';
+
+const MOTION_STORAGE_KEY = '@fitnessWarrior/motionMinutes';
+const MOTION_KEEP_HOURS = 36;
+const MOTION_FLUSH_MINUTES = 15;    // Minutes buffered in memory before writing to storage
+
+export const MIN_RECOMMENDED_SLEEP_HOURS = 7;
+export const MAX_RECOMMENDED_SLEEP_HOURS = 9;
+const MAX_SLEEP_HOURS = 16;         // Longer entries are treated as mistakes
+
+// Sleep inference
+const STILL_MOVEMENT = 0.02;        // g; average movement below this is a still minute
+const MAX_RESTLESS_MINUTES = 10;    // Movement this short does not end a night
+const MAX_GAP_MINUTES = 15;         // Missing sensor data this long ends a still stretch
+const MIN_INFERRED_HOURS = 3;
+const NIGHT_WINDOW_START_HOUR = 18; // Evening before the wake-up day
+const NIGHT_WINDOW_END_HOUR = 14;   // Afternoon of the wake-up day
+
+export type SleepSource = 'manual' | 'inferred';
+
+export interface SleepLog {
+  userId: string;
+  date: string;       // Day the user woke up, YYYY-MM-DD
+  bedtime: string;    // ISO timestamp
+  wakeTime: string;   // ISO timestamp
+  hours: number;
+  quality: number;    // 1 (poor) to 5 (great)
+  source: SleepSource;
+  recordedAt: string;
+}
+
+export interface SleepInput {
+  bedtime: Date;
+  wakeTime: Date;
+  quality: number;
+}
+
+export interface SleepSummary {
+  nights: number;              // Nights logged in the period
+  averageHours: number | null;
+  averageQuality: number | null;
+  lastNight: SleepLog | null;  // Night ending today, if logged
+  sleepDebt: number;           // Hours short of MIN_RECOMMENDED_SLEEP_HOURS, summed over logged nights
+}
+
+// How much the phone moved during one minute
+export interface MotionMinute {
+  start: number;    // Epoch ms at the start of the minute
+  movement: number; // Average distance of the acceleration from 1 g
+}
+
+export interface InferredSleep {
+  bedtime: Date;
+  wakeTime: Date;
+  hours: number;
+  quality: number;
+}
+
+// A run of still minutes, with the restless minutes inside it
+interface StillStretch {
+  start: number;
+  end: number;
+  restless: number;
+}
+
+const sleepLogId = (userId: string, date: string) => `${userId}_${date}`;
+
+const round = (value: number, decimals: number = 2): number => Number(value.toFixed(decimals));
+
+/**
+ * Check a night before saving it
+ * @returns An error message, or null if the night is valid
+ */
+export const validateSleepInput = (input: SleepInput): string | null => {
+  const hours = (input.wakeTime.getTime() - input.bedtime.getTime()) / 3600000;
+
+  if (isNaN(hours)) return 'Enter a bedtime and a wake-up time';
+  if (hours <= 0) return 'Wake-up time must be after bedtime';
+  if (hours > MAX_SLEEP_HOURS) return `Sleep can be at most ${MAX_SLEEP_HOURS} hours`;
+  if (input.wakeTime.getTime() > Date.now()) return 'Wake-up time cannot be in the future';
+  if (!Number.isInteger(input.quality) || input.quality < 1 || input.quality > 5) return 'Rate your sleep from 1 to 5';
+  return null;
+};
+
+/**
+ * Save a night of sleep for the signed-in user
+ * @param input - Bedtime, wake-up time and quality
+ * @param source - Whether the night was logged by hand or inferred
+ * @returns Promise resolving to the saved night
+ */
+export const logSleep = async (input: SleepInput, source: SleepSource = 'manual'): Promise<SleepLog> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User not logged in');
+  }
+
+  const validationError = validateSleepInput(input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const sleepLog: SleepLog = {
+    userId: user.uid,
+    date: formatDate(input.wakeTime),
+    bedtime: input.bedtime.toISOString(),
+    wakeTime: input.wakeTime.toISOString(),
+    hours: round((input.wakeTime.getTime() - input.bedtime.getTime()) / 3600000),
+    quality: input.quality,
+    source,
+    recordedAt: new Date().toISOString()
+  };
+
+  await setDoc(doc(db, 'sleepLogs', sleepLogId(user.uid, sleepLog.date)), sleepLog);
+  await setSleepOnSummary(user.uid, sleepLog.date, sleepLog);
+  return sleepLog;
+};
+
+/**
+ * Remove the night logged for a wake-up day
+ * @param date - Day the user woke up
+ */
+export const deleteSleepLog = async (date: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User not logged in');
+  }
+
+  await deleteDoc(doc(db, 'sleepLogs', sleepLogId(user.uid, date)));
+  await setSleepOnSummary(user.uid, date, null);
+};
+
+/**
+ * Get a user's nights, oldest first
+ * @param userId - User to read
+ * @param startDate - First wake-up day (inclusive)
+ * @param endDate - Last wake-up day (inclusive)
+ */
+export const getSleepLogs = async (userId: string, startDate: string, endDate: string): Promise<SleepLog[]> => {
+  const sleepQuery = query(
+    collection(db, 'sleepLogs'),
+    where('userId', '==', userId),
+    where('date', '>=', startDate),
+    where('date', '<=', endDate)
+  );
+
+  const querySnapshot = await getDocs(sleepQuery);
+  const logs: SleepLog[] = [];
+
+  querySnapshot.forEach(snapshot => {
+    logs.push(snapshot.data() as SleepLog);
+  });
+
+  return logs.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Average hours slept per logged night
+ * @param userId - User to read
+ * @param startDate - First wake-up day (inclusive)
+ * @param endDate - Last wake-up day (inclusive)
+ * @returns Promise resolving to the hours, or 0 if no nights were logged
+ */
+export const getAverageSleepHours = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const logs = await getSleepLogs(userId, startDate, endDate);
+  if (logs.length === 0) return 0;
+
+  return round(logs.reduce((sum, log) => sum + log.hours, 0) / logs.length, 1);
+};
+
+/**
+ * Summarize the user's sleep over recent nights
+ * @param userId - User to read
+ * @param days - Wake-up days to look back over, including today
+ */
+export const getSleepSummary = async (userId: string, days: number = 7): Promise<SleepSummary> => {
+  const today = getCurrentDate();
+
+  try {
+    const logs = await getSleepLogs(userId, addDays(today, -(days - 1)), today);
+    const nights = logs.length;
+
+    return {
+      nights,
+      averageHours: nights ? round(logs.reduce((sum, log) => sum + log.hours, 0) / nights, 1) : null,
+      averageQuality: nights ? round(logs.reduce((sum, log) => sum + log.quality, 0) / nights, 1) : null,
+      lastNight: logs.find(log => log.date === today) || null,
+      sleepDebt: round(logs.reduce((sum, log) => sum + Math.max(0, MIN_RECOMMENDED_SLEEP_HOURS - log.hours), 0), 1)
+    };
+  } catch (error) {
+    console.error('Error getting sleep summary:', error);
+    return { nights: 0, averageHours: null, averageQuality: null, lastNight: null, sleepDebt: 0 };
+  }
+};
+
+/**
+ * Rate a still stretch from how often the phone moved during it
+ * @param restlessShare - Share of the minutes with movement
+ */
+export const estimateSleepQuality = (restlessShare: number): number => {
+  if (restlessShare < 0.02) return 5;
+  if (restlessShare < 0.05) return 4;
+  if (restlessShare < 0.1) return 3;
+  if (restlessShare < 0.2) return 2;
+  return 1;
+};
+
+/**
+ * Find the night's sleep in per-minute movement. Sleep is the longest still
+ * stretch between the evening before the wake-up day and its afternoon, with
+ * short restless spells allowed. A stretch still running at the last minute
+ * recorded is skipped, since the user may not be up yet, and while it is the
+ * longest no night is inferred.
+ * @param minutes - Movement per minute
+ * @param wakeDate - Day the user woke up
+ * @returns The night, or null if no stretch was long enough
+ */
+export const inferSleepFromMotion = (minutes: MotionMinute[], wakeDate: string): InferredSleep | null => {
+  const windowStart = zonedTimeToDate(addDays(wakeDate, -1)).getTime() + NIGHT_WINDOW_START_HOUR * 3600000;
+  const windowEnd = zonedTimeToDate(wakeDate).getTime() + NIGHT_WINDOW_END_HOUR * 3600000;
+  const night = minutes
+    .filter(minute => minute.start >= windowStart && minute.start < windowEnd)
+    .sort((a, b) => a.start - b.start);
+  if (night.length === 0) return null;
+
+  let best: StillStretch | null = null;
+  let current: StillStretch | null = null;
+  let restlessRun = 0;
+  let previousStart = 0;
+
+  const closeStretch = (stretch: StillStretch | null) => {
+    if (stretch && (!best || stretch.end - stretch.start > best.end - best.start)) {
+      best = stretch;
+    }
+    restlessRun = 0;
+    return null;
+  };
+
+  for (const minute of night) {
+    if (current && minute.start - previousStart > MAX_GAP_MINUTES * 60000) {
+      current = closeStretch(current);
+    }
+    previousStart = minute.start;
+
+    if (minute.movement < STILL_MOVEMENT) {
+      if (current) {
+        current.restless += restlessRun;
+        current.end = minute.start + 60000;
+      } else {
+        current = { start: minute.start, end: minute.start + 60000, restless: 0 };
+      }
+      restlessRun = 0;
+    } else if (current) {
+      restlessRun++;
+      if (restlessRun > MAX_RESTLESS_MINUTES) current = closeStretch(current);
+    }
+  }
+
+  if (current && restlessRun === 0) {
+    // Still lying still at the last reading, so the night may not be over. If
+    // it is already the longest stretch, anything earlier was only a nap.
+    const open: StillStretch = current;
+    const longest = best as StillStretch | null;
+    if (!longest || open.end - open.start > longest.end - longest.start) return null;
+  } else {
+    closeStretch(current);
+  }
+
+  const found = best as StillStretch | null;
+  if (!found) return null;
+
+  const { start, end, restless } = found;
+  const hours = (end - start) / 3600000;
+  if (hours < MIN_INFERRED_HOURS) return null;
+
+  return {
+    bedtime: new Date(start),
+    wakeTime: new Date(end),
+    hours: round(hours),
+    quality: estimateSleepQuality(restless / ((end - start) / 60000))
+  };
+};
+
+let pendingMotion: MotionMinute[] = [];
+
+const readMotionLog = async (): Promise<MotionMinute[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(MOTION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading motion log:', error);
+    return [];
+  }
+};
+
+/**
+ * Write buffered movement to storage, dropping minutes too old to matter
+ */
+export const flushMotionLog = async (): Promise<void> => {
+  if (pendingMotion.length === 0) return;
+
+  const minutes = pendingMotion;
+  pendingMotion = [];
+
+  try {
+    const cutoff = Date.now() - MOTION_KEEP_HOURS * 3600000;
+    const stored = await readMotionLog();
+    const merged = [...stored, ...minutes].filter(minute => minute.start >= cutoff);
+    await AsyncStorage.setItem(MOTION_STORAGE_KEY, JSON.stringify(merged));
+  } catch (error) {
+    console.error('Error saving motion log:', error);
+  }
+};
+
+/**
+ * Keep a minute of movement from the sensors for sleep inference
+ */
+export const recordMotionMinute = (minute: MotionMinute): void => {
+  pendingMotion.push(minute);
+
+  if (pendingMotion.length >= MOTION_FLUSH_MINUTES) {
+    flushMotionLog().catch(error => console.warn('Motion log flush failed:', error));
+  }
+};
+
+/**
+ * Infer last night's sleep from stored movement, unless the night has
+ * already been logged
+ * @param userId - User to update
+ * @returns Promise resolving to the inferred night, or null if none was saved
+ */
+export const updateInferredSleep = async (userId: string): Promise<SleepLog | null> => {
+  const today = getCurrentDate();
+
+  try {
+    const existing = await getDoc(doc(db, 'sleepLogs', sleepLogId(userId, today)));
+    if (existing.exists()) return null;
+
+    await flushMotionLog();
+    const inferred = inferSleepFromMotion(await readMotionLog(), today);
+    if (!inferred || formatDate(inferred.wakeTime) !== today) return null;
+
+    return await logSleep({
+      bedtime: inferred.bedtime,
+      wakeTime: inferred.wakeTime,
+      quality: inferred.quality
+    }, 'inferred');
+  } catch (error) {
+    console.error('Error inferring sleep:', error);
+    return null;
+  }
+};
@@ -0,0 +1,231 @@
+// Step detector calibration
+//
+// The user walks a known number of steps while the raw sensor stream is
+// recorded. The recording is then replayed through the detection pipeline
+// with a grid of candidate thresholds and the combination whose step count is
+// closest to the real one is kept. Calibrations are stored per device on the
+// user's profile, since gait and phone placement differ between phones.
+
+import { doc, getDoc, setDoc, updateDoc, deleteField, serverTimestamp } from 'firebase/firestore';
+import { db, auth } from '../app/firebaseConfig';
+import modelService from './modelService';
+import { getDeviceId } from './stepLedgerService';
+import { SensorRecording, getRecordingWindows, replayRecording } from './sensorRecording';
+import {
+  createStepDetectionPipeline,
+  DEFAULT_STEP_DETECTOR_CONFIG,
+  SensorWindow,
+  StepDetectorConfig,
+  StepPredictor
+} from './stepDetectionPipeline';
+
+export const MIN_CALIBRATION_STEPS = 20;
+
+export type PhonePlacement = 'pocket' | 'hand' | 'bag';
+
+// The detector settings fitted to one user on one device
+export interface StepCalibration {
+  deviceId: string;
+  predictionThreshold: number;
+  motionDetectionThreshold: number;
+  refractoryPeriod: number;
+  placement?: PhonePlacement;
+  actualSteps: number;   // Steps the user walked
+  detectedSteps: number; // Steps the fitted detector counts on the same walk
+  defaultSteps: number;  // Steps the default detector counts on the same walk
+  calibratedAt: string;  // ISO timestamp
+}
+
+export type StepCalibrationFit = Omit<StepCalibration, 'deviceId' | 'placement' | 'calibratedAt'>;
+
+// Candidate values searched when fitting
+const PREDICTION_THRESHOLDS = Array.from({ length: 25 }, (_, i) => Number((0.06 + i * 0.02).toFixed(2)));
+const MOTION_THRESHOLD_SCALES = [0.25, 0.5, 1, 2, 4];
+const REFRACTORY_CADENCE_RATIOS = [0.5, 0.65, 0.8];
+const MIN_REFRACTORY_PERIOD = 250;
+const MAX_REFRACTORY_PERIOD = 1000;
+
+/**
+ * Fit detector thresholds to a calibration walk
+ * @param recording - Sensor recording of the walk
+ * @param predict - Step model predictor
+ * @param actualSteps - Number of steps the user actually walked
+ * @returns Promise resolving to the best settings found and how they score
+ */
+export const fitStepCalibration = async (
+  recording: SensorRecording,
+  predict: StepPredictor,
+  actualSteps: number
+): Promise<StepCalibrationFit> => {
+  if (actualSteps < MIN_CALIBRATION_STEPS) {
+    throw new Error(`Walk at least ${MIN_CALIBRATION_STEPS} steps to calibrate`);
+  }
+
+  const samples = recording.samples;
+  if (samples.length < recording.windowSize) {
+    throw new Error('Calibration walk was too short');
+  }
+
+  // The model is the expensive part, so run it once per window and reuse the
+  // result for every candidate. Every replay goes over the same window
+  // objects, which the cache is keyed by.
+  const windows = getRecordingWindows(recording);
+  const predictions = new Map<SensorWindow, number>();
+  const cachedPredict: StepPredictor = async window => {
+    let prediction = predictions.get(window);
+    if (prediction === undefined) {
+      prediction = await predict(window);
+      predictions.set(window, prediction);
+    }
+    return prediction;
+  };
+
+  const countSteps = async (overrides: Partial<StepDetectorConfig>): Promise<number> => {
+    const result = await replayRecording(recording, createStepDetectionPipeline(cachedPredict, overrides), windows);
+    return result.steps;
+  };
+
+  const defaultSteps = await countSteps({});
+
+  const walkDuration = samples[samples.length - 1][0] - samples[0][0];
+  const stepInterval = walkDuration / actualSteps;
+  const refractoryPeriods = Array.from(new Set([
+    DEFAULT_STEP_DETECTOR_CONFIG.refractoryPeriod,
+    ...REFRACTORY_CADENCE_RATIOS.map(ratio =>
+      Math.round(Math.min(MAX_REFRACTORY_PERIOD, Math.max(MIN_REFRACTORY_PERIOD, stepInterval * ratio)))
+    )
+  ]));
+
+  let best: StepCalibrationFit | null = null;
+  let bestScore = Infinity;
+
+  for (const predictionThreshold of PREDICTION_THRESHOLDS) {
+    for (const scale of MOTION_THRESHOLD_SCALES) {
+      for (const refractoryPeriod of refractoryPeriods) {
+        const motionDetectionThreshold = DEFAULT_STEP_DETECTOR_CONFIG.motionDetectionThreshold * scale;
+        const detectedSteps = await countSteps({ predictionThreshold, motionDetectionThreshold, refractoryPeriod });
+
+        // Prefer the closest count, then the settings closest to the defaults
+        const score = Math.abs(detectedSteps - actualSteps) +
+          distanceFromDefaults(predictionThreshold, scale, refractoryPeriod) / 100;
+
+        if (score < bestScore) {
+          bestScore = score;
+          best = { predictionThreshold, motionDetectionThreshold, refractoryPeriod, actualSteps, detectedSteps, defaultSteps };
+        }
+      }
+    }
+  }
+
+  return best as StepCalibrationFit;
+};
+
+// Relative distance of a candidate from the default settings, roughly 0-1 per setting
+const distanceFromDefaults = (predictionThreshold: number, motionScale: number, refractoryPeriod: number): number => {
+  const defaults = DEFAULT_STEP_DETECTOR_CONFIG;
+  return Math.abs(predictionThreshold - defaults.predictionThreshold) / defaults.predictionThreshold +
+    Math.abs(Math.log2(motionScale)) / 2 +
+    Math.abs(refractoryPeriod - defaults.refractoryPeriod) / defaults.refractoryPeriod;
+};
+
+/**
+ * Detector config overrides for a calibration
+ * @param calibration - Stored calibration
+ */
+export const calibrationToDetectorConfig = (calibration: StepCalibration): Partial<StepDetectorConfig> => ({
+  predictionThreshold: calibration.predictionThreshold,
+  motionDetectionThreshold: calibration.motionDetectionThreshold,
+  refractoryPeriod: calibration.refractoryPeriod
+});
+
+/**
+ * Store a calibration for this device on the current user's profile
+ * @param fit - Result of fitStepCalibration
+ * @param placement - Where the phone was carried during the walk
+ * @returns Promise resolving to the stored calibration
+ */
+export const saveStepCalibration = async (
+  fit: StepCalibrationFit,
+  placement?: PhonePlacement
+): Promise<StepCalibration> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) throw new Error('User not logged in');
+
+    const deviceId = await getDeviceId();
+    const calibration: StepCalibration = {
+      ...fit,
+      deviceId,
+      calibratedAt: new Date().toISOString(),
+      ...(placement ? { placement } : {})
+    };
+
+    await setDoc(doc(db, 'users', user.uid), {
+      stepCalibrations: { [deviceId]: calibration },
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+
+    return calibration;
+  } catch (error) {
+    console.error('Error saving step calibration:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the current user's calibration for this device
+ * @returns Promise resolving to the calibration, or null if there is none
+ */
+export const getStepCalibration = async (): Promise<StepCalibration | null> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) return null;
+
+    const [deviceId, userDoc] = await Promise.all([
+      getDeviceId(),
+      getDoc(doc(db, 'users', user.uid))
+    ]);
+
+    if (!userDoc.exists()) return null;
+    return userDoc.data().stepCalibrations?.[deviceId] || null;
+  } catch (error) {
+    console.error('Error loading step calibration:', error);
+    return null;
+  }
+};
+
+/**
+ * Remove this device's calibration and go back to the default detector
+ */
+export const clearStepCalibration = async (): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) throw new Error('User not logged in');
+
+    const deviceId = await getDeviceId();
+    await updateDoc(doc(db, 'users', user.uid), {
+      [`stepCalibrations.${deviceId}`]: deleteField(),
+      updatedAt: serverTimestamp()
+    });
+
+    modelService.configure();
+  } catch (error) {
+    console.error('Error clearing step calibration:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load this device's calibration, if any, into the step detector
+ * @returns Promise resolving to the applied calibration, or null when the defaults are used
+ */
+export const applyStepCalibration = async (): Promise<StepCalibration | null> => {
+  const calibration = await getStepCalibration();
+  modelService.configure(calibration ? calibrationToDetectorConfig(calibration) : {});
+
+  if (calibration) {
+    console.log(`Using step calibration from ${calibration.calibratedAt}`);
+  }
+
+  return calibration;
+};
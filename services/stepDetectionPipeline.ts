@@ -0,0 +1,339 @@
+// Step detection pipeline
+//
+// Each sensor window flows through a list of stages that share a context
+// object. A stage can reject the window (e.g. "not moving"), which skips the
+// remaining stages. Every stage then sees the final outcome via onComplete so
+// it can update or reset its own state.
+// Time comes from the window timestamp rather than the wall clock, so a
+// recorded walk replays to exactly the same steps.
+
+export const WINDOW_SIZE = 50;
+export const FEATURES_PER_SAMPLE = 6; // accel x/y/z, gyro x/y/z
+
+// A window of WINDOW_SIZE samples, each [ax, ay, az, gx, gy, gz]
+export type SensorWindow = number[][];
+
+// Returns the model's step probability for a window
+export type StepPredictor = (window: SensorWindow) => Promise<number>;
+
+export interface StepDetectorConfig {
+  predictionThreshold: number;       // Model output above this counts as a step
+  resetRatio: number;                // Consecutive highs reset below threshold * resetRatio
+  peakPredictionRatio: number;       // With a peak, threshold * peakPredictionRatio is enough
+  requiredConsecutiveHighs: number;
+  motionDetectionThreshold: number;  // Average accel variance needed to count as moving
+  motionBufferSize: number;          // Windows averaged for the motion gate
+  refractoryPeriod: number;          // Minimum ms between steps
+  smoothingFactor: number;           // Low-pass filter alpha, 1 disables filtering
+  peakDetection: {
+    bufferSize: number;
+    minPeakHeight: number;
+    minPeakDistance: number;
+  };
+}
+
+// Values tuned on the original development device
+export const DEFAULT_STEP_DETECTOR_CONFIG: StepDetectorConfig = {
+  predictionThreshold: 0.18,
+  resetRatio: 0.8,
+  peakPredictionRatio: 0.9,
+  requiredConsecutiveHighs: 1,
+  motionDetectionThreshold: 0.008,
+  motionBufferSize: 8,
+  refractoryPeriod: 700,
+  smoothingFactor: 1,
+  peakDetection: {
+    bufferSize: 15,
+    minPeakHeight: 0.12,
+    minPeakDistance: 6
+  }
+};
+
+/**
+ * Fill in any config values not overridden
+ * @param overrides - Values to change from the defaults
+ */
+export const resolveStepDetectorConfig = (overrides: Partial<StepDetectorConfig> = {}): StepDetectorConfig => ({
+  ...DEFAULT_STEP_DETECTOR_CONFIG,
+  ...overrides,
+  peakDetection: { ...DEFAULT_STEP_DETECTOR_CONFIG.peakDetection, ...overrides.peakDetection }
+});
+
+export interface StepDetectionContext {
+  window: SensorWindow;
+  timestamp: number; // ms, time the window completed
+  motionIntensity?: number;
+  verticalAcceleration?: number;
+  isInMotion?: boolean;
+  hasPeak?: boolean;
+  prediction?: number;
+  stepDetected: boolean;
+  rejectedBy?: string; // Name of the stage that rejected the window
+}
+
+export interface StepDetectionStage {
+  name: string;
+  process(context: StepDetectionContext): StepDetectionContext | Promise<StepDetectionContext>;
+  onComplete?(context: StepDetectionContext): void;
+  reset?(): void;
+}
+
+export class StepDetectionPipeline {
+  private stages: StepDetectionStage[];
+  debugMode = false;
+
+  constructor(stages: StepDetectionStage[]) {
+    this.stages = stages;
+  }
+
+  /**
+   * Run one window through every stage
+   * @param window - Sensor window of WINDOW_SIZE samples
+   * @param timestamp - Time the window completed, in ms
+   */
+  async process(window: SensorWindow, timestamp: number = Date.now()): Promise<StepDetectionContext> {
+    let context: StepDetectionContext = { window, timestamp, stepDetected: false };
+
+    for (const stage of this.stages) {
+      if (context.rejectedBy) break;
+      context = await stage.process(context);
+    }
+
+    const result = context;
+    this.stages.forEach(stage => stage.onComplete?.(result));
+
+    if (this.debugMode) {
+      console.log(`Step pipeline: ${context.stepDetected ? 'STEP' : `no step (${context.rejectedBy || 'below threshold'})`}`,
+        'prediction:', context.prediction,
+        'motion:', context.motionIntensity?.toFixed(6),
+        'peak:', context.hasPeak);
+    }
+
+    return context;
+  }
+
+  reset(): void {
+    this.stages.forEach(stage => stage.reset?.());
+  }
+
+  getStages(): StepDetectionStage[] {
+    return [...this.stages];
+  }
+}
+
+const calculateVariance = (values: number[]): number => {
+  const n = values.length;
+  if (n === 0) return 0;
+
+  const mean = values.reduce((sum, val) => sum + val, 0) / n;
+  return values.reduce((sum, val) => sum + (val - mean) * (val - mean), 0) / n;
+};
+
+/**
+ * Rejects malformed windows and optionally low-pass filters the rest
+ */
+export const createFilterStage = (config: StepDetectorConfig): StepDetectionStage => ({
+  name: 'filter',
+  process(context) {
+    const { window } = context;
+
+    if (!Array.isArray(window) || window.length !== WINDOW_SIZE ||
+        !window.every(sample => Array.isArray(sample) && sample.length === FEATURES_PER_SAMPLE)) {
+      return { ...context, rejectedBy: 'filter' };
+    }
+
+    const alpha = config.smoothingFactor;
+    if (alpha >= 1) return context;
+
+    const filtered: SensorWindow = [window[0].slice()];
+    for (let i = 1; i < window.length; i++) {
+      filtered.push(window[i].map((value, axis) => alpha * value + (1 - alpha) * filtered[i - 1][axis]));
+    }
+
+    return { ...context, window: filtered };
+  }
+});
+
+/**
+ * Computes accelerometer variance features and gates out windows where the
+ * phone is not moving
+ */
+export const createMotionGateStage = (config: StepDetectorConfig): StepDetectionStage => {
+  let motionBuffer: number[] = [];
+
+  return {
+    name: 'motion-gate',
+    process(context) {
+      const accelX = context.window.map(d => d[0]);
+      const accelY = context.window.map(d => d[1]);
+      const accelZ = context.window.map(d => d[2]);
+
+      const motionIntensity = calculateVariance(accelX) + calculateVariance(accelY) + calculateVariance(accelZ);
+
+      // Variance of the acceleration magnitude approximates vertical bounce
+      const magnitudes = accelX.map((x, i) => Math.sqrt(x * x + accelY[i] * accelY[i] + accelZ[i] * accelZ[i]));
+      const verticalAcceleration = calculateVariance(magnitudes);
+
+      motionBuffer.push(motionIntensity);
+      if (motionBuffer.length > config.motionBufferSize) {
+        motionBuffer.shift();
+      }
+
+      const avgMotion = motionBuffer.reduce((sum, val) => sum + val, 0) / motionBuffer.length;
+      const isInMotion = avgMotion > config.motionDetectionThreshold;
+
+      return {
+        ...context,
+        motionIntensity,
+        verticalAcceleration,
+        isInMotion,
+        rejectedBy: isInMotion ? undefined : 'motion-gate'
+      };
+    },
+    reset() {
+      motionBuffer = [];
+    }
+  };
+};
+
+/**
+ * Tracks vertical acceleration across windows and flags when the centre of
+ * the buffer is a local maximum
+ */
+export const createPeakPickingStage = (config: StepDetectorConfig): StepDetectionStage => {
+  let values: number[] = [];
+  const { bufferSize, minPeakHeight, minPeakDistance } = config.peakDetection;
+
+  const push = (value: number | undefined) => {
+    if (value === undefined) return;
+    values.push(value);
+    if (values.length > bufferSize) {
+      values.shift();
+    }
+  };
+
+  const detectPeak = (): boolean => {
+    if (values.length < bufferSize) return false;
+
+    const centerIndex = Math.floor(bufferSize / 2);
+    const centerValue = values[centerIndex];
+    if (centerValue < minPeakHeight) return false;
+
+    for (let i = 1; i <= minPeakDistance; i++) {
+      if (centerIndex - i >= 0 && values[centerIndex - i] >= centerValue) return false;
+      if (centerIndex + i < values.length && values[centerIndex + i] >= centerValue) return false;
+    }
+
+    return true;
+  };
+
+  return {
+    name: 'peak-picking',
+    process(context) {
+      push(context.verticalAcceleration);
+      return { ...context, hasPeak: detectPeak() };
+    },
+    // Stationary windows still feed the buffer so peaks line up once moving
+    onComplete(context) {
+      if (context.rejectedBy === 'motion-gate') {
+        push(context.verticalAcceleration);
+      }
+    },
+    reset() {
+      values = [];
+    }
+  };
+};
+
+/**
+ * Runs the step model on the window
+ */
+export const createModelInferenceStage = (predict: StepPredictor): StepDetectionStage => ({
+  name: 'model-inference',
+  async process(context) {
+    const prediction = await predict(context.window);
+    return { ...context, prediction };
+  }
+});
+
+/**
+ * Turns the model output and peak flag into a step decision
+ */
+export const createThresholdStage = (config: StepDetectorConfig): StepDetectionStage => {
+  let consecutiveHighs = 0;
+
+  return {
+    name: 'threshold',
+    process(context) {
+      const prediction = context.prediction ?? 0;
+      const threshold = config.predictionThreshold;
+
+      if (prediction > threshold) {
+        consecutiveHighs++;
+      } else if (prediction < threshold * config.resetRatio) {
+        // Only reset if prediction is significantly below threshold
+        consecutiveHighs = 0;
+      }
+
+      const byPrediction = prediction > threshold && consecutiveHighs >= config.requiredConsecutiveHighs;
+      const byPeak = !!context.hasPeak && prediction > threshold * config.peakPredictionRatio;
+
+      return { ...context, stepDetected: byPrediction || byPeak };
+    },
+    // Start counting afresh after a step or when the phone stops moving
+    onComplete(context) {
+      if (context.stepDetected || context.rejectedBy === 'motion-gate') {
+        consecutiveHighs = 0;
+      }
+    },
+    reset() {
+      consecutiveHighs = 0;
+    }
+  };
+};
+
+/**
+ * Drops steps that come sooner than the refractory period after the last one
+ */
+export const createDebounceStage = (config: StepDetectorConfig): StepDetectionStage => {
+  let lastStepTime = -Infinity;
+
+  return {
+    name: 'debounce',
+    process(context) {
+      if (!context.stepDetected) return context;
+
+      if (context.timestamp - lastStepTime <= config.refractoryPeriod) {
+        return { ...context, stepDetected: false, rejectedBy: 'debounce' };
+      }
+
+      lastStepTime = context.timestamp;
+      return context;
+    },
+    reset() {
+      lastStepTime = -Infinity;
+    }
+  };
+};
+
+/**
+ * Build the standard pipeline: filter, motion gate, peak picking, model
+ * inference, threshold decision and debounce
+ * @param predict - Step model predictor
+ * @param overrides - Config values to change from the defaults
+ */
+export const createStepDetectionPipeline = (
+  predict: StepPredictor,
+  overrides: Partial<StepDetectorConfig> = {}
+): StepDetectionPipeline => {
+  const config = resolveStepDetectorConfig(overrides);
+
+  return new StepDetectionPipeline([
+    createFilterStage(config),
+    createMotionGateStage(config),
+    createPeakPickingStage(config),
+    createModelInferenceStage(predict),
+    createThresholdStage(config),
+    createDebounceStage(config)
+  ]);
+};
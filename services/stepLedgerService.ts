@@ -0,0 +1,450 @@
+import 'react-native-get-random-values';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '../app/firebaseConfig';
+import {
+  collection,
+  doc,
+  query,
+  where,
+  getDocs,
+  runTransaction,
+  writeBatch,
+  increment,
+  serverTimestamp,
+  Transaction,
+  WriteBatch
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { ActivityDurations, ACTIVITY_TYPES, getActiveSeconds } from './activityClassifier';
+import { DEFAULT_STEP_LENGTH_METERS } from './gaitAnalysis';
+import { applyStepsToSummary } from './dailySummaryService';
+
+const DEVICE_ID_STORAGE_KEY = '@fitnessWarrior/deviceId';
+const MAX_BATCH_WRITES = 400; // Firestore allows 500 writes per batch
+// Bump when rebuildStepTotals starts deriving something new from the ledger
+// (2: daily and lifetime distance)
+export const STEP_LEDGER_VERSION = 2;
+const STEPS_PER_ACTIVE_MINUTE = 100; // Estimate for days recorded before activity tracking
+
+export type StepSource = 'phone_sensor' | 'manual' | 'legacy';
+
+// One immutable entry in the step ledger
+export interface StepSession {
+  userId: string;
+  sessionId: string;
+  deviceId: string;
+  date: string; // Day the steps count towards (YYYY-MM-DD)
+  startTime: string | null; // ISO timestamp
+  endTime: string | null;   // ISO timestamp
+  steps: number;
+  source: StepSource;
+  timeZone?: string; // IANA time zone `date` was computed in
+  activitySeconds?: ActivityDurations; // Time spent in each classified activity
+  distanceMeters?: number; // From cadence and height, see gaitAnalysis
+  cadence?: number;        // Steps per minute
+  stepLength?: number;     // Meters
+  movingSeconds?: number;
+  pace?: number | null;    // Minutes per kilometer
+  createdAt?: any; // Firestore Timestamp
+}
+
+// Per-day total derived from the ledger
+export interface DailyStepTotal {
+  date: string;
+  steps: number;
+  sessionCount: number;
+  activeSeconds?: number; // Only set once a session with activity data is recorded
+  activitySeconds?: ActivityDurations;
+  distanceMeters?: number; // Missing on days not yet migrated by rebuildStepTotals
+}
+
+/**
+ * Ledger documents are keyed by user and session so a replayed or
+ * concurrently-written session always lands on the same document
+ */
+const sessionDocId = (userId: string, sessionId: string): string => `${userId}_${sessionId}`;
+
+/**
+ * Daily rollups in `stepHistory` are keyed by user and date so there is
+ * exactly one total per day
+ */
+const dailyTotalDocId = (userId: string, date: string): string => `${userId}_${date}`;
+
+/**
+ * Distance covered in a session; sessions recorded without step timing
+ * (manual entries, legacy days) use the average step length
+ */
+const sessionDistanceMeters = (session: StepSession): number =>
+  session.distanceMeters ?? Math.round(session.steps * DEFAULT_STEP_LENGTH_METERS);
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Get a stable id for this install, created on first use
+ * @returns Promise resolving to the device id
+ */
+export const getDeviceId = async (): Promise<string> => {
+  if (cachedDeviceId) return cachedDeviceId;
+
+  try {
+    let deviceId = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = uuidv4();
+      await AsyncStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+    cachedDeviceId = deviceId;
+  } catch (error) {
+    console.error('Error reading device id:', error);
+    cachedDeviceId = uuidv4();
+  }
+
+  return cachedDeviceId;
+};
+
+/**
+ * Append a session to the step ledger and apply it to the daily and lifetime
+ * totals and the day's summary in the same transaction. Recording a session
+ * that already exists is a no-op, so retries from any device never
+ * double-count.
+ * @param session - Session to record
+ * @returns Promise resolving to true if the session was new
+ */
+export const recordStepSession = async (session: StepSession): Promise<boolean> => {
+  const sessionRef = doc(db, 'stepSessions', sessionDocId(session.userId, session.sessionId));
+  const dailyRef = doc(db, 'stepHistory', dailyTotalDocId(session.userId, session.date));
+  const userRef = doc(db, 'users', session.userId);
+
+  return runTransaction(db, async transaction => {
+    const existing = await transaction.get(sessionRef);
+    if (existing.exists()) {
+      console.log(`Step session ${session.sessionId} already in ledger, skipping`);
+      return false;
+    }
+
+    transaction.set(sessionRef, {
+      ...session,
+      createdAt: serverTimestamp()
+    });
+
+    const stepIncrements = {
+      steps: increment(session.steps),
+      distanceMeters: increment(sessionDistanceMeters(session)),
+      ...activityIncrements(session.activitySeconds)
+    };
+
+    transaction.set(dailyRef, {
+      userId: session.userId,
+      date: session.date,
+      ...stepIncrements,
+      sessionCount: increment(1),
+      lastSessionId: session.sessionId,
+      timestamp: serverTimestamp()
+    }, { merge: true });
+
+    applyStepsToSummary(transaction, session.userId, session.date, stepIncrements);
+
+    transaction.set(userRef, {
+      totalSteps: increment(session.steps),
+      totalDistance: increment(sessionDistanceMeters(session)),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+
+    return true;
+  });
+};
+
+/**
+ * Rollup increments for a session's activity breakdown
+ */
+const activityIncrements = (activitySeconds?: ActivityDurations): { [field: string]: any } => {
+  if (!activitySeconds) return {};
+
+  const perActivity: { [activity: string]: any } = {};
+  ACTIVITY_TYPES.forEach(activity => {
+    if (activitySeconds[activity]) perActivity[activity] = increment(activitySeconds[activity] as number);
+  });
+
+  return {
+    activeSeconds: increment(getActiveSeconds(activitySeconds)),
+    activitySeconds: perActivity
+  };
+};
+
+/**
+ * Add one activity breakdown into another
+ */
+const addActivityDurations = (target: ActivityDurations, source: ActivityDurations): void => {
+  ACTIVITY_TYPES.forEach(activity => {
+    if (source[activity]) target[activity] = (target[activity] || 0) + (source[activity] as number);
+  });
+};
+
+/**
+ * Active minutes for a day. Days without classified activity (recorded
+ * before activity tracking, or entered manually) fall back to a step estimate.
+ * @param total - Daily total
+ */
+export const getActiveMinutes = (total: DailyStepTotal): number =>
+  total.activeSeconds !== undefined
+    ? Math.round(total.activeSeconds / 60)
+    : Math.round(total.steps / STEPS_PER_ACTIVE_MINUTE);
+
+/**
+ * Distance covered on a day in kilometers
+ * @param total - Daily total
+ */
+export const getDistanceKm = (total: DailyStepTotal): number =>
+  (total.distanceMeters ?? total.steps * DEFAULT_STEP_LENGTH_METERS) / 1000;
+
+/**
+ * Get the total distance in kilometers for a date range
+ * @param userId - User to read totals for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the distance
+ */
+export const getTotalDistanceKm = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const totals = await getDailyStepTotals(userId, startDate, endDate);
+  return totals.reduce((sum, day) => sum + getDistanceKm(day), 0);
+};
+
+/**
+ * Get the total number of active minutes for a date range
+ * @param userId - User to read totals for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the active minutes
+ */
+export const getTotalActiveMinutes = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const totals = await getDailyStepTotals(userId, startDate, endDate);
+  return totals.reduce((sum, day) => sum + getActiveMinutes(day), 0);
+};
+
+/**
+ * Get per-day step totals for a date range, oldest first
+ * @param userId - User to read totals for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to one entry per day that has steps
+ */
+export const getDailyStepTotals = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyStepTotal[]> => {
+  const q = query(
+    collection(db, 'stepHistory'),
+    where('userId', '==', userId),
+    where('date', '>=', startDate),
+    where('date', '<=', endDate)
+  );
+
+  const querySnapshot = await getDocs(q);
+  const totals: { [date: string]: DailyStepTotal } = {};
+
+  // Sum per date so days not yet migrated by rebuildStepTotals still count once
+  querySnapshot.forEach(snapshot => {
+    const data = snapshot.data();
+    if (!totals[data.date]) {
+      totals[data.date] = { date: data.date, steps: 0, sessionCount: 0 };
+    }
+    totals[data.date].steps += data.steps || 0;
+    totals[data.date].sessionCount += data.sessionCount || 1;
+    totals[data.date].distanceMeters = (totals[data.date].distanceMeters || 0) +
+      (data.distanceMeters ?? (data.steps || 0) * DEFAULT_STEP_LENGTH_METERS);
+
+    if (data.activeSeconds !== undefined) {
+      totals[data.date].activeSeconds = (totals[data.date].activeSeconds || 0) + data.activeSeconds;
+      totals[data.date].activitySeconds = totals[data.date].activitySeconds || {};
+      addActivityDurations(totals[data.date].activitySeconds as ActivityDurations, data.activitySeconds || {});
+    }
+  });
+
+  return Object.values(totals).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Read a day's rollup inside a transaction, so writes made with it are
+ * retried when a session for that day is recorded meanwhile
+ * @param transaction - Transaction to read in
+ * @returns Promise resolving to the day's total, or null when it has no sessions
+ */
+export const getDailyStepTotalInTransaction = async (
+  transaction: Transaction,
+  userId: string,
+  date: string
+): Promise<DailyStepTotal | null> => {
+  const snapshot = await transaction.get(doc(db, 'stepHistory', dailyTotalDocId(userId, date)));
+  if (!snapshot.exists()) return null;
+
+  const data = snapshot.data();
+  const total: DailyStepTotal = {
+    date,
+    steps: data.steps || 0,
+    sessionCount: data.sessionCount || 0,
+    distanceMeters: data.distanceMeters ?? (data.steps || 0) * DEFAULT_STEP_LENGTH_METERS
+  };
+  if (data.activeSeconds !== undefined) {
+    total.activeSeconds = data.activeSeconds;
+    total.activitySeconds = data.activitySeconds || {};
+  }
+
+  return total;
+};
+
+/**
+ * Get the total number of steps for a date range
+ * @param userId - User to read totals for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the step total
+ */
+export const getTotalSteps = async (userId: string, startDate: string, endDate: string): Promise<number> => {
+  const totals = await getDailyStepTotals(userId, startDate, endDate);
+  return totals.reduce((sum, day) => sum + day.steps, 0);
+};
+
+/**
+ * Get the raw ledger sessions for a date range, oldest first
+ * @param userId - User to read sessions for
+ * @param startDate - Start date (inclusive)
+ * @param endDate - End date (inclusive)
+ * @returns Promise resolving to the sessions
+ */
+export const getStepSessions = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<StepSession[]> => {
+  const q = query(
+    collection(db, 'stepSessions'),
+    where('userId', '==', userId),
+    where('date', '>=', startDate),
+    where('date', '<=', endDate)
+  );
+
+  const querySnapshot = await getDocs(q);
+  const sessions: StepSession[] = [];
+  querySnapshot.forEach(snapshot => sessions.push(snapshot.data() as StepSession));
+
+  return sessions.sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || '')
+  );
+};
+
+/**
+ * Recompute a user's daily and lifetime step totals from the ledger. Day
+ * entries written before the ledger existed are first converted into
+ * `legacy` sessions so their steps are preserved. The totals are replaced,
+ * not incremented, so nothing may record sessions meanwhile; the app goes
+ * through healthDataService.rebuildStepTotalsHoldingSync.
+ * @param userId - User to rebuild totals for
+ * @returns Promise resolving to the lifetime step total
+ */
+export const rebuildStepTotals = async (userId: string): Promise<number> => {
+  try {
+    const deviceId = await getDeviceId();
+    const writes = new BatchWriter();
+
+    // Convert pre-ledger day entries into ledger sessions
+    const historySnapshot = await getDocs(query(collection(db, 'stepHistory'), where('userId', '==', userId)));
+    const legacySessions: StepSession[] = [];
+
+    historySnapshot.forEach(snapshot => {
+      const data = snapshot.data();
+      if (snapshot.id === dailyTotalDocId(userId, data.date)) return;
+
+      const legacySession: StepSession = {
+        userId,
+        sessionId: `legacy-${snapshot.id}`,
+        deviceId,
+        date: data.date,
+        startTime: null,
+        endTime: null,
+        steps: data.steps || 0,
+        source: 'legacy'
+      };
+      legacySessions.push(legacySession);
+
+      writes.add(batch => batch.set(doc(db, 'stepSessions', sessionDocId(userId, legacySession.sessionId)), {
+        ...legacySession,
+        createdAt: serverTimestamp()
+      }));
+      writes.add(batch => batch.delete(snapshot.ref));
+    });
+
+    // Derive daily totals from every session in the ledger
+    const sessionsSnapshot = await getDocs(query(collection(db, 'stepSessions'), where('userId', '==', userId)));
+    const sessions = sessionsSnapshot.docs.map(snapshot => snapshot.data() as StepSession);
+    legacySessions.forEach(legacy => {
+      if (!sessions.some(s => s.sessionId === legacy.sessionId)) sessions.push(legacy);
+    });
+
+    const totals: { [date: string]: DailyStepTotal } = {};
+    sessions.forEach(session => {
+      if (!totals[session.date]) {
+        totals[session.date] = { date: session.date, steps: 0, sessionCount: 0 };
+      }
+      totals[session.date].steps += session.steps;
+      totals[session.date].sessionCount += 1;
+      totals[session.date].distanceMeters = (totals[session.date].distanceMeters || 0) + sessionDistanceMeters(session);
+
+      if (session.activitySeconds) {
+        totals[session.date].activeSeconds = (totals[session.date].activeSeconds || 0) + getActiveSeconds(session.activitySeconds);
+        totals[session.date].activitySeconds = totals[session.date].activitySeconds || {};
+        addActivityDurations(totals[session.date].activitySeconds as ActivityDurations, session.activitySeconds);
+      }
+    });
+
+    Object.values(totals).forEach(total => {
+      writes.add(batch => batch.set(doc(db, 'stepHistory', dailyTotalDocId(userId, total.date)), {
+        userId,
+        date: total.date,
+        steps: total.steps,
+        sessionCount: total.sessionCount,
+        distanceMeters: total.distanceMeters || 0,
+        ...(total.activeSeconds !== undefined
+          ? { activeSeconds: total.activeSeconds, activitySeconds: total.activitySeconds }
+          : {}),
+        timestamp: serverTimestamp()
+      }));
+    });
+
+    const lifetimeSteps = sessions.reduce((sum, session) => sum + session.steps, 0);
+    const lifetimeDistance = sessions.reduce((sum, session) => sum + sessionDistanceMeters(session), 0);
+    writes.add(batch => batch.set(doc(db, 'users', userId), {
+      totalSteps: lifetimeSteps,
+      totalDistance: lifetimeDistance,
+      stepLedgerMigrated: true,
+      stepLedgerVersion: STEP_LEDGER_VERSION,
+      updatedAt: serverTimestamp()
+    }, { merge: true }));
+
+    await writes.commit();
+
+    console.log(`Rebuilt step totals for ${userId}: ${lifetimeSteps} steps over ${Object.keys(totals).length} days`);
+    return lifetimeSteps;
+  } catch (error) {
+    console.error('Error rebuilding step totals:', error);
+    throw error;
+  }
+};
+
+/**
+ * Splits an arbitrary number of writes across as many batches as needed
+ */
+class BatchWriter {
+  private operations: ((batch: WriteBatch) => void)[] = [];
+
+  add(operation: (batch: WriteBatch) => void): void {
+    this.operations.push(operation);
+  }
+
+  async commit(): Promise<void> {
+    for (let i = 0; i < this.operations.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      this.operations.slice(i, i + MAX_BATCH_WRITES).forEach(operation => operation(batch));
+      await batch.commit();
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { StepSession } from './stepLedgerService';
+
+const QUEUE_STORAGE_KEY = '@fitnessWarrior/stepSyncQueue';
+const SYNCED_IDS_STORAGE_KEY = '@fitnessWarrior/stepSyncQueue/syncedIds';
+const MAX_REMEMBERED_SYNCED_IDS = 200; // Enough to catch late duplicates without growing forever
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// A step session recorded on the device that has not reached Firestore yet
+export interface PendingStepSession extends StepSession {
+  recordedAt: string; // ISO timestamp
+  attempts: number;
+  lastError?: string;
+}
+
+// Snapshot of the queue exposed to the UI
+export interface StepSyncStatus {
+  pendingSessions: number;
+  pendingSteps: number;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export interface StepSyncHandlers {
+  // Writes a single session to the backend; must be idempotent by sessionId
+  syncSession: (session: PendingStepSession) => Promise<void>;
+  // Called once after a flush that synced at least one session
+  onSessionsSynced?: (sessions: PendingStepSession[]) => Promise<void>;
+  // Returns the id of the signed-in user, or null when signed out
+  getCurrentUserId: () => string | null;
+}
+
+type StepSyncListener = (status: StepSyncStatus) => void;
+
+/**
+ * Persisted FIFO queue of step sessions. Sessions are written to AsyncStorage
+ * before any network call so they survive the app being killed offline, and
+ * are replayed in order once the backend is reachable again.
+ */
+class StepSyncQueue {
+  private queue: PendingStepSession[] | null = null;
+  private syncedIds: string[] = [];
+  private handlers: StepSyncHandlers | null = null;
+  private listeners: Set<StepSyncListener> = new Set();
+  private flushPromise: Promise<number> | null = null;
+  private runningFlush: Promise<number> | null = null; // Past any hold and syncing
+  private hold: Promise<unknown> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryCount = 0;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private lastSyncedAt: string | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Register the backend writer and start listening for the app returning to
+   * the foreground, which is our cue to retry anything still pending
+   */
+  configure(handlers: StepSyncHandlers): void {
+    this.handlers = handlers;
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+        if (state === 'active') {
+          this.flush().catch(error => console.warn('Step sync on resume failed:', error));
+        }
+      });
+    }
+  }
+
+  /**
+   * Add a session to the queue. Sessions whose id is already queued or was
+   * recently synced are ignored.
+   * @returns true if the session was added
+   */
+  async enqueue(session: Omit<PendingStepSession, 'attempts'>): Promise<boolean> {
+    const queue = await this.load();
+
+    if (queue.some(s => s.sessionId === session.sessionId) || this.syncedIds.includes(session.sessionId)) {
+      console.log(`Step session ${session.sessionId} already recorded, skipping`);
+      return false;
+    }
+
+    queue.push({ ...session, attempts: 0 });
+    await this.persist();
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Replay pending sessions for the signed-in user in the order they were
+   * recorded. Stops at the first failure so later sessions never overtake it.
+   * @returns number of sessions synced
+   */
+  flush(): Promise<number> {
+    if (!this.flushPromise) {
+      this.flushPromise = (async () => {
+        await this.waitForHold();
+        this.runningFlush = this.runFlush();
+        return this.runningFlush;
+      })().finally(() => {
+        this.flushPromise = null;
+        this.runningFlush = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.flushPromise;
+  }
+
+  /**
+   * Run a task with no session syncing meanwhile, such as rebuilding the
+   * totals sessions add to. A flush in progress finishes first, and flushes
+   * asked for during the task start once it is done.
+   * @returns Promise resolving to the task's result
+   */
+  async runWithSyncHeld<T>(task: () => Promise<T>): Promise<T> {
+    const previousHold = this.hold;
+    const held = (async () => {
+      await previousHold?.catch(() => undefined);
+      await this.runningFlush?.catch(() => 0);
+      return task();
+    })();
+
+    const hold = held.catch(() => undefined);
+    this.hold = hold;
+    try {
+      return await held;
+    } finally {
+      if (this.hold === hold) this.hold = null;
+    }
+  }
+
+  /**
+   * Current queue status; loads the persisted queue on first use
+   */
+  async getStatus(): Promise<StepSyncStatus> {
+    await this.load();
+    return this.buildStatus();
+  }
+
+  /**
+   * Subscribe to status changes. The listener is called immediately with the
+   * current status.
+   * @returns unsubscribe function
+   */
+  subscribe(listener: StepSyncListener): () => void {
+    this.listeners.add(listener);
+    this.getStatus().then(listener).catch(error => console.warn('Error reading step sync status:', error));
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async waitForHold(): Promise<void> {
+    while (this.hold) {
+      await this.hold;
+    }
+  }
+
+  private async runFlush(): Promise<number> {
+    if (!this.handlers) {
+      console.warn('Step sync queue flushed before being configured');
+      return 0;
+    }
+
+    const userId = this.handlers.getCurrentUserId();
+    if (!userId) {
+      return 0;
+    }
+
+    const queue = await this.load();
+    const synced: PendingStepSession[] = [];
+
+    for (const session of [...queue]) {
+      // Sessions recorded by another account wait until that account signs in again
+      if (session.userId !== userId) continue;
+
+      try {
+        await this.handlers.syncSession(session);
+      } catch (error) {
+        session.attempts += 1;
+        session.lastError = error instanceof Error ? error.message : String(error);
+        this.lastError = session.lastError;
+        await this.persist();
+        this.scheduleRetry();
+        console.warn(`Step session ${session.sessionId} not synced, will retry:`, session.lastError);
+        break;
+      }
+
+      this.queue = (this.queue || []).filter(s => s.sessionId !== session.sessionId);
+      this.rememberSynced(session.sessionId);
+      await this.persist();
+      synced.push(session);
+      this.notify();
+    }
+
+    if (synced.length > 0) {
+      this.lastSyncedAt = new Date().toISOString();
+
+      if (!this.queue?.some(s => s.userId === userId)) {
+        this.lastError = null;
+        this.retryCount = 0;
+      }
+
+      if (this.handlers.onSessionsSynced) {
+        try {
+          await this.handlers.onSessionsSynced(synced);
+        } catch (error) {
+          console.error('Error running post-sync work:', error);
+        }
+      }
+    }
+
+    return synced.length;
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+
+    const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, this.retryCount), MAX_RETRY_DELAY_MS);
+    this.retryCount += 1;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch(error => console.warn('Step sync retry failed:', error));
+    }, delay);
+  }
+
+  private rememberSynced(sessionId: string): void {
+    this.syncedIds.push(sessionId);
+    if (this.syncedIds.length > MAX_REMEMBERED_SYNCED_IDS) {
+      this.syncedIds = this.syncedIds.slice(-MAX_REMEMBERED_SYNCED_IDS);
+    }
+  }
+
+  /**
+   * Load the persisted queue on first use. A failed read leaves the queue
+   * unloaded and throws, so the next call retries instead of persisting an
+   * empty queue over sessions still waiting on the device.
+   */
+  private async load(): Promise<PendingStepSession[]> {
+    if (this.queue) return this.queue;
+
+    try {
+      const [storedQueue, storedIds] = await Promise.all([
+        AsyncStorage.getItem(QUEUE_STORAGE_KEY),
+        AsyncStorage.getItem(SYNCED_IDS_STORAGE_KEY)
+      ]);
+      // Another caller may have loaded while we were waiting
+      if (this.queue) return this.queue;
+
+      this.queue = storedQueue ? JSON.parse(storedQueue) : [];
+      this.syncedIds = storedIds ? JSON.parse(storedIds) : [];
+    } catch (error) {
+      console.error('Error loading step sync queue:', error);
+      if (!this.queue) throw error;
+    }
+
+    return this.queue as PendingStepSession[];
+  }
+
+  private async persist(): Promise<void> {
+    // Never write over a stored queue that was not read
+    if (!this.queue) return;
+
+    try {
+      await AsyncStorage.multiSet([
+        [QUEUE_STORAGE_KEY, JSON.stringify(this.queue)],
+        [SYNCED_IDS_STORAGE_KEY, JSON.stringify(this.syncedIds)]
+      ]);
+    } catch (error) {
+      console.error('Error persisting step sync queue:', error);
+    }
+  }
+
+  private buildStatus(): StepSyncStatus {
+    const queue = this.queue || [];
+    return {
+      pendingSessions: queue.length,
+      pendingSteps: queue.reduce((sum, s) => sum + s.steps, 0),
+      isSyncing: this.flushPromise !== null,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError
+    };
+  }
+
+  private notify(): void {
+    const status = this.buildStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export default new StepSyncQueue();
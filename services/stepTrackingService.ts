@@ -0,0 +1,347 @@
+import { AppState, AppStateStatus, NativeEventSubscription, Vibration } from 'react-native';
+import { auth } from '../app/firebaseConfig';
+import modelService from './modelService';
+import sensorService from './sensorService';
+import { saveStepCount, StepSessionOptions } from './healthDataService';
+import { applyStepCalibration } from './stepCalibrationService';
+import { ActivityTracker, ActivityType } from './activityClassifier';
+import { SensorWindow } from './stepDetectionPipeline';
+import { flushMotionLog, recordMotionMinute, updateInferredSleep } from './sleepService';
+
+const DEFAULT_AUTO_SAVE_MINUTES = 5;
+const RECENT_SAMPLES = 10; // Samples kept for the live visualizer
+
+export type StepTrackingStatus = 'stopped' | 'starting' | 'running' | 'paused';
+
+// Snapshot of the tracker exposed to screens
+export interface StepTrackingState {
+  status: StepTrackingStatus;
+  steps: number;          // Steps counted since tracking started (or the counter was reset)
+  unsavedSteps: number;   // Steps not yet saved, including segments waiting for a retry
+  currentActivity: ActivityType;
+  recentSamples: number[][];
+  isModelReady: boolean;
+  isSaving: boolean;
+  lastSavedAt: string | null;
+  error: string | null;
+}
+
+type StepTrackingListener = (state: StepTrackingState) => void;
+
+// A segment taken for saving, kept as it was until it is saved
+interface PendingSegment {
+  steps: number;
+  options: StepSessionOptions;
+}
+
+/**
+ * Long-lived step counter that owns the sensors and the detector, so counting
+ * carries on while the user moves between screens. Steps are saved as ledger
+ * sessions every few minutes, when tracking is paused or stopped, and when the
+ * app goes to the background.
+ */
+class StepTrackingService {
+  private status: StepTrackingStatus = 'stopped';
+  private steps = 0;
+  private savedSteps = 0;             // Part of `steps` taken into a segment
+  private pendingSegments: PendingSegment[] = []; // Taken but not saved yet, oldest first
+  private sessionId: string | null = null;
+  private segment = 0;                // Each save is its own ledger session
+  private segmentStart: Date | null = null;
+  private stepTimestamps: number[] = [];
+  private activityTracker = new ActivityTracker(
+    sensorService.sensorUpdateInterval,
+    sensorService.stepSize * sensorService.sensorUpdateInterval
+  );
+  private currentActivity: ActivityType = 'idle';
+  private recentSamples: number[][] = [];
+  private isSaving = false;
+  private savePromise: Promise<void> | null = null;
+  private lastSavedAt: string | null = null;
+  private error: string | null = null;
+  private autoSaveMinutes = DEFAULT_AUTO_SAVE_MINUTES;
+  private autoSaveTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners: Set<StepTrackingListener> = new Set();
+
+  /**
+   * Load the model and calibration, then start counting
+   */
+  async start(): Promise<void> {
+    if (this.status === 'running' || this.status === 'starting') return;
+    if (this.status === 'paused') return this.resume();
+
+    this.status = 'starting';
+    this.error = null;
+    this.notify();
+
+    try {
+      if (!modelService.isModelReady) {
+        const loaded = await modelService.loadModel();
+        if (!loaded) throw new Error('Failed to load step detection model');
+      }
+      await applyStepCalibration();
+    } catch (error) {
+      console.error('Error starting step tracking:', error);
+      this.status = 'stopped';
+      this.error = error instanceof Error ? error.message : String(error);
+      this.notify();
+      return;
+    }
+
+    this.sessionId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    this.segment = 0;
+    this.startSegment();
+    this.activityTracker.reset();
+    this.listenToAppState();
+
+    await this.startSensors();
+    console.log('Step tracking started');
+  }
+
+  /**
+   * Stop the sensors but keep the session, saving what has been counted so far
+   */
+  async pause(): Promise<void> {
+    if (this.status !== 'running') return;
+
+    this.stopSensors();
+    this.status = 'paused';
+    this.notify();
+
+    await this.save();
+    console.log('Step tracking paused');
+  }
+
+  async resume(): Promise<void> {
+    if (this.status !== 'paused') return;
+
+    this.startSegment();
+    await this.startSensors();
+    console.log('Step tracking resumed');
+  }
+
+  /**
+   * Stop counting and save any remaining steps
+   */
+  async stop(): Promise<void> {
+    if (this.status === 'stopped') return;
+
+    this.stopSensors();
+    this.status = 'stopped';
+    this.notify();
+
+    await this.save();
+
+    this.sessionId = null;
+    if (this.appStateSubscription) {
+      this.appStateSubscription.remove();
+      this.appStateSubscription = null;
+    }
+    console.log('Step tracking stopped');
+  }
+
+  /**
+   * Clear the displayed count. Only allowed while stopped so no steps are lost.
+   */
+  resetCount(): void {
+    if (this.status !== 'stopped' || this.getUnsavedSteps() > 0) return;
+
+    this.steps = 0;
+    this.savedSteps = 0;
+    this.notify();
+  }
+
+  /**
+   * Change how often steps are saved while tracking
+   * @param minutes - Minutes between automatic saves
+   */
+  setAutoSaveInterval(minutes: number): void {
+    this.autoSaveMinutes = Math.max(1, minutes);
+    if (this.autoSaveTimer) {
+      this.startAutoSave();
+    }
+  }
+
+  /**
+   * Save the steps counted since the last save as a ledger session
+   */
+  save(): Promise<void> {
+    if (!this.savePromise) {
+      this.savePromise = this.runSave().finally(() => {
+        this.savePromise = null;
+      });
+    }
+    return this.savePromise;
+  }
+
+  getState(): StepTrackingState {
+    return {
+      status: this.status,
+      steps: this.steps,
+      unsavedSteps: this.getUnsavedSteps(),
+      currentActivity: this.currentActivity,
+      recentSamples: this.recentSamples,
+      isModelReady: modelService.isModelReady,
+      isSaving: this.isSaving,
+      lastSavedAt: this.lastSavedAt,
+      error: this.error
+    };
+  }
+
+  /**
+   * Subscribe to tracking updates. The listener is called immediately with
+   * the current state.
+   * @returns unsubscribe function
+   */
+  subscribe(listener: StepTrackingListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async startSensors(): Promise<void> {
+    sensorService.setWindowCompleteCallback((window: SensorWindow, timestamp: number) =>
+      this.handleWindow(window, timestamp)
+    );
+    // Movement while the phone lies still overnight is used to infer sleep
+    sensorService.setMotionMinuteCallback(recordMotionMinute);
+    await sensorService.start();
+
+    this.status = 'running';
+    this.startAutoSave();
+    this.notify();
+  }
+
+  private stopSensors(): void {
+    sensorService.stop();
+    sensorService.setWindowCompleteCallback(null);
+    sensorService.setMotionMinuteCallback(null);
+    flushMotionLog().catch(error => console.warn('Motion log flush failed:', error));
+
+    if (this.autoSaveTimer) {
+      clearInterval(this.autoSaveTimer);
+      this.autoSaveTimer = null;
+    }
+  }
+
+  private startAutoSave(): void {
+    if (this.autoSaveTimer) {
+      clearInterval(this.autoSaveTimer);
+    }
+
+    this.autoSaveTimer = setInterval(() => {
+      this.save().catch(error => console.warn('Automatic step save failed:', error));
+    }, this.autoSaveMinutes * 60 * 1000);
+  }
+
+  private async handleWindow(window: SensorWindow, timestamp: number): Promise<void> {
+    if (this.status !== 'running') return;
+
+    this.recentSamples = window.slice(-RECENT_SAMPLES);
+    this.currentActivity = this.activityTracker.addWindow(window, timestamp);
+
+    const stepDetected = await modelService.predictStep(window, timestamp);
+    if (stepDetected && this.status === 'running') {
+      Vibration.vibrate(100);
+      this.steps += 1;
+      this.stepTimestamps.push(timestamp);
+    }
+
+    this.notify();
+  }
+
+  private startSegment(): void {
+    this.segmentStart = new Date();
+    this.stepTimestamps = [];
+  }
+
+  private getUnsavedSteps(): number {
+    return this.steps - this.savedSteps +
+      this.pendingSegments.reduce((sum, segment) => sum + segment.steps, 0);
+  }
+
+  /**
+   * Close the current segment and queue it for saving, so steps counted while
+   * it saves go in the next one
+   */
+  private takeSegment(): void {
+    const unsaved = this.steps - this.savedSteps;
+    if (unsaved <= 0 || !this.sessionId) return;
+
+    this.pendingSegments.push({
+      steps: unsaved,
+      options: {
+        sessionId: `${this.sessionId}-${this.segment}`,
+        startTime: this.segmentStart || undefined,
+        endTime: new Date(),
+        activitySeconds: this.activityTracker.getDurations(),
+        stepTimestamps: this.stepTimestamps
+      }
+    });
+
+    this.segment += 1;
+    this.savedSteps += unsaved;
+    this.activityTracker.reset();
+    this.startSegment();
+  }
+
+  private async runSave(): Promise<void> {
+    if (!auth.currentUser) {
+      console.log('User not logged in, steps not saved');
+      return;
+    }
+
+    this.takeSegment();
+    if (this.pendingSegments.length === 0) return;
+
+    this.isSaving = true;
+    this.notify();
+
+    try {
+      while (this.pendingSegments.length > 0) {
+        const segment = this.pendingSegments[0];
+        const synced = await saveStepCount(segment.steps, segment.options);
+        this.pendingSegments.shift();
+        this.lastSavedAt = new Date().toISOString();
+        this.error = null;
+        console.log(synced ? `Saved ${segment.steps} steps` : `Stored ${segment.steps} steps on device, will sync when online`);
+      }
+    } catch (error) {
+      // The segment stays queued as it was, so the next save retries the same session
+      console.error('Failed to save steps:', error);
+      this.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.isSaving = false;
+      this.notify();
+    }
+  }
+
+  // Save when the app leaves the foreground and restart the sensors when it returns
+  private listenToAppState(): void {
+    if (this.appStateSubscription) return;
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'background') {
+        this.save().catch(error => console.warn('Step save on background failed:', error));
+        flushMotionLog().catch(error => console.warn('Motion log flush failed:', error));
+      } else if (state === 'active' && this.status === 'running') {
+        sensorService.start();
+        // Coming back in the morning is the first chance to read last night's stillness
+        if (auth.currentUser) {
+          updateInferredSleep(auth.currentUser.uid).catch(error => console.warn('Sleep inference failed:', error));
+        }
+      }
+    });
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new StepTrackingService();
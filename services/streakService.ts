@@ -0,0 +1,343 @@
+// Streaks
+//
+// One document per user in `streaks` holds the overall activity streak, a
+// streak for each type of daily goal, and the user's streak freezes. Days are
+// settled once they are over: updateStreaks works through every day since the
+// last update up to yesterday.
+//
+// A day is active when the user took ACTIVE_DAY_MIN_STEPS steps or completed
+// any daily goal. An inactive day uses up a freeze if one is left, which
+// carries every streak through that day; otherwise the activity streak ends.
+// A goal type's streak grows on each day its daily goal was completed and
+// ends on any other day that was not frozen. A freeze is earned for every
+// FREEZE_EARN_DAYS active days in a row, up to MAX_STREAK_FREEZES.
+//
+// Milestones, freezes and broken streaks are kept in `streakHistory`, and
+// milestones are shared on the community activity feed.
+
+import { db } from '../app/firebaseConfig';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+import { GoalHistoryEntry, GoalStatus, GoalTimeFrame, GoalType } from '../models/FitnessGoalModels';
+import { getDailyStepTotals } from './stepLedgerService';
+import communityService from './communityService';
+import { addDays, getCurrentDate } from '../utils/dateUtils';
+
+export const ACTIVE_DAY_MIN_STEPS = 2000;
+export const FREEZE_EARN_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+export const STREAK_MILESTONES = [3, 7, 14, 30, 60, 100, 180, 365];
+const BACKFILL_DAYS = 60; // Days settled on the first update, so earlier activity counts
+
+export type StreakKey = 'activity' | GoalType;
+
+export const STREAK_LABELS: { [key in StreakKey]: string } = {
+  activity: 'activity',
+  [GoalType.STEP_COUNT]: 'step goal',
+  [GoalType.CALORIES_BURNED]: 'calories burned goal',
+  [GoalType.ACTIVE_MINUTES]: 'active minutes goal',
+  [GoalType.DISTANCE]: 'distance goal',
+  [GoalType.CALORIE_INTAKE]: 'calorie goal',
+  [GoalType.WEIGHT]: 'weight goal',
+  [GoalType.SLEEP]: 'sleep goal',
+  [GoalType.CUSTOM]: 'custom goal'
+};
+
+export interface Streak {
+  current: number;          // Days in a row, up to the last settled day
+  longest: number;
+  startDate: string | null; // First day of the current streak
+}
+
+export interface StreakState {
+  userId: string;
+  settledThrough: string | null; // Last day counted into the streaks
+  freezes: number;
+  streaks: { [key in StreakKey]?: Streak };
+  updatedAt: string;
+}
+
+// What happened on one day, as far as streaks are concerned
+export interface StreakDay {
+  date: string;
+  active: boolean;
+  completedGoalTypes: GoalType[];
+}
+
+export type StreakEventType = 'milestone' | 'freeze_earned' | 'freeze_used' | 'broken';
+
+export interface StreakHistoryEvent {
+  id?: string;
+  userId: string;
+  key: StreakKey;
+  type: StreakEventType;
+  date: string;
+  streak: number; // Length of the streak at the time
+  createdAt: string;
+}
+
+const emptyState = (userId: string): StreakState => ({
+  userId,
+  settledThrough: null,
+  freezes: 0,
+  streaks: {},
+  updatedAt: new Date().toISOString()
+});
+
+const emptyStreak = (): Streak => ({ current: 0, longest: 0, startDate: null });
+
+/**
+ * Count one day into the streaks
+ * @param state - Streak state, updated in place
+ * @param day - Activity and completed daily goals for the day
+ * @returns Events to add to the streak history
+ */
+export const settleStreakDay = (state: StreakState, day: StreakDay): StreakHistoryEvent[] => {
+  const events: StreakHistoryEvent[] = [];
+  const addEvent = (key: StreakKey, type: StreakEventType, streak: number) => {
+    events.push({ userId: state.userId, key, type, date: day.date, streak, createdAt: new Date().toISOString() });
+  };
+
+  const extend = (key: StreakKey): Streak => {
+    const streak = state.streaks[key] || emptyStreak();
+    streak.current += 1;
+    if (streak.current === 1) streak.startDate = day.date;
+    streak.longest = Math.max(streak.longest, streak.current);
+    state.streaks[key] = streak;
+
+    if (STREAK_MILESTONES.includes(streak.current)) {
+      addEvent(key, 'milestone', streak.current);
+    }
+    return streak;
+  };
+
+  const end = (key: StreakKey) => {
+    const streak = state.streaks[key];
+    if (!streak || streak.current === 0) return;
+
+    addEvent(key, 'broken', streak.current);
+    streak.current = 0;
+    streak.startDate = null;
+  };
+
+  // Settle the activity streak first, since it decides whether the day is frozen
+  let frozen = false;
+  const hasRunningStreak = Object.values(state.streaks).some(streak => streak && streak.current > 0);
+
+  if (day.active) {
+    const activity = extend('activity');
+    if (activity.current % FREEZE_EARN_DAYS === 0 && state.freezes < MAX_STREAK_FREEZES) {
+      state.freezes++;
+      addEvent('activity', 'freeze_earned', activity.current);
+    }
+  } else if (state.freezes > 0 && hasRunningStreak) {
+    state.freezes--;
+    frozen = true;
+    addEvent('activity', 'freeze_used', state.streaks.activity?.current || 0);
+  } else {
+    end('activity');
+  }
+
+  const goalKeys = new Set<GoalType>([
+    ...(Object.keys(state.streaks).filter(key => key !== 'activity') as GoalType[]),
+    ...day.completedGoalTypes
+  ]);
+
+  goalKeys.forEach(key => {
+    if (day.completedGoalTypes.includes(key)) {
+      extend(key);
+    } else if (!frozen) {
+      end(key);
+    }
+  });
+
+  return events;
+};
+
+/**
+ * Read a user's streaks as of the last settled day
+ * @param userId - User to read
+ */
+export const getStreakState = async (userId: string): Promise<StreakState> => {
+  try {
+    const streakDoc = await getDoc(doc(db, 'streaks', userId));
+    return streakDoc.exists() ? { ...emptyState(userId), ...streakDoc.data() } as StreakState : emptyState(userId);
+  } catch (error) {
+    console.error('Error getting streaks:', error);
+    return emptyState(userId);
+  }
+};
+
+/**
+ * Streaks that are still running, by key. A streak only counts if yesterday
+ * has been settled, so a stale one is not carried into new goals.
+ * @param userId - User to read
+ * @returns Promise resolving to the current length of each streak
+ */
+export const getCurrentStreaks = async (userId: string): Promise<{ [key in StreakKey]?: number }> => {
+  const state = await getStreakState(userId);
+  const current: { [key in StreakKey]?: number } = {};
+
+  if (!state.settledThrough || state.settledThrough < addDays(getCurrentDate(), -1)) {
+    return current;
+  }
+
+  (Object.keys(state.streaks) as StreakKey[]).forEach(key => {
+    current[key] = state.streaks[key]?.current || 0;
+  });
+
+  return current;
+};
+
+/**
+ * Daily goal results between two dates, from the goal history
+ */
+const getDailyGoalHistory = async (userId: string, startDate: string, endDate: string): Promise<GoalHistoryEntry[]> => {
+  const historyQuery = query(
+    collection(db, 'goalHistory'),
+    where('userId', '==', userId),
+    where('timeFrame', '==', GoalTimeFrame.DAILY),
+    where('endDate', '>=', startDate),
+    where('endDate', '<=', endDate)
+  );
+
+  const querySnapshot = await getDocs(historyQuery);
+  const entries: GoalHistoryEntry[] = [];
+
+  querySnapshot.forEach(snapshot => {
+    entries.push(snapshot.data() as GoalHistoryEntry);
+  });
+
+  return entries;
+};
+
+/**
+ * Settle every day since the last update, up to yesterday
+ * @param userId - User to update
+ * @returns Promise resolving to the updated streaks
+ */
+export const updateStreaks = async (userId: string): Promise<StreakState> => {
+  const state = await getStreakState(userId);
+  const yesterday = addDays(getCurrentDate(), -1);
+  const isFirstUpdate = !state.settledThrough;
+  const firstDay = state.settledThrough
+    ? addDays(state.settledThrough, 1)
+    : addDays(yesterday, -(BACKFILL_DAYS - 1));
+
+  if (firstDay > yesterday) return state;
+
+  const [stepTotals, goalHistory] = await Promise.all([
+    getDailyStepTotals(userId, firstDay, yesterday),
+    getDailyGoalHistory(userId, firstDay, yesterday)
+  ]);
+
+  const events: StreakHistoryEvent[] = [];
+  for (let date = firstDay; date <= yesterday; date = addDays(date, 1)) {
+    const completedGoalTypes = goalHistory
+      .filter(entry => entry.endDate === date && entry.status === GoalStatus.COMPLETED)
+      .map(entry => entry.type);
+    const steps = stepTotals.find(total => total.date === date)?.steps || 0;
+
+    events.push(...settleStreakDay(state, {
+      date,
+      active: steps >= ACTIVE_DAY_MIN_STEPS || completedGoalTypes.length > 0,
+      completedGoalTypes
+    }));
+  }
+
+  state.settledThrough = yesterday;
+  state.updatedAt = new Date().toISOString();
+  await setDoc(doc(db, 'streaks', userId), state);
+
+  // Leaderboards show the activity streak from the user document
+  try {
+    await updateDoc(doc(db, 'users', userId), { streak: state.streaks.activity?.current || 0 });
+  } catch (error) {
+    console.warn('Could not update the profile streak:', error);
+  }
+
+  for (const event of events) {
+    await addDoc(collection(db, 'streakHistory'), event);
+  }
+
+  // Milestones found while catching up on old days are not news
+  if (!isFirstUpdate) {
+    await publishMilestones(events);
+  }
+
+  return state;
+};
+
+/**
+ * Share streak milestones on the community activity feed
+ */
+const publishMilestones = async (events: StreakHistoryEvent[]): Promise<void> => {
+  for (const event of events.filter(e => e.type === 'milestone')) {
+    try {
+      await communityService.addActivityEvent('streak_milestone', {
+        streakKey: event.key,
+        streakLabel: STREAK_LABELS[event.key],
+        days: event.streak
+      });
+    } catch (error) {
+      console.warn('Could not share streak milestone:', error);
+    }
+  }
+};
+
+/**
+ * Get a user's streak history, newest first
+ * @param userId - User to read
+ * @param limitCount - Maximum number of events
+ */
+export const getStreakHistory = async (userId: string, limitCount: number = 20): Promise<StreakHistoryEvent[]> => {
+  try {
+    const historyQuery = query(
+      collection(db, 'streakHistory'),
+      where('userId', '==', userId),
+      orderBy('date', 'desc'),
+      limit(limitCount)
+    );
+
+    const querySnapshot = await getDocs(historyQuery);
+    const events: StreakHistoryEvent[] = [];
+
+    querySnapshot.forEach(snapshot => {
+      events.push({ id: snapshot.id, ...snapshot.data() } as StreakHistoryEvent);
+    });
+
+    return events;
+  } catch (error) {
+    console.error('Error getting streak history:', error);
+    return [];
+  }
+};
+
+/**
+ * Describe a streak history event for the timeline
+ */
+export const describeStreakEvent = (event: StreakHistoryEvent): string => {
+  const label = STREAK_LABELS[event.key];
+
+  switch (event.type) {
+    case 'milestone':
+      return `Reached a ${event.streak}-day ${label} streak`;
+    case 'freeze_earned':
+      return `Earned a streak freeze for ${event.streak} active days in a row`;
+    case 'freeze_used':
+      return 'A streak freeze covered a missed day';
+    case 'broken':
+      return `${event.streak}-day ${label} streak ended`;
+  }
+};
@@ -0,0 +1,52 @@
+// Weather providers
+//
+// WeatherService asks a WeatherProvider for the current conditions and the
+// hourly forecast at a location: OpenWeatherMap, Open-Meteo, or recorded
+// fixtures for tests and offline development. Providers throw when they have
+// no data; callers treat that as unknown weather rather than guessing. Air
+// quality, UV and daylight are left out when a provider cannot supply them.
+
+import { HourlyForecast, WeatherContext } from '../models/FitnessGoalModels';
+
+export interface WeatherProvider {
+  name: string;
+  requiresLocation: boolean; // Fixtures replay the same weather anywhere
+  getCurrentWeather(latitude: number, longitude: number): Promise<WeatherContext>;
+  // Hours from the current one on, oldest first
+  getHourlyForecast(latitude: number, longitude: number, hours: number): Promise<HourlyForecast[]>;
+}
+
+export type WeatherProviderName = 'openweathermap' | 'open-meteo' | 'fixture' | 'auto';
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+// EPA breakpoints from PM2.5 (µg/m³, 24-hour) to US AQI
+const PM25_BREAKPOINTS: [number, number, number, number][] = [
+  [0, 12, 0, 50],
+  [12.1, 35.4, 51, 100],
+  [35.5, 55.4, 101, 150],
+  [55.5, 150.4, 151, 200],
+  [150.5, 250.4, 201, 300],
+  [250.5, 500.4, 301, 500]
+];
+
+/**
+ * Convert a PM2.5 concentration to the US AQI, for providers that only
+ * report pollutant concentrations
+ * @param pm25 - Fine particles in µg/m³
+ */
+export const pm25ToUsAqi = (pm25: number): number => {
+  const concentration = Math.floor(Math.max(pm25, 0) * 10) / 10;
+  const breakpoint = PM25_BREAKPOINTS.find(([, high]) => concentration <= high);
+  if (!breakpoint) return 500;
+
+  const [low, high, aqiLow, aqiHigh] = breakpoint;
+  return Math.round((aqiHigh - aqiLow) / (high - low) * (concentration - low) + aqiLow);
+};
+
+/**
+ * Start of the hour an instant falls in, in milliseconds
+ */
+export const startOfHour = (time: number = Date.now()): number => {
+  return Math.floor(time / HOUR_MS) * HOUR_MS;
+};
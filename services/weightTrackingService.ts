@@ -0,0 +1,262 @@
+// Weight tracking
+//
+// Weigh-ins are kept in the `weighIns` collection, one document per user and
+// day (`${userId}_${date}`), so weighing twice in a day replaces the first
+// reading. Scale readings swing by a kilo or more with water and food, so
+// progress is judged on a trend weight: an exponential moving average that
+// moves a tenth of the way towards each new reading.
+
+import { auth, db } from '../app/firebaseConfig';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  deleteDoc,
+  updateDoc
+} from 'firebase/firestore';
+import { addDays, daysBetween, getCurrentDate } from '../utils/dateUtils';
+import { FitnessGoal } from '../models/FitnessGoalModels';
+import { setWeightOnSummary } from './dailySummaryService';
+
+export const TREND_SMOOTHING = 0.1;    // Share of each day's reading taken into the trend
+const RATE_WINDOW_DAYS = 28;           // Trend points used for the weekly rate
+const STABLE_WEEKLY_RATE = 0.05;       // kg/week; slower than this is treated as holding steady
+const GOAL_REACHED_MARGIN = 0.05;      // kg
+
+export interface WeighIn {
+  userId: string;
+  date: string;       // YYYY-MM-DD in the user's time zone
+  weight: number;     // kg
+  recordedAt: string; // ISO timestamp
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  weight: number; // Scale reading
+  trend: number;  // Smoothed weight
+}
+
+export interface WeightSummary {
+  latestWeight: number;
+  trendWeight: number;
+  weeklyRate: number;               // kg per week, negative when losing
+  targetWeight: number | null;
+  projectedGoalDate: string | null; // null if there is no target or the trend is not heading towards it
+  points: WeightTrendPoint[];
+}
+
+const weighInId = (userId: string, date: string) => `${userId}_${date}`;
+
+const round = (value: number, decimals: number = 2): number => Number(value.toFixed(decimals));
+
+/**
+ * Record the user's weight for a day and keep the profile weight up to date
+ * @param weightKg - Scale reading in kg
+ * @param date - Day of the weigh-in, defaults to today
+ * @returns Promise resolving to the saved weigh-in
+ */
+export const logWeighIn = async (weightKg: number, date: string = getCurrentDate()): Promise<WeighIn> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User not logged in');
+  }
+  if (!(weightKg > 0)) {
+    throw new Error('Weight must be above zero');
+  }
+
+  const weighIn: WeighIn = {
+    userId: user.uid,
+    date,
+    weight: round(weightKg, 1),
+    recordedAt: new Date().toISOString()
+  };
+
+  await setDoc(doc(db, 'weighIns', weighInId(user.uid, date)), weighIn);
+  await setWeightOnSummary(user.uid, date, weighIn.weight);
+
+  // BMR and calorie estimates read the profile weight
+  if (date >= getCurrentDate()) {
+    await updateDoc(doc(db, 'users', user.uid), { weight: weighIn.weight });
+  }
+
+  return weighIn;
+};
+
+/**
+ * Remove the weigh-in recorded on a day
+ * @param date - Day of the weigh-in
+ */
+export const deleteWeighIn = async (date: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User not logged in');
+  }
+
+  await deleteDoc(doc(db, 'weighIns', weighInId(user.uid, date)));
+  await setWeightOnSummary(user.uid, date, null);
+};
+
+/**
+ * Get a user's weigh-ins, oldest first
+ * @param userId - User to read
+ * @param startDate - Optional start date (inclusive)
+ * @param endDate - Optional end date (inclusive)
+ */
+export const getWeighIns = async (userId: string, startDate?: string, endDate?: string): Promise<WeighIn[]> => {
+  const constraints = [where('userId', '==', userId)];
+  if (startDate) constraints.push(where('date', '>=', startDate));
+  if (endDate) constraints.push(where('date', '<=', endDate));
+
+  const querySnapshot = await getDocs(query(collection(db, 'weighIns'), ...constraints));
+  const weighIns: WeighIn[] = [];
+
+  querySnapshot.forEach(snapshot => {
+    weighIns.push(snapshot.data() as WeighIn);
+  });
+
+  return weighIns.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Smooth weigh-ins into a trend. A reading after a gap counts for every day
+ * since the last one, as if the scale had shown it each of those days, so it
+ * moves the trend further than a reading the next day.
+ * @param weighIns - Weigh-ins, oldest first
+ * @param smoothing - Share of each day's reading taken into the trend
+ */
+export const calculateWeightTrend = (weighIns: WeighIn[], smoothing: number = TREND_SMOOTHING): WeightTrendPoint[] => {
+  const points: WeightTrendPoint[] = [];
+
+  weighIns.forEach((weighIn, index) => {
+    if (index === 0) {
+      points.push({ date: weighIn.date, weight: weighIn.weight, trend: weighIn.weight });
+      return;
+    }
+
+    const previous = points[points.length - 1];
+    const days = Math.max(1, daysBetween(previous.date, weighIn.date));
+    const alpha = 1 - Math.pow(1 - smoothing, days);
+    const trend = previous.trend + alpha * (weighIn.weight - previous.trend);
+
+    points.push({ date: weighIn.date, weight: weighIn.weight, trend: round(trend) });
+  });
+
+  return points;
+};
+
+/**
+ * Rate of change of the trend over the last four weeks, from a least-squares fit
+ * @param points - Trend points, oldest first
+ * @returns kg per week, negative when losing
+ */
+export const calculateWeeklyRate = (points: WeightTrendPoint[]): number => {
+  if (points.length < 2) return 0;
+
+  const lastDate = points[points.length - 1].date;
+  const recent = points.filter(point => daysBetween(point.date, lastDate) <= RATE_WINDOW_DAYS);
+  if (recent.length < 2) return 0;
+
+  const xs = recent.map(point => daysBetween(recent[0].date, point.date));
+  const ys = recent.map(point => point.trend);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, i) => {
+    numerator += (x - meanX) * (ys[i] - meanY);
+    denominator += (x - meanX) * (x - meanX);
+  });
+
+  return denominator > 0 ? round((numerator / denominator) * 7) : 0;
+};
+
+/**
+ * Work out when the trend will reach a target weight at the current rate
+ * @param trendWeight - Current trend weight
+ * @param targetWeight - Goal weight
+ * @param weeklyRate - kg per week
+ * @param fromDate - Day to project from, defaults to today
+ * @returns The projected date, or null if the trend is flat or moving away from the target
+ */
+export const projectGoalDate = (
+  trendWeight: number,
+  targetWeight: number,
+  weeklyRate: number,
+  fromDate: string = getCurrentDate()
+): string | null => {
+  const remaining = targetWeight - trendWeight;
+  if (Math.abs(remaining) <= GOAL_REACHED_MARGIN) return fromDate;
+  if (Math.abs(weeklyRate) < STABLE_WEEKLY_RATE || Math.sign(remaining) !== Math.sign(weeklyRate)) {
+    return null;
+  }
+
+  return addDays(fromDate, Math.ceil((remaining / weeklyRate) * 7));
+};
+
+/**
+ * Current trend weight, falling back to the profile weight before the first weigh-in
+ * @param userId - User to read
+ * @param asOfDate - Optional last day to include, for the trend on an earlier day
+ * @returns Promise resolving to the weight in kg, or null if unknown
+ */
+export const getTrendWeight = async (userId: string, asOfDate?: string): Promise<number | null> => {
+  try {
+    const points = calculateWeightTrend(await getWeighIns(userId, undefined, asOfDate));
+    if (points.length > 0) {
+      return points[points.length - 1].trend;
+    }
+
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    const weight = userDoc.exists() ? userDoc.data().weight : undefined;
+    return weight > 0 ? weight : null;
+  } catch (error) {
+    console.error('Error getting trend weight:', error);
+    return null;
+  }
+};
+
+/**
+ * Latest weight, trend, weekly rate and projection for a user
+ * @param userId - User to read
+ * @param targetWeight - Goal weight to project towards, if any
+ * @returns Promise resolving to the summary, or null before the first weigh-in
+ */
+export const getWeightSummary = async (userId: string, targetWeight?: number | null): Promise<WeightSummary | null> => {
+  try {
+    const points = calculateWeightTrend(await getWeighIns(userId));
+    if (points.length === 0) return null;
+
+    const latest = points[points.length - 1];
+    const weeklyRate = calculateWeeklyRate(points);
+
+    return {
+      latestWeight: latest.weight,
+      trendWeight: latest.trend,
+      weeklyRate,
+      targetWeight: targetWeight ?? null,
+      projectedGoalDate: targetWeight ? projectGoalDate(latest.trend, targetWeight, weeklyRate) : null,
+      points
+    };
+  } catch (error) {
+    console.error('Error getting weight summary:', error);
+    return null;
+  }
+};
+
+/**
+ * How far a weight goal has come from its starting weight towards the target
+ * @param goal - Weight goal
+ * @returns Fraction between 0 and 1
+ */
+export const getWeightGoalProgress = (goal: FitnessGoal): number => {
+  const start = goal.startValue ?? goal.current;
+  const total = goal.target - start;
+  if (Math.abs(total) < GOAL_REACHED_MARGIN) return 1;
+
+  return Math.min(1, Math.max(0, (goal.current - start) / total));
+};
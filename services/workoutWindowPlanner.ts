@@ -0,0 +1,228 @@
+// Workout window planner
+//
+// Scores the hours of the forecast for exercising outdoors and picks the best
+// stretch of a day. How warm it feels, wind, rain and UV make up the weather
+// score, and hours after dark are left out; hours inside the user's preferred
+// workout time get a bonus on top, so a slightly cooler evening can beat a
+// perfect lunchtime for someone who trains after work, but a rainy evening
+// never makes it into a window.
+
+import { HourlyForecast } from '../models/FitnessGoalModels';
+import { addDays, formatDate, getHourOfDay } from '../utils/dateUtils';
+
+export type WorkoutTimePreference = 'any' | 'morning' | 'midday' | 'afternoon' | 'evening';
+
+export const DEFAULT_WORKOUT_TIME: WorkoutTimePreference = 'any';
+
+export const WORKOUT_TIME_LABELS: { [key in WorkoutTimePreference]: string } = {
+  any: 'Any time',
+  morning: 'Morning (6-10)',
+  midday: 'Midday (11-14)',
+  afternoon: 'Afternoon (14-18)',
+  evening: 'Evening (18-21)'
+};
+
+// First and last hour each preference covers
+const PREFERRED_HOURS: { [key in WorkoutTimePreference]: [number, number] } = {
+  any: [0, 23],
+  morning: [6, 9],
+  midday: [11, 13],
+  afternoon: [14, 17],
+  evening: [18, 20]
+};
+
+const FIRST_HOUR = 6;         // Earliest hour a window may start
+const LAST_HOUR = 20;         // Latest hour a window may start
+const GOOD_SCORE = 60;        // Weather score an hour needs to be part of a window
+const PREFERRED_BONUS = 15;
+const MAX_WINDOW_HOURS = 3;
+const WET_PROBABILITY = 0.5;
+const WET_PRECIPITATION = 0.5; // mm per hour
+const CLEAR_SPELL_HOURS = 2;  // Dry hours in a row before it counts as clearing up
+const HIGH_UV_INDEX = 8;      // Sun strong enough to cost points
+const HIGH_UV_PENALTY = 15;
+
+export interface ScoredHour {
+  forecast: HourlyForecast;
+  weatherScore: number; // 0-100
+  score: number;        // Weather score plus the preferred time bonus
+  preferred: boolean;
+}
+
+export interface WorkoutWindow {
+  start: string; // ISO
+  end: string;   // ISO
+  hours: ScoredHour[];
+  score: number; // Average of the hours
+  preferred: boolean; // Starts inside the preferred workout time
+}
+
+export interface WorkoutPlan {
+  today: WorkoutWindow | null;
+  tomorrow: WorkoutWindow | null;
+  current: HourlyForecast | null; // The hour now, when the forecast covers it
+  clearsUpAt: string | null; // ISO start of the first dry spell, when wet now
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Whether a stored value is a known preference
+ */
+export const isWorkoutTimePreference = (value: unknown): value is WorkoutTimePreference => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WORKOUT_TIME_LABELS, value);
+};
+
+/**
+ * Whether an hour of the forecast is rainy or snowy
+ */
+export const isWetHour = (hour: HourlyForecast): boolean => {
+  return hour.precipitationProbability >= WET_PROBABILITY ||
+    hour.precipitation >= WET_PRECIPITATION ||
+    hour.condition === 'rainy' ||
+    hour.condition === 'snowy';
+};
+
+/**
+ * Score an hour for outdoor activity from its weather alone
+ * @returns 0-100; 40 for temperature, 20 for wind and 40 for staying dry,
+ *          less a penalty for very high UV
+ */
+export const scoreWeather = (hour: HourlyForecast): number => {
+  // 10-22°C is comfortable for most activity; lose 4 points per degree outside it
+  const temperature = hour.feelsLike ?? hour.temperature;
+  const temperatureGap = Math.max(10 - temperature, temperature - 22, 0);
+  const temperatureScore = Math.max(40 - temperatureGap * 4, 0);
+
+  // Full marks up to 4 m/s, nothing from 12 m/s
+  const windScore = 20 * Math.min(Math.max((12 - hour.windSpeed) / 8, 0), 1);
+
+  const dryScore = hour.precipitation >= WET_PRECIPITATION || hour.condition === 'snowy'
+    ? 0
+    : 40 * (1 - hour.precipitationProbability);
+
+  const uvPenalty = (hour.uvIndex ?? 0) >= HIGH_UV_INDEX ? HIGH_UV_PENALTY : 0;
+
+  return Math.max(Math.round(temperatureScore + windScore + dryScore - uvPenalty), 0);
+};
+
+/**
+ * Score an hour for outdoor activity
+ * @param preference - The user's preferred workout time
+ */
+export const scoreHour = (hour: HourlyForecast, preference: WorkoutTimePreference = DEFAULT_WORKOUT_TIME): ScoredHour => {
+  const [first, last] = PREFERRED_HOURS[preference];
+  const hourOfDay = getHourOfDay(new Date(hour.time));
+  const preferred = preference !== 'any' && hourOfDay >= first && hourOfDay <= last;
+  const weatherScore = scoreWeather(hour);
+
+  return {
+    forecast: hour,
+    weatherScore,
+    score: weatherScore + (preferred ? PREFERRED_BONUS : 0),
+    preferred
+  };
+};
+
+/**
+ * Find the best stretch of up to MAX_WINDOW_HOURS good, dry hours on a day. The
+ * best hour is widened with whichever neighbour scores higher while the
+ * neighbours are good too.
+ * @param forecast - Hourly forecast, oldest first
+ * @param dateKey - Day to plan (YYYY-MM-DD)
+ * @param now - Hours that have already ended are skipped
+ * @returns The window, or null when no hour that day is good enough
+ */
+export const findBestWindow = (
+  forecast: HourlyForecast[],
+  preference: WorkoutTimePreference,
+  dateKey: string,
+  now: Date = new Date()
+): WorkoutWindow | null => {
+  const hours = forecast
+    .filter(hour => {
+      const start = new Date(hour.time);
+      const hourOfDay = getHourOfDay(start);
+      return start.getTime() + HOUR_MS > now.getTime() &&
+        formatDate(start) === dateKey &&
+        hourOfDay >= FIRST_HOUR &&
+        hourOfDay <= LAST_HOUR &&
+        hour.isDaylight !== false;
+    })
+    .map(hour => scoreHour(hour, preference));
+
+  const isGood = (index: number): boolean => index >= 0 && index < hours.length &&
+    hours[index].weatherScore >= GOOD_SCORE && !isWetHour(hours[index].forecast);
+  const follows = (earlier: number, later: number): boolean =>
+    new Date(hours[later].forecast.time).getTime() - new Date(hours[earlier].forecast.time).getTime() === HOUR_MS;
+
+  let best = -1;
+  hours.forEach((hour, index) => {
+    if (isGood(index) && (best < 0 || hour.score > hours[best].score)) best = index;
+  });
+  if (best < 0) return null;
+
+  let first = best;
+  let last = best;
+  while (last - first + 1 < MAX_WINDOW_HOURS) {
+    const canExtendBack = isGood(first - 1) && follows(first - 1, first);
+    const canExtendForward = isGood(last + 1) && follows(last, last + 1);
+    if (!canExtendBack && !canExtendForward) break;
+
+    if (canExtendForward && (!canExtendBack || hours[last + 1].score >= hours[first - 1].score)) {
+      last++;
+    } else {
+      first--;
+    }
+  }
+
+  const windowHours = hours.slice(first, last + 1);
+  return {
+    start: windowHours[0].forecast.time,
+    end: new Date(new Date(windowHours[windowHours.length - 1].forecast.time).getTime() + HOUR_MS).toISOString(),
+    hours: windowHours,
+    score: Math.round(windowHours.reduce((sum, hour) => sum + hour.score, 0) / windowHours.length),
+    preferred: windowHours[0].preferred
+  };
+};
+
+/**
+ * When the weather is wet now, find when it clears up
+ * @param forecast - Hourly forecast, oldest first
+ * @returns ISO start of the first dry spell, or null when it is dry now or stays wet
+ */
+export const findClearingTime = (forecast: HourlyForecast[], now: Date = new Date()): string | null => {
+  const upcoming = forecast.filter(hour => new Date(hour.time).getTime() + HOUR_MS > now.getTime());
+  if (!upcoming.length || !isWetHour(upcoming[0])) return null;
+
+  for (let i = 1; i + CLEAR_SPELL_HOURS <= upcoming.length; i++) {
+    if (upcoming.slice(i, i + CLEAR_SPELL_HOURS).every(hour => !isWetHour(hour))) {
+      return upcoming[i].time;
+    }
+  }
+  return null;
+};
+
+/**
+ * Plan outdoor activity for the rest of today and tomorrow
+ * @param forecast - Hourly forecast, oldest first
+ * @param preference - The user's preferred workout time
+ */
+export const planWorkoutWindows = (
+  forecast: HourlyForecast[],
+  preference: WorkoutTimePreference = DEFAULT_WORKOUT_TIME,
+  now: Date = new Date()
+): WorkoutPlan => {
+  const today = formatDate(now);
+  const current = forecast.find(hour => {
+    const start = new Date(hour.time).getTime();
+    return start <= now.getTime() && start + HOUR_MS > now.getTime();
+  });
+
+  return {
+    today: findBestWindow(forecast, preference, today, now),
+    tomorrow: findBestWindow(forecast, preference, addDays(today, 1), now),
+    current: current || null,
+    clearsUpAt: findClearingTime(forecast, now)
+  };
+};
@@ -9,11 +9,15 @@ export type RootStackParamList = {
   'main-menu': undefined;
   'user-profile': undefined;
   'step-counter': undefined;
+  'step-calibration': undefined;
   'calorie-tracker': undefined;
+  'sleep-tracker': undefined;
   'leaderboard': undefined;
   'personalized-goals': { tab?: string };
   'goal-detail': { goalId: string };
+  'custom-goal': { goalId?: string };
   'fitness-analytics': undefined;
+  'trophy-case': undefined;
   'coach': undefined;
   'community-leaderboards': undefined;
   'team-detail': { teamId: string };
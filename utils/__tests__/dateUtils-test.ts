@@ -0,0 +1,110 @@
+import {
+  addDays,
+  formatDate,
+  getEndOfMonth,
+  getEndOfWeek,
+  getStartOfMonth,
+  getStartOfWeek,
+  isWeekStartDay,
+  zonedTimeToDate
+} from '../dateUtils';
+
+const NEW_YORK = 'America/New_York';
+const KOLKATA = 'Asia/Kolkata';
+
+describe('formatDate', () => {
+  it('uses the day in the given time zone late in the evening', () => {
+    // 23:30 and 00:15 in India (UTC+5:30)
+    expect(formatDate(new Date('2025-03-31T18:00:00Z'), KOLKATA)).toBe('2025-03-31');
+    expect(formatDate(new Date('2025-03-31T18:45:00Z'), KOLKATA)).toBe('2025-04-01');
+  });
+
+  it('keeps the local day across a DST change', () => {
+    // 23:59 EST and 00:30 EDT around the spring-forward night
+    expect(formatDate(new Date('2025-03-09T04:59:00Z'), NEW_YORK)).toBe('2025-03-08');
+    expect(formatDate(new Date('2025-03-10T04:30:00Z'), NEW_YORK)).toBe('2025-03-10');
+  });
+});
+
+describe('zonedTimeToDate', () => {
+  it('converts midnight in a half-hour time zone', () => {
+    expect(zonedTimeToDate('2025-04-01', 0, 0, KOLKATA).toISOString()).toBe('2025-03-31T18:30:00.000Z');
+    expect(zonedTimeToDate('2025-03-31', 23, 30, KOLKATA).toISOString()).toBe('2025-03-31T18:00:00.000Z');
+  });
+
+  it('moves a skipped DST hour forward by the gap', () => {
+    // 02:30 does not exist on 9 March 2025 in New York; 03:30 EDT does
+    expect(zonedTimeToDate('2025-03-09', 2, 30, NEW_YORK).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('resolves a repeated DST hour to its first occurrence', () => {
+    // 01:30 happens twice on 2 November 2025 in New York; the first is EDT
+    expect(zonedTimeToDate('2025-11-02', 1, 30, NEW_YORK).toISOString()).toBe('2025-11-02T05:30:00.000Z');
+  });
+
+  it('starts days on either side of a DST change at local midnight', () => {
+    expect(zonedTimeToDate('2025-03-09', 0, 0, NEW_YORK).toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(zonedTimeToDate('2025-03-10', 0, 0, NEW_YORK).toISOString()).toBe('2025-03-10T04:00:00.000Z');
+    expect(zonedTimeToDate('2025-11-03', 0, 0, NEW_YORK).toISOString()).toBe('2025-11-03T05:00:00.000Z');
+  });
+
+  it('round-trips with formatDate', () => {
+    ['2025-03-09', '2025-11-02', '2024-12-31'].forEach(dateKey => {
+      expect(formatDate(zonedTimeToDate(dateKey, 0, 0, NEW_YORK), NEW_YORK)).toBe(dateKey);
+      expect(formatDate(zonedTimeToDate(dateKey, 23, 59, KOLKATA), KOLKATA)).toBe(dateKey);
+    });
+  });
+});
+
+describe('getStartOfWeek', () => {
+  it('keeps the last day of a week in that week', () => {
+    // Saturday 4 January 2025 ends a Sunday week; Sunday 5 January ends a Monday week
+    expect(getStartOfWeek('2025-01-04', 'sunday')).toBe('2024-12-29');
+    expect(getEndOfWeek('2025-01-04', 'sunday')).toBe('2025-01-04');
+    expect(getStartOfWeek('2025-01-05', 'monday')).toBe('2024-12-30');
+    expect(getEndOfWeek('2025-01-05', 'monday')).toBe('2025-01-05');
+    expect(getStartOfWeek('2025-01-03', 'saturday')).toBe('2024-12-28');
+  });
+
+  it('starts a new week on the week start day', () => {
+    expect(getStartOfWeek('2025-01-05', 'sunday')).toBe('2025-01-05');
+    expect(getStartOfWeek('2025-01-06', 'monday')).toBe('2025-01-06');
+    expect(getStartOfWeek('2025-01-04', 'saturday')).toBe('2025-01-04');
+  });
+
+  it('spans a DST change in seven calendar days', () => {
+    expect(getStartOfWeek('2025-03-15', 'sunday')).toBe('2025-03-09');
+    expect(getEndOfWeek('2025-03-09', 'sunday')).toBe('2025-03-15');
+  });
+});
+
+describe('isWeekStartDay', () => {
+  it('accepts only the supported days', () => {
+    expect(isWeekStartDay('sunday')).toBe(true);
+    expect(isWeekStartDay('monday')).toBe(true);
+    expect(isWeekStartDay('tuesday')).toBe(false);
+    expect(isWeekStartDay('toString')).toBe(false);
+    expect(isWeekStartDay('constructor')).toBe(false);
+    expect(isWeekStartDay(1)).toBe(false);
+  });
+});
+
+describe('getStartOfMonth', () => {
+  it('finds the first day from the last day of a month', () => {
+    expect(getStartOfMonth('2025-01-31')).toBe('2025-01-01');
+    expect(getStartOfMonth('2025-04-30')).toBe('2025-04-01');
+  });
+
+  it('handles February in leap and common years', () => {
+    expect(getStartOfMonth('2024-02-29')).toBe('2024-02-01');
+    expect(getEndOfMonth('2024-02-10')).toBe('2024-02-29');
+    expect(getEndOfMonth('2025-02-10')).toBe('2025-02-28');
+  });
+
+  it('stays in the year on its last day', () => {
+    expect(getStartOfMonth('2024-12-31')).toBe('2024-12-01');
+    expect(getEndOfMonth('2024-12-01')).toBe('2024-12-31');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(getStartOfMonth(addDays('2024-12-31', 1))).toBe('2025-01-01');
+  });
+});
@@ -1,86 +1,387 @@
 /**
- * Date utility functions for consistent date handling across the app
+ * Date utility functions for consistent date handling across the app.
+ *
+ * Every stored day is a "local day key" (YYYY-MM-DD) in the user's time zone,
+ * so steps, food and goals logged late in the evening land on the same day the
+ * user sees on their clock. Day keys are plain calendar dates: arithmetic on
+ * them (adding days, finding the first of the month) never crosses a DST change.
  */
 
+const DEFAULT_TIME_ZONE = 'UTC';
+
+// Day the user's week begins on
+export type WeekStartDay = 'monday' | 'sunday' | 'saturday';
+
+export const DEFAULT_WEEK_START: WeekStartDay = 'sunday';
+
+const WEEK_START_INDEX: { [key in WeekStartDay]: number } = {
+  sunday: 0,
+  monday: 1,
+  saturday: 6
+};
+
+let activeTimeZone: string | null = null;
+let activeWeekStart: WeekStartDay = DEFAULT_WEEK_START;
+
 /**
- * Formats a date to YYYY-MM-DD format
- * @param date - Date object to format
- * @returns formatted date string
+ * Gets the IANA time zone the device is currently set to
+ * @returns time zone name, e.g. "Asia/Colombo"
  */
-export const formatDate = (date: Date): string => {
-    return date.toISOString().split('T')[0];
-  };
-  
-  /**
-   * Gets the current date in YYYY-MM-DD format
-   * @returns today's date as string
-   */
-  export const getCurrentDate = (): string => {
-    return formatDate(new Date());
-  };
-  
-  /**
-   * Formats a date to a readable string (e.g., "March 31, 2025")
-   * @param date - Date object to format
-   * @returns formatted date string
-   */
-  export const formatReadableDate = (date: Date): string => {
-    return date.toLocaleDateString('en-US', {
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch (error) {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+/**
+ * Checks whether a string is a time zone the runtime understands
+ * @param timeZone - IANA time zone name
+ * @returns boolean indicating if the time zone can be used
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone }).format(new Date());
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Sets the time zone used to compute day keys, normally the one stored on the
+ * user's profile. Invalid zones fall back to the device time zone.
+ * @param timeZone - IANA time zone name, or null to follow the device
+ */
+export const setActiveTimeZone = (timeZone: string | null): void => {
+  activeTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+};
+
+/**
+ * Gets the time zone used to compute day keys
+ * @returns time zone name
+ */
+export const getActiveTimeZone = (): string => {
+  return activeTimeZone || getDeviceTimeZone();
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatterCache[timeZone]) {
+    formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
       year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-  
-  /**
-   * Formats time to HH:MM format
-   * @param date - Date object to format
-   * @returns formatted time string
-   */
-  export const formatTime = (date: Date): string => {
-    return date.toLocaleTimeString('en-US', {
+      month: '2-digit',
+      day: '2-digit',
       hour: '2-digit',
       minute: '2-digit',
-      hour12: true
+      second: '2-digit'
     });
+  }
+  return formatterCache[timeZone];
+};
+
+/**
+ * Gets the wall-clock fields of an instant in a time zone
+ */
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: { [type: string]: number } = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second
   };
-  
-  /**
-   * Checks if two dates are the same day
-   * @param date1 - First date to compare
-   * @param date2 - Second date to compare
-   * @returns boolean indicating if dates are the same day
-   */
-  export const isSameDay = (date1: Date, date2: Date): boolean => {
-    return formatDate(date1) === formatDate(date2);
-  };
-  
-  /**
-   * Gets the start of the current day
-   * @returns Date object set to start of current day
-   */
-  export const getStartOfDay = (): Date => {
-    const date = new Date();
-    date.setHours(0, 0, 0, 0);
-    return date;
-  };
-  
-  /**
-   * Gets the end of the current day
-   * @returns Date object set to end of current day
-   */
-  export const getEndOfDay = (): Date => {
-    const date = new Date();
-    date.setHours(23, 59, 59, 999);
-    return date;
-  };
-  
-  /**
-   * Validates if a string is in YYYY-MM-DD format
-   * @param dateString - String to validate
-   * @returns boolean indicating if string is valid date format
-   */
-  export const isValidDateFormat = (dateString: string): boolean => {
-    const regex = /^\d{4}-\d{2}-\d{2}$/;
-    return regex.test(dateString);
-  };
\ No newline at end of file
+};
+
+/**
+ * Gets how far a time zone is ahead of UTC at a given instant
+ * @param date - Instant to check (the offset changes across DST)
+ * @param timeZone - IANA time zone name
+ * @returns offset in minutes, e.g. 330 for UTC+5:30
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string = getActiveTimeZone()): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+};
+
+/**
+ * Formats a date to YYYY-MM-DD format in the user's time zone
+ * @param date - Date object to format
+ * @param timeZone - Time zone to use; defaults to the active time zone
+ * @returns formatted date string
+ */
+export const formatDate = (date: Date, timeZone: string = getActiveTimeZone()): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Gets the current date in YYYY-MM-DD format
+ * @returns today's date as string
+ */
+export const getCurrentDate = (): string => {
+  return formatDate(new Date());
+};
+
+/**
+ * Formats a date to a readable string (e.g., "March 31, 2025")
+ * @param date - Date object to format
+ * @returns formatted date string
+ */
+export const formatReadableDate = (date: Date): string => {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: getActiveTimeZone()
+  });
+};
+
+/**
+ * Formats time to HH:MM format
+ * @param date - Date object to format
+ * @returns formatted time string
+ */
+export const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: getActiveTimeZone()
+  });
+};
+
+/**
+ * Checks if two dates are the same day
+ * @param date1 - First date to compare
+ * @param date2 - Second date to compare
+ * @returns boolean indicating if dates are the same day
+ */
+export const isSameDay = (date1: Date, date2: Date): boolean => {
+  return formatDate(date1) === formatDate(date2);
+};
+
+/**
+ * Gets the hour of an instant in the user's time zone
+ * @param date - Date object to read
+ * @returns hour of the day (0-23)
+ */
+export const getHourOfDay = (date: Date): number => {
+  return getZonedParts(date, getActiveTimeZone()).hour;
+};
+
+/**
+ * Converts a wall-clock time on a local day to the instant it happens
+ * @param dateKey - Day in YYYY-MM-DD format
+ * @param hours - Hour of the day (0-23)
+ * @param minutes - Minutes
+ * @param timeZone - Time zone the wall-clock time is in
+ * @returns Date for that instant; times skipped by DST move forward by the gap
+ */
+export const zonedTimeToDate = (
+  dateKey: string,
+  hours: number = 0,
+  minutes: number = 0,
+  timeZone: string = getActiveTimeZone()
+): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Try the offsets in force on either side of a possible DST transition and
+  // keep the one that reproduces the requested wall-clock time
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const secondGuess = wallClock - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000;
+  const candidates = [firstGuess, secondGuess].sort((a, b) => a - b);
+
+  const matching = candidates.find(candidate => {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) === wallClock;
+  });
+
+  // Repeated times resolve to the first occurrence, skipped times to after the gap
+  return new Date(matching !== undefined ? matching : candidates[1]);
+};
+
+/**
+ * Gets the start of a day in the user's time zone
+ * @param date - Any instant on the day; defaults to now
+ * @returns Date object set to start of that day
+ */
+export const getStartOfDay = (date: Date = new Date()): Date => {
+  return zonedTimeToDate(formatDate(date));
+};
+
+/**
+ * Gets the end of a day in the user's time zone
+ * @param date - Any instant on the day; defaults to now
+ * @returns Date object set to end of that day
+ */
+export const getEndOfDay = (date: Date = new Date()): Date => {
+  const nextDay = addDays(formatDate(date), 1);
+  return new Date(zonedTimeToDate(nextDay).getTime() - 1);
+};
+
+/**
+ * Adds a number of calendar days to a day key
+ * @param dateKey - Day in YYYY-MM-DD format
+ * @param days - Days to add, may be negative
+ * @returns resulting day in YYYY-MM-DD format
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+/**
+ * Counts calendar days between two day keys
+ * @param fromKey - Start day in YYYY-MM-DD format
+ * @param toKey - End day in YYYY-MM-DD format
+ * @returns number of days from start to end (negative if end is earlier)
+ */
+export const daysBetween = (fromKey: string, toKey: string): number => {
+  const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+  const [toYear, toMonth, toDay] = toKey.split('-').map(Number);
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000
+  );
+};
+
+/**
+ * Gets the day of the week for a day key
+ * @param dateKey - Day in YYYY-MM-DD format
+ * @returns 0 for Sunday through 6 for Saturday
+ */
+export const getDayOfWeek = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Checks whether a value is a supported week start day
+ * @param value - Value to check, e.g. from a user profile
+ * @returns boolean indicating if the value is a WeekStartDay
+ */
+export const isWeekStartDay = (value: unknown): value is WeekStartDay => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEEK_START_INDEX, value);
+};
+
+/**
+ * Sets the day weeks start on, normally the user's profile preference
+ * @param weekStart - Preferred week start; invalid values fall back to the default
+ */
+export const setWeekStartPreference = (weekStart: WeekStartDay | null | undefined): void => {
+  activeWeekStart = isWeekStartDay(weekStart) ? weekStart : DEFAULT_WEEK_START;
+};
+
+/**
+ * Gets the day weeks start on
+ * @returns week start day
+ */
+export const getWeekStartPreference = (): WeekStartDay => {
+  return activeWeekStart;
+};
+
+/**
+ * Gets the first day of the week containing a day
+ * @param dateKey - Day in YYYY-MM-DD format; defaults to today
+ * @param weekStart - Day weeks start on; defaults to the user's preference
+ * @returns first day of the week in YYYY-MM-DD format
+ */
+export const getStartOfWeek = (
+  dateKey: string = getCurrentDate(),
+  weekStart: WeekStartDay = activeWeekStart
+): string => {
+  const offset = (getDayOfWeek(dateKey) - WEEK_START_INDEX[weekStart] + 7) % 7;
+  return addDays(dateKey, -offset);
+};
+
+/**
+ * Gets the last day of the week containing a day
+ * @param dateKey - Day in YYYY-MM-DD format; defaults to today
+ * @param weekStart - Day weeks start on; defaults to the user's preference
+ * @returns last day of the week in YYYY-MM-DD format
+ */
+export const getEndOfWeek = (
+  dateKey: string = getCurrentDate(),
+  weekStart: WeekStartDay = activeWeekStart
+): string => {
+  return addDays(getStartOfWeek(dateKey, weekStart), 6);
+};
+
+/**
+ * Gets the ISO 8601 week a day falls in. ISO weeks always start on Monday and
+ * week 1 is the week containing the year's first Thursday, so the week-year
+ * can differ from the calendar year around New Year.
+ * @param dateKey - Day in YYYY-MM-DD format
+ * @returns ISO week-year and week number (1-53)
+ */
+export const getISOWeek = (dateKey: string): { year: number; week: number } => {
+  // The Thursday of this ISO week decides which year the week belongs to
+  const thursday = addDays(dateKey, 3 - ((getDayOfWeek(dateKey) + 6) % 7));
+  const year = Number(thursday.slice(0, 4));
+  const week = Math.floor(daysBetween(`${year}-01-01`, thursday) / 7) + 1;
+
+  return { year, week };
+};
+
+/**
+ * Formats the ISO week of a day (e.g., "2025-W14")
+ * @param dateKey - Day in YYYY-MM-DD format
+ * @returns ISO week string
+ */
+export const formatISOWeek = (dateKey: string): string => {
+  const { year, week } = getISOWeek(dateKey);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+};
+
+/**
+ * Gets the first day of the month containing a day
+ * @param dateKey - Day in YYYY-MM-DD format; defaults to today
+ * @returns first day of the month in YYYY-MM-DD format
+ */
+export const getStartOfMonth = (dateKey: string = getCurrentDate()): string => {
+  return `${dateKey.slice(0, 7)}-01`;
+};
+
+/**
+ * Gets the last day of the month containing a day
+ * @param dateKey - Day in YYYY-MM-DD format; defaults to today
+ * @returns last day of the month in YYYY-MM-DD format
+ */
+export const getEndOfMonth = (dateKey: string = getCurrentDate()): string => {
+  const [year, month] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+};
+
+/**
+ * Validates if a string is in YYYY-MM-DD format
+ * @param dateString - String to validate
+ * @returns boolean indicating if string is valid date format
+ */
+export const isValidDateFormat = (dateString: string): boolean => {
+  const regex = /^\d{4}-\d{2}-\d{2}$/;
+  return regex.test(dateString);
+};